@@ -10,6 +10,15 @@ import { useProjects } from "@/hooks/useProjects";
 import { useAutoSave } from "@/hooks/useAutoSave";
 import { renderScene } from "@/lib/vector/renderer";
 import { downloadSvgFile, exportDocumentToSvg } from "@/lib/vector/svgExport";
+import { insertSvgMarkup } from "@/lib/vector/insertSvg";
+import { restoreHistory, serializeHistory } from "@/lib/sync/persistedHistory";
+import { DOCUMENT_VERSION, migrateDocument } from "@/lib/vector/documentFormat";
+import {
+  formatValidationReport,
+  validateGrid,
+  validateGuides,
+  validateLayers,
+} from "@/lib/vector/documentValidation";
 import { CanvasContainer } from "@/components/canvas/CanvasContainer";
 import { Toolbar } from "@/components/toolbar/Toolbar";
 import { ToolPanel } from "@/components/toolbar/ToolPanel";
@@ -17,6 +26,7 @@ import { ColorPicker } from "@/components/toolbar/ColorPicker";
 import { BrushSettings } from "@/components/toolbar/BrushSettings";
 import { PropertiesPanel } from "@/components/panels/PropertiesPanel";
 import { LayersPanel } from "@/components/panels/LayersPanel";
+import { HistoryPanel } from "@/components/panels/HistoryPanel";
 import { StatusBar } from "@/components/panels/StatusBar";
 import {
   AuthModal,
@@ -26,6 +36,7 @@ import {
 } from "@/components/auth";
 import { ProjectListModal, NewProjectDialog } from "@/components/projects";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { NoticeBanner } from "@/components/ui/NoticeBanner";
 import { isFirebaseConfigured } from "@/lib/firebase/auth";
 
 type AuthIntent = "none" | "openProjects";
@@ -68,14 +79,29 @@ export default function Home() {
     try {
       const raw = localStorage.getItem("openpaint-project");
       if (!raw) return;
-      const data = JSON.parse(raw) as {
-        version?: string;
-        canvasSize?: { width: number; height: number };
-        layers?: Parameters<typeof loadDocument>[0];
-      };
-      if (data.version?.startsWith("2") && data.layers?.length) {
+      const data = migrateDocument(JSON.parse(raw));
+      if (data.layers.length) {
+        const { layers, activeLayerId, issues } = validateLayers(
+          data.layers,
+          data.activeLayerId,
+        );
+        const guides = validateGuides(data.guides);
+        const report = [...issues, ...guides.issues];
+        if (report.length) {
+          useProjectStore
+            .getState()
+            .setNotice(
+              `Your last project was damaged and has been repaired.\n${formatValidationReport(report)}`,
+            );
+        }
         newProject(data.canvasSize ?? { width: 800, height: 600 });
-        loadDocument(data.layers, data.layers[0].id);
+        // Saved history may reference repaired or dropped objects
+        loadDocument(
+          layers,
+          activeLayerId,
+          issues.length ? undefined : restoreHistory(data.history),
+          { grid: validateGrid(data.grid), guides: guides.guides },
+        );
       }
     } catch {
       // Ignore corrupt local saves
@@ -139,14 +165,25 @@ export default function Home() {
     } else {
       // Fallback to localStorage
       try {
-        const docLayers = useDocumentStore.getState().layers;
+        const {
+          layers: docLayers,
+          activeLayerId,
+          history,
+          historyIndex,
+          grid,
+          guides,
+        } = useDocumentStore.getState();
         const projectData = {
-          version: "2.0.0",
+          version: DOCUMENT_VERSION,
           name: currentProjectName || "Untitled",
           createdAt: new Date().toISOString(),
           modifiedAt: new Date().toISOString(),
           canvasSize,
           layers: docLayers,
+          activeLayerId,
+          history: serializeHistory(history, historyIndex),
+          grid,
+          guides,
         };
 
         localStorage.setItem("openpaint-project", JSON.stringify(projectData));
@@ -206,34 +243,67 @@ export default function Home() {
     }
   }, [user, openAuthModal]);
 
-  // Handle file selection (for local project files)
+  // Handle file selection (local project files, or SVG to import)
   const handleFileChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
 
+      // SVG files are imported into the current document
+      if (file.type === "image/svg+xml" || file.name.toLowerCase().endsWith(".svg")) {
+        file
+          .text()
+          .then((markup) => insertSvgMarkup(markup))
+          .catch(() => alert("Could not read SVG file."));
+        e.target.value = "";
+        return;
+      }
+
       // Try to load as JSON project file
       const reader = new FileReader();
       reader.onload = (event) => {
         try {
-          const data = JSON.parse(event.target?.result as string);
-          if (data.version && data.layers) {
-            newProject(data.canvasSize || { width: 800, height: 600 });
-            newDocument();
-            // If it's a v2 project with vector layers, load them
-            if (data.version.startsWith("2")) {
-              useDocumentStore.getState().loadDocument(data.layers, data.layers[0]?.id);
-            }
+          const data = migrateDocument(
+            JSON.parse(event.target?.result as string),
+          );
+          const { layers, activeLayerId, issues } = validateLayers(
+            data.layers,
+            data.activeLayerId,
+          );
+          const guides = validateGuides(data.guides);
+          const report = [...issues, ...guides.issues];
+          if (
+            report.length &&
+            !confirm(
+              `${formatValidationReport(report)}\n\nOpen the repaired project?`,
+            )
+          ) {
+            return;
           }
-        } catch {
-          alert("Could not load project file.");
+
+          newProject(data.canvasSize || { width: 800, height: 600 });
+          // Saved history may reference repaired or dropped objects
+          useDocumentStore
+            .getState()
+            .loadDocument(
+              layers,
+              activeLayerId,
+              issues.length ? undefined : restoreHistory(data.history),
+              { grid: validateGrid(data.grid), guides: guides.guides },
+            );
+        } catch (error) {
+          alert(
+            error instanceof Error
+              ? `Could not load project file. ${error.message}`
+              : "Could not load project file.",
+          );
         }
       };
       reader.readAsText(file);
 
       e.target.value = "";
     },
-    [newProject, newDocument],
+    [newProject],
   );
 
   // Handle create new project
@@ -270,7 +340,7 @@ export default function Home() {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".json,application/json"
+        accept=".json,application/json,.svg,image/svg+xml"
         onChange={handleFileChange}
         className="hidden"
       />
@@ -284,6 +354,8 @@ export default function Home() {
         />
       )}
 
+      <NoticeBanner />
+
       {/* Top Toolbar */}
       <Toolbar
         onUndo={handleUndo}
@@ -329,6 +401,9 @@ export default function Home() {
           <div className="p-2 flex-1">
             <LayersPanel />
           </div>
+          <div className="p-2 pt-0">
+            <HistoryPanel />
+          </div>
         </div>
       </div>
 
@@ -1,15 +1,41 @@
 "use client";
 
-import { useRef, useEffect, useCallback } from "react";
+import { useRef, useEffect, useCallback, useMemo, useState } from "react";
 import { useCanvasStore } from "@/store/canvasStore";
+import { useGuideDrag } from "@/hooks/useGuideDrag";
+import { RULER_SIZE, type ViewTransform } from "@/lib/vector/rulers";
+import type { Size } from "@/types";
+import { GuideLayer } from "./GuideLayer";
+import { Ruler } from "./Ruler";
 import { VectorCanvas } from "./VectorCanvas";
 
 /**
- * Canvas container with zoom and pan support
+ * Canvas container with zoom and pan support, framed by rulers that
+ * guides are dragged out of
  */
 export function CanvasContainer() {
   const containerRef = useRef<HTMLDivElement>(null);
-  const { zoom, setZoom, pan, setPan } = useCanvasStore();
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const { zoom, setZoom, pan, setPan, canvasSize } = useCanvasStore();
+  const [viewport, setViewport] = useState<Size>({ width: 0, height: 0 });
+  const { startDrag, startNewGuide } = useGuideDrag(viewportRef);
+
+  // Track the viewport size for the rulers
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+
+    const observer = new ResizeObserver(() => {
+      setViewport({ width: el.clientWidth, height: el.clientHeight });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const view = useMemo<ViewTransform>(
+    () => ({ zoom, pan, canvasSize, viewport }),
+    [zoom, pan, canvasSize, viewport],
+  );
 
   // Handle wheel zoom
   const handleWheel = useCallback(
@@ -69,11 +95,25 @@ export function CanvasContainer() {
   return (
     <div
       ref={containerRef}
-      className="flex-1 overflow-hidden bg-gray-300"
+      className="flex-1 flex flex-col overflow-hidden bg-gray-300"
       onMouseDown={handleMouseDown}
       onContextMenu={(e) => e.preventDefault()}
     >
-      <VectorCanvas />
+      <div className="flex shrink-0">
+        <div
+          className="shrink-0 bg-gray-100 border-r border-b border-gray-300"
+          style={{ width: RULER_SIZE, height: RULER_SIZE }}
+        />
+        {/* The top ruler measures x and adds horizontal guides */}
+        <Ruler axis="x" view={view} onPointerDown={(e) => startNewGuide("y", e)} />
+      </div>
+      <div className="flex flex-1 min-h-0">
+        <Ruler axis="y" view={view} onPointerDown={(e) => startNewGuide("x", e)} />
+        <div ref={viewportRef} className="relative flex-1 min-w-0 overflow-hidden">
+          <VectorCanvas />
+          <GuideLayer view={view} onGuidePointerDown={startDrag} />
+        </div>
+      </div>
     </div>
   );
 }
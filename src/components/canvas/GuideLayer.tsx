@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useCanvasStore } from "@/store/canvasStore";
+import { useDocumentStore } from "@/store/documentStore";
+import { documentToView, type RulerAxis, type ViewTransform } from "@/lib/vector/rulers";
+
+const GUIDE_COLOR = "#06b6d4";
+
+/** Width of the strip around a guide that picks it up, in screen pixels */
+const GUIDE_HIT_SIZE = 5;
+
+interface GuideLayerProps {
+  view: ViewTransform;
+  onGuidePointerDown: (id: string, axis: RulerAxis, e: React.PointerEvent) => void;
+}
+
+/**
+ * Ruler guides drawn over the canvas viewport. With the Selection tool,
+ * unlocked guides can be dragged (back onto a ruler to delete them), and
+ * any guide can be right-clicked to lock, unlock or delete it.
+ */
+export function GuideLayer({ view, onGuidePointerDown }: GuideLayerProps) {
+  const guides = useDocumentStore((s) => s.guides);
+  const editable = useCanvasStore((s) => s.activeTool === "selection");
+  const [menu, setMenu] = useState<{ id: string; x: number; y: number } | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setMenu(null);
+      }
+    };
+
+    if (menu) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [menu]);
+
+  const menuGuide = menu && guides.find((g) => g.id === menu.id);
+
+  const runMenuAction = (action: (id: string) => void) => {
+    if (menu) action(menu.id);
+    setMenu(null);
+  };
+
+  return (
+    <div className="absolute inset-0 overflow-hidden pointer-events-none">
+      {guides.map((guide) => {
+        const at = documentToView(guide.position, guide.axis, view);
+        const vertical = guide.axis === "x";
+        const cursor = guide.locked ? "default" : vertical ? "col-resize" : "row-resize";
+        return (
+          <div
+            key={guide.id}
+            className={`absolute ${editable ? "pointer-events-auto" : ""}`}
+            style={
+              vertical
+                ? {
+                    left: at - GUIDE_HIT_SIZE / 2,
+                    top: 0,
+                    bottom: 0,
+                    width: GUIDE_HIT_SIZE,
+                    cursor,
+                  }
+                : {
+                    top: at - GUIDE_HIT_SIZE / 2,
+                    left: 0,
+                    right: 0,
+                    height: GUIDE_HIT_SIZE,
+                    cursor,
+                  }
+            }
+            onPointerDown={(e) => {
+              // Locked guides stay put but keep their context menu
+              if (e.button === 0 && !guide.locked) onGuidePointerDown(guide.id, guide.axis, e);
+            }}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              setMenu({ id: guide.id, x: e.clientX, y: e.clientY });
+            }}
+          >
+            <div
+              className="absolute"
+              style={{
+                background: GUIDE_COLOR,
+                opacity: guide.locked ? 0.6 : 1,
+                ...(vertical
+                  ? { left: GUIDE_HIT_SIZE / 2, top: 0, bottom: 0, width: 1 }
+                  : { top: GUIDE_HIT_SIZE / 2, left: 0, right: 0, height: 1 }),
+              }}
+            />
+          </div>
+        );
+      })}
+
+      {menu && menuGuide && (
+        <div
+          ref={menuRef}
+          role="menu"
+          className="fixed w-36 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50 pointer-events-auto"
+          style={{ left: menu.x, top: menu.y }}
+        >
+          <button
+            role="menuitem"
+            onClick={() =>
+              runMenuAction((id) =>
+                useDocumentStore.getState().updateGuide(id, { locked: !menuGuide.locked }),
+              )
+            }
+            className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+          >
+            {menuGuide.locked ? "Unlock Guide" : "Lock Guide"}
+          </button>
+          <button
+            role="menuitem"
+            onClick={() => runMenuAction((id) => useDocumentStore.getState().removeGuide(id))}
+            className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100"
+          >
+            Delete Guide
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
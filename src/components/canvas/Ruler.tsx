@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useCanvasStore } from "@/store/canvasStore";
+import {
+  documentToView,
+  RULER_SIZE,
+  rulerTicks,
+  type RulerAxis,
+  type ViewTransform,
+} from "@/lib/vector/rulers";
+
+const RULER_BACKGROUND = "#f3f4f6";
+const RULER_BORDER = "#d1d5db";
+const RULER_TEXT = "#6b7280";
+const RULER_CURSOR = "#ef4444";
+
+interface RulerProps {
+  /** Coordinate measured: "x" along the top, "y" down the left side */
+  axis: RulerAxis;
+  view: ViewTransform;
+  onPointerDown: (e: React.PointerEvent) => void;
+}
+
+/**
+ * Ruler along one edge of the canvas viewport, in document units, with a
+ * marker at the cursor. Dragging out of it adds a guide.
+ */
+export function Ruler({ axis, view, onPointerDown }: RulerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const cursorPosition = useCanvasStore((s) => s.cursorPosition);
+  const length = axis === "x" ? view.viewport.width : view.viewport.height;
+  const width = axis === "x" ? length : RULER_SIZE;
+  const height = axis === "x" ? RULER_SIZE : length;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.fillStyle = RULER_BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+
+    // Ticks are drawn as if along the top ruler; the left one swaps x and y
+    if (axis === "y") ctx.setTransform(0, dpr, dpr, 0, 0, 0);
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = RULER_BORDER;
+    ctx.beginPath();
+    ctx.moveTo(0, RULER_SIZE - 0.5);
+    ctx.lineTo(length, RULER_SIZE - 0.5);
+    ctx.stroke();
+
+    const labels: { at: number; text: string }[] = [];
+    ctx.strokeStyle = RULER_TEXT;
+    ctx.beginPath();
+    for (const tick of rulerTicks(axis, length, view)) {
+      const at = Math.round(documentToView(tick.value, axis, view)) + 0.5;
+      const size = tick.major ? RULER_SIZE * 0.6 : RULER_SIZE * 0.25;
+      ctx.moveTo(at, RULER_SIZE);
+      ctx.lineTo(at, RULER_SIZE - size);
+      if (tick.major) labels.push({ at, text: String(Math.round(tick.value)) });
+    }
+    ctx.stroke();
+
+    if (cursorPosition) {
+      const at = Math.round(documentToView(cursorPosition[axis], axis, view)) + 0.5;
+      ctx.strokeStyle = RULER_CURSOR;
+      ctx.beginPath();
+      ctx.moveTo(at, 0);
+      ctx.lineTo(at, RULER_SIZE);
+      ctx.stroke();
+    }
+
+    // Labels beside their ticks; the left ruler's read bottom-to-top
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.fillStyle = RULER_TEXT;
+    ctx.font = "9px sans-serif";
+    for (const { at, text } of labels) {
+      if (axis === "x") {
+        ctx.fillText(text, at + 2, 9);
+      } else {
+        ctx.save();
+        ctx.translate(9, at - 2);
+        ctx.rotate(-Math.PI / 2);
+        ctx.fillText(text, 0, 0);
+        ctx.restore();
+      }
+    }
+  }, [axis, length, width, height, view, cursorPosition]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`block shrink-0 ${axis === "x" ? "cursor-row-resize" : "cursor-col-resize"}`}
+      style={{ width, height }}
+      onPointerDown={onPointerDown}
+    />
+  );
+}
@@ -4,15 +4,20 @@ import { useRef, useEffect, useCallback, useState, useMemo } from "react";
 import { useCanvasStore } from "@/store/canvasStore";
 import { useDocumentStore } from "@/store/documentStore";
 import { useSelectionTool } from "@/hooks/useSelectionTool";
+import { useDirectSelectionTool } from "@/hooks/useDirectSelectionTool";
 import { useShapeTool } from "@/hooks/useShapeTool";
 import { useFreehandTool } from "@/hooks/useFreehandTool";
+import { useEraserTool } from "@/hooks/useEraserTool";
 import { usePenTool } from "@/hooks/usePenTool";
 import { hitTestLayers } from "@/lib/vector/hitTest";
+import { insertSvgMarkup } from "@/lib/vector/insertSvg";
 import {
   OPENPAINT_IMAGE_LOADED,
   renderScene,
   renderSelectionOverlay,
 } from "@/lib/vector/renderer";
+import { looksLikeSvg } from "@/lib/vector/svgImport";
+import type { StrokeSample } from "@/lib/vector/variableStroke";
 import {
   buildTextObject,
   normalizeTextAlign,
@@ -23,6 +28,23 @@ import { TextEditor } from "./TextEditor";
 
 const SHAPE_TOOLS = new Set(["rectangle", "ellipse", "line", "polygon"]);
 
+/** Brush sample; only pens report real pressure, the rest is simulated */
+function strokeSample(point: Point2D, e: React.PointerEvent): StrokeSample {
+  return {
+    ...point,
+    pressure: e.pointerType === "pen" ? e.pressure : null,
+    time: e.timeStamp,
+  };
+}
+
+/** macOS turns Ctrl+click into a right click, so Cmd takes its place there */
+const IS_MAC = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/** Ctrl (Cmd on macOS) held: place freely, ignoring smart guides, ruler guides and the grid */
+function snapBypassed(e: React.PointerEvent): boolean {
+  return IS_MAC ? e.metaKey : e.ctrlKey;
+}
+
 type TextEditSession =
   | { mode: "new"; point: Point2D }
   | { mode: "edit"; objectId: string; point: Point2D };
@@ -41,6 +63,7 @@ export function VectorCanvas() {
 
   const [textSession, setTextSession] = useState<TextEditSession | null>(null);
   const [textDraft, setTextDraft] = useState("");
+  const [hoverCursor, setHoverCursor] = useState("default");
 
   const {
     canvasSize,
@@ -52,11 +75,14 @@ export function VectorCanvas() {
     fillColor,
   } = useCanvasStore();
   const layers = useDocumentStore((s) => s.layers);
+  const grid = useDocumentStore((s) => s.grid);
   const selectedObjectIds = useDocumentStore((s) => s.selectedObjectIds);
 
   const selectionTool = useSelectionTool();
+  const directTool = useDirectSelectionTool();
   const shapeTool = useShapeTool();
   const freehandTool = useFreehandTool();
+  const eraserTool = useEraserTool();
   const penTool = usePenTool();
 
   const hiddenObjectIds = useMemo(() => {
@@ -88,8 +114,13 @@ export function VectorCanvas() {
     if (!ctx) return;
     renderScene(ctx, layers, canvasSize.width, canvasSize.height, {
       hiddenObjectIds,
+      showGrid: grid.visible,
+      gridSize: grid.spacing,
+      gridSubdivisions: grid.subdivisions,
+      gridColor: grid.color,
+      zoom,
     });
-  }, [layers, canvasSize, hiddenObjectIds]);
+  }, [layers, canvasSize, hiddenObjectIds, grid, zoom]);
 
   useEffect(() => {
     renderMain();
@@ -109,17 +140,26 @@ export function VectorCanvas() {
 
     ctx.clearRect(0, 0, canvasSize.width, canvasSize.height);
 
-    renderSelectionOverlay(
-      ctx,
-      layers,
-      selectedObjectIds,
-      canvasSize.width,
-      canvasSize.height,
-    );
+    if (activeTool === "direct-selection") {
+      // Anchors and handles replace the bounding box
+      directTool.renderOverlay(ctx, currentPointRef.current);
+    } else {
+      renderSelectionOverlay(
+        ctx,
+        layers,
+        selectedObjectIds,
+        canvasSize.width,
+        canvasSize.height,
+      );
+      if (activeTool === "selection") selectionTool.renderOverlay(ctx);
+    }
 
     shapeTool.renderPreview(ctx);
     freehandTool.renderPreview(ctx);
     penTool.renderPreview(ctx, currentPointRef.current);
+    if (activeTool === "eraser") {
+      eraserTool.renderPreview(ctx, currentPointRef.current);
+    }
 
     const marquee = selectionTool.getMarqueeRect(currentPointRef.current);
     if (marquee) {
@@ -132,7 +172,7 @@ export function VectorCanvas() {
       ctx.fillRect(marquee.x, marquee.y, marquee.width, marquee.height);
       ctx.restore();
     }
-  }, [layers, selectedObjectIds, canvasSize, shapeTool, freehandTool, penTool, selectionTool]);
+  }, [layers, selectedObjectIds, canvasSize, activeTool, shapeTool, freehandTool, eraserTool, penTool, selectionTool, directTool]);
 
   useEffect(() => {
     renderOverlay();
@@ -179,47 +219,32 @@ export function VectorCanvas() {
           fillEnabled: canvasState.fillEnabled,
         });
 
-        const layerId = store.activeLayerId;
-        const index = store.getActiveLayer()?.objects.length ?? 0;
-
-        store.addObject(layerId, textObj);
+        store.transaction("Add text", () => {
+          store.addObject(store.activeLayerId, textObj);
+        });
         store.setSelection([textObj.id]);
-        store.pushHistory("Add text", [
-          { type: "add-object", layerId, object: textObj, index },
-        ]);
         canvasState.setActiveTool("selection");
       } else {
         const existing = store.getObject(textSession.objectId);
         if (!existing || existing.type !== "text") return;
 
-        const layerId = store.getObjectLayerId(textSession.objectId);
-        if (!layerId) return;
-
         const snap = editSnapshotRef.current ?? existing;
         const style = textStyleFromOptions(canvasState.textOptions);
-        const after = {
-          content: trimmed,
-          ...style,
-        };
 
-        store.updateObject(textSession.objectId, after);
+        // The live preview already shows the draft; put the text back as it
+        // was so the transaction records the whole edit as one change
+        store.updateObject(textSession.objectId, {
+          content: snap.content,
+          fontFamily: snap.fontFamily,
+          fontSize: snap.fontSize,
+          fontWeight: snap.fontWeight,
+          fontStyle: snap.fontStyle,
+          textAlign: snap.textAlign,
+        });
+        store.transaction("Edit text", () =>
+          store.updateObject(textSession.objectId, { content: trimmed, ...style }),
+        );
         store.setSelection([textSession.objectId]);
-        store.pushHistory("Edit text", [
-          {
-            type: "modify-object",
-            objectId: textSession.objectId,
-            layerId,
-            before: {
-              content: snap.content,
-              fontFamily: snap.fontFamily,
-              fontSize: snap.fontSize,
-              fontWeight: snap.fontWeight,
-              fontStyle: snap.fontStyle,
-              textAlign: snap.textAlign,
-            },
-            after,
-          },
-        ]);
         canvasState.setActiveTool("selection");
       }
 
@@ -279,43 +304,35 @@ export function VectorCanvas() {
       if (!mainCtx) return;
 
       const store = useDocumentStore.getState();
-      const hit = hitTestLayers(mainCtx, point, store.layers);
+      // Fill and eyedropper act on the leaf shape, not its enclosing group
+      const hit = hitTestLayers(mainCtx, point, store.layers, { deep: true });
 
       switch (activeTool) {
-        case "eraser": {
-          if (hit) {
-            const layerId = store.getObjectLayerId(hit.object.id);
-            if (layerId) {
-              const layer = store.layers.find((l) => l.id === layerId);
-              const index = layer?.objects.findIndex((o) => o.id === hit.object.id) ?? 0;
-              store.removeObject(hit.object.id);
-              store.pushHistory("Erase object", [
-                { type: "remove-object", layerId, object: hit.object, index },
-              ]);
-            }
-          }
-          break;
-        }
         case "fill": {
-          if (hit) {
-            const { fillColor: fc, fillEnabled: fe } = useCanvasStore.getState();
-            const before = hit.object.fill;
-            const after = fe
+          const {
+            fillColor: fc,
+            fillEnabled: fe,
+            fillMode,
+            fillGapTolerance,
+          } = useCanvasStore.getState();
+          if (fillMode === "region") {
+            const id = store.fillRegion(
+              point,
+              { type: "solid", color: fc, opacity: 1 },
+              fillGapTolerance,
+            );
+            if (!id) {
+              alert(
+                "No enclosed area here. Close the outline or raise the gap tolerance.",
+              );
+            }
+          } else if (hit) {
+            const fill = fe
               ? { type: "solid" as const, color: fc, opacity: 1 }
               : null;
-            const layerId = store.getObjectLayerId(hit.object.id);
-            if (layerId) {
-              store.updateObject(hit.object.id, { fill: after });
-              store.pushHistory("Fill object", [
-                {
-                  type: "modify-object",
-                  objectId: hit.object.id,
-                  layerId,
-                  before: { fill: before },
-                  after: { fill: after },
-                },
-              ]);
-            }
+            store.transaction("Fill object", () => {
+              store.updateObject(hit.object.id, { fill });
+            });
           }
           break;
         }
@@ -347,13 +364,18 @@ export function VectorCanvas() {
       if (activeTool === "selection") {
         const ctx = mainCanvasRef.current?.getContext("2d");
         if (ctx) selectionTool.onPointerDown(point, e.shiftKey, ctx);
+      } else if (activeTool === "direct-selection") {
+        const ctx = mainCanvasRef.current?.getContext("2d");
+        if (ctx) directTool.onPointerDown(point, e, ctx);
       } else if (SHAPE_TOOLS.has(activeTool)) {
-        shapeTool.onPointerDown(point, activeTool);
+        shapeTool.onPointerDown(point, activeTool, snapBypassed(e));
       } else if (activeTool === "brush") {
-        freehandTool.onPointerDown(point);
+        freehandTool.onPointerDown(strokeSample(point, e));
       } else if (activeTool === "pen") {
-        penTool.onPointerDown(point);
-      } else if (activeTool === "eraser" || activeTool === "fill" || activeTool === "eyedropper") {
+        penTool.onPointerDown(point, snapBypassed(e));
+      } else if (activeTool === "eraser") {
+        eraserTool.onPointerDown(point);
+      } else if (activeTool === "fill" || activeTool === "eyedropper") {
         handleUtilityClick(point);
       } else if (activeTool === "text") {
         startNewTextEdit(point);
@@ -363,8 +385,10 @@ export function VectorCanvas() {
       activeTool,
       getCanvasPoint,
       selectionTool,
+      directTool,
       shapeTool,
       freehandTool,
+      eraserTool,
       penTool,
       handleUtilityClick,
       startNewTextEdit,
@@ -379,16 +403,33 @@ export function VectorCanvas() {
       currentPointRef.current = point;
       setCursorPosition({ x: point.x, y: point.y });
 
-      if (!pointerDownRef.current || textSession) return;
+      if (!pointerDownRef.current || textSession) {
+        // The eraser outline follows the cursor while hovering
+        if (activeTool === "eraser" && !textSession) renderOverlay();
+        // Resize, rotate and pivot controls show their cursors on hover
+        if (activeTool === "selection" && !textSession) {
+          setHoverCursor(selectionTool.getHoverCursor(point));
+        }
+        // The pen's next segment follows the (snapped) cursor
+        if (activeTool === "pen" && !textSession) {
+          penTool.onPointerMove(point, snapBypassed(e));
+          renderOverlay();
+        }
+        return;
+      }
 
       if (activeTool === "selection") {
-        selectionTool.onPointerMove(point);
+        selectionTool.onPointerMove(point, e.shiftKey, e.altKey, snapBypassed(e));
+      } else if (activeTool === "direct-selection") {
+        directTool.onPointerMove(point);
       } else if (SHAPE_TOOLS.has(activeTool)) {
-        shapeTool.onPointerMove(point, e.shiftKey, e.altKey);
+        shapeTool.onPointerMove(point, e.shiftKey, e.altKey, snapBypassed(e));
       } else if (activeTool === "brush") {
-        freehandTool.onPointerMove(point);
+        freehandTool.onPointerMove(strokeSample(point, e));
+      } else if (activeTool === "eraser") {
+        eraserTool.onPointerMove(point);
       } else if (activeTool === "pen") {
-        penTool.onPointerMove(point);
+        penTool.onPointerMove(point, snapBypassed(e));
       }
 
       renderOverlay();
@@ -398,40 +439,69 @@ export function VectorCanvas() {
       getCanvasPoint,
       setCursorPosition,
       selectionTool,
+      directTool,
       shapeTool,
       freehandTool,
+      eraserTool,
       penTool,
       renderOverlay,
       textSession,
     ],
   );
 
-  const handlePointerUp = useCallback(
-    (e: React.PointerEvent<HTMLCanvasElement>) => {
-      const point = getCanvasPoint(e);
-      if (!point) return;
-
-      const canvas = eventCanvasRef.current;
-      if (canvas) canvas.releasePointerCapture(e.pointerId);
-
+  /** Ends the gesture at `point`; each tool commits its transaction here */
+  const endPointer = useCallback(
+    (point: Point2D, e: React.PointerEvent<HTMLCanvasElement>) => {
+      // Cleared before releasing capture so lostpointercapture sees it ended
       pointerDownRef.current = false;
       currentPointRef.current = point;
 
+      const canvas = eventCanvasRef.current;
+      if (canvas?.hasPointerCapture(e.pointerId)) {
+        canvas.releasePointerCapture(e.pointerId);
+      }
+
       if (textSession) return;
 
       if (activeTool === "selection") {
-        selectionTool.onPointerUp(point);
+        selectionTool.onPointerUp(point, e.shiftKey, e.altKey, snapBypassed(e));
+      } else if (activeTool === "direct-selection") {
+        directTool.onPointerUp(point);
       } else if (SHAPE_TOOLS.has(activeTool)) {
-        shapeTool.onPointerUp(point);
+        shapeTool.onPointerUp(point, e.shiftKey, e.altKey, snapBypassed(e));
       } else if (activeTool === "brush") {
         freehandTool.onPointerUp();
+      } else if (activeTool === "eraser") {
+        eraserTool.onPointerUp(point);
       } else if (activeTool === "pen") {
         penTool.onPointerUp(point);
       }
 
       renderOverlay();
     },
-    [activeTool, getCanvasPoint, selectionTool, shapeTool, freehandTool, penTool, renderOverlay, textSession],
+    [activeTool, selectionTool, directTool, shapeTool, freehandTool, eraserTool, penTool, renderOverlay, textSession],
+  );
+
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const point = getCanvasPoint(e);
+      if (!point) return;
+      endPointer(point, e);
+    },
+    [getCanvasPoint, endPointer],
+  );
+
+  /**
+   * The browser took the pointer away mid-gesture (touch or pen cancel,
+   * lost capture): end it at the last known point so no transaction is
+   * left open for unrelated edits to join
+   */
+  const handlePointerCancel = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!pointerDownRef.current) return;
+      endPointer(currentPointRef.current, e);
+    },
+    [endPointer],
   );
 
   const handleDoubleClick = useCallback(
@@ -441,6 +511,14 @@ export function VectorCanvas() {
       const point = getCanvasPoint(e);
       if (!point) return;
 
+      if (activeTool === "direct-selection") {
+        if (directTool.onDoubleClick(point)) {
+          e.preventDefault();
+          renderOverlay();
+        }
+        return;
+      }
+
       const ctx = mainCanvasRef.current?.getContext("2d");
       if (!ctx) return;
 
@@ -450,7 +528,40 @@ export function VectorCanvas() {
         startEditText(hit.object);
       }
     },
-    [getCanvasPoint, startEditText, textSession],
+    [activeTool, directTool, getCanvasPoint, renderOverlay, startEditText, textSession],
+  );
+
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLCanvasElement>) => {
+    const types = Array.from(e.dataTransfer.types);
+    if (types.includes("Files") || types.includes("text/plain")) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "copy";
+    }
+  }, []);
+
+  // Dropped SVG files or markup are imported centred on the drop point
+  const handleDrop = useCallback(
+    async (e: React.DragEvent<HTMLCanvasElement>) => {
+      e.preventDefault();
+      const point = getCanvasPoint(e) ?? undefined;
+
+      const file = Array.from(e.dataTransfer.files).find(
+        (f) => f.type === "image/svg+xml" || f.name.toLowerCase().endsWith(".svg"),
+      );
+      const hasFiles = e.dataTransfer.files.length > 0;
+      const text = e.dataTransfer.getData("text/plain");
+      try {
+        const markup = file ? await file.text() : text;
+        if (looksLikeSvg(markup)) {
+          insertSvgMarkup(markup, point);
+        } else if (hasFiles) {
+          alert("Only SVG files can be dropped onto the canvas.");
+        }
+      } catch {
+        alert("Could not read SVG file.");
+      }
+    },
+    [getCanvasPoint],
   );
 
   const handleMouseLeave = useCallback(() => {
@@ -461,7 +572,7 @@ export function VectorCanvas() {
     if (textSession) return "text";
     switch (activeTool) {
       case "selection":
-        return "default";
+        return hoverCursor;
       case "rectangle":
       case "ellipse":
       case "line":
@@ -471,7 +582,7 @@ export function VectorCanvas() {
       case "pen":
         return "crosshair";
       case "eraser":
-        return "pointer";
+        return "crosshair";
       case "eyedropper":
         return "crosshair";
       case "fill":
@@ -481,7 +592,7 @@ export function VectorCanvas() {
       default:
         return "default";
     }
-  }, [activeTool, textSession]);
+  }, [activeTool, hoverCursor, textSession]);
 
   useEffect(() => {
     const canvas = eventCanvasRef.current;
@@ -532,6 +643,34 @@ export function VectorCanvas() {
     return () => window.removeEventListener("keydown", onKeyDown);
   }, [activeTool, penTool, renderOverlay]);
 
+  // Direct selection: Delete removes selected anchors, Escape deselects them.
+  // Capture phase so the global Delete shortcut doesn't remove the whole path.
+  useEffect(() => {
+    if (activeTool !== "direct-selection") return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+      const handled =
+        e.key === "Delete" || e.key === "Backspace"
+          ? directTool.deleteSelectedAnchors()
+          : e.key === "Escape"
+            ? directTool.clearAnchorSelection()
+            : false;
+      if (!handled) return;
+      e.preventDefault();
+      e.stopPropagation();
+      renderOverlay();
+    };
+
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [activeTool, directTool, renderOverlay]);
+
   return (
     <div
       className="relative bg-gray-200 overflow-hidden"
@@ -608,8 +747,12 @@ export function VectorCanvas() {
           onPointerDown={handlePointerDown}
           onPointerMove={handlePointerMove}
           onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+          onLostPointerCapture={handlePointerCancel}
           onDoubleClick={handleDoubleClick}
           onMouseLeave={handleMouseLeave}
+          onDragOver={handleDragOver}
+          onDrop={handleDrop}
         />
       </div>
     </div>
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+import { useDocumentStore } from "@/store/documentStore";
+
+/**
+ * History panel — lists undo entries, jumps to any state, and pins named
+ * checkpoints.
+ */
+export function HistoryPanel() {
+  const history = useDocumentStore((s) => s.history);
+  const historyIndex = useDocumentStore((s) => s.historyIndex);
+  const checkpoints = useDocumentStore((s) => s.checkpoints);
+  const jumpToHistory = useDocumentStore((s) => s.jumpToHistory);
+  const addCheckpoint = useDocumentStore((s) => s.addCheckpoint);
+  const removeCheckpoint = useDocumentStore((s) => s.removeCheckpoint);
+  const restoreCheckpoint = useDocumentStore((s) => s.restoreCheckpoint);
+
+  const [checkpointName, setCheckpointName] = useState("");
+
+  const handlePin = () => {
+    addCheckpoint(checkpointName);
+    setCheckpointName("");
+  };
+
+  // Newest entry on top, "Start" row last
+  const rows = history.map((entry, index) => ({ entry, index })).reverse();
+
+  return (
+    <div className="flex flex-col bg-gray-100 rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-200 border-b border-gray-300">
+        <span className="text-sm font-medium text-gray-700">History</span>
+        <span className="text-[10px] text-gray-500">
+          {historyIndex + 1}/{history.length}
+        </span>
+      </div>
+
+      <ul className="max-h-48 overflow-y-auto" aria-label="History entries">
+        {rows.map(({ entry, index }) => (
+          <HistoryRow
+            key={entry.id}
+            label={entry.description}
+            timestamp={entry.timestamp}
+            isCurrent={index === historyIndex}
+            isRedo={index > historyIndex}
+            onClick={() => jumpToHistory(index)}
+          />
+        ))}
+        <HistoryRow
+          label="Start"
+          isCurrent={historyIndex === -1}
+          isRedo={false}
+          onClick={() => jumpToHistory(-1)}
+        />
+      </ul>
+
+      <div className="px-3 py-2 border-t border-gray-300 bg-gray-200 flex flex-col gap-1.5">
+        <span className="text-xs font-medium text-gray-600">Checkpoints</span>
+        <div className="flex gap-1">
+          <input
+            type="text"
+            value={checkpointName}
+            onChange={(e) => setCheckpointName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handlePin();
+            }}
+            placeholder="Checkpoint name"
+            className="flex-1 min-w-0 px-1.5 py-0.5 text-xs border border-gray-300 rounded bg-white"
+            aria-label="Checkpoint name"
+          />
+          <button
+            type="button"
+            onClick={handlePin}
+            className="px-2 py-0.5 text-xs text-blue-600 hover:text-blue-800 hover:bg-gray-300 rounded"
+            title="Pin current state"
+          >
+            Pin
+          </button>
+        </div>
+
+        {checkpoints.length > 0 && (
+          <ul className="flex flex-col gap-0.5" aria-label="Checkpoints">
+            {checkpoints.map((checkpoint) => (
+              <li key={checkpoint.id} className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => restoreCheckpoint(checkpoint.id)}
+                  className="flex-1 min-w-0 text-left text-xs truncate text-gray-700 hover:text-blue-700"
+                  title={`Return to "${checkpoint.name}"`}
+                >
+                  {checkpoint.name}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeCheckpoint(checkpoint.id)}
+                  className="p-0.5 text-gray-400 hover:text-red-500"
+                  title="Remove checkpoint"
+                  aria-label={`Remove checkpoint ${checkpoint.name}`}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function HistoryRow({
+  label,
+  timestamp,
+  isCurrent,
+  isRedo,
+  onClick,
+}: {
+  label: string;
+  timestamp?: number;
+  isCurrent: boolean;
+  isRedo: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={onClick}
+        aria-current={isCurrent ? "true" : undefined}
+        className={`w-full flex items-center gap-2 px-3 py-1 text-left text-xs border-b border-gray-100 ${
+          isCurrent
+            ? "bg-blue-100 text-blue-800"
+            : isRedo
+              ? "text-gray-400 hover:bg-gray-50"
+              : "text-gray-700 hover:bg-gray-50"
+        }`}
+      >
+        <span className="flex-1 min-w-0 truncate">{label}</span>
+        {timestamp !== undefined && (
+          <span className="shrink-0 text-[10px] text-gray-400">
+            {new Date(timestamp).toLocaleTimeString(undefined, {
+              hour: "2-digit",
+              minute: "2-digit",
+            })}
+          </span>
+        )}
+      </button>
+    </li>
+  );
+}
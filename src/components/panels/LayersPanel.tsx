@@ -4,6 +4,7 @@ import { useCallback, useState } from "react";
 import { computeObjectReorder } from "@/lib/vector/layerObjectReorder";
 import { formatObjectListLabel } from "@/lib/vector/objectLabel";
 import { useDocumentStore } from "@/store/documentStore";
+import { useDragTransaction } from "@/hooks/useDragTransaction";
 import type { VectorLayer, VectorObject } from "@/types/vector";
 
 /**
@@ -18,14 +19,26 @@ export function LayersPanel() {
   const setActiveLayer = useDocumentStore((s) => s.setActiveLayer);
   const updateLayer = useDocumentStore((s) => s.updateLayer);
   const reorderLayer = useDocumentStore((s) => s.reorderLayer);
+  // One history entry per opacity slider drag
+  const opacityDrag = useDragTransaction("Change layer opacity");
   const selectObject = useDocumentStore((s) => s.selectObject);
   const updateObject = useDocumentStore((s) => s.updateObject);
   const removeObject = useDocumentStore((s) => s.removeObject);
   const reorderObject = useDocumentStore((s) => s.reorderObject);
 
+  const [renamingLayerId, setRenamingLayerId] = useState<string | null>(null);
+
   const canDeleteLayer = layers.length > 1;
   const selectedSet = new Set(selectedObjectIds);
 
+  const commitRename = (layer: VectorLayer, value: string) => {
+    setRenamingLayerId(null);
+    const name = value.trim();
+    if (name && name !== layer.name) {
+      updateLayer(layer.id, { name });
+    }
+  };
+
   const handleMoveUp = (index: number) => {
     if (index < layers.length - 1) {
       reorderLayer(index, index + 1);
@@ -133,7 +146,36 @@ export function LayersPanel() {
                 </button>
 
                 <div className="flex-1 min-w-0">
-                  <span className="text-sm truncate block">{layer.name}</span>
+                  {renamingLayerId === layer.id ? (
+                    <input
+                      type="text"
+                      defaultValue={layer.name}
+                      autoFocus
+                      onClick={(e) => e.stopPropagation()}
+                      onBlur={(e) => commitRename(layer, e.target.value)}
+                      onKeyDown={(e) => {
+                        e.stopPropagation();
+                        if (e.key === "Enter") {
+                          commitRename(layer, e.currentTarget.value);
+                        } else if (e.key === "Escape") {
+                          setRenamingLayerId(null);
+                        }
+                      }}
+                      className="w-full px-1 py-0 text-sm border border-blue-400 rounded bg-white"
+                      aria-label="Layer name"
+                    />
+                  ) : (
+                    <span
+                      className="text-sm truncate block"
+                      onDoubleClick={(e) => {
+                        e.stopPropagation();
+                        setRenamingLayerId(layer.id);
+                      }}
+                      title="Double-click to rename"
+                    >
+                      {layer.name}
+                    </span>
+                  )}
                   <span className="text-[10px] text-gray-400">
                     {layer.objects.length} object{layer.objects.length !== 1 ? "s" : ""}
                   </span>
@@ -212,6 +254,7 @@ export function LayersPanel() {
               value={Math.round(
                 (layers.find((l) => l.id === activeLayerId)?.opacity ?? 1) * 100,
               )}
+              {...opacityDrag}
               onChange={(e) =>
                 updateLayer(activeLayerId, {
                   opacity: Number(e.target.value) / 100,
@@ -4,9 +4,30 @@ import { useCallback, useEffect, useRef } from "react";
 import { normalizeTextAlign, textStyleFromOptions } from "@/lib/vector/textObject";
 import { useDocumentStore } from "@/store/documentStore";
 import { useCanvasStore } from "@/store/canvasStore";
-import { getWorldBounds } from "@/lib/vector/bounds";
-import type { TextObject, VectorObject } from "@/types/vector";
-import { TextSettings } from "@/components/toolbar/TextSettings";
+import { getWorldBounds, mergeBounds } from "@/lib/vector/bounds";
+import { fitBoundsScale, scaleObject } from "@/lib/vector/selectionTransform";
+import {
+  alignTargetBounds,
+  type AlignEdge,
+  type DistributeAxis,
+} from "@/lib/vector/align";
+import type { AlignTarget } from "@/types";
+import { isBooleanOperand, type BooleanOperation } from "@/lib/vector/pathBoolean";
+import { canConvertToPath } from "@/lib/vector/shapeGeometry";
+import { MAX_SKEW } from "@/lib/vector/matrix";
+import { isCompoundPath } from "@/lib/vector/compoundPath";
+import { MIXED, sharedValue, type Mixed } from "@/lib/vector/mixedValues";
+import { hasAppearance } from "@/lib/vector/appearance";
+import { createSolidFill, createStroke } from "@/types/vector";
+import type {
+  BoundingBox,
+  FillRule,
+  RectangleObject,
+  TextObject,
+  VectorObject,
+} from "@/types/vector";
+import { FONT_FAMILIES, TextSettings } from "@/components/toolbar/TextSettings";
+import { useDragTransaction } from "@/hooks/useDragTransaction";
 
 /**
  * Properties panel — shows editable properties for the selected object(s).
@@ -50,6 +71,524 @@ export function PropertiesPanel() {
       <div className="text-xs text-gray-600">
         {selectedObjectIds.length} objects selected
       </div>
+      <SelectionBoundsProps />
+      <SelectionStyleProps />
+      <AlignButtons objectIds={selectedObjectIds} />
+      <PathfinderButtons objectIds={selectedObjectIds} />
+      <FlipButtons objectIds={selectedObjectIds} />
+      <MakeCompoundPathButton objectIds={selectedObjectIds} />
+      <ConvertToPathButton objectIds={selectedObjectIds} />
+      <SimplifyPathButton objectIds={selectedObjectIds} />
+    </div>
+  );
+}
+
+/** X/Y/W/H of the merged selection bounds; edits scale the selection as one */
+function SelectionBoundsProps() {
+  const getSelectedObjects = useDocumentStore((s) => s.getSelectedObjects);
+  const updateObject = useDocumentStore((s) => s.updateObject);
+  const transaction = useDocumentStore((s) => s.transaction);
+
+  const selected = getSelectedObjects();
+  if (selected.length === 0) return null;
+  const bounds = mergeBounds(selected.map(getWorldBounds));
+
+  const setBounds = (field: keyof BoundingBox, value: number) => {
+    const scale = fitBoundsScale(bounds, { ...bounds, [field]: value });
+    transaction(field === "x" || field === "y" ? "Move objects" : "Resize objects", () => {
+      for (const obj of selected) updateObject(obj.id, scaleObject(obj, scale));
+    });
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-1 text-xs">
+        <NumInput label="X" value={Math.round(bounds.x)} onChange={(v) => setBounds("x", v)} />
+        <NumInput label="Y" value={Math.round(bounds.y)} onChange={(v) => setBounds("y", v)} />
+      </div>
+      <div className="grid grid-cols-2 gap-1 text-xs">
+        <NumInput
+          label="W"
+          value={Math.round(bounds.width)}
+          onChange={(v) => setBounds("width", v)}
+          min={1}
+        />
+        <NumInput
+          label="H"
+          value={Math.round(bounds.height)}
+          onChange={(v) => setBounds("height", v)}
+          min={1}
+        />
+      </div>
+    </>
+  );
+}
+
+/**
+ * Appearance of a multi-selection: fields where the unlocked objects
+ * differ read "Mixed", and an edit applies to every object it fits as one
+ * undo step.
+ */
+function SelectionStyleProps() {
+  const getSelectedObjects = useDocumentStore((s) => s.getSelectedObjects);
+  const updateAppearance = useDocumentStore((s) => s.updateAppearance);
+  const opacityDrag = useDragTransaction("Change opacity");
+
+  const objects = getSelectedObjects().filter((obj) => !obj.locked);
+  if (objects.length === 0) return null;
+
+  const objectIds = objects.map((obj) => obj.id);
+  const strokable = objects.filter((obj) => hasAppearance(obj, "stroke"));
+  const fillable = objects.filter((obj) => hasAppearance(obj, "fill"));
+  const rectangles = objects.filter((obj): obj is RectangleObject => obj.type === "rectangle");
+  const texts = objects.filter((obj): obj is TextObject => obj.type === "text");
+
+  const opacity = sharedValue(objects, (obj) => Math.round(obj.opacity * 100));
+  const fill = sharedValue(fillable, (obj) =>
+    obj.fill === null ? null : obj.fill.type === "solid" ? obj.fill.color : "gradient",
+  );
+  const strokeColor = sharedValue(strokable, (obj) => obj.stroke?.color ?? null);
+  const strokeWidth = sharedValue(strokable, (obj) => obj.stroke?.width ?? null);
+  const cornerRadius = sharedValue(rectangles, (obj) => obj.cornerRadius[0]);
+  const fontFamily = sharedValue(texts, (obj) => obj.fontFamily);
+  const fontSize = sharedValue(texts, (obj) => obj.fontSize);
+  const bold = sharedValue(texts, (obj) => obj.fontWeight === "bold");
+  const italic = sharedValue(texts, (obj) => obj.fontStyle === "italic");
+
+  // Color inputs fire on every step of the native picker's drag
+  const setFillColor = (color: string, coalesce?: string) =>
+    updateAppearance(
+      objectIds,
+      "fill",
+      "Change fill",
+      (obj) => ({
+        fill: createSolidFill(color, obj.fill?.type === "solid" ? obj.fill.opacity : 1),
+      }),
+      { coalesce },
+    );
+  // Only strokes that exist; "+ Add stroke" is how the others get one
+  const setStroke = (updates: { color?: string; width?: number }, coalesce?: string) =>
+    updateAppearance(
+      objectIds,
+      "stroke",
+      "Change stroke",
+      (obj) => (obj.stroke ? { stroke: { ...obj.stroke, ...updates } } : null),
+      { coalesce },
+    );
+  const setTextStyle = (updates: Partial<TextObject>) =>
+    updateAppearance(objectIds, "text", "Change textStyle", () => updates);
+
+  return (
+    <div className="flex flex-col gap-3 text-xs">
+      {/* Opacity: one undo step per slider drag */}
+      <div className="flex items-center gap-2">
+        <label className="text-gray-600 w-14">Opacity</label>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={opacity === MIXED ? 100 : (opacity ?? 100)}
+          {...opacityDrag}
+          onChange={(e) => {
+            const after = Number(e.target.value) / 100;
+            updateAppearance(objectIds, "opacity", "Change opacity", () => ({ opacity: after }));
+          }}
+          className="flex-1 h-2"
+        />
+        <span className="w-10 text-right text-gray-600">
+          {opacity === MIXED ? "Mixed" : `${opacity}%`}
+        </span>
+      </div>
+
+      {fillable.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <label className="text-gray-600 font-medium">Fill</label>
+          {fill === null ? (
+            <button
+              onClick={() => setFillColor("#3b82f6")}
+              className="text-left text-blue-500 hover:text-blue-700"
+            >
+              + Add fill
+            </button>
+          ) : (
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={typeof fill === "string" && fill !== "gradient" ? fill : "#000000"}
+                onChange={(e) => setFillColor(e.target.value, "selection-fill")}
+                className="w-8 h-6 cursor-pointer border-0 p-0"
+              />
+              <span className="text-gray-500">{mixedLabel(fill)}</span>
+              <button
+                onClick={() =>
+                  updateAppearance(objectIds, "fill", "Change fill", () => ({ fill: null }))
+                }
+                className="ml-auto text-gray-400 hover:text-red-500"
+                title="Remove fill"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {strokable.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <label className="text-gray-600 font-medium">Stroke</label>
+          {strokeColor === null ? (
+            <button
+              onClick={() =>
+                updateAppearance(objectIds, "stroke", "Change stroke", (obj) => ({
+                  stroke: obj.stroke ?? createStroke(),
+                }))
+              }
+              className="text-left text-blue-500 hover:text-blue-700"
+            >
+              + Add stroke
+            </button>
+          ) : (
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={typeof strokeColor === "string" ? strokeColor : "#000000"}
+                onChange={(e) => setStroke({ color: e.target.value }, "selection-stroke")}
+                className="w-8 h-6 cursor-pointer border-0 p-0"
+                title={strokeColor === MIXED ? "Mixed" : strokeColor}
+              />
+              <NumInput
+                label="W"
+                value={strokeWidth}
+                onChange={(v) => setStroke({ width: v })}
+                min={0.5}
+                max={100}
+              />
+              <button
+                onClick={() =>
+                  updateAppearance(objectIds, "stroke", "Change stroke", () => ({ stroke: null }))
+                }
+                className="ml-auto text-gray-400 hover:text-red-500"
+                title="Remove stroke"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {rectangles.length > 0 && (
+        <NumInput
+          label="Corner R"
+          value={cornerRadius}
+          onChange={(v) =>
+            updateAppearance(objectIds, "cornerRadius", "Change cornerRadius", () => ({
+              cornerRadius: [v, v, v, v],
+            }))
+          }
+          min={0}
+        />
+      )}
+
+      {texts.length > 0 && (
+        <div className="flex flex-col gap-2 border-t border-gray-200 pt-2">
+          <span className="text-gray-600 font-medium">Text</span>
+          <select
+            value={fontFamily === MIXED ? "" : fontFamily}
+            onChange={(e) => setTextStyle({ fontFamily: e.target.value })}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded bg-white"
+          >
+            {fontFamily === MIXED && (
+              <option value="" disabled>
+                Mixed
+              </option>
+            )}
+            {FONT_FAMILIES.map((font) => (
+              <option key={font} value={font}>
+                {font}
+              </option>
+            ))}
+          </select>
+          <NumInput
+            label="Size"
+            value={fontSize}
+            onChange={(v) => setTextStyle({ fontSize: v })}
+            min={8}
+            max={200}
+            suffix="px"
+          />
+          <div className="flex flex-wrap gap-3 text-gray-700">
+            <MixedCheckbox
+              label="Bold"
+              checked={bold}
+              onChange={(on) => setTextStyle({ fontWeight: on ? "bold" : "normal" })}
+            />
+            <MixedCheckbox
+              label="Italic"
+              checked={italic}
+              onChange={(on) => setTextStyle({ fontStyle: on ? "italic" : "normal" })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// Object commands
+// ============================================
+
+/** Object → Flip Horizontal / Vertical, across the selection center */
+function FlipButtons({ objectIds }: { objectIds: string[] }) {
+  const getObject = useDocumentStore((s) => s.getObject);
+  const flipObjects = useDocumentStore((s) => s.flipObjects);
+
+  const flippable = objectIds.some((id) => {
+    const obj = getObject(id);
+    return obj !== undefined && !obj.locked;
+  });
+  if (!flippable) return null;
+
+  return (
+    <div className="flex gap-1">
+      <button
+        type="button"
+        onClick={() => flipObjects(objectIds, "horizontal")}
+        className="flex-1 px-2 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+        title="Mirror left to right (Shift+H)"
+      >
+        Flip Horizontal
+      </button>
+      <button
+        type="button"
+        onClick={() => flipObjects(objectIds, "vertical")}
+        className="flex-1 px-2 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+        title="Mirror top to bottom (Shift+V)"
+      >
+        Flip Vertical
+      </button>
+    </div>
+  );
+}
+
+/** Object → Convert to Path; hidden when no selected object is a shape */
+function ConvertToPathButton({ objectIds }: { objectIds: string[] }) {
+  const getObject = useDocumentStore((s) => s.getObject);
+  const convertToPath = useDocumentStore((s) => s.convertToPath);
+
+  const convertible = objectIds.some((id) => {
+    const obj = getObject(id);
+    return obj !== undefined && !obj.locked && canConvertToPath(obj);
+  });
+  if (!convertible) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={() => convertToPath(objectIds)}
+      className="px-2 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+      title="Replace with an editable path (Ctrl+Shift+C)"
+    >
+      Convert to Path
+    </button>
+  );
+}
+
+/** Object → Simplify Path; refits paths with fewer anchors at the brush fidelity */
+function SimplifyPathButton({ objectIds }: { objectIds: string[] }) {
+  const getObject = useDocumentStore((s) => s.getObject);
+  const simplifyPaths = useDocumentStore((s) => s.simplifyPaths);
+
+  const simplifiable = objectIds.some((id) => {
+    const obj = getObject(id);
+    return obj !== undefined && !obj.locked && obj.type === "path";
+  });
+  if (!simplifiable) return null;
+
+  const handleClick = () => {
+    const { fidelity } = useCanvasStore.getState().brushOptions;
+    const { before, after } = simplifyPaths(objectIds, fidelity);
+    alert(
+      after < before
+        ? `Simplified from ${before} to ${after} anchor points.`
+        : `Already simple: ${before} anchor points.`,
+    );
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className="px-2 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+      title="Refit with fewer anchor points, within the brush fidelity"
+    >
+      Simplify Path
+    </button>
+  );
+}
+
+/** Object → Make Compound Path; needs two or more unlocked shapes */
+function MakeCompoundPathButton({ objectIds }: { objectIds: string[] }) {
+  const getObject = useDocumentStore((s) => s.getObject);
+  const makeCompoundPath = useDocumentStore((s) => s.makeCompoundPath);
+
+  const operandCount = objectIds.filter((id) => {
+    const obj = getObject(id);
+    return obj !== undefined && !obj.locked && isBooleanOperand(obj);
+  }).length;
+  if (operandCount < 2) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={() => makeCompoundPath(objectIds)}
+      className="px-2 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+      title="Merge into one path; shapes inside others become holes"
+    >
+      Make Compound Path
+    </button>
+  );
+}
+
+/** Object → Release Compound Path; only for paths with several subpaths */
+function ReleaseCompoundPathButton({ obj }: { obj: VectorObject }) {
+  const releaseCompoundPath = useDocumentStore((s) => s.releaseCompoundPath);
+  if (obj.locked || !isCompoundPath(obj)) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={() => releaseCompoundPath([obj.id])}
+      className="px-2 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+      title="Split into one path per subpath"
+    >
+      Release Compound Path
+    </button>
+  );
+}
+
+const PATHFINDER_ACTIONS: Array<{ operation: BooleanOperation; label: string; title: string }> = [
+  { operation: "union", label: "Unite", title: "Merge shapes into one outline" },
+  { operation: "subtract", label: "Minus Front", title: "Cut the front shapes out of the back one" },
+  { operation: "intersect", label: "Intersect", title: "Keep only where all shapes overlap" },
+  { operation: "exclude", label: "Exclude", title: "Remove where shapes overlap" },
+];
+
+function PathfinderButtons({ objectIds }: { objectIds: string[] }) {
+  const getObject = useDocumentStore((s) => s.getObject);
+  const combineObjects = useDocumentStore((s) => s.combineObjects);
+
+  const operandCount = objectIds.filter((id) => {
+    const obj = getObject(id);
+    return obj !== undefined && !obj.locked && isBooleanOperand(obj);
+  }).length;
+  const enabled = operandCount >= 2;
+
+  return (
+    <div className="flex flex-col gap-1 text-xs">
+      <label className="text-gray-600 font-medium">Pathfinder</label>
+      <div className="grid grid-cols-2 gap-1">
+        {PATHFINDER_ACTIONS.map(({ operation, label, title }) => (
+          <button
+            key={operation}
+            type="button"
+            disabled={!enabled}
+            onClick={() => {
+              if (!combineObjects(objectIds, operation)) {
+                alert("Nothing would be left of the shapes, so they were not changed.");
+              }
+            }}
+            className={`px-2 py-1 rounded border ${
+              enabled
+                ? "border-gray-300 text-gray-700 hover:bg-gray-100"
+                : "border-gray-200 text-gray-300 cursor-not-allowed"
+            }`}
+            title={enabled ? title : "Select two or more unlocked shapes or paths"}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const ALIGN_ACTIONS: Array<{ edge: AlignEdge; label: string; title: string }> = [
+  { edge: "left", label: "Left", title: "Align left edges (Alt+A)" },
+  { edge: "center", label: "Center", title: "Align horizontal centers (Alt+H)" },
+  { edge: "right", label: "Right", title: "Align right edges (Alt+D)" },
+  { edge: "top", label: "Top", title: "Align top edges (Alt+W)" },
+  { edge: "middle", label: "Middle", title: "Align vertical centers (Alt+V)" },
+  { edge: "bottom", label: "Bottom", title: "Align bottom edges (Alt+S)" },
+];
+
+const DISTRIBUTE_ACTIONS: Array<{ axis: DistributeAxis; label: string; title: string }> = [
+  { axis: "horizontal", label: "Space Horizontally", title: "Equal gaps left to right (Alt+Shift+H)" },
+  { axis: "vertical", label: "Space Vertically", title: "Equal gaps top to bottom (Alt+Shift+V)" },
+];
+
+/** Align to the selection, key object or artboard; distribute spacing */
+function AlignButtons({ objectIds }: { objectIds: string[] }) {
+  const getObject = useDocumentStore((s) => s.getObject);
+  const alignObjects = useDocumentStore((s) => s.alignObjects);
+  const distributeObjects = useDocumentStore((s) => s.distributeObjects);
+  const alignTarget = useCanvasStore((s) => s.alignTarget);
+  const setAlignTarget = useCanvasStore((s) => s.setAlignTarget);
+  const canvasSize = useCanvasStore((s) => s.canvasSize);
+
+  const canDistribute = objectIds.length >= 3;
+  const align = (edge: AlignEdge) => {
+    const target = alignTargetBounds(alignTarget, objectIds, getObject, canvasSize);
+    if (target) alignObjects(objectIds, edge, target);
+  };
+
+  return (
+    <div className="flex flex-col gap-1 text-xs">
+      <div className="flex items-center gap-2">
+        <label className="text-gray-600 font-medium">Align to</label>
+        <select
+          value={alignTarget}
+          onChange={(e) => setAlignTarget(e.target.value as AlignTarget)}
+          className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded bg-white"
+          title="Key object is the first one selected"
+        >
+          <option value="selection">Selection</option>
+          <option value="key">Key object</option>
+          <option value="artboard">Artboard</option>
+        </select>
+      </div>
+      <div className="grid grid-cols-3 gap-1">
+        {ALIGN_ACTIONS.map(({ edge, label, title }) => (
+          <button
+            key={edge}
+            type="button"
+            onClick={() => align(edge)}
+            className="px-2 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+            title={title}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-1">
+        {DISTRIBUTE_ACTIONS.map(({ axis, label, title }) => (
+          <button
+            key={axis}
+            type="button"
+            disabled={!canDistribute}
+            onClick={() => distributeObjects(objectIds, axis)}
+            className={`px-2 py-1 rounded border ${
+              canDistribute
+                ? "border-gray-300 text-gray-700 hover:bg-gray-100"
+                : "border-gray-200 text-gray-300 cursor-not-allowed"
+            }`}
+            title={canDistribute ? title : "Select three or more objects"}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
     </div>
   );
 }
@@ -60,54 +599,25 @@ export function PropertiesPanel() {
 
 function SingleObjectProps({ obj }: { obj: VectorObject }) {
   const updateObject = useDocumentStore((s) => s.updateObject);
-  const pushHistory = useDocumentStore((s) => s.pushHistory);
-  const getObjectLayerId = useDocumentStore((s) => s.getObjectLayerId);
-
-  const commitChange = useCallback(
-    (field: string, before: unknown, after: unknown) => {
-      const layerId = getObjectLayerId(obj.id);
-      if (!layerId) return;
-      pushHistory(`Change ${field}`, [
-        {
-          type: "modify-object",
-          objectId: obj.id,
-          layerId,
-          before: { [field]: before },
-          after: { [field]: after },
-        },
-      ]);
+  const transaction = useDocumentStore((s) => s.transaction);
+
+  const change = useCallback(
+    (field: string, updates: Record<string, unknown>) => {
+      transaction(`Change ${field}`, () => updateObject(obj.id, updates));
     },
-    [obj.id, getObjectLayerId, pushHistory],
+    [obj.id, transaction, updateObject],
   );
 
   const setTransformField = useCallback(
-    (field: "x" | "y" | "rotation", value: number) => {
-      const before = { ...obj.transform };
-      const after = { ...obj.transform, [field]: value };
-      updateObject(obj.id, { transform: after });
-      const layerId = getObjectLayerId(obj.id);
-      if (layerId) {
-        pushHistory(`Change ${field}`, [
-          {
-            type: "modify-object",
-            objectId: obj.id,
-            layerId,
-            before: { transform: before },
-            after: { transform: after },
-          },
-        ]);
-      }
+    (field: "x" | "y" | "rotation" | "skewX" | "skewY", value: number) => {
+      change(field, { transform: { ...obj.transform, [field]: value } });
     },
-    [obj, updateObject, getObjectLayerId, pushHistory],
+    [obj.transform, change],
   );
 
   const setNumericField = useCallback(
-    (field: string, value: number) => {
-      const before = (obj as unknown as Record<string, unknown>)[field];
-      updateObject(obj.id, { [field]: value });
-      commitChange(field, before, value);
-    },
-    [obj, updateObject, commitChange],
+    (field: string, value: number) => change(field, { [field]: value }),
+    [change],
   );
 
   const bounds = getWorldBounds(obj);
@@ -124,11 +634,7 @@ function SingleObjectProps({ obj }: { obj: VectorObject }) {
         label="Name"
         type="text"
         value={obj.name}
-        onChange={(val) => {
-          const before = obj.name;
-          updateObject(obj.id, { name: val });
-          commitChange("name", before, val);
-        }}
+        onChange={(val) => change("name", { name: val })}
       />
 
       {/* Position */}
@@ -179,6 +685,26 @@ function SingleObjectProps({ obj }: { obj: VectorObject }) {
         suffix="°"
       />
 
+      {/* Skew */}
+      <div className="grid grid-cols-2 gap-1">
+        <NumInput
+          label="Skew X"
+          value={Math.round(obj.transform.skewX)}
+          onChange={(v) => setTransformField("skewX", clampSkew(v))}
+          min={-MAX_SKEW}
+          max={MAX_SKEW}
+          suffix="°"
+        />
+        <NumInput
+          label="Skew Y"
+          value={Math.round(obj.transform.skewY)}
+          onChange={(v) => setTransformField("skewY", clampSkew(v))}
+          min={-MAX_SKEW}
+          max={MAX_SKEW}
+          suffix="°"
+        />
+      </div>
+
       {/* Opacity */}
       <div className="flex items-center gap-2">
         <label className="text-gray-600 w-14">Opacity</label>
@@ -210,19 +736,15 @@ function SingleObjectProps({ obj }: { obj: VectorObject }) {
               type="color"
               value={obj.fill.color}
               onChange={(e) => {
-                const before = obj.fill;
                 const after = { ...obj.fill!, type: "solid" as const, color: e.target.value };
-                updateObject(obj.id, { fill: after });
-                commitChange("fill", before, after);
+                change("fill", { fill: after });
               }}
               className="w-8 h-6 cursor-pointer border-0 p-0"
             />
             <span className="text-gray-500">{obj.fill.color}</span>
             <button
               onClick={() => {
-                const before = obj.fill;
-                updateObject(obj.id, { fill: null });
-                commitChange("fill", before, null);
+                change("fill", { fill: null });
               }}
               className="ml-auto text-gray-400 hover:text-red-500"
               title="Remove fill"
@@ -234,8 +756,7 @@ function SingleObjectProps({ obj }: { obj: VectorObject }) {
           <button
             onClick={() => {
               const fill = { type: "solid" as const, color: "#3b82f6", opacity: 1 };
-              updateObject(obj.id, { fill });
-              commitChange("fill", null, fill);
+              change("fill", { fill });
             }}
             className="text-blue-500 hover:text-blue-700"
           >
@@ -254,10 +775,8 @@ function SingleObjectProps({ obj }: { obj: VectorObject }) {
                 type="color"
                 value={obj.stroke.color}
                 onChange={(e) => {
-                  const before = obj.stroke;
                   const after = { ...obj.stroke!, color: e.target.value };
-                  updateObject(obj.id, { stroke: after });
-                  commitChange("stroke", before, after);
+                  change("stroke", { stroke: after });
                 }}
                 className="w-8 h-6 cursor-pointer border-0 p-0"
               />
@@ -265,19 +784,15 @@ function SingleObjectProps({ obj }: { obj: VectorObject }) {
                 label="W"
                 value={obj.stroke.width}
                 onChange={(v) => {
-                  const before = obj.stroke;
                   const after = { ...obj.stroke!, width: v };
-                  updateObject(obj.id, { stroke: after });
-                  commitChange("stroke", before, after);
+                  change("stroke", { stroke: after });
                 }}
                 min={0.5}
                 max={100}
               />
               <button
                 onClick={() => {
-                  const before = obj.stroke;
-                  updateObject(obj.id, { stroke: null });
-                  commitChange("stroke", before, null);
+                  change("stroke", { stroke: null });
                 }}
                 className="ml-auto text-gray-400 hover:text-red-500"
                 title="Remove stroke"
@@ -297,8 +812,7 @@ function SingleObjectProps({ obj }: { obj: VectorObject }) {
                 lineJoin: "round" as const,
                 dashArray: [] as number[],
               };
-              updateObject(obj.id, { stroke });
-              commitChange("stroke", null, stroke);
+              change("stroke", { stroke });
             }}
             className="text-blue-500 hover:text-blue-700"
           >
@@ -313,10 +827,8 @@ function SingleObjectProps({ obj }: { obj: VectorObject }) {
           label="Corner R"
           value={obj.cornerRadius[0]}
           onChange={(v) => {
-            const before = obj.cornerRadius;
             const after: [number, number, number, number] = [v, v, v, v];
-            updateObject(obj.id, { cornerRadius: after });
-            commitChange("cornerRadius", before, after);
+            change("cornerRadius", { cornerRadius: after });
           }}
           min={0}
         />
@@ -332,21 +844,43 @@ function SingleObjectProps({ obj }: { obj: VectorObject }) {
         />
       )}
 
+      {obj.type === "path" && (
+        <div className="flex items-center gap-2">
+          <label className="text-gray-600 w-14">Fill rule</label>
+          <select
+            value={obj.fillRule}
+            onChange={(e) => {
+              const after = e.target.value as FillRule;
+              change("fillRule", { fillRule: after });
+            }}
+            className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded bg-white"
+            title="Even-odd cuts holes where subpaths overlap, whatever their direction"
+          >
+            <option value="nonzero">Nonzero</option>
+            <option value="evenodd">Even-odd</option>
+          </select>
+        </div>
+      )}
+
       {obj.type === "text" && (
-        <TextObjectProps obj={obj} updateObject={updateObject} commitChange={commitChange} />
+        <TextObjectProps obj={obj} change={change} />
       )}
+
+      <AlignButtons objectIds={[obj.id]} />
+      <FlipButtons objectIds={[obj.id]} />
+      <ConvertToPathButton objectIds={[obj.id]} />
+      <ReleaseCompoundPathButton obj={obj} />
+      <SimplifyPathButton objectIds={[obj.id]} />
     </div>
   );
 }
 
 function TextObjectProps({
   obj,
-  updateObject,
-  commitChange,
+  change,
 }: {
   obj: TextObject;
-  updateObject: ReturnType<typeof useDocumentStore.getState>["updateObject"];
-  commitChange: (field: string, before: unknown, after: unknown) => void;
+  change: (field: string, updates: Record<string, unknown>) => void;
 }) {
   const textOptions = useCanvasStore((s) => s.textOptions);
   const setTextOptions = useCanvasStore((s) => s.setTextOptions);
@@ -375,16 +909,8 @@ function TextObjectProps({
 
     if (!changed) return;
 
-    const before = {
-      fontFamily: obj.fontFamily,
-      fontSize: obj.fontSize,
-      fontWeight: obj.fontWeight,
-      fontStyle: obj.fontStyle,
-      textAlign: obj.textAlign,
-    };
-    updateObject(obj.id, style);
-    commitChange("textStyle", before, style);
-  }, [textOptions, obj, setTextOptions, updateObject, commitChange]);
+    change("textStyle", style);
+  }, [textOptions, obj, setTextOptions, change]);
 
   return (
     <div className="flex flex-col gap-2 border-t border-gray-200 pt-2">
@@ -393,12 +919,7 @@ function TextObjectProps({
         Content
         <textarea
           value={obj.content}
-          onChange={(e) => {
-            const before = obj.content;
-            const after = e.target.value;
-            updateObject(obj.id, { content: after });
-            commitChange("content", before, after);
-          }}
+          onChange={(e) => change("content", { content: e.target.value })}
           rows={2}
           className="mt-0.5 w-full px-1.5 py-1 text-xs border border-gray-300 rounded bg-white resize-y"
         />
@@ -412,6 +933,7 @@ function TextObjectProps({
 // Reusable input components
 // ============================================
 
+/** Number field; a MIXED value shows empty with a "Mixed" placeholder */
 function NumInput({
   label,
   value,
@@ -421,21 +943,25 @@ function NumInput({
   suffix,
 }: {
   label: string;
-  value: number;
+  value: Mixed<number | null> | undefined;
   onChange: (v: number) => void;
   min?: number;
   max?: number;
   suffix?: string;
 }) {
+  const mixed = value === MIXED;
   return (
     <div className="flex items-center gap-1">
       <label className="text-gray-600 w-8 shrink-0">{label}</label>
       <input
         type="number"
-        value={value}
+        value={mixed ? "" : (value ?? "")}
+        placeholder={mixed ? "Mixed" : undefined}
         min={min}
         max={max}
-        onChange={(e) => onChange(Number(e.target.value))}
+        onChange={(e) => {
+          if (e.target.value !== "") onChange(Number(e.target.value));
+        }}
         className="w-full px-1.5 py-0.5 text-xs border border-gray-300 rounded bg-white"
       />
       {suffix && <span className="text-gray-400">{suffix}</span>}
@@ -466,3 +992,40 @@ function PropInput({
     </div>
   );
 }
+
+/** Checkbox that shows indeterminate for MIXED */
+function MixedCheckbox({
+  label,
+  checked,
+  onChange,
+}: {
+  label: string;
+  checked: Mixed<boolean> | undefined;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1">
+      <input
+        type="checkbox"
+        checked={checked === true}
+        ref={(el) => {
+          if (el) el.indeterminate = checked === MIXED;
+        }}
+        onChange={(e) => onChange(e.target.checked)}
+        className="rounded"
+      />
+      {label}
+    </label>
+  );
+}
+
+/** Readable form of a shared fill or stroke value */
+function mixedLabel(value: Mixed<string | null> | undefined): string {
+  if (value === MIXED) return "Mixed";
+  if (value === "gradient") return "Gradient";
+  return value ?? "None";
+}
+
+function clampSkew(degrees: number): number {
+  return Math.min(MAX_SKEW, Math.max(-MAX_SKEW, degrees));
+}
@@ -6,10 +6,13 @@ import { TextSettings } from "./TextSettings";
 /**
  * Tool settings panel — shows vector-relevant controls based on active tool.
  *
- * - Shape / brush tools: stroke width
+ * - Shape tools: stroke width
+ * - Brush: pressure width range and tapers
  * - Text tool: font settings
  * - Selection: nothing (PropertiesPanel handles it)
- * - Eraser / fill / eyedropper: usage hint
+ * - Eraser: brush size
+ * - Fill: object recolor vs. enclosed-area mode, gap tolerance
+ * - Eyedropper: usage hint
  */
 export function BrushSettings() {
   const {
@@ -20,6 +23,14 @@ export function BrushSettings() {
     setStrokeEnabled,
     fillEnabled,
     setFillEnabled,
+    brushSize,
+    setBrushSize,
+    brushOptions,
+    setBrushOptions,
+    fillMode,
+    setFillMode,
+    fillGapTolerance,
+    setFillGapTolerance,
   } = useCanvasStore();
 
   const isDrawingTool = [
@@ -27,10 +38,17 @@ export function BrushSettings() {
     "ellipse",
     "line",
     "polygon",
-    "brush",
     "pen",
   ].includes(activeTool);
 
+  const brushSliders = [
+    { key: "minWidth", label: "Min width", min: 0, max: 50, step: 1 },
+    { key: "maxWidth", label: "Max width", min: 1, max: 100, step: 1 },
+    { key: "taperStart", label: "Taper in", min: 0, max: 200, step: 1 },
+    { key: "taperEnd", label: "Taper out", min: 0, max: 200, step: 1 },
+    { key: "fidelity", label: "Fidelity", min: 0.5, max: 10, step: 0.5 },
+  ] as const;
+
   return (
     <div className="flex flex-col gap-3 p-2 bg-gray-100 rounded-lg">
       {/* Tool name header */}
@@ -78,6 +96,36 @@ export function BrushSettings() {
         </div>
       )}
 
+      {/* Variable-width brush — width follows pen pressure */}
+      {activeTool === "brush" && (
+        <>
+          {brushSliders.map(({ key, label, min, max, step }) => (
+            <div key={key} className="flex flex-col gap-1">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-700">{label}</span>
+                <span className="text-xs text-gray-500 ml-auto">
+                  {brushOptions[key]}px
+                </span>
+              </div>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={brushOptions[key]}
+                onChange={(e) => setBrushOptions({ [key]: Number(e.target.value) })}
+                className="flex-1"
+              />
+            </div>
+          ))}
+          <p className="text-xs text-gray-400">
+            Paints in the stroke color. Pen pressure sets the width; with a
+            mouse, faster strokes draw thinner. Higher fidelity values smooth
+            the stroke with fewer anchor points.
+          </p>
+        </>
+      )}
+
       {/* Fill toggle — for shape tools */}
       {["rectangle", "ellipse", "polygon"].includes(activeTool) && (
         <label className="flex items-center gap-1 text-xs text-gray-700">
@@ -97,6 +145,14 @@ export function BrushSettings() {
           Click to select. Drag to move. Shift+click for multi-select.
         </p>
       )}
+      {activeTool === "direct-selection" && (
+        <p className="text-xs text-gray-400">
+          Click a path to show its anchors. Drag anchors or handles to reshape;
+          drag empty space to select several. Double-click the outline to add a
+          point, Alt+click or double-click a point to toggle smooth/corner,
+          Delete to remove points.
+        </p>
+      )}
       {activeTool === "pen" && (
         <>
           <p className="text-xs text-gray-400">
@@ -107,12 +163,72 @@ export function BrushSettings() {
       )}
 
       {activeTool === "eraser" && (
-        <p className="text-xs text-gray-400">Click an object to delete it.</p>
+        <>
+          <div className="flex flex-col gap-1">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-700">Size</span>
+              <span className="text-xs text-gray-500 ml-auto">
+                {brushSize}px
+              </span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max="100"
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="flex-1"
+            />
+          </div>
+          <p className="text-xs text-gray-400">
+            Drag across paths to cut strokes and punch holes in filled shapes.
+            [ and ] change the size.
+          </p>
+        </>
       )}
       {activeTool === "fill" && (
-        <p className="text-xs text-gray-400">
-          Click an object to apply the current fill color.
-        </p>
+        <>
+          <div className="flex gap-1" role="group" aria-label="Fill mode">
+            {(["object", "region"] as const).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setFillMode(mode)}
+                className={`flex-1 px-2 py-1 text-xs rounded border ${
+                  fillMode === mode
+                    ? "bg-blue-500 text-white border-blue-500"
+                    : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                }`}
+                aria-pressed={fillMode === mode}
+              >
+                {mode === "object" ? "Object" : "Enclosed area"}
+              </button>
+            ))}
+          </div>
+          {fillMode === "region" && (
+            <div className="flex flex-col gap-1">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-700">Close gaps</span>
+                <span className="text-xs text-gray-500 ml-auto">
+                  {fillGapTolerance}px
+                </span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="50"
+                value={fillGapTolerance}
+                onChange={(e) => setFillGapTolerance(Number(e.target.value))}
+                className="flex-1"
+              />
+            </div>
+          )}
+          <p className="text-xs text-gray-400">
+            {fillMode === "object"
+              ? "Click an object to apply the current fill color."
+              : "Click inside an area bounded by strokes or shapes to fill it with a new shape beneath them."}
+          </p>
+        </>
       )}
       {activeTool === "eyedropper" && (
         <p className="text-xs text-gray-400">
@@ -31,34 +31,41 @@ export function ColorPicker() {
   const selectedObjectIds = useDocumentStore((s) => s.selectedObjectIds);
   const updateObject = useDocumentStore((s) => s.updateObject);
   const getObject = useDocumentStore((s) => s.getObject);
+  const transaction = useDocumentStore((s) => s.transaction);
 
   // Which target the preset colors apply to
   const [activeTarget, setActiveTarget] = useState<ColorTarget>("fill");
 
-  const applyFillToSelection = (color: string) => {
+  // Native color inputs fire on every move of the picker, so `coalesce`
+  // merges one run of them into a single history entry
+  const applyFillToSelection = (color: string, coalesce?: string) => {
     setFillColor(color);
-    for (const id of selectedObjectIds) {
-      const obj = getObject(id);
-      if (obj) {
-        updateObject(id, {
-          fill: {
-            type: "solid" as const,
-            color,
-            opacity: obj.fill?.type === "solid" ? obj.fill.opacity : 1,
-          },
-        });
+    transaction("Change fill", () => {
+      for (const id of selectedObjectIds) {
+        const obj = getObject(id);
+        if (obj) {
+          updateObject(id, {
+            fill: {
+              type: "solid" as const,
+              color,
+              opacity: obj.fill?.type === "solid" ? obj.fill.opacity : 1,
+            },
+          });
+        }
       }
-    }
+    }, { coalesce });
   };
 
-  const applyStrokeToSelection = (color: string) => {
+  const applyStrokeToSelection = (color: string, coalesce?: string) => {
     setStrokeColor(color);
-    for (const id of selectedObjectIds) {
-      const obj = getObject(id);
-      if (obj && obj.stroke) {
-        updateObject(id, { stroke: { ...obj.stroke, color } });
+    transaction("Change stroke", () => {
+      for (const id of selectedObjectIds) {
+        const obj = getObject(id);
+        if (obj && obj.stroke) {
+          updateObject(id, { stroke: { ...obj.stroke, color } });
+        }
       }
-    }
+    }, { coalesce });
   };
 
   const handlePresetClick = (color: string) => {
@@ -104,7 +111,7 @@ export function ColorPicker() {
         <input
           type="color"
           value={fillColor}
-          onChange={(e) => applyFillToSelection(e.target.value)}
+          onChange={(e) => applyFillToSelection(e.target.value, "color-picker-fill")}
           className="w-7 h-7 cursor-pointer border-0 p-0 rounded"
           title="Pick fill color"
         />
@@ -164,7 +171,7 @@ export function ColorPicker() {
         <input
           type="color"
           value={strokeColor}
-          onChange={(e) => applyStrokeToSelection(e.target.value)}
+          onChange={(e) => applyStrokeToSelection(e.target.value, "color-picker-stroke")}
           className="w-7 h-7 cursor-pointer border-0 p-0 rounded"
           title="Pick stroke color"
         />
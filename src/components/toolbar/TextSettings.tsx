@@ -2,7 +2,7 @@
 
 import { useCanvasStore } from "@/store/canvasStore";
 
-const FONT_FAMILIES = [
+export const FONT_FAMILIES = [
   "Arial",
   "Helvetica",
   "Georgia",
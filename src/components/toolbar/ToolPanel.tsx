@@ -46,6 +46,15 @@ export function ToolPanel() {
           </svg>
         }
       />
+      <ToolButton
+        tool="direct-selection"
+        label="Direct Selection"
+        icon={
+          <svg className="w-5 h-5" fill="currentColor" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3l7.07 16.97 2.51-7.39 7.39-2.51L3 3z" />
+          </svg>
+        }
+      />
 
       <div className="border-t border-gray-300 my-1" />
 
@@ -5,6 +5,7 @@ import { useCanvasStore } from "@/store/canvasStore";
 import { useAuthStore } from "@/store/authStore";
 import { useDocumentStore } from "@/store/documentStore";
 import { UserMenu } from "@/components/auth/UserMenu";
+import { ViewMenu } from "./ViewMenu";
 
 interface ToolbarProps {
   onUndo: () => void;
@@ -124,6 +125,7 @@ export function Toolbar({
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4" />
           </svg>
         </ToolbarButton>
+        <ViewMenu />
       </div>
 
       {/* Spacer */}
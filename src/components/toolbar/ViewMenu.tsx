@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useCanvasStore } from "@/store/canvasStore";
+import { useDocumentStore } from "@/store/documentStore";
+import {
+  MAX_GRID_SPACING,
+  MAX_GRID_SUBDIVISIONS,
+  MIN_GRID_SPACING,
+} from "@/lib/vector/grid";
+
+/**
+ * View dropdown for the toolbar: smart guides, ruler guides, grid
+ * visibility and snapping, and the document's grid spacing, subdivisions
+ * and color
+ */
+export function ViewMenu() {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const snapToObjects = useCanvasStore((s) => s.snapToObjects);
+  const setSnapToObjects = useCanvasStore((s) => s.setSnapToObjects);
+  const grid = useDocumentStore((s) => s.grid);
+  const setGrid = useDocumentStore((s) => s.setGrid);
+  const guides = useDocumentStore((s) => s.guides);
+  const lockGuides = useDocumentStore((s) => s.lockGuides);
+  const clearGuides = useDocumentStore((s) => s.clearGuides);
+  const guidesLocked = guides.length > 0 && guides.every((g) => g.locked);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-2 py-1.5 text-sm rounded text-white hover:bg-gray-700 transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        View
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute left-0 mt-2 w-64 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50 text-gray-700"
+        >
+          <MenuCheckbox
+            label="Smart Guides"
+            shortcut="Ctrl+U"
+            checked={snapToObjects}
+            onChange={setSnapToObjects}
+          />
+          <MenuCheckbox
+            label="Show Grid"
+            shortcut="Ctrl+'"
+            checked={grid.visible}
+            onChange={(visible) => setGrid({ visible })}
+          />
+          <MenuCheckbox
+            label="Snap to Grid"
+            shortcut="Ctrl+Shift+'"
+            checked={grid.snap}
+            onChange={(snap) => setGrid({ snap })}
+          />
+          <MenuCheckbox
+            label="Lock Guides"
+            shortcut="Ctrl+Alt+;"
+            checked={guidesLocked}
+            onChange={lockGuides}
+          />
+          <button
+            role="menuitem"
+            onClick={clearGuides}
+            disabled={guides.length === 0}
+            className="w-full text-left px-4 py-2 text-sm hover:bg-gray-100 flex items-center gap-2 disabled:text-gray-400 disabled:hover:bg-transparent"
+          >
+            <span className="w-4" />
+            <span className="flex-1">Clear Guides</span>
+          </button>
+
+          <div className="border-t border-gray-100 mt-1 px-4 py-2 space-y-2 text-xs">
+            <div className="font-medium text-gray-500">Grid</div>
+            <GridField label="Spacing" suffix="px">
+              <input
+                type="number"
+                value={grid.spacing}
+                min={MIN_GRID_SPACING}
+                max={MAX_GRID_SPACING}
+                onChange={(e) => {
+                  const spacing = Number(e.target.value);
+                  if (spacing >= MIN_GRID_SPACING && spacing <= MAX_GRID_SPACING) {
+                    setGrid({ spacing });
+                  }
+                }}
+                className="w-full px-1.5 py-0.5 border border-gray-300 rounded bg-white"
+              />
+            </GridField>
+            <GridField label="Subdivisions">
+              <input
+                type="number"
+                value={grid.subdivisions}
+                min={1}
+                max={MAX_GRID_SUBDIVISIONS}
+                step={1}
+                onChange={(e) => {
+                  const subdivisions = Math.round(Number(e.target.value));
+                  if (subdivisions >= 1 && subdivisions <= MAX_GRID_SUBDIVISIONS) {
+                    setGrid({ subdivisions });
+                  }
+                }}
+                className="w-full px-1.5 py-0.5 border border-gray-300 rounded bg-white"
+              />
+            </GridField>
+            <GridField label="Color">
+              <input
+                type="color"
+                value={grid.color}
+                onChange={(e) => setGrid({ color: e.target.value })}
+                className="w-8 h-5 p-0 border border-gray-300 rounded cursor-pointer"
+              />
+            </GridField>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MenuCheckbox({
+  label,
+  shortcut,
+  checked,
+  onChange,
+}: {
+  label: string;
+  shortcut: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <button
+      role="menuitemcheckbox"
+      aria-checked={checked}
+      onClick={() => onChange(!checked)}
+      className="w-full text-left px-4 py-2 text-sm hover:bg-gray-100 flex items-center gap-2"
+    >
+      <span className="w-4 text-blue-600">{checked ? "✓" : ""}</span>
+      <span className="flex-1">{label}</span>
+      <span className="text-xs text-gray-400">{shortcut}</span>
+    </button>
+  );
+}
+
+function GridField({
+  label,
+  suffix,
+  children,
+}: {
+  label: string;
+  suffix?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="flex items-center gap-2">
+      <span className="w-20 shrink-0 text-gray-600">{label}</span>
+      {children}
+      {suffix && <span className="text-gray-400">{suffix}</span>}
+    </label>
+  );
+}
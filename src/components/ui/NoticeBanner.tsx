@@ -0,0 +1,30 @@
+"use client";
+
+import { useProjectStore } from "@/store/projectStore";
+
+/**
+ * Dismissible message above the toolbar for things the user should know
+ * but need not act on, such as repairs made to a loaded project.
+ */
+export function NoticeBanner() {
+  const notice = useProjectStore((s) => s.notice);
+  const setNotice = useProjectStore((s) => s.setNotice);
+  if (!notice) return null;
+
+  return (
+    <div
+      role="status"
+      className="flex items-start gap-3 px-4 py-2 bg-amber-50 border-b border-amber-200 text-sm text-amber-900"
+    >
+      <p className="flex-1 max-h-32 overflow-y-auto whitespace-pre-line">{notice}</p>
+      <button
+        type="button"
+        onClick={() => setNotice(null)}
+        className="px-2 py-1 rounded-md text-amber-800 hover:bg-amber-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-amber-500"
+        aria-label="Dismiss notice"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+"use client";
+
+import { useRef, useCallback } from "react";
+import { useDocumentStore } from "@/store/documentStore";
+import { hitTestLayers } from "@/lib/vector/hitTest";
+import { getWorldMatrix } from "@/lib/vector/sceneGraph";
+import { applyMatrix, invertMatrix, type Matrix2D } from "@/lib/vector/matrix";
+import { buildPath } from "@/lib/vector/renderer";
+import {
+  type HandleSide,
+  type PathAnchor,
+  deleteAnchors,
+  elevateQuadratics,
+  getPathAnchors,
+  insertAnchor,
+  moveAnchors,
+  moveHandle,
+  nearestSegmentPoint,
+  toggleSmooth,
+} from "@/lib/vector/pathEditing";
+import type {
+  BoundingBox,
+  PathObject,
+  PathSegment,
+  Point2D,
+} from "@/types/vector";
+
+const DRAG_THRESHOLD = 3;
+/** Pick radius for anchors and handles, in canvas pixels */
+const POINT_HIT_RADIUS = 6;
+/** How close a double-click must be to the outline to add a point */
+const SEGMENT_HIT_DISTANCE = 6;
+const ANCHOR_SIZE = 7;
+const HANDLE_RADIUS = 3.5;
+const ACCENT = "#2563eb";
+
+type Mode = "idle" | "pending" | "anchors" | "handle" | "marquee";
+
+interface DragState {
+  mode: Mode;
+  startPoint: Point2D;
+  shiftHeld: boolean;
+  /** Segments of the target path when the drag started */
+  origSegments: PathSegment[] | null;
+  handle: { index: number; side: HandleSide; keepSmooth: boolean } | null;
+}
+
+interface EditTarget {
+  path: PathObject;
+  /** Path's local space to world space, enclosing groups included */
+  toWorld: Matrix2D;
+  toLocal: Matrix2D;
+}
+
+function freshDrag(): DragState {
+  return {
+    mode: "idle",
+    startPoint: { x: 0, y: 0 },
+    shiftHeld: false,
+    origSegments: null,
+    handle: null,
+  };
+}
+
+/**
+ * Hook for the Direct Selection tool (A) — edits the anchors and Bézier
+ * handles of one selected path.
+ *
+ * Drag anchors or handles to reshape, marquee to select several anchors,
+ * Alt+click or double-click an anchor to toggle smooth/corner, double-click
+ * the outline to add an anchor. Every edit is a transaction of
+ * `modify-object` operations on `segments`.
+ */
+export function useDirectSelectionTool() {
+  const dragRef = useRef<DragState>(freshDrag());
+  // Selected anchors (segment indices) and the path they belong to
+  const anchorsRef = useRef<{ pathId: string | null; indices: Set<number> }>({
+    pathId: null,
+    indices: new Set(),
+  });
+
+  /** Selected anchors of `target`, dropping stale ones after undo or reselection */
+  const selectedAnchors = useCallback((target: EditTarget | null) => {
+    const sel = anchorsRef.current;
+    if (!target || sel.pathId !== target.path.id) {
+      sel.pathId = target?.path.id ?? null;
+      sel.indices = new Set();
+      return sel.indices;
+    }
+    const valid = new Set(getPathAnchors(target.path.segments).map((a) => a.index));
+    for (const i of sel.indices) {
+      if (!valid.has(i)) sel.indices.delete(i);
+    }
+    return sel.indices;
+  }, []);
+
+  const onPointerDown = useCallback(
+    (
+      point: Point2D,
+      modifiers: { shiftKey: boolean; altKey: boolean },
+      ctx: CanvasRenderingContext2D,
+    ) => {
+      const d = dragRef.current;
+      const store = useDocumentStore.getState();
+      Object.assign(d, freshDrag(), { startPoint: point, shiftHeld: modifiers.shiftKey });
+
+      const target = getEditTarget();
+      if (target) {
+        const selected = selectedAnchors(target);
+        const anchors = getPathAnchors(elevateQuadratics(target.path.segments));
+
+        // 1. Handles of selected anchors
+        const handle = hitHandle(anchors, selected, target.toWorld, point);
+        if (handle) {
+          const anchor = anchors.find((a) => a.index === handle.index)!;
+          d.mode = "handle";
+          d.handle = { ...handle, keepSmooth: anchor.smooth && !modifiers.altKey };
+          d.origSegments = elevateQuadratics(target.path.segments);
+          store.beginTransaction("Edit path handle");
+          return;
+        }
+
+        // 2. Anchors
+        const anchor = hitAnchor(anchors, target.toWorld, point);
+        if (anchor) {
+          if (modifiers.altKey) {
+            store.transaction("Convert anchor point", () => {
+              store.updateObject(target.path.id, {
+                segments: toggleSmooth(target.path.segments, anchor.index),
+              });
+            });
+            return;
+          }
+          if (modifiers.shiftKey) {
+            if (selected.has(anchor.index)) selected.delete(anchor.index);
+            else selected.add(anchor.index);
+          } else if (!selected.has(anchor.index)) {
+            selected.clear();
+            selected.add(anchor.index);
+          }
+          if (selected.has(anchor.index)) {
+            d.mode = "pending";
+            d.origSegments = target.path.segments;
+          }
+          return;
+        }
+      }
+
+      // 3. Pick another path (inside groups too), or start a marquee
+      const hit = hitTestLayers(ctx, point, store.layers, { deep: true });
+      if (hit && hit.object.type === "path" && !hit.object.locked) {
+        if (hit.object.id !== target?.path.id) {
+          store.setSelection([hit.object.id]);
+          anchorsRef.current = { pathId: hit.object.id, indices: new Set() };
+        }
+        return;
+      }
+      if (hit || !target) {
+        store.deselectAll();
+        return;
+      }
+      d.mode = "marquee";
+    },
+    [selectedAnchors],
+  );
+
+  const onPointerMove = useCallback((point: Point2D) => {
+    const d = dragRef.current;
+    const store = useDocumentStore.getState();
+    const target = getEditTarget();
+    if (!target || !d.origSegments) return;
+
+    if (d.mode === "pending") {
+      if (Math.hypot(point.x - d.startPoint.x, point.y - d.startPoint.y) <= DRAG_THRESHOLD) {
+        return;
+      }
+      d.mode = "anchors";
+      store.beginTransaction("Move anchor points");
+    }
+
+    const local = applyMatrix(target.toLocal, point);
+    if (d.mode === "anchors") {
+      const start = applyMatrix(target.toLocal, d.startPoint);
+      store.updateObject(target.path.id, {
+        segments: moveAnchors(
+          d.origSegments,
+          anchorsRef.current.indices,
+          local.x - start.x,
+          local.y - start.y,
+        ),
+      });
+    } else if (d.mode === "handle" && d.handle) {
+      store.updateObject(target.path.id, {
+        segments: moveHandle(
+          d.origSegments,
+          d.handle.index,
+          d.handle.side,
+          local,
+          d.handle.keepSmooth,
+        ),
+      });
+    }
+  }, []);
+
+  const onPointerUp = useCallback(
+    (point: Point2D) => {
+      const d = dragRef.current;
+      const store = useDocumentStore.getState();
+
+      if (d.mode === "anchors" || d.mode === "handle") {
+        store.commitTransaction();
+      } else if (d.mode === "marquee") {
+        const target = getEditTarget();
+        const selected = selectedAnchors(target);
+        if (!d.shiftHeld) selected.clear();
+        if (target) {
+          const rect = rectFromPoints(d.startPoint, point);
+          for (const anchor of getPathAnchors(target.path.segments)) {
+            const p = applyMatrix(target.toWorld, anchor);
+            if (
+              p.x >= rect.x &&
+              p.x <= rect.x + rect.width &&
+              p.y >= rect.y &&
+              p.y <= rect.y + rect.height
+            ) {
+              selected.add(anchor.index);
+            }
+          }
+        }
+      }
+
+      Object.assign(dragRef.current, freshDrag());
+    },
+    [selectedAnchors],
+  );
+
+  /**
+   * Double-click: toggle an anchor between smooth and corner, or add an
+   * anchor on the outline. Returns whether the click was used.
+   */
+  const onDoubleClick = useCallback(
+    (point: Point2D): boolean => {
+      const target = getEditTarget();
+      if (!target) return false;
+      const store = useDocumentStore.getState();
+      const selected = selectedAnchors(target);
+
+      const anchor = hitAnchor(getPathAnchors(target.path.segments), target.toWorld, point);
+      if (anchor) {
+        store.transaction("Convert anchor point", () => {
+          store.updateObject(target.path.id, {
+            segments: toggleSmooth(target.path.segments, anchor.index),
+          });
+        });
+        return true;
+      }
+
+      const local = applyMatrix(target.toLocal, point);
+      const hit = nearestSegmentPoint(target.path.segments, local);
+      if (!hit) return false;
+      const hitWorld = applyMatrix(target.toWorld, hit.point);
+      if (Math.hypot(hitWorld.x - point.x, hitWorld.y - point.y) > SEGMENT_HIT_DISTANCE) {
+        return false;
+      }
+
+      const result = insertAnchor(target.path.segments, hit.index, hit.t);
+      if (result.index < 0) return false;
+      store.transaction("Add anchor point", () => {
+        store.updateObject(target.path.id, { segments: result.segments });
+      });
+      selected.clear();
+      selected.add(result.index);
+      return true;
+    },
+    [selectedAnchors],
+  );
+
+  /**
+   * Delete the selected anchors; a path left with fewer than two points is
+   * removed. Returns false when no anchors were selected.
+   */
+  const deleteSelectedAnchors = useCallback((): boolean => {
+    const target = getEditTarget();
+    const selected = selectedAnchors(target);
+    if (!target || selected.size === 0) return false;
+
+    const store = useDocumentStore.getState();
+    const segments = deleteAnchors(target.path.segments, selected);
+    store.transaction("Delete anchor points", () => {
+      if (getPathAnchors(segments).length < 2) {
+        store.removeObject(target.path.id);
+      } else {
+        store.updateObject(target.path.id, { segments });
+      }
+    });
+    selected.clear();
+    return true;
+  }, [selectedAnchors]);
+
+  /** Clear the anchor selection; false when nothing was selected */
+  const clearAnchorSelection = useCallback((): boolean => {
+    const had = anchorsRef.current.indices.size > 0;
+    anchorsRef.current.indices = new Set();
+    return had;
+  }, []);
+
+  /** Draw the target path's outline, anchors, handles and the marquee */
+  const renderOverlay = useCallback(
+    (ctx: CanvasRenderingContext2D, cursor: Point2D) => {
+      const target = getEditTarget();
+      const d = dragRef.current;
+
+      ctx.save();
+      if (target) {
+        const selected = selectedAnchors(target);
+        const anchors = getPathAnchors(elevateQuadratics(target.path.segments));
+        const toWorld = (p: Point2D) => applyMatrix(target.toWorld, p);
+
+        // Outline in world space
+        ctx.save();
+        ctx.transform(...target.toWorld);
+        ctx.beginPath();
+        buildPath(ctx, target.path);
+        ctx.restore();
+        ctx.strokeStyle = ACCENT;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+
+        // Handles of selected anchors
+        for (const anchor of anchors) {
+          if (!selected.has(anchor.index)) continue;
+          const a = toWorld(anchor);
+          for (const handle of [anchor.inHandle, anchor.outHandle]) {
+            if (!handle) continue;
+            const h = toWorld(handle);
+            ctx.strokeStyle = ACCENT;
+            ctx.beginPath();
+            ctx.moveTo(a.x, a.y);
+            ctx.lineTo(h.x, h.y);
+            ctx.stroke();
+            ctx.fillStyle = "#ffffff";
+            ctx.beginPath();
+            ctx.arc(h.x, h.y, HANDLE_RADIUS, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.stroke();
+          }
+        }
+
+        // Anchors — filled when selected
+        for (const anchor of anchors) {
+          const a = toWorld(anchor);
+          const half = ANCHOR_SIZE / 2;
+          ctx.fillStyle = selected.has(anchor.index) ? ACCENT : "#ffffff";
+          ctx.strokeStyle = ACCENT;
+          ctx.fillRect(a.x - half, a.y - half, ANCHOR_SIZE, ANCHOR_SIZE);
+          ctx.strokeRect(a.x - half, a.y - half, ANCHOR_SIZE, ANCHOR_SIZE);
+        }
+      }
+
+      if (d.mode === "marquee") {
+        const rect = rectFromPoints(d.startPoint, cursor);
+        ctx.strokeStyle = ACCENT;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 4]);
+        ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+        ctx.fillStyle = "rgba(37, 99, 235, 0.08)";
+        ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      }
+      ctx.restore();
+    },
+    [selectedAnchors],
+  );
+
+  return {
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    onDoubleClick,
+    deleteSelectedAnchors,
+    clearAnchorSelection,
+    renderOverlay,
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** The single selected, unlocked path and the matrices to and from its space */
+function getEditTarget(): EditTarget | null {
+  const store = useDocumentStore.getState();
+  if (store.selectedObjectIds.length !== 1) return null;
+  const path = store.getObject(store.selectedObjectIds[0]);
+  if (!path || path.type !== "path" || path.locked) return null;
+  const toWorld = getWorldMatrix(store.layers, path.id);
+  const toLocal = toWorld && invertMatrix(toWorld);
+  return toWorld && toLocal ? { path, toWorld, toLocal } : null;
+}
+
+function hitAnchor(
+  anchors: PathAnchor[],
+  toWorld: Matrix2D,
+  point: Point2D,
+): PathAnchor | null {
+  // Topmost (last drawn) anchor wins
+  for (let i = anchors.length - 1; i >= 0; i--) {
+    const p = applyMatrix(toWorld, anchors[i]);
+    if (Math.hypot(p.x - point.x, p.y - point.y) <= POINT_HIT_RADIUS) {
+      return anchors[i];
+    }
+  }
+  return null;
+}
+
+function hitHandle(
+  anchors: PathAnchor[],
+  selected: ReadonlySet<number>,
+  toWorld: Matrix2D,
+  point: Point2D,
+): { index: number; side: HandleSide } | null {
+  for (const anchor of anchors) {
+    if (!selected.has(anchor.index)) continue;
+    for (const side of ["in", "out"] as const) {
+      const handle = side === "in" ? anchor.inHandle : anchor.outHandle;
+      if (!handle) continue;
+      const p = applyMatrix(toWorld, handle);
+      if (Math.hypot(p.x - point.x, p.y - point.y) <= POINT_HIT_RADIUS) {
+        return { index: anchor.index, side };
+      }
+    }
+  }
+  return null;
+}
+
+function rectFromPoints(a: Point2D, b: Point2D): BoundingBox {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { useDocumentStore } from "@/store/documentStore";
+
+/**
+ * Pointer props that make one drag of a slider a single history entry.
+ * The transaction opens on pointer down and closes on pointer up, cancel
+ * or lost capture, whichever comes first, so it is never left open.
+ */
+export function useDragTransaction(description: string) {
+  const openRef = useRef(false);
+
+  const end = useCallback(() => {
+    if (!openRef.current) return;
+    openRef.current = false;
+    useDocumentStore.getState().commitTransaction();
+  }, []);
+
+  const onPointerDown = useCallback(
+    (e: React.PointerEvent<HTMLElement>) => {
+      end();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      openRef.current = true;
+      useDocumentStore.getState().beginTransaction(description);
+    },
+    [description, end],
+  );
+
+  // Unmounted mid-drag
+  useEffect(() => end, [end]);
+
+  return {
+    onPointerDown,
+    onPointerUp: end,
+    onPointerCancel: end,
+    onLostPointerCapture: end,
+  };
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useRef, useCallback } from "react";
+import { useCanvasStore } from "@/store/canvasStore";
+import { useDocumentStore } from "@/store/documentStore";
+import type { Point2D } from "@/types/vector";
+
+const MIN_DISTANCE = 2; // minimum px between erased sweeps
+
+interface EraserState {
+  active: boolean;
+  last: Point2D | null;
+}
+
+/**
+ * Hook for the vector eraser.
+ *
+ * Sweeps a round brush (`brushSize` across) along the drag, cutting strokes
+ * and punching holes in filled shapes as it goes. The drag runs inside one
+ * open transaction, so it undoes in a single step.
+ */
+export function useEraserTool() {
+  const stateRef = useRef<EraserState>({ active: false, last: null });
+
+  const eraseTo = useCallback((point: Point2D) => {
+    const s = stateRef.current;
+    const radius = useCanvasStore.getState().brushSize / 2;
+    useDocumentStore.getState().eraseAlong(s.last ?? point, point, radius);
+    s.last = point;
+  }, []);
+
+  const onPointerDown = useCallback(
+    (point: Point2D) => {
+      stateRef.current = { active: true, last: null };
+      useDocumentStore.getState().beginTransaction("Erase");
+      eraseTo(point);
+    },
+    [eraseTo],
+  );
+
+  const onPointerMove = useCallback(
+    (point: Point2D) => {
+      const s = stateRef.current;
+      if (!s.active || !s.last) return;
+      if (Math.hypot(point.x - s.last.x, point.y - s.last.y) >= MIN_DISTANCE) {
+        eraseTo(point);
+      }
+    },
+    [eraseTo],
+  );
+
+  const onPointerUp = useCallback(
+    (point: Point2D) => {
+      const s = stateRef.current;
+      if (!s.active) return;
+      onPointerMove(point);
+      stateRef.current = { active: false, last: null };
+      useDocumentStore.getState().commitTransaction();
+    },
+    [onPointerMove],
+  );
+
+  /**
+   * Render the brush outline at the cursor on the overlay canvas.
+   */
+  const renderPreview = useCallback(
+    (ctx: CanvasRenderingContext2D, cursor: Point2D) => {
+      const { brushSize } = useCanvasStore.getState();
+
+      ctx.save();
+      ctx.strokeStyle = "#6b7280";
+      ctx.lineWidth = 1;
+      ctx.setLineDash([3, 3]);
+      ctx.beginPath();
+      ctx.arc(cursor.x, cursor.y, brushSize / 2, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    },
+    [],
+  );
+
+  const isActive = useCallback(() => stateRef.current.active, []);
+
+  return { onPointerDown, onPointerMove, onPointerUp, renderPreview, isActive };
+}
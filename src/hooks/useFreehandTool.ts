@@ -4,9 +4,16 @@ import { useRef, useCallback } from "react";
 import { v4 as uuidv4 } from "uuid";
 import { useCanvasStore } from "@/store/canvasStore";
 import { useDocumentStore } from "@/store/documentStore";
+import { getPathBounds } from "@/lib/vector/bounds";
+import { translationMatrix } from "@/lib/vector/matrix";
+import { transformSegments } from "@/lib/vector/pathData";
+import { pathSegmentsToD } from "@/lib/vector/svgExport";
+import {
+  variableWidthOutline,
+  type StrokeSample,
+} from "@/lib/vector/variableStroke";
 import {
   createTransform,
-  createStroke,
   type Point2D,
   type PathSegment,
   type PathObject,
@@ -16,29 +23,30 @@ const MIN_DISTANCE = 2; // minimum px between sampled points
 
 interface FreehandState {
   active: boolean;
-  points: Point2D[];
+  samples: StrokeSample[];
 }
 
 /**
  * Hook for freehand drawing (brush tool).
  *
- * Collects pointer positions during a drag, then converts them to a
- * smoothed cubic-bezier PathObject on release.
+ * Collects pointer positions (with pen pressure when available) during a
+ * drag, then converts them to a filled variable-width outline path on
+ * release.
  */
 export function useFreehandTool() {
-  const stateRef = useRef<FreehandState>({ active: false, points: [] });
+  const stateRef = useRef<FreehandState>({ active: false, samples: [] });
 
-  const onPointerDown = useCallback((point: Point2D) => {
-    stateRef.current = { active: true, points: [point] };
+  const onPointerDown = useCallback((sample: StrokeSample) => {
+    stateRef.current = { active: true, samples: [sample] };
   }, []);
 
-  const onPointerMove = useCallback((point: Point2D) => {
+  const onPointerMove = useCallback((sample: StrokeSample) => {
     const s = stateRef.current;
     if (!s.active) return;
 
-    const last = s.points[s.points.length - 1];
-    if (Math.hypot(point.x - last.x, point.y - last.y) >= MIN_DISTANCE) {
-      s.points.push(point);
+    const last = s.samples[s.samples.length - 1];
+    if (Math.hypot(sample.x - last.x, sample.y - last.y) >= MIN_DISTANCE) {
+      s.samples.push(sample);
     }
   }, []);
 
@@ -47,25 +55,25 @@ export function useFreehandTool() {
     if (!s.active) return;
     s.active = false;
 
-    const pts = s.points;
-    if (pts.length < 2) return;
-
-    // Compute bounding box origin so path coordinates are relative
-    const origin = pts[0];
-    const relative = pts.map((p) => ({ x: p.x - origin.x, y: p.y - origin.y }));
-
-    const segments = pointsToSmoothSegments(relative);
+    const outline = variableWidthOutline(
+      s.samples,
+      useCanvasStore.getState().brushOptions,
+    );
+    if (outline.length === 0) return;
+
+    // Position the path at its top-left so coordinates are relative
+    const origin = getPathBounds(outline);
+    const segments = transformSegments(
+      outline,
+      translationMatrix(-origin.x, -origin.y),
+    );
     const pathObj = createFreehandPath(origin, segments);
 
     const store = useDocumentStore.getState();
-    const layerId = store.activeLayerId;
-    const index = store.getActiveLayer()?.objects.length ?? 0;
-
-    store.addObject(layerId, pathObj);
+    store.transaction("Draw freehand", () => {
+      store.addObject(store.activeLayerId, pathObj);
+    });
     store.setSelection([pathObj.id]);
-    store.pushHistory("Draw freehand", [
-      { type: "add-object", layerId, object: pathObj, index },
-    ]);
   }, []);
 
   /**
@@ -73,21 +81,14 @@ export function useFreehandTool() {
    */
   const renderPreview = useCallback((ctx: CanvasRenderingContext2D) => {
     const s = stateRef.current;
-    if (!s.active || s.points.length < 2) return;
+    if (!s.active || s.samples.length < 2) return;
 
-    const { strokeColor, strokeWidth } = useCanvasStore.getState();
+    const { strokeColor, brushOptions } = useCanvasStore.getState();
+    const outline = variableWidthOutline(s.samples, brushOptions);
 
     ctx.save();
-    ctx.strokeStyle = strokeColor;
-    ctx.lineWidth = strokeWidth;
-    ctx.lineCap = "round";
-    ctx.lineJoin = "round";
-    ctx.beginPath();
-    ctx.moveTo(s.points[0].x, s.points[0].y);
-    for (let i = 1; i < s.points.length; i++) {
-      ctx.lineTo(s.points[i].x, s.points[i].y);
-    }
-    ctx.stroke();
+    ctx.fillStyle = strokeColor;
+    ctx.fill(new Path2D(pathSegmentsToD(outline)));
     ctx.restore();
   }, []);
 
@@ -96,63 +97,25 @@ export function useFreehandTool() {
   return { onPointerDown, onPointerMove, onPointerUp, renderPreview, isActive };
 }
 
-// ============================================
-// Path smoothing — Catmull-Rom → Cubic Bezier
-// ============================================
-
-function pointsToSmoothSegments(pts: Point2D[]): PathSegment[] {
-  const segments: PathSegment[] = [{ type: "M", x: pts[0].x, y: pts[0].y }];
-
-  if (pts.length === 2) {
-    segments.push({ type: "L", x: pts[1].x, y: pts[1].y });
-    return segments;
-  }
-
-  // Convert point sequence to smooth cubic bezier curves
-  for (let i = 1; i < pts.length; i++) {
-    const p0 = pts[Math.max(0, i - 2)];
-    const p1 = pts[i - 1];
-    const p2 = pts[i];
-    const p3 = pts[Math.min(pts.length - 1, i + 1)];
-
-    // Catmull-Rom to cubic bezier control points (tension = 1/6)
-    const cp1x = p1.x + (p2.x - p0.x) / 6;
-    const cp1y = p1.y + (p2.y - p0.y) / 6;
-    const cp2x = p2.x - (p3.x - p1.x) / 6;
-    const cp2y = p2.y - (p3.y - p1.y) / 6;
-
-    segments.push({
-      type: "C",
-      cp1x,
-      cp1y,
-      cp2x,
-      cp2y,
-      x: p2.x,
-      y: p2.y,
-    });
-  }
-
-  return segments;
-}
-
+/** The brush paints with the stroke color, as a filled outline */
 function createFreehandPath(
   origin: Point2D,
   segments: PathSegment[],
 ): PathObject {
-  const { strokeColor, strokeWidth, fillEnabled, fillColor } =
-    useCanvasStore.getState();
+  const { strokeColor } = useCanvasStore.getState();
 
   return {
     id: uuidv4(),
     type: "path",
     name: "Freehand Path",
     transform: createTransform(origin.x, origin.y),
-    fill: fillEnabled ? { type: "solid", color: fillColor, opacity: 1 } : null,
-    stroke: createStroke(strokeColor, strokeWidth, 1),
+    fill: { type: "solid", color: strokeColor, opacity: 1 },
+    stroke: null,
     opacity: 1,
     visible: true,
     locked: false,
     segments,
-    closed: false,
+    closed: true,
+    fillRule: "nonzero",
   };
 }
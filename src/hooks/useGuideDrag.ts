@@ -0,0 +1,75 @@
+"use client";
+
+import { useCallback, type RefObject } from "react";
+import { useCanvasStore } from "@/store/canvasStore";
+import { useDocumentStore } from "@/store/documentStore";
+import { viewToDocument, type RulerAxis } from "@/lib/vector/rulers";
+
+/**
+ * Dragging ruler guides: out of a ruler to add one, or an existing guide
+ * to move it. Dropping a guide back onto its ruler deletes it.
+ *
+ * `viewportRef` is the canvas area the rulers measure.
+ */
+export function useGuideDrag(viewportRef: RefObject<HTMLDivElement | null>) {
+  /** Pointer offset into the viewport along `axis`; negative over the ruler */
+  const viewOffset = useCallback(
+    (axis: RulerAxis, e: PointerEvent | React.PointerEvent): number | null => {
+      const el = viewportRef.current;
+      if (!el) return null;
+      const rect = el.getBoundingClientRect();
+      return axis === "x" ? e.clientX - rect.left : e.clientY - rect.top;
+    },
+    [viewportRef],
+  );
+
+  const positionAt = useCallback(
+    (axis: RulerAxis, offset: number): number => {
+      const { zoom, pan, canvasSize } = useCanvasStore.getState();
+      const el = viewportRef.current;
+      const viewport = { width: el?.clientWidth ?? 0, height: el?.clientHeight ?? 0 };
+      return Math.round(viewToDocument(offset, axis, { zoom, pan, canvasSize, viewport }));
+    },
+    [viewportRef],
+  );
+
+  const startDrag = useCallback(
+    (id: string, axis: RulerAxis, e: React.PointerEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      const handleMove = (moveEvent: PointerEvent) => {
+        const offset = viewOffset(axis, moveEvent);
+        if (offset === null) return;
+        useDocumentStore.getState().updateGuide(id, { position: positionAt(axis, offset) });
+      };
+
+      const handleUp = (upEvent: PointerEvent) => {
+        document.removeEventListener("pointermove", handleMove);
+        document.removeEventListener("pointerup", handleUp);
+        const offset = viewOffset(axis, upEvent);
+        if (offset !== null && offset < 0) {
+          useDocumentStore.getState().removeGuide(id);
+        }
+      };
+
+      document.addEventListener("pointermove", handleMove);
+      document.addEventListener("pointerup", handleUp);
+    },
+    [viewOffset, positionAt],
+  );
+
+  /** Pointer down on a ruler: a new guide along `axis`, dragged from there */
+  const startNewGuide = useCallback(
+    (axis: RulerAxis, e: React.PointerEvent) => {
+      if (e.button !== 0) return;
+      const offset = viewOffset(axis, e);
+      if (offset === null) return;
+      const id = useDocumentStore.getState().addGuide(axis, positionAt(axis, offset));
+      startDrag(id, axis, e);
+    },
+    [viewOffset, positionAt, startDrag],
+  );
+
+  return { startDrag, startNewGuide };
+}
@@ -3,8 +3,23 @@
 import { useEffect, useCallback, useRef } from "react";
 import { useCanvasStore } from "@/store/canvasStore";
 import { useDocumentStore } from "@/store/documentStore";
+import {
+  PASTE_OFFSET,
+  preferAppClipboard,
+  readClipboard,
+  writeClipboard,
+} from "@/lib/vector/clipboard";
+import {
+  alignTargetBounds,
+  type AlignEdge,
+  type DistributeAxis,
+} from "@/lib/vector/align";
+import { getWorldBounds, mergeBounds } from "@/lib/vector/bounds";
+import { gridStep, nextGridLine } from "@/lib/vector/grid";
+import { insertSvgMarkup } from "@/lib/vector/insertSvg";
+import { collectObjectsInWorldSpace, worldToParentTransform } from "@/lib/vector/sceneGraph";
+import { looksLikeSvg } from "@/lib/vector/svgImport";
 import type { ToolType } from "@/types";
-import type { HistoryOperation, VectorObject } from "@/types/vector";
 
 interface KeyboardShortcutsOptions {
   onUndo?: () => void;
@@ -20,6 +35,7 @@ interface KeyboardShortcutsOptions {
 // Tool shortcuts mapping
 const TOOL_SHORTCUTS: Record<string, ToolType> = {
   v: "selection",
+  a: "direct-selection",
   r: "rectangle",
   o: "ellipse",
   l: "line",
@@ -31,6 +47,21 @@ const TOOL_SHORTCUTS: Record<string, ToolType> = {
   t: "text",
 };
 
+// Align/distribute shortcuts (with Alt), by physical key
+const ALIGN_KEYS: Record<string, AlignEdge> = {
+  KeyA: "left",
+  KeyH: "center",
+  KeyD: "right",
+  KeyW: "top",
+  KeyV: "middle",
+  KeyS: "bottom",
+};
+
+const DISTRIBUTE_KEYS: Record<string, DistributeAxis> = {
+  KeyH: "horizontal",
+  KeyV: "vertical",
+};
+
 /** Get the keyboard shortcut letter for a tool (for UI display) */
 export function getToolShortcut(tool: ToolType): string | null {
   for (const [key, t] of Object.entries(TOOL_SHORTCUTS)) {
@@ -65,9 +96,11 @@ export function useKeyboardShortcuts(options: KeyboardShortcutsOptions = {}) {
     resetZoom,
   } = useCanvasStore();
 
-  // Nudge debounce state — kept in refs to survive re-renders
-  const nudgeBeforeRef = useRef<Map<string, { x: number; y: number }> | null>(null);
-  const nudgeTimerRef = useRef<number | null>(null);
+  // How many times the current clipboard contents have been pasted
+  const pasteRef = useRef<{ copiedAt: number; count: number } | null>(null);
+
+  // Set by Ctrl+Shift+V so the paste event that follows pastes in place
+  const pasteInPlaceRef = useRef(false);
 
   /**
    * Handle keyboard shortcuts
@@ -130,50 +163,113 @@ export function useKeyboardShortcuts(options: KeyboardShortcutsOptions = {}) {
         return;
       }
 
+      // Group: Ctrl+G / Ungroup: Ctrl+Shift+G
+      if (ctrl && key === "g") {
+        e.preventDefault();
+        const docStore = useDocumentStore.getState();
+        if (docStore.selectedObjectIds.length === 0) return;
+        if (shift) {
+          docStore.ungroupObjects(docStore.selectedObjectIds);
+        } else {
+          docStore.groupObjects(docStore.selectedObjectIds);
+        }
+        return;
+      }
+
+      // Convert to Path: Ctrl+Shift+C
+      if (ctrl && shift && key === "c") {
+        e.preventDefault();
+        const docStore = useDocumentStore.getState();
+        docStore.convertToPath(docStore.selectedObjectIds);
+        return;
+      }
+
+      // Align: Alt+A/H/D (left/center/right), Alt+W/V/S (top/middle/bottom);
+      // distribute: Alt+Shift+H/V. Matched on e.code — Option+letter types
+      // a symbol on macOS.
+      if (!ctrl && e.altKey) {
+        const docStore = useDocumentStore.getState();
+        const ids = docStore.selectedObjectIds;
+        const distribute = shift ? DISTRIBUTE_KEYS[e.code] : undefined;
+        const edge = shift ? undefined : ALIGN_KEYS[e.code];
+        if (ids.length > 0 && (edge || distribute)) {
+          e.preventDefault();
+          if (distribute) {
+            docStore.distributeObjects(ids, distribute);
+          } else if (edge) {
+            const { alignTarget, canvasSize } = useCanvasStore.getState();
+            const target = alignTargetBounds(
+              alignTarget,
+              ids,
+              docStore.getObject,
+              canvasSize,
+            );
+            if (target) docStore.alignObjects(ids, edge, target);
+          }
+          return;
+        }
+      }
+
+      // Flip: Shift+H / Shift+V
+      if (!ctrl && shift && !e.altKey && (key === "h" || key === "v")) {
+        const docStore = useDocumentStore.getState();
+        if (docStore.selectedObjectIds.length === 0) return;
+        e.preventDefault();
+        docStore.flipObjects(docStore.selectedObjectIds, key === "h" ? "horizontal" : "vertical");
+        return;
+      }
+
+      // Copy / Cut: Ctrl+C / Ctrl+X
+      if (ctrl && !shift && (key === "c" || key === "x")) {
+        const docStore = useDocumentStore.getState();
+        const selected = docStore.selectedObjectIds;
+        if (selected.length === 0) return;
+        e.preventDefault();
+
+        writeClipboard(
+          collectObjectsInWorldSpace(docStore.layers, new Set(selected)),
+        );
+        pasteRef.current = null;
+
+        if (key === "x") {
+          docStore.transaction("Cut", () => {
+            for (const id of [...selected]) {
+              docStore.removeObject(id);
+            }
+          });
+        }
+        return;
+      }
+
+      // Paste: Ctrl+V (offset) / Ctrl+Shift+V (in place). Handled by the
+      // paste event, which is the only place the system clipboard is readable
+      if (ctrl && key === "v") {
+        pasteInPlaceRef.current = shift;
+        return;
+      }
+
+      // Duplicate: Ctrl+D
+      if (ctrl && !shift && key === "d") {
+        e.preventDefault();
+        const docStore = useDocumentStore.getState();
+        docStore.duplicateObjects(docStore.selectedObjectIds, {
+          x: PASTE_OFFSET,
+          y: PASTE_OFFSET,
+        });
+        return;
+      }
+
       // Delete: Delete/Backspace — remove selected vector objects
       if (key === "delete" || key === "backspace") {
         e.preventDefault();
         const docStore = useDocumentStore.getState();
         const selected = docStore.selectedObjectIds;
         if (selected.length > 0) {
-          const layerOrder = new Map(
-            docStore.layers.map((layer, index) => [layer.id, index]),
-          );
-          const targets: Array<{
-            layerId: string;
-            object: VectorObject;
-            index: number;
-          }> = [];
-
-          for (const id of selected) {
-            const obj = docStore.getObject(id);
-            const layerId = docStore.getObjectLayerId(id);
-            if (obj && layerId) {
-              const layer = docStore.layers.find((l) => l.id === layerId);
-              const index = layer?.objects.findIndex((o) => o.id === id) ?? 0;
-              targets.push({ layerId, object: obj, index });
+          docStore.transaction("Delete objects", () => {
+            for (const id of [...selected]) {
+              docStore.removeObject(id);
             }
-          }
-
-          // Remove from the top of each layer downward so stored indices stay valid.
-          targets.sort((a, b) => {
-            const layerDelta =
-              (layerOrder.get(b.layerId) ?? 0) - (layerOrder.get(a.layerId) ?? 0);
-            if (layerDelta !== 0) return layerDelta;
-            return b.index - a.index;
           });
-
-          const ops: HistoryOperation[] = targets.map((target) => ({
-            type: "remove-object",
-            layerId: target.layerId,
-            object: target.object,
-            index: target.index,
-          }));
-
-          for (const target of targets) {
-            docStore.removeObject(target.object.id);
-          }
-          if (ops.length > 0) docStore.pushHistory("Delete objects", ops);
         } else if (shift) {
           onDeleteLayer?.();
         }
@@ -186,53 +282,42 @@ export function useKeyboardShortcuts(options: KeyboardShortcutsOptions = {}) {
         if (docStore.selectedObjectIds.length > 0) {
           e.preventDefault();
 
-          // Capture "before" transforms on first nudge of a sequence
-          if (nudgeBeforeRef.current === null) {
-            nudgeBeforeRef.current = new Map();
-            for (const id of docStore.selectedObjectIds) {
-              const obj = docStore.getObject(id);
-              if (obj) nudgeBeforeRef.current.set(id, { x: obj.transform.x, y: obj.transform.y });
-            }
-          }
-
           const step = shift ? 10 : 1;
-          const dx = key === "arrowleft" ? -step : key === "arrowright" ? step : 0;
-          const dy = key === "arrowup" ? -step : key === "arrowdown" ? step : 0;
-          for (const id of docStore.selectedObjectIds) {
-            const obj = docStore.getObject(id);
-            if (obj) {
-              docStore.updateObject(id, {
-                transform: { ...obj.transform, x: obj.transform.x + dx, y: obj.transform.y + dy },
-              });
-            }
+          let dx = key === "arrowleft" ? -step : key === "arrowright" ? step : 0;
+          let dy = key === "arrowup" ? -step : key === "arrowdown" ? step : 0;
+
+          // Snap to grid: the selection's top-left steps to the next grid
+          // line (Shift: the next major line)
+          const { grid } = docStore;
+          const selected = collectObjectsInWorldSpace(
+            docStore.layers,
+            new Set(docStore.selectedObjectIds),
+          );
+          if (grid.snap && selected.length > 0) {
+            const bounds = mergeBounds(selected.map(getWorldBounds));
+            const gs = shift ? grid.spacing : gridStep(grid);
+            if (dx !== 0) dx = nextGridLine(bounds.x, dx > 0 ? 1 : -1, gs) - bounds.x;
+            if (dy !== 0) dy = nextGridLine(bounds.y, dy > 0 ? 1 : -1, gs) - bounds.y;
           }
 
-          // Debounce: commit history after 500ms pause
-          if (nudgeTimerRef.current !== null) clearTimeout(nudgeTimerRef.current);
-          nudgeTimerRef.current = window.setTimeout(() => {
-            const ds = useDocumentStore.getState();
-            const before = nudgeBeforeRef.current;
-            if (before) {
-              const ops = [];
-              for (const id of ds.selectedObjectIds) {
-                const obj = ds.getObject(id);
-                const b = before.get(id);
-                const layerId = ds.getObjectLayerId(id);
-                if (obj && b && layerId) {
-                  ops.push({
-                    type: "modify-object" as const,
-                    objectId: id,
-                    layerId,
-                    before: { transform: { ...obj.transform, x: b.x, y: b.y } },
-                    after: { transform: { ...obj.transform } },
-                  });
-                }
+          // A burst of nudges to the same selection is one undo step
+          docStore.transaction(
+            "Nudge objects",
+            () => {
+              // Nested objects move by the same world offset, mapped into their group
+              for (const obj of selected) {
+                const { x, y } = obj.transform;
+                docStore.updateObject(obj.id, {
+                  transform: worldToParentTransform(docStore.layers, obj.id, {
+                    ...obj.transform,
+                    x: x + dx,
+                    y: y + dy,
+                  }),
+                });
               }
-              if (ops.length > 0) ds.pushHistory("Nudge objects", ops);
-            }
-            nudgeBeforeRef.current = null;
-            nudgeTimerRef.current = null;
-          }, 500);
+            },
+            { coalesce: `nudge:${docStore.selectedObjectIds.join(",")}` },
+          );
         }
         return;
       }
@@ -252,6 +337,35 @@ export function useKeyboardShortcuts(options: KeyboardShortcutsOptions = {}) {
         return;
       }
 
+      // Ctrl+U: toggle smart guides
+      if (ctrl && !shift && key === "u") {
+        e.preventDefault();
+        const cs = useCanvasStore.getState();
+        cs.setSnapToObjects(!cs.snapToObjects);
+        return;
+      }
+
+      // Ctrl+Alt+; lock or unlock all ruler guides
+      if (ctrl && e.altKey && e.code === "Semicolon") {
+        e.preventDefault();
+        const docStore = useDocumentStore.getState();
+        const locked = docStore.guides.length > 0 && docStore.guides.every((g) => g.locked);
+        docStore.lockGuides(!locked);
+        return;
+      }
+
+      // Ctrl+' show grid, Ctrl+Shift+' snap to grid (by code: Shift+' types ")
+      if (ctrl && e.code === "Quote") {
+        e.preventDefault();
+        const docStore = useDocumentStore.getState();
+        if (shift) {
+          docStore.setGrid({ snap: !docStore.grid.snap });
+        } else {
+          docStore.setGrid({ visible: !docStore.grid.visible });
+        }
+        return;
+      }
+
       // Zoom shortcuts
       if (ctrl && (key === "=" || key === "+")) {
         e.preventDefault();
@@ -326,14 +440,61 @@ export function useKeyboardShortcuts(options: KeyboardShortcutsOptions = {}) {
     ]
   );
 
+  /**
+   * Paste our own objects, or import SVG markup copied from another app
+   */
+  const handlePaste = useCallback(
+    (e: ClipboardEvent) => {
+      if (!enabled) return;
+
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+
+      const inPlace = pasteInPlaceRef.current;
+      pasteInPlaceRef.current = false;
+      const text = e.clipboardData?.getData("text/plain") ?? "";
+      const contents = readClipboard();
+
+      if (contents && preferAppClipboard(contents, text)) {
+        e.preventDefault();
+
+        // Repeated pastes of one copy cascade instead of stacking
+        let step = 0;
+        if (!inPlace) {
+          const last = pasteRef.current;
+          step =
+            last && last.copiedAt === contents.copiedAt ? last.count + 1 : 1;
+          pasteRef.current = { copiedAt: contents.copiedAt, count: step };
+        }
+        const offset = step * PASTE_OFFSET;
+        useDocumentStore
+          .getState()
+          .pasteObjects(contents.objects, { x: offset, y: offset });
+        return;
+      }
+
+      if (looksLikeSvg(text)) {
+        e.preventDefault();
+        insertSvgMarkup(text);
+      }
+    },
+    [enabled]
+  );
+
   useEffect(() => {
     if (!enabled) return;
 
     window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("paste", handlePaste);
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("paste", handlePaste);
     };
-  }, [enabled, handleKeyDown]);
+  }, [enabled, handleKeyDown, handlePaste]);
 
   return {
     // Expose the tool shortcuts for UI hints
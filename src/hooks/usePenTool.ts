@@ -10,6 +10,8 @@ import {
   createStroke,
   type Point2D,
   type PathObject,
+  type RulerGuide,
+  type VectorLayer,
 } from "@/types/vector";
 import {
   type PenAnchor,
@@ -20,22 +22,51 @@ import {
   pathOriginFromAnchors,
   penAnchorsToSegments,
 } from "@/lib/vector/penPath";
+import { renderSnapGuides } from "@/lib/vector/renderer";
+import {
+  addGuideLines,
+  addPointLines,
+  collectSnapTargets,
+  emptySnapTargets,
+  snapOptions,
+  snapPoint,
+  type SnapGuide,
+  type SnapTargets,
+} from "@/lib/vector/snapping";
 
 interface PenDrag {
   downPoint: Point2D;
   currentPoint: Point2D;
 }
 
+/** Snap targets, rebuilt when the document, guides or the path's anchors change */
+interface PenSnapCache {
+  layers: VectorLayer[];
+  guides: RulerGuide[];
+  anchorCount: number;
+  targets: SnapTargets;
+}
+
 interface PenState {
   anchors: PenAnchor[];
   drag: PenDrag | null;
+  /** Snapped cursor while hovering between clicks */
+  hover: Point2D | null;
+  guides: SnapGuide[];
+  snapCache: PenSnapCache | null;
+}
+
+function freshPenState(): PenState {
+  return { anchors: [], drag: null, hover: null, guides: [], snapCache: null };
 }
 
 /**
  * Pen tool — click for corners, click-drag for smooth points, Enter/Escape to finish.
+ * Anchors snap to other objects, the path's own anchors, ruler guides and the grid
+ * unless Ctrl (Cmd on macOS) is held.
  */
 export function usePenTool() {
-  const stateRef = useRef<PenState>({ anchors: [], drag: null });
+  const stateRef = useRef<PenState>(freshPenState());
 
   const isDrawing = useCallback(
     () => stateRef.current.anchors.length > 0 || stateRef.current.drag !== null,
@@ -43,12 +74,12 @@ export function usePenTool() {
   );
 
   const cancelPath = useCallback(() => {
-    stateRef.current = { anchors: [], drag: null };
+    stateRef.current = freshPenState();
   }, []);
 
   const finishPath = useCallback((closed: boolean) => {
     const { anchors } = stateRef.current;
-    stateRef.current = { anchors: [], drag: null };
+    stateRef.current = freshPenState();
 
     if (anchors.length < 2) return;
 
@@ -73,17 +104,14 @@ export function usePenTool() {
       locked: false,
       segments,
       closed,
+      fillRule: "nonzero",
     };
 
     const store = useDocumentStore.getState();
-    const layerId = store.activeLayerId;
-    const index = store.getActiveLayer()?.objects.length ?? 0;
-
-    store.addObject(layerId, pathObj);
+    store.transaction(closed ? "Create closed path" : "Create path", () => {
+      store.addObject(store.activeLayerId, pathObj);
+    });
     store.setSelection([pathObj.id]);
-    store.pushHistory(closed ? "Create closed path" : "Create path", [
-      { type: "add-object", layerId, object: pathObj, index },
-    ]);
     useCanvasStore.getState().setActiveTool("selection");
   }, []);
 
@@ -99,17 +127,22 @@ export function usePenTool() {
   );
 
   const onPointerDown = useCallback(
-    (point: Point2D) => {
+    (point: Point2D, bypassSnap = false) => {
       if (tryCloseAtPoint(point)) return;
-      stateRef.current.drag = { downPoint: point, currentPoint: point };
+      const s = stateRef.current;
+      const anchor = snapPenPoint(s, point, bypassSnap);
+      s.drag = { downPoint: anchor, currentPoint: anchor };
     },
     [tryCloseAtPoint],
   );
 
-  const onPointerMove = useCallback((point: Point2D) => {
+  /** Drags the handle of a new smooth point, or tracks the hovering cursor */
+  const onPointerMove = useCallback((point: Point2D, bypassSnap = false) => {
     const s = stateRef.current;
     if (s.drag) {
       s.drag.currentPoint = point;
+    } else {
+      s.hover = snapPenPoint(s, point, bypassSnap);
     }
   }, []);
 
@@ -120,6 +153,7 @@ export function usePenTool() {
 
       const { downPoint } = s.drag;
       s.drag = null;
+      s.guides = [];
 
       if (tryCloseAtPoint(point)) return;
 
@@ -142,6 +176,7 @@ export function usePenTool() {
     (ctx: CanvasRenderingContext2D, cursor: Point2D) => {
       const s = stateRef.current;
       const { anchors, drag } = s;
+      renderSnapGuides(ctx, s.guides, useCanvasStore.getState().zoom);
       if (anchors.length === 0 && !drag) return;
 
       const { strokeColor, strokeWidth } = useCanvasStore.getState();
@@ -217,7 +252,8 @@ export function usePenTool() {
             ctx.lineTo(anchor.x, anchor.y);
           }
         } else {
-          ctx.lineTo(cursor.x, cursor.y);
+          const end = s.hover ?? cursor;
+          ctx.lineTo(end.x, end.y);
         }
         ctx.stroke();
       }
@@ -246,3 +282,34 @@ export function usePenTool() {
     finishPath,
   };
 }
+
+/** `point` snapped to other objects, the path so far, ruler guides or the grid, recording guides */
+function snapPenPoint(s: PenState, point: Point2D, bypass: boolean): Point2D {
+  s.guides = [];
+  const { snapToObjects, canvasSize, zoom } = useCanvasStore.getState();
+  const { layers, grid, guides } = useDocumentStore.getState();
+  if (bypass || (!snapToObjects && !grid.snap && guides.length === 0)) return point;
+
+  let targets: SnapTargets;
+  if (snapToObjects) {
+    if (
+      !s.snapCache ||
+      s.snapCache.layers !== layers ||
+      s.snapCache.guides !== guides ||
+      s.snapCache.anchorCount !== s.anchors.length
+    ) {
+      const collected = collectSnapTargets(layers, new Set(), canvasSize);
+      for (const anchor of s.anchors) addPointLines(collected, anchor);
+      addGuideLines(collected, guides);
+      s.snapCache = { layers, guides, anchorCount: s.anchors.length, targets: collected };
+    }
+    targets = s.snapCache.targets;
+  } else {
+    targets = emptySnapTargets();
+    addGuideLines(targets, guides);
+  }
+
+  const snap = snapPoint(point, targets, snapOptions(zoom, grid));
+  s.guides = snap.guides;
+  return snap.point;
+}
@@ -21,8 +21,16 @@ import {
   canvasToBlob,
 } from "@/lib/firebase/storage";
 import { renderScene } from "@/lib/vector/renderer";
+import { restoreHistory, serializeHistory } from "@/lib/sync/persistedHistory";
+import { DOCUMENT_VERSION, migrateDocument } from "@/lib/vector/documentFormat";
+import {
+  formatValidationReport,
+  validateGrid,
+  validateGuides,
+  validateLayers,
+  type ValidationIssue,
+} from "@/lib/vector/documentValidation";
 import {
-  buildEmptyVectorLayersFromMetadata,
   fetchLegacyRasterLayers,
   projectNeedsLegacyRasterImport,
 } from "@/lib/vector/legacyProjectImport";
@@ -45,6 +53,7 @@ export function useProjects() {
     setCurrentProject,
     setLoading,
     setError,
+    setNotice,
     setSyncStatus,
     setLastSyncTime,
     markDirty,
@@ -117,6 +126,7 @@ export function useProjects() {
 
       setLoading(true);
       setError(null);
+      setNotice(null);
       setSyncStatus("syncing");
 
       try {
@@ -129,6 +139,9 @@ export function useProjects() {
         }
 
         let vectorLayers: VectorLayer[];
+        let activeLayerId = project.activeLayerId;
+        let savedHistory: ReturnType<typeof restoreHistory> | undefined;
+        let issues: ValidationIssue[] = [];
 
         if (
           projectNeedsLegacyRasterImport(project.vectorLayers, project.layers)
@@ -137,14 +150,39 @@ export function useProjects() {
             project.layers,
             project.canvasSize,
           );
-        } else if (
-          project.vectorLayers &&
-          Array.isArray(project.vectorLayers) &&
-          project.vectorLayers.length > 0
-        ) {
-          vectorLayers = project.vectorLayers as VectorLayer[];
         } else {
-          vectorLayers = buildEmptyVectorLayersFromMetadata(project.layers);
+          // Without saved vector layers, the layer metadata (v1 shape) is the scene
+          const hasVectorLayers =
+            Array.isArray(project.vectorLayers) &&
+            project.vectorLayers.length > 0;
+          const document = migrateDocument(
+            hasVectorLayers
+              ? {
+                  version: project.version,
+                  layers: project.vectorLayers,
+                  history: project.history,
+                }
+              : { version: "1.0", layers: project.layers },
+          );
+          const validated = validateLayers(
+            document.layers,
+            project.activeLayerId,
+          );
+          issues = validated.issues;
+          vectorLayers = validated.layers;
+          activeLayerId = validated.activeLayerId;
+          // Saved history may reference repaired or dropped objects
+          savedHistory = issues.length
+            ? undefined
+            : restoreHistory(document.history);
+        }
+
+        const guides = validateGuides(project.guides);
+        const report = [...issues, ...guides.issues];
+        if (report.length) {
+          setNotice(
+            `"${project.name}" was damaged and has been repaired.\n${formatValidationReport(report)}`,
+          );
         }
 
         setCurrentProject(projectId, project.name);
@@ -152,7 +190,9 @@ export function useProjects() {
         useCanvasStore.getState().setCanvasSize(project.canvasSize);
         useDocumentStore.getState().loadDocument(
           vectorLayers,
-          project.activeLayerId || vectorLayers[0]?.id
+          activeLayerId || vectorLayers[0]?.id,
+          savedHistory,
+          { grid: validateGrid(project.grid), guides: guides.guides },
         );
 
         setSyncStatus("synced");
@@ -173,6 +213,7 @@ export function useProjects() {
       user,
       setLoading,
       setError,
+      setNotice,
       setSyncStatus,
       setLastSyncTime,
       setCurrentProject,
@@ -278,6 +319,10 @@ export function useProjects() {
         activeLayerId,
         thumbnailUrl,
         vectorLayers: serializedLayers,
+        version: DOCUMENT_VERSION,
+        history: serializeHistory(docState.history, docState.historyIndex),
+        grid: docState.grid,
+        guides: docState.guides,
       });
 
       updateProjectInList(currentProjectId, {
@@ -1,29 +1,103 @@
 "use client";
 
 import { useRef, useCallback } from "react";
+import { useCanvasStore } from "@/store/canvasStore";
 import { useDocumentStore } from "@/store/documentStore";
 import { hitTestLayers } from "@/lib/vector/hitTest";
 import { getWorldBounds, mergeBounds, boundsIntersect } from "@/lib/vector/bounds";
+import { renderSnapGuides } from "@/lib/vector/renderer";
+import { collectObjectsInWorldSpace, worldToParentTransform } from "@/lib/vector/sceneGraph";
+import {
+  angleAround,
+  boundsCenter,
+  inRotateZone,
+  rotateTransform,
+  rotationHandlePosition,
+  snapAngle,
+} from "@/lib/vector/rotation";
+import {
+  resizeHandlePositions,
+  resizeScale,
+  scaleObject,
+  type ResizeHandle,
+} from "@/lib/vector/selectionTransform";
+import {
+  addGuideLines,
+  collectSnapTargets,
+  emptySnapTargets,
+  snapBox,
+  snapOptions,
+  snapPoint,
+  type SnapGuide,
+  type SnapOptions,
+  type SnapTargets,
+} from "@/lib/vector/snapping";
 import type { Point2D, BoundingBox, VectorObject } from "@/types/vector";
 
 const DRAG_THRESHOLD = 3;
 const HANDLE_HIT_SIZE = 10;
-
-type HandleId = "tl" | "tc" | "tr" | "mr" | "br" | "bc" | "bl" | "ml";
-type Mode = "idle" | "pending" | "moving" | "resizing" | "marquee";
+const PIVOT_RADIUS = 5;
+
+/** Curved double arrow, hotspot at its center */
+const ROTATE_CURSOR =
+  "url(\"data:image/svg+xml;utf8,<svg xmlns='http://www.w3.org/2000/svg' width='24' height='24'>" +
+  "<path d='M6 15a7 7 0 1 1 12 0' fill='none' stroke='white' stroke-width='4'/>" +
+  "<path d='M6 15a7 7 0 1 1 12 0' fill='none' stroke='black' stroke-width='1.5'/>" +
+  "<path d='M3 13l3 4 3-4zM15 13l3 4 3-4z' stroke='white'/></svg>\") 12 12, crosshair";
+
+const HANDLE_CURSORS: Record<ResizeHandle, string> = {
+  tl: "nwse-resize",
+  br: "nwse-resize",
+  tr: "nesw-resize",
+  bl: "nesw-resize",
+  tc: "ns-resize",
+  bc: "ns-resize",
+  ml: "ew-resize",
+  mr: "ew-resize",
+};
+
+type Mode =
+  | "idle"
+  | "pending"
+  | "moving"
+  | "resizing"
+  | "rotating"
+  | "pivoting"
+  | "marquee";
+
+/** Control under a point of the selection frame */
+type FrameHit =
+  | { kind: "pivot" }
+  | { kind: "resize"; handle: ResizeHandle }
+  | { kind: "rotate" };
+
+/** Pivot placed by the user, kept while the selection stays the same */
+interface PinnedPivot {
+  selectionKey: string;
+  point: Point2D;
+}
 
 interface DragState {
   mode: Mode;
   startPoint: Point2D;
   hitObjectId: string | null;
-  handleId: HandleId | null;
+  handleId: ResizeHandle | null;
   shiftHeld: boolean;
-  /** Original transform positions of selected objects (for move undo) */
-  origTransforms: Map<string, { x: number; y: number }>;
-  /** Original object-specific dimensions (for resize undo) */
-  origProps: Map<string, Record<string, unknown>>;
+  /**
+   * Selected objects as they were at drag start, in world space (see
+   * `worldSelection`) — the origin of every move, resize and rotation
+   */
+  origObjects: Map<string, VectorObject>;
   /** Combined selection bounding box at drag start */
   origBounds: BoundingBox | null;
+  /** Rotation center and pointer angle around it at drag start */
+  pivot: Point2D | null;
+  startAngle: number;
+  /** Move applied so far, after snapping */
+  moveOffset: Point2D;
+  /** Other objects' geometry, gathered when the drag first snaps */
+  snapTargets: SnapTargets | null;
+  guides: SnapGuide[];
 }
 
 function freshState(): DragState {
@@ -33,9 +107,13 @@ function freshState(): DragState {
     hitObjectId: null,
     handleId: null,
     shiftHeld: false,
-    origTransforms: new Map(),
-    origProps: new Map(),
+    origObjects: new Map(),
     origBounds: null,
+    pivot: null,
+    startAngle: 0,
+    moveOffset: { x: 0, y: 0 },
+    snapTargets: null,
+    guides: [],
   };
 }
 
@@ -44,9 +122,34 @@ function freshState(): DragState {
  *
  * Returns pointer handlers to be called from VectorCanvas.
  * All handlers accept canvas-space points (not screen space).
+ *
+ * Dragging the round handle above the selection, or just outside a corner,
+ * rotates every selected object around the pivot (Shift snaps to 15°).
+ * The pivot starts at the selection center and can be dragged elsewhere.
+ *
+ * Moves and resizes snap to other objects' edges, centers and anchors and
+ * to equal spacing and ruler guides, showing smart guides, then to the
+ * grid when its snapping is on; holding Ctrl (Cmd on macOS) bypasses all
+ * of them.
  */
 export function useSelectionTool() {
   const stateRef = useRef<DragState>(freshState());
+  const pivotRef = useRef<PinnedPivot | null>(null);
+
+  /** Pinned pivot for the current selection, else the selection center */
+  const getPivot = useCallback((): Point2D | null => {
+    const store = useDocumentStore.getState();
+    const bounds = selectionBounds(store);
+    if (!bounds) return null;
+    const pinned = pivotRef.current;
+    if (pinned && pinned.selectionKey === selectionKey(store)) return pinned.point;
+    return boundsCenter(bounds);
+  }, []);
+
+  const pinPivot = useCallback((point: Point2D) => {
+    const store = useDocumentStore.getState();
+    pivotRef.current = { selectionKey: selectionKey(store), point };
+  }, []);
 
   const onPointerDown = useCallback(
     (point: Point2D, shiftKey: boolean, ctx: CanvasRenderingContext2D) => {
@@ -55,14 +158,29 @@ export function useSelectionTool() {
       s.startPoint = point;
       s.shiftHeld = shiftKey;
 
-      // 1. Check if clicking a resize handle of current selection
-      if (store.selectedObjectIds.length > 0) {
-        const handle = hitTestHandles(point, store);
-        if (handle) {
-          s.mode = "resizing";
-          s.handleId = handle;
-          saveOriginals(s, store);
-          return;
+      // 1. Check if clicking the pivot, a resize handle or a rotate zone
+      const pivot = getPivot();
+      const frameHit = pivot && hitTestFrame(point, store, pivot);
+      if (pivot && frameHit) {
+        saveOriginals(s, store);
+        switch (frameHit.kind) {
+          case "pivot":
+            s.mode = "pivoting";
+            s.pivot = pivot;
+            return;
+          case "resize":
+            s.mode = "resizing";
+            s.handleId = frameHit.handle;
+            pivotRef.current = null;
+            store.beginTransaction("Resize objects");
+            return;
+          case "rotate":
+            s.mode = "rotating";
+            s.pivot = pivot;
+            s.startAngle = angleAround(pivot, point);
+            pinPivot(pivot);
+            store.beginTransaction("Rotate objects");
+            return;
         }
       }
 
@@ -83,10 +201,15 @@ export function useSelectionTool() {
         s.mode = "pending";
       }
     },
-    [],
+    [getPivot, pinPivot],
   );
 
-  const onPointerMove = useCallback((point: Point2D) => {
+  const onPointerMove = useCallback((
+    point: Point2D,
+    shiftKey = false,
+    altKey = false,
+    bypassSnap = false,
+  ) => {
     const s = stateRef.current;
     const store = useDocumentStore.getState();
     const dx = point.x - s.startPoint.x;
@@ -100,6 +223,7 @@ export function useSelectionTool() {
           store.selectObject(s.hitObjectId);
           saveOriginals(s, store);
         }
+        store.beginTransaction("Move objects");
       } else {
         s.mode = "marquee";
         if (!s.shiftHeld) store.deselectAll();
@@ -107,27 +231,42 @@ export function useSelectionTool() {
     }
 
     if (s.mode === "moving") {
-      for (const id of store.selectedObjectIds) {
-        const orig = s.origTransforms.get(id);
-        const obj = store.getObject(id);
-        if (orig && obj) {
-          store.updateObject(id, {
-            transform: { ...obj.transform, x: orig.x + dx, y: orig.y + dy },
-          });
-        }
+      s.moveOffset = snapMove(s, store, { x: dx, y: dy }, bypassSnap);
+      for (const [id, orig] of s.origObjects) {
+        const transform = {
+          ...orig.transform,
+          x: orig.transform.x + s.moveOffset.x,
+          y: orig.transform.y + s.moveOffset.y,
+        };
+        store.updateObject(id, {
+          transform: worldToParentTransform(store.layers, id, transform),
+        });
       }
     }
 
     if (s.mode === "resizing") {
-      applyResize(s, store, point);
+      applyResize(s, store, point, shiftKey, altKey, bypassSnap);
     }
-  }, []);
+
+    if (s.mode === "rotating") {
+      applyRotation(s, store, point, shiftKey);
+    }
+
+    if (s.mode === "pivoting" && s.pivot) {
+      pinPivot({ x: s.pivot.x + dx, y: s.pivot.y + dy });
+    }
+  }, [pinPivot]);
 
   const onPointerUp = useCallback(
-    (point: Point2D) => {
+    (point: Point2D, shiftKey = false, altKey = false, bypassSnap = false) => {
       const s = stateRef.current;
       const store = useDocumentStore.getState();
 
+      // Modifiers changed since the last move apply to the final position
+      if (s.mode === "moving" || s.mode === "resizing" || s.mode === "rotating") {
+        onPointerMove(point, shiftKey, altKey, bypassSnap);
+      }
+
       switch (s.mode) {
         case "pending": {
           // Click — select or deselect
@@ -139,11 +278,20 @@ export function useSelectionTool() {
           break;
         }
         case "moving": {
-          commitMoveHistory(s, store);
+          // A pinned pivot travels with the objects
+          const pinned = pivotRef.current;
+          if (pinned && pinned.selectionKey === selectionKey(store)) {
+            pinPivot({
+              x: pinned.point.x + s.moveOffset.x,
+              y: pinned.point.y + s.moveOffset.y,
+            });
+          }
+          store.commitTransaction();
           break;
         }
-        case "resizing": {
-          commitResizeHistory(s, store);
+        case "resizing":
+        case "rotating": {
+          store.commitTransaction();
           break;
         }
         case "marquee": {
@@ -155,7 +303,68 @@ export function useSelectionTool() {
       // Reset
       Object.assign(stateRef.current, freshState());
     },
-    [],
+    [pinPivot, onPointerMove],
+  );
+
+  /** CSS cursor for hovering `point` while no drag is under way */
+  const getHoverCursor = useCallback(
+    (point: Point2D): string => {
+      const store = useDocumentStore.getState();
+      const pivot = getPivot();
+      const hit = pivot && hitTestFrame(point, store, pivot);
+      switch (hit?.kind) {
+        case "pivot":
+          return "move";
+        case "resize":
+          return HANDLE_CURSORS[hit.handle];
+        case "rotate":
+          return ROTATE_CURSOR;
+        default:
+          return "default";
+      }
+    },
+    [getPivot],
+  );
+
+  /** Render smart guides, the rotation handle and the pivot on the overlay canvas */
+  const renderOverlay = useCallback(
+    (ctx: CanvasRenderingContext2D) => {
+      renderSnapGuides(ctx, stateRef.current.guides, useCanvasStore.getState().zoom);
+
+      const bounds = selectionBounds(useDocumentStore.getState());
+      const pivot = getPivot();
+      if (!bounds || !pivot) return;
+
+      const handle = rotationHandlePosition(bounds);
+      ctx.save();
+      ctx.strokeStyle = "#2563eb";
+      ctx.fillStyle = "#ffffff";
+      ctx.lineWidth = 1;
+      ctx.setLineDash([]);
+
+      ctx.beginPath();
+      ctx.moveTo(handle.x, bounds.y);
+      ctx.lineTo(handle.x, handle.y);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(handle.x, handle.y, HANDLE_HIT_SIZE / 2 - 1, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+
+      // Pivot: ringed crosshair
+      ctx.beginPath();
+      ctx.arc(pivot.x, pivot.y, PIVOT_RADIUS, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(pivot.x - PIVOT_RADIUS - 3, pivot.y);
+      ctx.lineTo(pivot.x + PIVOT_RADIUS + 3, pivot.y);
+      ctx.moveTo(pivot.x, pivot.y - PIVOT_RADIUS - 3);
+      ctx.lineTo(pivot.x, pivot.y + PIVOT_RADIUS + 3);
+      ctx.stroke();
+      ctx.restore();
+    },
+    [getPivot],
   );
 
   /** Get the current marquee rectangle (for overlay rendering) */
@@ -168,216 +377,179 @@ export function useSelectionTool() {
     [],
   );
 
-  return { onPointerDown, onPointerMove, onPointerUp, getMarqueeRect };
+  return {
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    getMarqueeRect,
+    getHoverCursor,
+    renderOverlay,
+  };
 }
 
 // ============================================
 // Helpers
 // ============================================
 
+function selectionKey(store: ReturnType<typeof useDocumentStore.getState>): string {
+  return [...store.selectedObjectIds].sort().join(",");
+}
+
+/**
+ * Selected objects with enclosing groups folded into their transforms, so
+ * objects picked inside a group (e.g. by the Direct Selection tool) are
+ * framed and dragged where they are drawn. Edits go back through
+ * `worldToParentTransform`.
+ */
+function worldSelection(store: ReturnType<typeof useDocumentStore.getState>): VectorObject[] {
+  return collectObjectsInWorldSpace(store.layers, new Set(store.selectedObjectIds));
+}
+
+function selectionBounds(
+  store: ReturnType<typeof useDocumentStore.getState>,
+): BoundingBox | null {
+  const selected = worldSelection(store);
+  return selected.length > 0 ? mergeBounds(selected.map(getWorldBounds)) : null;
+}
+
 function saveOriginals(s: DragState, store: ReturnType<typeof useDocumentStore.getState>) {
-  s.origTransforms.clear();
-  s.origProps.clear();
+  s.origObjects.clear();
 
-  const selected = store.getSelectedObjects();
-  for (const obj of selected) {
-    s.origTransforms.set(obj.id, { x: obj.transform.x, y: obj.transform.y });
-    s.origProps.set(obj.id, extractResizeProps(obj));
-  }
+  const selected = worldSelection(store);
+  for (const obj of selected) s.origObjects.set(obj.id, obj);
 
   if (selected.length > 0) {
     s.origBounds = mergeBounds(selected.map(getWorldBounds));
   }
 }
 
-function extractResizeProps(obj: VectorObject): Record<string, unknown> {
-  const base = { transform: { ...obj.transform } };
-  switch (obj.type) {
-    case "rectangle":
-    case "image":
-      return { ...base, width: obj.width, height: obj.height };
-    case "ellipse":
-      return { ...base, radiusX: obj.radiusX, radiusY: obj.radiusY };
-    case "line":
-      return { ...base, endX: obj.endX, endY: obj.endY };
-    case "polygon":
-      return { ...base, radius: obj.radius };
-    default:
-      return base;
-  }
-}
-
-/** Hit-test the 8 selection handles */
-function hitTestHandles(
+/**
+ * Hit-test the selection frame: the pivot, then the 8 resize handles, then
+ * the rotation handle and the rotate zones outside the corners.
+ */
+function hitTestFrame(
   point: Point2D,
   store: ReturnType<typeof useDocumentStore.getState>,
-): HandleId | null {
-  const selected = store.getSelectedObjects();
-  if (selected.length === 0) return null;
+  pivot: Point2D,
+): FrameHit | null {
+  const bounds = selectionBounds(store);
+  if (!bounds) return null;
 
-  const bounds = mergeBounds(selected.map(getWorldBounds));
-  const handles = handlePositions(bounds);
+  if (Math.hypot(point.x - pivot.x, point.y - pivot.y) <= PIVOT_RADIUS + 2) {
+    return { kind: "pivot" };
+  }
 
-  for (const [id, pos] of handles) {
+  for (const [id, pos] of resizeHandlePositions(bounds)) {
     if (
       Math.abs(point.x - pos.x) <= HANDLE_HIT_SIZE / 2 &&
       Math.abs(point.y - pos.y) <= HANDLE_HIT_SIZE / 2
     ) {
-      return id;
+      return { kind: "resize", handle: id };
     }
   }
+
+  const handle = rotationHandlePosition(bounds);
+  if (
+    Math.hypot(point.x - handle.x, point.y - handle.y) <= HANDLE_HIT_SIZE / 2 ||
+    inRotateZone(point, bounds)
+  ) {
+    return { kind: "rotate" };
+  }
   return null;
 }
 
-function handlePositions(b: BoundingBox): [HandleId, Point2D][] {
-  const cx = b.x + b.width / 2;
-  const cy = b.y + b.height / 2;
-  return [
-    ["tl", { x: b.x, y: b.y }],
-    ["tc", { x: cx, y: b.y }],
-    ["tr", { x: b.x + b.width, y: b.y }],
-    ["mr", { x: b.x + b.width, y: cy }],
-    ["br", { x: b.x + b.width, y: b.y + b.height }],
-    ["bc", { x: cx, y: b.y + b.height }],
-    ["bl", { x: b.x, y: b.y + b.height }],
-    ["ml", { x: b.x, y: cy }],
-  ];
+/**
+ * Snap targets for the current drag (gathered on first use) and options,
+ * or null while bypassed or with no smart guides, ruler guides or grid
+ * snapping to use
+ */
+function dragSnap(
+  s: DragState,
+  store: ReturnType<typeof useDocumentStore.getState>,
+  bypass: boolean,
+): { targets: SnapTargets; options: SnapOptions } | null {
+  const { snapToObjects, canvasSize, zoom } = useCanvasStore.getState();
+  const { grid, guides } = store;
+  if (bypass || (!snapToObjects && !grid.snap && guides.length === 0)) return null;
+  if (!s.snapTargets) {
+    s.snapTargets = snapToObjects
+      ? collectSnapTargets(store.layers, new Set(store.selectedObjectIds), canvasSize)
+      : emptySnapTargets();
+    addGuideLines(s.snapTargets, guides);
+  }
+  return { targets: s.snapTargets, options: snapOptions(zoom, store.grid) };
+}
+
+/** Drag offset with the selection bounds snapped to other objects or the grid */
+function snapMove(
+  s: DragState,
+  store: ReturnType<typeof useDocumentStore.getState>,
+  offset: Point2D,
+  bypass: boolean,
+): Point2D {
+  s.guides = [];
+  const snapping = dragSnap(s, store, bypass);
+  if (!snapping || !s.origBounds) return offset;
+
+  const box = { ...s.origBounds, x: s.origBounds.x + offset.x, y: s.origBounds.y + offset.y };
+  const snap = snapBox(box, snapping.targets, snapping.options);
+  s.guides = snap.guides;
+  return { x: offset.x + snap.offset.x, y: offset.y + snap.offset.y };
 }
 
-/** Apply resize based on handle drag */
+/**
+ * Scale the whole selection by dragging a handle of its merged bounds.
+ * Shift keeps the aspect ratio; Alt scales about the center. The handle
+ * snaps on the axes it moves along.
+ */
 function applyResize(
   s: DragState,
   store: ReturnType<typeof useDocumentStore.getState>,
   point: Point2D,
+  keepAspect: boolean,
+  fromCenter: boolean,
+  bypassSnap: boolean,
 ) {
   if (!s.origBounds || !s.handleId) return;
 
-  const ob = s.origBounds;
-  let newBounds: BoundingBox;
-
-  // Calculate new bounds based on which handle is being dragged
-  switch (s.handleId) {
-    case "br":
-      newBounds = { x: ob.x, y: ob.y, width: point.x - ob.x, height: point.y - ob.y };
-      break;
-    case "bl":
-      newBounds = { x: point.x, y: ob.y, width: ob.x + ob.width - point.x, height: point.y - ob.y };
-      break;
-    case "tr":
-      newBounds = { x: ob.x, y: point.y, width: point.x - ob.x, height: ob.y + ob.height - point.y };
-      break;
-    case "tl":
-      newBounds = { x: point.x, y: point.y, width: ob.x + ob.width - point.x, height: ob.y + ob.height - point.y };
-      break;
-    case "mr":
-      newBounds = { x: ob.x, y: ob.y, width: point.x - ob.x, height: ob.height };
-      break;
-    case "ml":
-      newBounds = { x: point.x, y: ob.y, width: ob.x + ob.width - point.x, height: ob.height };
-      break;
-    case "bc":
-      newBounds = { x: ob.x, y: ob.y, width: ob.width, height: point.y - ob.y };
-      break;
-    case "tc":
-      newBounds = { x: ob.x, y: point.y, width: ob.width, height: ob.y + ob.height - point.y };
-      break;
-    default:
-      return;
+  s.guides = [];
+  const snapping = dragSnap(s, store, bypassSnap);
+  if (snapping) {
+    const snap = snapPoint(point, snapping.targets, snapping.options, {
+      x: s.handleId !== "tc" && s.handleId !== "bc",
+      y: s.handleId !== "ml" && s.handleId !== "mr",
+    });
+    point = snap.point;
+    s.guides = snap.guides;
   }
 
-  // Enforce minimum size
-  if (newBounds.width < 2) newBounds.width = 2;
-  if (newBounds.height < 2) newBounds.height = 2;
-
-  // Compute scale factors
-  const sx = ob.width > 0 ? newBounds.width / ob.width : 1;
-  const sy = ob.height > 0 ? newBounds.height / ob.height : 1;
-
-  // Apply to each selected object
-  for (const id of store.selectedObjectIds) {
-    const origP = s.origProps.get(id);
-    const origT = s.origTransforms.get(id);
-    if (!origP || !origT) continue;
-
-    const obj = store.getObject(id);
-    if (!obj) continue;
-
-    // Scale position relative to original bounds origin
-    const newX = newBounds.x + (origT.x - ob.x) * sx;
-    const newY = newBounds.y + (origT.y - ob.y) * sy;
-
-    const updates: Record<string, unknown> = {
-      transform: { ...obj.transform, x: newX, y: newY },
-    };
-
-    // Scale dimensions
-    switch (obj.type) {
-      case "rectangle":
-      case "image":
-        updates.width = (origP.width as number) * sx;
-        updates.height = (origP.height as number) * sy;
-        break;
-      case "ellipse":
-        updates.radiusX = (origP.radiusX as number) * sx;
-        updates.radiusY = (origP.radiusY as number) * sy;
-        break;
-      case "line":
-        updates.endX = (origP.endX as number) * sx;
-        updates.endY = (origP.endY as number) * sy;
-        break;
-      case "polygon":
-        updates.radius = (origP.radius as number) * Math.max(sx, sy);
-        break;
+  const scale = resizeScale(s.origBounds, s.handleId, point, { keepAspect, fromCenter });
+  for (const [id, orig] of s.origObjects) {
+    const updates = scaleObject(orig, scale);
+    if (updates.transform) {
+      updates.transform = worldToParentTransform(store.layers, id, updates.transform);
     }
-
     store.updateObject(id, updates);
   }
 }
 
-function commitMoveHistory(
+/** Rotate every selected object around the pivot by the dragged angle */
+function applyRotation(
   s: DragState,
   store: ReturnType<typeof useDocumentStore.getState>,
+  point: Point2D,
+  snap: boolean,
 ) {
-  const ops = [];
-  for (const id of store.selectedObjectIds) {
-    const orig = s.origTransforms.get(id);
-    const obj = store.getObject(id);
-    if (!orig || !obj) continue;
-    const layerId = store.getObjectLayerId(id);
-    if (!layerId) continue;
-
-    ops.push({
-      type: "modify-object" as const,
-      objectId: id,
-      layerId,
-      before: { transform: { ...obj.transform, x: orig.x, y: orig.y } },
-      after: { transform: { ...obj.transform } },
-    });
-  }
-  if (ops.length > 0) store.pushHistory("Move objects", ops);
-}
+  const pivot = s.pivot;
+  if (!pivot) return;
 
-function commitResizeHistory(
-  s: DragState,
-  store: ReturnType<typeof useDocumentStore.getState>,
-) {
-  const ops = [];
-  for (const id of store.selectedObjectIds) {
-    const origP = s.origProps.get(id);
-    const obj = store.getObject(id);
-    if (!origP || !obj) continue;
-    const layerId = store.getObjectLayerId(id);
-    if (!layerId) continue;
-
-    ops.push({
-      type: "modify-object" as const,
-      objectId: id,
-      layerId,
-      before: origP,
-      after: extractResizeProps(obj),
-    });
+  let angle = angleAround(pivot, point) - s.startAngle;
+  if (snap) angle = snapAngle(angle);
+
+  for (const [id, orig] of s.origObjects) {
+    const transform = rotateTransform(orig.transform, pivot, angle);
+    store.updateObject(id, { transform: worldToParentTransform(store.layers, id, transform) });
   }
-  if (ops.length > 0) store.pushHistory("Resize objects", ops);
 }
 
 function selectInMarquee(
@@ -19,6 +19,16 @@ import {
   type StrokeStyle,
 } from "@/types/vector";
 import type { ToolType } from "@/types";
+import { renderSnapGuides } from "@/lib/vector/renderer";
+import {
+  addGuideLines,
+  collectSnapTargets,
+  emptySnapTargets,
+  snapOptions,
+  snapPoint,
+  type SnapGuide,
+  type SnapTargets,
+} from "@/lib/vector/snapping";
 
 interface ShapeDragState {
   active: boolean;
@@ -27,12 +37,17 @@ interface ShapeDragState {
   tool: ToolType;
   shiftHeld: boolean;
   altHeld: boolean;
+  /** Other objects' geometry, gathered at drag start while snapping is on */
+  snapTargets: SnapTargets | null;
+  guides: SnapGuide[];
 }
 
 /**
  * Hook for shape creation tools (Rectangle, Ellipse, Line, Polygon)
  *
- * Returns pointer handlers + a preview render function.
+ * Returns pointer handlers + a preview render function. Both corners snap
+ * to other objects' geometry, ruler guides and the grid unless Ctrl (Cmd on
+ * macOS) is held.
  */
 export function useShapeTool() {
   const stateRef = useRef<ShapeDragState>({
@@ -42,58 +57,78 @@ export function useShapeTool() {
     tool: "rectangle",
     shiftHeld: false,
     altHeld: false,
+    snapTargets: null,
+    guides: [],
   });
 
-  const onPointerDown = useCallback((point: Point2D, tool: ToolType) => {
-    stateRef.current = {
-      active: true,
-      startPoint: point,
-      currentPoint: point,
-      tool,
-      shiftHeld: false,
-      altHeld: false,
-    };
-  }, []);
+  const onPointerDown = useCallback(
+    (point: Point2D, tool: ToolType, bypassSnap = false) => {
+      const { snapToObjects, canvasSize } = useCanvasStore.getState();
+      const { layers, guides } = useDocumentStore.getState();
+      let snapTargets: SnapTargets | null = null;
+      if (snapToObjects || guides.length > 0) {
+        snapTargets = snapToObjects
+          ? collectSnapTargets(layers, new Set(), canvasSize)
+          : emptySnapTargets();
+        addGuideLines(snapTargets, guides);
+      }
+      const s: ShapeDragState = {
+        active: true,
+        startPoint: point,
+        currentPoint: point,
+        tool,
+        shiftHeld: false,
+        altHeld: false,
+        snapTargets,
+        guides: [],
+      };
+      s.startPoint = s.currentPoint = snapShapePoint(s, point, bypassSnap);
+      stateRef.current = s;
+    },
+    [],
+  );
 
   const onPointerMove = useCallback(
-    (point: Point2D, shiftKey: boolean, altKey: boolean) => {
+    (point: Point2D, shiftKey: boolean, altKey: boolean, bypassSnap = false) => {
       const s = stateRef.current;
       if (!s.active) return;
-      s.currentPoint = point;
+      s.currentPoint = snapShapePoint(s, point, bypassSnap);
       s.shiftHeld = shiftKey;
       s.altHeld = altKey;
     },
     [],
   );
 
-  const onPointerUp = useCallback((point: Point2D) => {
-    const s = stateRef.current;
-    if (!s.active) return;
-
-    s.currentPoint = point;
+  const onPointerUp = useCallback(
+    (point: Point2D, shiftKey: boolean, altKey: boolean, bypassSnap = false) => {
+      const s = stateRef.current;
+      if (!s.active) return;
 
-    // Don't create tiny accidental shapes
-    const dist = Math.hypot(point.x - s.startPoint.x, point.y - s.startPoint.y);
-    if (dist < 3) {
-      s.active = false;
-      return;
-    }
+      // Modifiers changed since the last move apply to the final shape
+      s.currentPoint = snapShapePoint(s, point, bypassSnap);
+      s.shiftHeld = shiftKey;
+      s.altHeld = altKey;
 
-    const obj = createShapeObject(s);
-    if (obj) {
-      const store = useDocumentStore.getState();
-      const layerId = store.activeLayerId;
-      const index = store.getActiveLayer()?.objects.length ?? 0;
+      // Don't create tiny accidental shapes
+      const dist = Math.hypot(point.x - s.startPoint.x, point.y - s.startPoint.y);
+      if (dist < 3) {
+        s.active = false;
+        return;
+      }
 
-      store.addObject(layerId, obj);
-      store.setSelection([obj.id]);
-      store.pushHistory(`Create ${obj.type}`, [
-        { type: "add-object", layerId, object: obj, index },
-      ]);
-    }
+      const obj = createShapeObject(s);
+      if (obj) {
+        const store = useDocumentStore.getState();
+        store.transaction(`Create ${obj.type}`, () => {
+          store.addObject(store.activeLayerId, obj);
+        });
+        store.setSelection([obj.id]);
+      }
 
-    s.active = false;
-  }, []);
+      s.active = false;
+    },
+    [],
+  );
 
   /**
    * Render the shape preview on the overlay canvas
@@ -106,6 +141,7 @@ export function useShapeTool() {
       const { fillColor, fillEnabled, strokeColor, strokeWidth, strokeEnabled } =
         useCanvasStore.getState();
 
+      renderSnapGuides(ctx, s.guides, useCanvasStore.getState().zoom);
       ctx.save();
 
       // Preview styling
@@ -298,6 +334,20 @@ function createPolygonObj(
 // Geometry helpers
 // ============================================
 
+/** `point` snapped to other objects' geometry or the grid, recording the guides to show */
+function snapShapePoint(s: ShapeDragState, point: Point2D, bypass: boolean): Point2D {
+  s.guides = [];
+  const { grid } = useDocumentStore.getState();
+  if (bypass || (!s.snapTargets && !grid.snap)) return point;
+  const snap = snapPoint(
+    point,
+    s.snapTargets ?? emptySnapTargets(),
+    snapOptions(useCanvasStore.getState().zoom, grid),
+  );
+  s.guides = snap.guides;
+  return snap.point;
+}
+
 function computeBounds(s: ShapeDragState): BoundingBox {
   const start = s.startPoint;
   let end = s.currentPoint;
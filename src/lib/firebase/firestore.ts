@@ -13,6 +13,7 @@ import {
   Timestamp,
 } from "firebase/firestore";
 import { db } from "./config";
+import { DOCUMENT_VERSION } from "@/lib/vector/documentFormat";
 
 /**
  * Check if Firestore is available
@@ -52,6 +53,12 @@ export interface ProjectDocument {
   activeLayerId: string;
   version: string;
   vectorLayers?: unknown[];
+  /** Saved undo stack (see `lib/sync/persistedHistory`) */
+  history?: unknown;
+  /** Grid settings (see `GridSettings`) */
+  grid?: unknown;
+  /** Ruler guides (see `RulerGuide`) */
+  guides?: unknown;
 }
 
 /**
@@ -73,6 +80,11 @@ export interface UpdateProjectData {
   layers?: LayerMetadata[];
   activeLayerId?: string;
   vectorLayers?: unknown[];
+  /** Document schema version of `vectorLayers` (see `lib/vector/documentFormat`) */
+  version?: string;
+  history?: unknown;
+  grid?: unknown;
+  guides?: unknown;
 }
 
 const PROJECTS_COLLECTION = "projects";
@@ -93,7 +105,7 @@ export async function createProject(
     thumbnailUrl: null,
     layers: data.layers,
     activeLayerId: data.activeLayerId,
-    version: "1.0",
+    version: DOCUMENT_VERSION,
   };
 
   const docRef = await addDoc(collection(ensureDb(), PROJECTS_COLLECTION), projectData);
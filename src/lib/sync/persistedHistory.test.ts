@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import { createLayer, createSolidFill, createTransform } from "@/types/vector";
+import type { HistoryEntry, RectangleObject } from "@/types/vector";
+import { restoreHistory, serializeHistory } from "./persistedHistory";
+
+function entry(id: string, padding = 0): HistoryEntry {
+  return {
+    id,
+    description: "Change layer",
+    timestamp: 1,
+    operations: [
+      {
+        type: "modify-layer",
+        layerId: "layer-1",
+        before: { name: "a".repeat(padding) },
+        after: { name: "b" },
+      },
+    ],
+  };
+}
+
+function rect(): RectangleObject {
+  return {
+    id: "rect-1",
+    type: "rectangle",
+    name: "Rectangle",
+    transform: createTransform(10, 20),
+    fill: createSolidFill("#ff0000"),
+    stroke: null,
+    opacity: 1,
+    visible: true,
+    locked: false,
+    width: 30,
+    height: 40,
+    cornerRadius: [0, 0, 0, 0],
+  };
+}
+
+describe("serializeHistory", () => {
+  it("keeps the whole stack when it fits", () => {
+    const saved = serializeHistory([entry("1"), entry("2")], 0);
+    expect(saved.entries.map((e) => e.id)).toEqual(["1", "2"]);
+    expect(saved.index).toBe(0);
+  });
+
+  it("drops redo entries before undo entries when over budget", () => {
+    const history = [entry("1", 100), entry("2", 100), entry("3", 100)];
+    const saved = serializeHistory(history, 1, 600);
+    expect(saved.entries.map((e) => e.id)).toEqual(["1", "2"]);
+    expect(saved.index).toBe(1);
+  });
+
+  it("drops the oldest entries and shifts the index", () => {
+    const history = [entry("1", 200), entry("2", 200), entry("3", 200)];
+    const saved = serializeHistory(history, 2, 600);
+    expect(saved.entries.map((e) => e.id)).toEqual(["3"]);
+    expect(saved.index).toBe(0);
+  });
+
+  it("strips undefined fields", () => {
+    const withUndefined = entry("1");
+    withUndefined.operations[0] = {
+      type: "add-object",
+      layerId: "layer-1",
+      object: {} as never,
+      index: 0,
+      parentId: undefined,
+    };
+    const saved = serializeHistory([withUndefined], 0);
+    expect("parentId" in saved.entries[0].operations[0]).toBe(false);
+  });
+
+  it("keeps undefined patch values so undo can remove added properties", () => {
+    const added: HistoryEntry = {
+      id: "1",
+      description: "Change object",
+      timestamp: 1,
+      operations: [
+        {
+          type: "modify-object",
+          objectId: "rect-1",
+          layerId: "layer-1",
+          before: { fill: null, blendMode: undefined },
+          after: { fill: createSolidFill("#00ff00"), blendMode: "multiply" },
+        },
+      ],
+    };
+    const saved = serializeHistory([added], 0);
+    const { history } = restoreHistory(JSON.parse(JSON.stringify(saved)));
+    const op = history[0].operations[0];
+    if (op.type !== "modify-object") throw new Error("expected modify-object");
+    expect(op.before).toEqual({ fill: null, blendMode: undefined });
+    expect("blendMode" in op.before).toBe(true);
+  });
+});
+
+describe("restoreHistory", () => {
+  it("round-trips a serialized stack", () => {
+    const saved = serializeHistory([entry("1"), entry("2")], 0);
+    const { history, historyIndex } = restoreHistory(
+      JSON.parse(JSON.stringify(saved)),
+    );
+    expect(history.map((e) => e.id)).toEqual(["1", "2"]);
+    expect(historyIndex).toBe(0);
+  });
+
+  it("returns an empty stack for missing or malformed data", () => {
+    expect(restoreHistory(undefined)).toEqual({ history: [], historyIndex: -1 });
+    expect(restoreHistory({ entries: "nope" })).toEqual({
+      history: [],
+      historyIndex: -1,
+    });
+    expect(restoreHistory({ entries: [{ id: 1 }], index: 0 })).toEqual({
+      history: [],
+      historyIndex: -1,
+    });
+  });
+
+  it("keeps operations carrying valid objects and layers", () => {
+    const layer = createLayer("layer-2", "Layer 2");
+    layer.objects = [rect()];
+    const added: HistoryEntry = {
+      id: "3",
+      description: "Add layer",
+      timestamp: 1,
+      operations: [
+        { type: "add-object", layerId: "layer-1", object: rect(), index: 0 },
+        { type: "add-layer", layer, index: 1, activeLayerBefore: "layer-1" },
+      ],
+    };
+    const saved = serializeHistory([entry("1"), added], 1);
+    const { history } = restoreHistory(JSON.parse(JSON.stringify(saved)));
+    expect(history.map((e) => e.id)).toEqual(["1", "3"]);
+  });
+
+  it("drops the whole stack when any operation is invalid", () => {
+    const withOperation = (operation: unknown) => ({
+      entries: [entry("1"), { ...entry("2"), operations: [operation] }],
+      index: 1,
+    });
+    const empty = { history: [], historyIndex: -1 };
+
+    expect(
+      restoreHistory(withOperation({ type: "modify-object", objectId: "a", layerId: "layer-1" })),
+    ).toEqual(empty);
+    expect(
+      restoreHistory(
+        withOperation({
+          type: "add-object",
+          layerId: "layer-1",
+          object: { ...rect(), width: "wide" },
+          index: 0,
+        }),
+      ),
+    ).toEqual(empty);
+    expect(
+      restoreHistory(
+        withOperation({
+          type: "modify-object",
+          objectId: "rect-1",
+          layerId: "layer-1",
+          before: { transform: createTransform() },
+          after: { transform: null },
+        }),
+      ),
+    ).toEqual(empty);
+    expect(
+      restoreHistory(
+        withOperation({
+          type: "modify-object",
+          objectId: "text-1",
+          layerId: "layer-1",
+          before: { content: "a" },
+          after: { content: 5 },
+        }),
+      ),
+    ).toEqual(empty);
+    expect(
+      restoreHistory(
+        withOperation({
+          type: "modify-layer",
+          layerId: "layer-1",
+          before: { opacity: 1 },
+          after: { opacity: "half" },
+        }),
+      ),
+    ).toEqual(empty);
+    expect(restoreHistory(withOperation({ type: "teleport-object" }))).toEqual(empty);
+    expect(
+      restoreHistory(withOperation({ type: "batch", operations: [{ type: "reorder-layer" }] })),
+    ).toEqual(empty);
+  });
+
+  it("clamps an out-of-range index", () => {
+    const { historyIndex } = restoreHistory({ entries: [entry("1")], index: 9 });
+    expect(historyIndex).toBe(0);
+  });
+});
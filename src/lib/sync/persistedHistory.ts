@@ -0,0 +1,249 @@
+import type { HistoryEntry, HistoryOperation, VectorObjectType } from "@/types/vector";
+import { createLayer } from "@/types/vector";
+import { validateLayers } from "@/lib/vector/documentValidation";
+
+/** Undo stack as stored next to `vectorLayers` (localStorage and Firestore) */
+export interface PersistedHistory {
+  entries: HistoryEntry[];
+  /** Index of the current entry in `entries` (-1 = before all entries) */
+  index: number;
+}
+
+/**
+ * Serialized size budget for the saved undo stack. Firestore documents cap at
+ * 1 MiB including `vectorLayers`, so history gets a fraction of that.
+ */
+export const HISTORY_BUDGET_BYTES = 256 * 1024;
+
+/**
+ * Saved in place of an `undefined` modify patch value, which JSON would
+ * drop. Undoing a change that added a property must remove it again.
+ */
+const UNSET = { $unset: true } as const;
+
+const OBJECT_TYPES: VectorObjectType[] = [
+  "rectangle",
+  "ellipse",
+  "path",
+  "line",
+  "polygon",
+  "text",
+  "group",
+  "image",
+];
+
+/**
+ * Prepare the undo stack for saving. Drops redo entries first, then the
+ * oldest entries, until the JSON fits in `budgetBytes`. The JSON round-trip
+ * also strips `undefined` fields, which Firestore rejects; in modify patches
+ * they are kept as `UNSET` instead.
+ */
+export function serializeHistory(
+  history: HistoryEntry[],
+  historyIndex: number,
+  budgetBytes = HISTORY_BUDGET_BYTES,
+): PersistedHistory {
+  let entries: HistoryEntry[] = JSON.parse(
+    JSON.stringify(history.map((entry) => mapPatches(entry, markUnset))),
+  );
+  let index = Math.min(historyIndex, entries.length - 1);
+
+  const size = () => JSON.stringify({ entries, index }).length;
+
+  if (size() > budgetBytes && entries.length > index + 1) {
+    entries = entries.slice(0, index + 1);
+  }
+
+  // Trim oldest entries — drop in halves first, then one at a time
+  while (entries.length > 0 && size() > budgetBytes) {
+    const drop = entries.length > 8 ? Math.ceil(entries.length / 2) : 1;
+    entries = entries.slice(drop);
+    index -= drop;
+  }
+
+  return { entries, index: Math.max(index, -1) };
+}
+
+/**
+ * Read a saved undo stack back. Returns an empty stack for missing or
+ * malformed data rather than throwing — history is a convenience, not
+ * part of the artwork. One bad operation drops the whole stack, since
+ * undoing past it would leave the document half-reverted.
+ */
+export function restoreHistory(data: unknown): {
+  history: HistoryEntry[];
+  historyIndex: number;
+} {
+  const empty = { history: [], historyIndex: -1 };
+  if (!data || typeof data !== "object") return empty;
+
+  const { entries, index } = data as Partial<PersistedHistory>;
+  if (!Array.isArray(entries)) return empty;
+
+  if (!entries.every(isHistoryEntry)) return empty;
+  const history = entries.map((entry) => mapPatches(entry, restoreUnset));
+
+  const historyIndex =
+    typeof index === "number" && Number.isInteger(index)
+      ? Math.max(-1, Math.min(index, history.length - 1))
+      : history.length - 1;
+
+  return { history, historyIndex };
+}
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.id === "string" &&
+    typeof value.description === "string" &&
+    typeof value.timestamp === "number" &&
+    Array.isArray(value.operations) &&
+    value.operations.every(isHistoryOperation)
+  );
+}
+
+function isHistoryOperation(value: unknown): value is HistoryOperation {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case "add-object":
+    case "remove-object":
+      return (
+        typeof value.layerId === "string" &&
+        isIndex(value.index) &&
+        isOptionalString(value.parentId) &&
+        isValidObject(value.object)
+      );
+    case "modify-object":
+      return (
+        typeof value.objectId === "string" &&
+        typeof value.layerId === "string" &&
+        isValidObjectPatch(value.before) &&
+        isValidObjectPatch(value.after)
+      );
+    case "reorder-object":
+      return (
+        typeof value.layerId === "string" &&
+        isIndex(value.fromIndex) &&
+        isIndex(value.toIndex)
+      );
+    case "add-layer":
+    case "remove-layer":
+      return (
+        isIndex(value.index) &&
+        isOptionalString(value.activeLayerBefore) &&
+        isOptionalString(value.activeLayerAfter) &&
+        isValidLayer(value.layer)
+      );
+    case "reorder-layer":
+      return isIndex(value.fromIndex) && isIndex(value.toIndex);
+    case "modify-layer":
+      return (
+        typeof value.layerId === "string" &&
+        isValidLayerPatch(value.before) &&
+        isValidLayerPatch(value.after)
+      );
+    case "batch":
+      return Array.isArray(value.operations) && value.operations.every(isHistoryOperation);
+    default:
+      return false;
+  }
+}
+
+/** A layer the document validator accepts without repairing anything */
+function isValidLayer(value: unknown): boolean {
+  return isRecord(value) && validateLayers([value]).issues.length === 0;
+}
+
+function isValidObject(value: unknown): boolean {
+  const layer = createLayer("history", "History");
+  return isValidLayer({ ...layer, objects: [value] });
+}
+
+/**
+ * A modify patch is checked by applying it to a valid object of every type:
+ * each type ignores keys it does not have, so only values that would break
+ * the patched object are rejected.
+ */
+function isValidObjectPatch(value: unknown): boolean {
+  if (!isRecord(value)) return false;
+  return sampleObjects().every((sample) => isValidObject(applyPatch(sample, value)));
+}
+
+/** Layer patches never carry `objects` (see `updateLayer`) */
+function isValidLayerPatch(value: unknown): boolean {
+  if (!isRecord(value) || "objects" in value) return false;
+  return isValidLayer(applyPatch(createLayer("history", "History"), value));
+}
+
+let samples: Record<string, unknown>[] | null = null;
+
+/** One object of each type, filled in with the validator's defaults */
+function sampleObjects(): Record<string, unknown>[] {
+  if (!samples) {
+    const layer = createLayer("history", "History");
+    const objects = OBJECT_TYPES.map((type) => ({ type, id: type, src: "data:," }));
+    samples = validateLayers([{ ...layer, objects }]).layers[0].objects as unknown as Record<
+      string,
+      unknown
+    >[];
+  }
+  return samples;
+}
+
+function applyPatch(target: object, patch: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...target, ...patch };
+  for (const key of Object.keys(patch)) {
+    if (isUnset(patch[key])) delete result[key];
+  }
+  return result;
+}
+
+function mapPatches(
+  entry: HistoryEntry,
+  map: (patch: Record<string, unknown>) => Record<string, unknown>,
+): HistoryEntry {
+  const mapOperation = (op: HistoryOperation): HistoryOperation => {
+    switch (op.type) {
+      case "modify-object":
+      case "modify-layer":
+        return { ...op, before: map(op.before), after: map(op.after) };
+      case "batch":
+        return { ...op, operations: op.operations.map(mapOperation) };
+      default:
+        return op;
+    }
+  };
+  return { ...entry, operations: entry.operations.map(mapOperation) };
+}
+
+function markUnset(patch: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    result[key] = value === undefined ? UNSET : value;
+  }
+  return result;
+}
+
+function restoreUnset(patch: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    result[key] = isUnset(value) ? undefined : value;
+  }
+  return result;
+}
+
+function isUnset(value: unknown): boolean {
+  return isRecord(value) && value.$unset === true && Object.keys(value).length === 1;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isIndex(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === "string";
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createTransform } from "@/types/vector";
+import type { RectangleObject } from "@/types/vector";
+import { alignOffsets, alignTargetBounds, distributeOffsets } from "./align";
+
+const items = [
+  { id: "a", bounds: { x: 0, y: 0, width: 10, height: 10 } },
+  { id: "b", bounds: { x: 40, y: 20, width: 20, height: 30 } },
+];
+const target = { x: 0, y: 0, width: 100, height: 50 };
+
+describe("align", () => {
+  it("moves each object's edge or center onto the target", () => {
+    expect(alignOffsets(items, "left", target).get("b")).toEqual({ x: -40, y: 0 });
+    expect(alignOffsets(items, "center", target).get("a")).toEqual({ x: 45, y: 0 });
+    expect(alignOffsets(items, "right", target).get("b")).toEqual({ x: 40, y: 0 });
+    expect(alignOffsets(items, "middle", target).get("b")).toEqual({ x: 0, y: -10 });
+    expect(alignOffsets(items, "bottom", target).get("a")).toEqual({ x: 0, y: 40 });
+  });
+
+  it("equalizes gaps between the outermost objects", () => {
+    const offsets = distributeOffsets(
+      [
+        { id: "c", bounds: { x: 90, y: 0, width: 10, height: 10 } },
+        { id: "a", bounds: { x: 0, y: 0, width: 10, height: 10 } },
+        { id: "b", bounds: { x: 20, y: 0, width: 30, height: 10 } },
+      ],
+      "horizontal",
+    );
+    expect(offsets.get("a")).toEqual({ x: 0, y: 0 });
+    expect(offsets.get("b")).toEqual({ x: 15, y: 0 });
+    expect(offsets.get("c")!.x).toBeCloseTo(0);
+    expect(distributeOffsets(items, "vertical").size).toBe(0);
+  });
+
+  it("resolves the selection, key object and artboard targets", () => {
+    const rect = (id: string, x: number): RectangleObject => ({
+      id,
+      type: "rectangle",
+      name: id,
+      transform: createTransform(x, 0),
+      fill: null,
+      stroke: null,
+      opacity: 1,
+      visible: true,
+      locked: false,
+      width: 10,
+      height: 10,
+      cornerRadius: [0, 0, 0, 0],
+    });
+    const objects = new Map([rect("other", 0), rect("key", 50)].map((obj) => [obj.id, obj]));
+    const getObject = (id: string) => objects.get(id);
+    const size = { width: 800, height: 600 };
+    // Selection order, not stacking order, picks the key object
+    const ids = ["key", "other"];
+
+    expect(alignTargetBounds("selection", ids, getObject, size)).toEqual({ x: 0, y: 0, width: 60, height: 10 });
+    expect(alignTargetBounds("key", ids, getObject, size)).toEqual({ x: 50, y: 0, width: 10, height: 10 });
+    expect(alignTargetBounds("key", ["other", "key"], getObject, size)).toEqual({ x: 0, y: 0, width: 10, height: 10 });
+    expect(alignTargetBounds("artboard", [], getObject, size)).toEqual({ x: 0, y: 0, width: 800, height: 600 });
+    expect(alignTargetBounds("selection", [], getObject, size)).toBeNull();
+  });
+});
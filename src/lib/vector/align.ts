@@ -0,0 +1,119 @@
+import type { AlignTarget, Size } from "@/types";
+import type { BoundingBox, Point2D, VectorObject } from "@/types/vector";
+import { getWorldBounds, mergeBounds } from "./bounds";
+
+/**
+ * Align and distribute: offsets that line objects up on a target box or
+ * space them evenly, from their world bounds.
+ */
+
+export type AlignEdge = "left" | "center" | "right" | "top" | "middle" | "bottom";
+
+export type DistributeAxis = "horizontal" | "vertical";
+
+export interface PlacedBounds {
+  id: string;
+  bounds: BoundingBox;
+}
+
+/**
+ * Box to align the objects in `objectIds` to: their merged bounds, the key
+ * object's (the first one selected, whatever its stacking order), or the
+ * artboard. Null when there is nothing to align.
+ */
+export function alignTargetBounds(
+  target: AlignTarget,
+  objectIds: string[],
+  getObject: (id: string) => VectorObject | undefined,
+  canvasSize: Size,
+): BoundingBox | null {
+  if (target === "artboard") {
+    return { x: 0, y: 0, width: canvasSize.width, height: canvasSize.height };
+  }
+  const objects = objectIds
+    .map(getObject)
+    .filter((obj): obj is VectorObject => obj !== undefined);
+  if (objects.length === 0) return null;
+  return target === "key"
+    ? getWorldBounds(objects[0])
+    : mergeBounds(objects.map(getWorldBounds));
+}
+
+/** Move per object that puts its `edge` on the target's */
+export function alignOffsets(
+  items: PlacedBounds[],
+  edge: AlignEdge,
+  target: BoundingBox,
+): Map<string, Point2D> {
+  const offsets = new Map<string, Point2D>();
+  for (const { id, bounds } of items) {
+    switch (edge) {
+      case "left":
+        offsets.set(id, { x: target.x - bounds.x, y: 0 });
+        break;
+      case "center":
+        offsets.set(id, { x: centerX(target) - centerX(bounds), y: 0 });
+        break;
+      case "right":
+        offsets.set(id, { x: right(target) - right(bounds), y: 0 });
+        break;
+      case "top":
+        offsets.set(id, { x: 0, y: target.y - bounds.y });
+        break;
+      case "middle":
+        offsets.set(id, { x: 0, y: centerY(target) - centerY(bounds) });
+        break;
+      case "bottom":
+        offsets.set(id, { x: 0, y: bottom(target) - bottom(bounds) });
+        break;
+    }
+  }
+  return offsets;
+}
+
+/**
+ * Move per object that makes the gaps between neighbours along `axis`
+ * equal. The outermost objects stay put; needs three or more.
+ */
+export function distributeOffsets(
+  items: PlacedBounds[],
+  axis: DistributeAxis,
+): Map<string, Point2D> {
+  const offsets = new Map<string, Point2D>();
+  if (items.length < 3) return offsets;
+
+  const horizontal = axis === "horizontal";
+  const start = (b: BoundingBox) => (horizontal ? b.x : b.y);
+  const size = (b: BoundingBox) => (horizontal ? b.width : b.height);
+  const sorted = [...items].sort((a, b) => start(a.bounds) - start(b.bounds));
+
+  const first = sorted[0].bounds;
+  const last = sorted[sorted.length - 1].bounds;
+  const span = start(last) + size(last) - start(first);
+  const occupied = sorted.reduce((sum, item) => sum + size(item.bounds), 0);
+  const gap = (span - occupied) / (sorted.length - 1);
+
+  let next = start(first);
+  for (const { id, bounds } of sorted) {
+    const delta = next - start(bounds);
+    offsets.set(id, horizontal ? { x: delta, y: 0 } : { x: 0, y: delta });
+    next += size(bounds) + gap;
+  }
+  return offsets;
+}
+
+function centerX(b: BoundingBox): number {
+  return b.x + b.width / 2;
+}
+
+function centerY(b: BoundingBox): number {
+  return b.y + b.height / 2;
+}
+
+function right(b: BoundingBox): number {
+  return b.x + b.width;
+}
+
+function bottom(b: BoundingBox): number {
+  return b.y + b.height;
+}
@@ -0,0 +1,23 @@
+import type { VectorObject } from "@/types/vector";
+
+/** Appearance settings a multi-selection edit can change */
+export type AppearanceProperty = "opacity" | "fill" | "stroke" | "cornerRadius" | "text";
+
+/**
+ * Whether `obj` has `property` to edit. Groups and images have no paint of
+ * their own, and lines are stroked only.
+ */
+export function hasAppearance(obj: VectorObject, property: AppearanceProperty): boolean {
+  switch (property) {
+    case "opacity":
+      return true;
+    case "fill":
+      return obj.type !== "group" && obj.type !== "image" && obj.type !== "line";
+    case "stroke":
+      return obj.type !== "group" && obj.type !== "image";
+    case "cornerRadius":
+      return obj.type === "rectangle";
+    case "text":
+      return obj.type === "text";
+  }
+}
@@ -147,6 +147,15 @@ export function localToWorld(point: Point2D, transform: Transform2D): Point2D {
   x *= transform.scaleX;
   y *= transform.scaleY;
 
+  // Skew (skewY, then skewX)
+  if (transform.skewX !== 0 || transform.skewY !== 0) {
+    const tx = Math.tan((transform.skewX * Math.PI) / 180);
+    const ty = Math.tan((transform.skewY * Math.PI) / 180);
+    const sy = y + x * ty;
+    x += sy * tx;
+    y = sy;
+  }
+
   // Rotate
   if (transform.rotation !== 0) {
     const rad = (transform.rotation * Math.PI) / 180;
@@ -184,6 +193,14 @@ export function worldToLocal(point: Point2D, transform: Transform2D): Point2D {
     y = ry;
   }
 
+  // Inverse skew (skewX, then skewY)
+  if (transform.skewX !== 0 || transform.skewY !== 0) {
+    const tx = Math.tan((transform.skewX * Math.PI) / 180);
+    const ty = Math.tan((transform.skewY * Math.PI) / 180);
+    x -= y * tx;
+    y -= x * ty;
+  }
+
   // Inverse scale
   if (transform.scaleX !== 0) x /= transform.scaleX;
   if (transform.scaleY !== 0) y /= transform.scaleY;
@@ -218,7 +235,8 @@ export function boundsIntersect(a: BoundingBox, b: BoundingBox): boolean {
 /**
  * Calculate bounding box of path segments
  */
-function getPathBounds(segments: PathSegment[]): BoundingBox {
+/** Bounds of path segments, using control points for curves */
+export function getPathBounds(segments: PathSegment[]): BoundingBox {
   if (segments.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
 
   let minX = Infinity;
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  createSolidFill,
+  createTransform,
+  type RectangleObject,
+} from "@/types/vector";
+import {
+  parseClipboard,
+  preferAppClipboard,
+  serializeClipboard,
+} from "./clipboard";
+import { exportObjectsToSvg } from "./svgExport";
+
+function rect(id: string, x = 0, y = 0): RectangleObject {
+  return {
+    id,
+    type: "rectangle",
+    name: id,
+    transform: createTransform(x, y),
+    fill: createSolidFill("#00ff00"),
+    stroke: null,
+    opacity: 1,
+    visible: true,
+    locked: false,
+    width: 10,
+    height: 20,
+    cornerRadius: [0, 0, 0, 0],
+  };
+}
+
+describe("clipboard", () => {
+  it("round-trips copied objects", () => {
+    const text = serializeClipboard([rect("a", 5, 5)], 1234);
+    const contents = parseClipboard(text);
+    expect(contents?.copiedAt).toBe(1234);
+    expect(contents?.objects).toEqual([rect("a", 5, 5)]);
+  });
+
+  it("ignores text that is not an object payload", () => {
+    expect(parseClipboard(null)).toBeNull();
+    expect(parseClipboard("hello")).toBeNull();
+    expect(parseClipboard(JSON.stringify({ objects: [rect("a")] }))).toBeNull();
+  });
+
+  it("repairs objects pasted from another build", () => {
+    const broken = { ...rect("a"), opacity: 5, transform: undefined };
+    const contents = parseClipboard(
+      JSON.stringify({ format: "openpaint-objects", objects: [broken] }),
+    );
+    expect(contents?.objects[0].opacity).toBe(1);
+    expect(contents?.objects[0].transform).toEqual(createTransform());
+  });
+
+  it("exports an SVG cropped to the copied objects", () => {
+    const svg = exportObjectsToSvg([rect("a", 5, 5), rect("b", 20, 5)]);
+    expect(svg).toContain('viewBox="5 5 25 20"');
+    expect(svg).toContain('fill="#00ff00"');
+  });
+
+  it("prefers the app copy unless the system clipboard holds other SVG", () => {
+    const contents = parseClipboard(
+      serializeClipboard([rect("a")], 1, "<svg>ours</svg>"),
+    )!;
+    expect(preferAppClipboard(contents, "")).toBe(true);
+    expect(preferAppClipboard(contents, "<svg>ours</svg>\n")).toBe(true);
+    expect(preferAppClipboard(contents, "plain text")).toBe(true);
+    expect(preferAppClipboard(contents, "<svg><rect/></svg>")).toBe(false);
+  });
+});
@@ -0,0 +1,120 @@
+import type { VectorObject } from "@/types/vector";
+import { DOCUMENT_VERSION } from "./documentFormat";
+import { validateLayers } from "./documentValidation";
+import { exportObjectsToSvg } from "./svgExport";
+import { looksLikeSvg } from "./svgImport";
+
+/** localStorage key — shared by every tab and project on this origin */
+export const CLIPBOARD_STORAGE_KEY = "openpaint-clipboard";
+
+/** Offset applied to each successive paste of the same clipboard contents */
+export const PASTE_OFFSET = 10;
+
+interface ClipboardPayload {
+  format: "openpaint-objects";
+  version: string;
+  /** Copy time — successive pastes of the same copy cascade */
+  copiedAt: number;
+  /** Objects in world space */
+  objects: VectorObject[];
+  /** SVG written to the system clipboard alongside, to recognise it on paste */
+  svg?: string;
+}
+
+export interface ClipboardContents {
+  objects: VectorObject[];
+  copiedAt: number;
+  svg: string | null;
+}
+
+/** Serialize copied objects for storage */
+export function serializeClipboard(
+  objects: VectorObject[],
+  copiedAt = Date.now(),
+  svg?: string,
+): string {
+  const payload: ClipboardPayload = {
+    format: "openpaint-objects",
+    version: DOCUMENT_VERSION,
+    copiedAt,
+    objects,
+    svg,
+  };
+  return JSON.stringify(payload);
+}
+
+/**
+ * Read stored clipboard text back. Objects go through the document
+ * validator since another tab may run a different build. Returns null for
+ * anything that is not an OpenPaint object payload.
+ */
+export function parseClipboard(text: string | null): ClipboardContents | null {
+  if (!text) return null;
+  try {
+    const payload = JSON.parse(text) as Partial<ClipboardPayload>;
+    if (payload.format !== "openpaint-objects") return null;
+    if (!Array.isArray(payload.objects) || payload.objects.length === 0) {
+      return null;
+    }
+
+    const { layers } = validateLayers([
+      { id: "clipboard", name: "Clipboard", objects: payload.objects },
+    ]);
+    return {
+      objects: layers[0].objects,
+      copiedAt: typeof payload.copiedAt === "number" ? payload.copiedAt : 0,
+      svg: typeof payload.svg === "string" ? payload.svg : null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copy objects (already in world space) to the app clipboard, and an SVG
+ * rendering to the system clipboard so other apps can paste them. The
+ * system write is best-effort — it needs a secure context and focus.
+ */
+export function writeClipboard(objects: VectorObject[]): void {
+  const svg = exportObjectsToSvg(objects);
+  try {
+    localStorage.setItem(
+      CLIPBOARD_STORAGE_KEY,
+      serializeClipboard(objects, Date.now(), svg),
+    );
+  } catch (error) {
+    console.error("Failed to store clipboard:", error);
+  }
+
+  if (typeof navigator !== "undefined" && navigator.clipboard) {
+    navigator.clipboard
+      .writeText(svg)
+      .catch(() => {
+        // Permission denied or unfocused document — app clipboard still works
+      });
+  }
+}
+
+/** Contents of the app clipboard, or null when empty */
+export function readClipboard(): ClipboardContents | null {
+  try {
+    return parseClipboard(localStorage.getItem(CLIPBOARD_STORAGE_KEY));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a paste should use the app clipboard rather than the system text.
+ * The app copy wins when the system clipboard still holds the SVG we wrote
+ * for it, or holds nothing we could import.
+ */
+export function preferAppClipboard(
+  contents: ClipboardContents,
+  systemText: string,
+): boolean {
+  const text = systemText.trim();
+  if (!text) return true;
+  if (contents.svg !== null && text === contents.svg.trim()) return true;
+  return !looksLikeSvg(text);
+}
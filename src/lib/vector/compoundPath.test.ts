@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { createSolidFill, createStroke, createTransform } from "@/types/vector";
+import type { PathObject, PathSegment, RectangleObject } from "@/types/vector";
+import { matrixFromTransform } from "./matrix";
+import {
+  buildCompoundPath,
+  isCompoundPath,
+  releaseCompoundPath,
+  splitSubpaths,
+} from "./compoundPath";
+
+function rect(id: string, x: number, y: number, size: number): RectangleObject {
+  return {
+    id,
+    type: "rectangle",
+    name: id,
+    transform: createTransform(x, y),
+    fill: createSolidFill(id === "outer" ? "#ff0000" : "#0000ff"),
+    stroke: createStroke("#000000", 2),
+    opacity: 1,
+    visible: true,
+    locked: false,
+    width: size,
+    height: size,
+    cornerRadius: [0, 0, 0, 0],
+  };
+}
+
+const twoSquares: PathSegment[] = [
+  { type: "M", x: 0, y: 0 },
+  { type: "L", x: 10, y: 0 },
+  { type: "L", x: 10, y: 10 },
+  { type: "Z" },
+  { type: "L", x: 0, y: 10 },
+  { type: "L", x: 5, y: 5 },
+];
+
+describe("compoundPath", () => {
+  it("splits subpaths, restarting after Z without a move", () => {
+    const subpaths = splitSubpaths(twoSquares);
+    expect(subpaths).toHaveLength(2);
+    expect(subpaths[1][0]).toEqual({ type: "M", x: 0, y: 0 });
+    expect(subpaths[1]).toHaveLength(3);
+  });
+
+  it("merges shapes into one even-odd path with the bottom paint", () => {
+    const outer = rect("outer", 10, 10, 100);
+    const inner = rect("inner", 40, 40, 20);
+    const path = buildCompoundPath(
+      [outer, inner].map((object) => ({
+        object,
+        matrix: matrixFromTransform(object.transform),
+      })),
+      "new",
+    )!;
+
+    expect(path).toMatchObject({
+      id: "new",
+      fillRule: "evenodd",
+      closed: true,
+      fill: outer.fill,
+      transform: { x: 10, y: 10 },
+    });
+    expect(isCompoundPath(path)).toBe(true);
+    expect(splitSubpaths(path.segments)[1][0]).toEqual({ type: "M", x: 30, y: 30 });
+  });
+
+  it("releases one nonzero path per subpath", () => {
+    const compound = {
+      id: "c",
+      type: "path",
+      name: "Letter",
+      transform: createTransform(5, 5),
+      fill: createSolidFill(),
+      stroke: null,
+      opacity: 1,
+      visible: true,
+      locked: false,
+      segments: twoSquares,
+      closed: false,
+      fillRule: "evenodd",
+    } satisfies PathObject;
+
+    let n = 0;
+    const parts = releaseCompoundPath(compound, () => `p${++n}`);
+    expect(parts.map((p) => p.id)).toEqual(["p1", "p2"]);
+    expect(parts[0]).toMatchObject({ closed: true, fillRule: "nonzero", name: "Letter" });
+    expect(parts[1]).toMatchObject({ closed: false, transform: { x: 5, y: 5 } });
+    expect(isCompoundPath(parts[0])).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import type { PathObject, PathSegment, VectorObject } from "@/types/vector";
+import { createTransform } from "@/types/vector";
+import { getPathBounds } from "./bounds";
+import { matrixScale, translationMatrix } from "./matrix";
+import type { PlacedShape } from "./pathBoolean";
+import { transformSegments } from "./pathData";
+import { objectOutlineSegments } from "./shapeGeometry";
+
+/**
+ * Split segments into subpaths, each starting with `M`. Drawing after a
+ * `Z` without a new `M` starts from the closed subpath's start point, as
+ * in SVG and Canvas2D.
+ */
+export function splitSubpaths(segments: PathSegment[]): PathSegment[][] {
+  const subpaths: PathSegment[][] = [];
+  let current: PathSegment[] | null = null;
+  let start: { x: number; y: number } | null = null;
+
+  for (const seg of segments) {
+    if (seg.type === "M") {
+      current = [seg];
+      subpaths.push(current);
+      start = { x: seg.x, y: seg.y };
+      continue;
+    }
+    if (!start) continue;
+    if (!current) {
+      current = [{ type: "M", ...start }];
+      subpaths.push(current);
+    }
+    current.push(seg);
+    if (seg.type === "Z") current = null;
+  }
+
+  return subpaths;
+}
+
+/** Whether a path holds more than one subpath */
+export function isCompoundPath(obj: VectorObject): obj is PathObject {
+  return obj.type === "path" && splitSubpaths(obj.segments).length > 1;
+}
+
+/**
+ * Merge shapes (bottom first) into one even-odd path, so shapes inside
+ * others become holes. Takes the bottom object's paint, like Illustrator.
+ * Returns null when no operand has an outline.
+ */
+export function buildCompoundPath(
+  operands: PlacedShape[],
+  id: string,
+): PathObject | null {
+  const segments = operands.flatMap(({ object, matrix }) => {
+    const outline = objectOutlineSegments(object);
+    return outline ? transformSegments(outline, matrix) : [];
+  });
+  if (segments.length === 0) return null;
+
+  const origin = getPathBounds(segments);
+  const { object, matrix } = operands[0];
+  return {
+    id,
+    type: "path",
+    name: "Compound Path",
+    transform: createTransform(origin.x, origin.y),
+    fill: object.fill,
+    stroke: object.stroke && {
+      ...object.stroke,
+      width: object.stroke.width * matrixScale(matrix),
+    },
+    opacity: object.opacity,
+    visible: true,
+    locked: false,
+    segments: transformSegments(segments, translationMatrix(-origin.x, -origin.y)),
+    closed: splitSubpaths(segments).every((sub) => sub[sub.length - 1].type === "Z"),
+    fillRule: "evenodd",
+  };
+}
+
+/**
+ * One path per subpath, in the same place and with the same paint. The
+ * results fill nonzero — on their own, each subpath is simple again.
+ */
+export function releaseCompoundPath(
+  path: PathObject,
+  createId: () => string,
+): PathObject[] {
+  return splitSubpaths(path.segments).map((segments) => ({
+    ...path,
+    id: createId(),
+    transform: { ...path.transform },
+    segments,
+    closed: segments[segments.length - 1].type === "Z",
+    fillRule: "nonzero",
+  }));
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { createLayer } from "@/types/vector";
+import {
+  DOCUMENT_VERSION,
+  migrateDocument,
+  parseMajorVersion,
+} from "./documentFormat";
+
+describe("parseMajorVersion", () => {
+  it("reads the major from version strings", () => {
+    expect(parseMajorVersion("2.0.0")).toBe(2);
+    expect(parseMajorVersion("1.0")).toBe(1);
+    expect(parseMajorVersion(3)).toBe(3);
+  });
+
+  it("treats missing or unreadable versions as v1", () => {
+    expect(parseMajorVersion(undefined)).toBe(1);
+    expect(parseMajorVersion("legacy")).toBe(1);
+  });
+});
+
+describe("migrateDocument", () => {
+  it("passes current documents through with their history", () => {
+    const layer = createLayer("layer-1", "Layer 1");
+    const history = { entries: [], index: -1 };
+    const doc = migrateDocument({
+      version: DOCUMENT_VERSION,
+      canvasSize: { width: 100, height: 50 },
+      layers: [layer],
+      history,
+    });
+
+    expect(doc.layers).toEqual([layer]);
+    expect(doc.canvasSize).toEqual({ width: 100, height: 50 });
+    expect(doc.history).toBe(history);
+  });
+
+  it("upgrades v1 layer metadata to empty vector layers", () => {
+    const doc = migrateDocument({
+      version: "1.0",
+      layers: [
+        {
+          id: "bg",
+          name: "Background",
+          visible: false,
+          opacity: 0.5,
+          locked: true,
+          blendMode: "normal",
+          storageRef: "users/u/projects/p/layers/bg.png",
+        },
+      ],
+      history: { entries: [], index: -1 },
+    });
+
+    expect(doc.version).toBe(DOCUMENT_VERSION);
+    expect(doc.layers).toEqual([
+      {
+        id: "bg",
+        name: "Background",
+        visible: false,
+        opacity: 0.5,
+        locked: true,
+        objects: [],
+      },
+    ]);
+    expect(doc.history).toBeUndefined();
+  });
+
+  it("keeps objects on v1-tagged layers that already hold vector content", () => {
+    const layer = createLayer("layer-1", "Layer 1");
+    layer.objects = [{ id: "obj" } as never];
+    const doc = migrateDocument({ version: "1.0", layers: [layer] });
+    expect(doc.layers[0].objects).toHaveLength(1);
+  });
+
+  it("gives v2 paths the nonzero fill rule, inside groups too", () => {
+    const path = { id: "p", type: "path", segments: [] };
+    const doc = migrateDocument({
+      version: "2.0.0",
+      layers: [
+        {
+          ...createLayer("layer-1", "Layer 1"),
+          objects: [path, { id: "g", type: "group", children: [path] }],
+        },
+      ],
+    });
+
+    const [top, group] = doc.layers[0].objects as never as Array<Record<string, unknown>>;
+    expect(top.fillRule).toBe("nonzero");
+    expect((group.children as Array<Record<string, unknown>>)[0].fillRule).toBe("nonzero");
+    expect(group.fillRule).toBeUndefined();
+  });
+
+  it("gives v3 transforms zero skew and keeps them otherwise", () => {
+    const transform = { x: 4, y: 5, rotation: 10, scaleX: 2, scaleY: 1 };
+    const rect = { id: "r", type: "rectangle", transform };
+    const doc = migrateDocument({
+      version: "3.0.0",
+      layers: [
+        {
+          ...createLayer("layer-1", "Layer 1"),
+          objects: [{ id: "g", type: "group", transform, children: [rect] }],
+        },
+      ],
+    });
+
+    const [group] = doc.layers[0].objects as never as Array<Record<string, unknown>>;
+    const expected = { ...transform, skewX: 0, skewY: 0 };
+    expect(group.transform).toEqual(expected);
+    expect((group.children as Array<Record<string, unknown>>)[0].transform).toEqual(expected);
+  });
+
+  it("rejects documents from a newer format", () => {
+    expect(() => migrateDocument({ version: "99.0.0", layers: [] })).toThrow(
+      /newer version/,
+    );
+  });
+
+  it("rejects data without layers", () => {
+    expect(() => migrateDocument(null)).toThrow();
+    expect(() => migrateDocument({ version: DOCUMENT_VERSION })).toThrow(
+      /no layers/,
+    );
+  });
+});
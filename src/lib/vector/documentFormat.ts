@@ -0,0 +1,182 @@
+import type { VectorLayer } from "@/types/vector";
+import { createLayer } from "@/types/vector";
+
+/**
+ * Schema version written by this build. When the saved shape changes, bump
+ * the major and append a migration to `MIGRATIONS`.
+ */
+export const DOCUMENT_VERSION = "4.0.0";
+
+/** Saved document in the current schema */
+export interface DocumentData {
+  version: string;
+  canvasSize?: { width: number; height: number };
+  layers: VectorLayer[];
+  activeLayerId?: string;
+  /** Saved undo stack (see `lib/sync/persistedHistory`) */
+  history?: unknown;
+  /** Grid settings; absent before grids were saved (see `validateGrid`) */
+  grid?: unknown;
+  /** Ruler guides; absent before guides were saved (see `validateGuides`) */
+  guides?: unknown;
+}
+
+/** Saved document in any schema version, before migration */
+export type RawDocument = Record<string, unknown> & { version?: unknown };
+
+interface Migration {
+  /** Major version this migration upgrades from */
+  from: number;
+  description: string;
+  migrate: (doc: RawDocument) => RawDocument;
+}
+
+/** Ordered chain — each entry upgrades `from` to `from + 1` */
+const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    description: "Raster layer metadata to vector layers",
+    migrate: (doc) => ({
+      ...doc,
+      layers: Array.isArray(doc.layers)
+        ? doc.layers.map(layerFromV1)
+        : [],
+    }),
+  },
+  {
+    from: 2,
+    description: "Explicit fill rule on paths",
+    migrate: (doc) => ({
+      ...doc,
+      layers: Array.isArray(doc.layers)
+        ? doc.layers.map((layer) => mapRawObjects(layer, addFillRule))
+        : doc.layers,
+    }),
+  },
+  {
+    from: 3,
+    description: "Skew on transforms",
+    migrate: (doc) => ({
+      ...doc,
+      layers: Array.isArray(doc.layers)
+        ? doc.layers.map((layer) => mapRawObjects(layer, addSkew))
+        : doc.layers,
+    }),
+  },
+];
+
+const CURRENT_MAJOR = parseMajorVersion(DOCUMENT_VERSION);
+
+/**
+ * Major schema version of a saved document. Unversioned data is treated as
+ * the oldest format.
+ */
+export function parseMajorVersion(version: unknown): number {
+  if (typeof version === "number" && Number.isInteger(version)) return version;
+  if (typeof version !== "string") return 1;
+  const major = Number.parseInt(version, 10);
+  return Number.isNaN(major) ? 1 : major;
+}
+
+/**
+ * Upgrade saved document data to the current schema. Single entry point for
+ * file open, localStorage restore and cloud project load.
+ *
+ * Saved history is dropped when any migration runs — its operations were
+ * recorded against the old shape and cannot be replayed safely.
+ *
+ * Throws for data from a newer build or without layers.
+ */
+export function migrateDocument(data: unknown): DocumentData {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Not a project document.");
+  }
+
+  let doc = data as RawDocument;
+  let major = parseMajorVersion(doc.version);
+
+  if (major > CURRENT_MAJOR) {
+    throw new Error(
+      `This project was saved by a newer version of OpenPaint (format ${String(doc.version)}).`,
+    );
+  }
+
+  const migrated = major < CURRENT_MAJOR;
+  for (; major < CURRENT_MAJOR; major++) {
+    const migration = MIGRATIONS.find((m) => m.from === major);
+    if (!migration) {
+      throw new Error(`No migration from document format ${major}.`);
+    }
+    doc = migration.migrate(doc);
+  }
+
+  if (!Array.isArray(doc.layers)) {
+    throw new Error("Project document has no layers.");
+  }
+
+  return {
+    ...doc,
+    version: DOCUMENT_VERSION,
+    layers: doc.layers as VectorLayer[],
+    history: migrated ? undefined : doc.history,
+  };
+}
+
+/**
+ * v1 layers are raster metadata (`id`, `name`, `visible`, `opacity`,
+ * `locked`, `storageRef`). Cloud projects kept the "1.0" tag after gaining
+ * vector objects, so existing `objects` are carried over.
+ */
+function layerFromV1(raw: unknown, index: number): VectorLayer {
+  const meta = (raw && typeof raw === "object" ? raw : {}) as Record<
+    string,
+    unknown
+  >;
+  const layer = createLayer(
+    typeof meta.id === "string" ? meta.id : `layer-${index + 1}`,
+    typeof meta.name === "string" ? meta.name : `Layer ${index + 1}`,
+  );
+  if (typeof meta.visible === "boolean") layer.visible = meta.visible;
+  if (typeof meta.locked === "boolean") layer.locked = meta.locked;
+  if (typeof meta.opacity === "number") layer.opacity = meta.opacity;
+  if (Array.isArray(meta.objects)) {
+    layer.objects = meta.objects as VectorLayer["objects"];
+  }
+  return layer;
+}
+
+/** v2 paths always filled nonzero */
+function addFillRule(obj: Record<string, unknown>): Record<string, unknown> {
+  return obj.type === "path" && obj.fillRule === undefined
+    ? { ...obj, fillRule: "nonzero" }
+    : obj;
+}
+
+/** v3 transforms were never skewed */
+function addSkew(obj: Record<string, unknown>): Record<string, unknown> {
+  const t = obj.transform;
+  if (!t || typeof t !== "object") return obj;
+  return { ...obj, transform: { skewX: 0, skewY: 0, ...t } };
+}
+
+/**
+ * Apply `fn` to every object of a raw layer, descending into group
+ * children. Anything that is not an object is left for validation.
+ */
+function mapRawObjects(
+  raw: unknown,
+  fn: (obj: Record<string, unknown>) => Record<string, unknown>,
+): unknown {
+  const visit = (list: unknown): unknown =>
+    Array.isArray(list)
+      ? list.map((item) => {
+          if (!item || typeof item !== "object") return item;
+          const obj = fn(item as Record<string, unknown>);
+          return obj.type === "group" ? { ...obj, children: visit(obj.children) } : obj;
+        })
+      : list;
+
+  if (!raw || typeof raw !== "object") return raw;
+  const layer = raw as Record<string, unknown>;
+  return { ...layer, objects: visit(layer.objects) };
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import type { PathObject, RectangleObject, VectorLayer } from "@/types/vector";
+import {
+  createGridSettings,
+  createLayer,
+  createSolidFill,
+  createStroke,
+  createTransform,
+} from "@/types/vector";
+import {
+  formatValidationReport,
+  validateGrid,
+  validateGuides,
+  validateLayers,
+} from "./documentValidation";
+
+function rect(id: string): RectangleObject {
+  return {
+    id,
+    type: "rectangle",
+    name: "Box",
+    transform: createTransform(10, 20),
+    fill: createSolidFill("#ff0000"),
+    stroke: createStroke(),
+    opacity: 1,
+    visible: true,
+    locked: false,
+    width: 50,
+    height: 40,
+    cornerRadius: [0, 0, 0, 0],
+  };
+}
+
+function layerWith(...objects: unknown[]): VectorLayer {
+  const layer = createLayer("layer-1", "Layer 1");
+  layer.objects = objects as VectorLayer["objects"];
+  return layer;
+}
+
+describe("validateLayers", () => {
+  it("passes a valid document through without issues", () => {
+    const layers = [layerWith(rect("a"))];
+    const result = validateLayers(layers, "layer-1");
+    expect(result.issues).toEqual([]);
+    expect(result.layers).toEqual(layers);
+    expect(result.activeLayerId).toBe("layer-1");
+  });
+
+  it("resets a missing transform and clamps opacity", () => {
+    const broken = { ...rect("a"), transform: undefined, opacity: 3 };
+    const { layers, issues } = validateLayers([layerWith(broken)]);
+    const obj = layers[0].objects[0];
+
+    expect(obj.transform).toEqual(createTransform());
+    expect(obj.opacity).toBe(1);
+    expect(issues.map((i) => i.message)).toEqual([
+      "missing transform reset",
+      "opacity 3 clamped to 1",
+    ]);
+  });
+
+  it("replaces NaN coordinates", () => {
+    const broken = rect("a");
+    broken.transform.x = NaN;
+    broken.width = Infinity;
+    const { layers, issues } = validateLayers([layerWith(broken)]);
+    const obj = layers[0].objects[0] as RectangleObject;
+
+    expect(obj.transform.x).toBe(0);
+    expect(obj.width).toBe(0);
+    expect(issues).toHaveLength(2);
+    expect(issues.every((i) => i.action === "repaired")).toBe(true);
+  });
+
+  it("drops unknown object types and invalid path segments", () => {
+    const path = {
+      id: "p",
+      type: "path",
+      name: "",
+      transform: createTransform(),
+      fill: null,
+      stroke: createStroke(),
+      opacity: 1,
+      visible: true,
+      locked: false,
+      closed: false,
+      segments: [
+        { type: "M", x: 0, y: 0 },
+        { type: "L", x: "oops", y: 5 },
+        { type: "X" },
+        { type: "L", x: 10, y: 10 },
+      ],
+    };
+    const { layers, issues } = validateLayers([
+      layerWith({ id: "s", type: "star" }, path),
+    ]);
+
+    expect(layers[0].objects).toHaveLength(1);
+    expect((layers[0].objects[0] as PathObject).segments).toEqual([
+      { type: "M", x: 0, y: 0 },
+      { type: "L", x: 10, y: 10 },
+    ]);
+    expect(issues.filter((i) => i.action === "removed")).toHaveLength(2);
+  });
+
+  it("validates group children and replaces duplicate ids", () => {
+    const group = {
+      ...rect("g"),
+      type: "group",
+      children: [rect("a"), { ...rect("a"), opacity: -1 }],
+    };
+    const { layers } = validateLayers([layerWith(group)]);
+    const children = (layers[0].objects[0] as { children: RectangleObject[] })
+      .children;
+
+    expect(children[0].id).toBe("a");
+    expect(children[1].id).not.toBe("a");
+    expect(children[1].opacity).toBe(0);
+  });
+
+  it("keeps unknown object properties", () => {
+    const obj = { ...rect("a"), futureFlag: true };
+    const { layers, issues } = validateLayers([layerWith(obj)]);
+    expect(issues).toEqual([]);
+    expect(layers[0].objects[0]).toMatchObject({ futureFlag: true });
+  });
+
+  it("adds a layer when none are usable and fixes the active layer", () => {
+    const result = validateLayers([null], "missing");
+    expect(result.layers).toHaveLength(1);
+    expect(result.activeLayerId).toBe(result.layers[0].id);
+    expect(result.issues.map((i) => i.path)).toEqual([
+      "Layer 1",
+      "Document",
+      "Document",
+    ]);
+  });
+});
+
+describe("validateGrid", () => {
+  it("defaults missing grids and repairs bad values", () => {
+    expect(validateGrid(undefined)).toEqual(createGridSettings());
+    expect(
+      validateGrid({ visible: true, snap: "yes", spacing: 0, subdivisions: 2.6, color: "red" }),
+    ).toEqual({ ...createGridSettings(), visible: true, spacing: 2, subdivisions: 3 });
+  });
+});
+
+describe("validateGuides", () => {
+  it("drops unusable guides and replaces duplicate ids", () => {
+    expect(validateGuides(undefined)).toEqual({ guides: [], issues: [] });
+    const { guides, issues } = validateGuides([
+      { id: "g1", axis: "x", position: 40, locked: true },
+      { id: "g1", axis: "y", position: 12 },
+      { id: "g3", axis: "z", position: 5 },
+      { id: "g4", axis: "x", position: Infinity },
+      "guide",
+    ]);
+    expect(guides).toHaveLength(2);
+    expect(guides[0]).toEqual({ id: "g1", axis: "x", position: 40, locked: true });
+    expect(guides[1]).toMatchObject({ axis: "y", position: 12, locked: false });
+    expect(guides[1].id).not.toBe("g1");
+    expect(issues).toEqual([
+      { path: "Guide 2", message: "duplicate id replaced", action: "repaired" },
+      { path: "Guide 3", message: 'unknown axis "z"', action: "removed" },
+      { path: "Guide 4", message: "invalid position Infinity", action: "removed" },
+      { path: "Guide 5", message: "not a guide", action: "removed" },
+    ]);
+    expect(validateGuides("guides").issues).toEqual([
+      { path: "Guides", message: "guides is not a list", action: "removed" },
+    ]);
+  });
+});
+
+describe("formatValidationReport", () => {
+  it("summarizes and truncates issues", () => {
+    const issues = Array.from({ length: 3 }, (_, i) => ({
+      path: `Layer "L${i}"`,
+      message: "opacity 2 clamped to 1",
+      action: "repaired" as const,
+    }));
+    const report = formatValidationReport(issues, 2);
+
+    expect(report).toContain("Found 3 problems (3 repaired, 0 removed)");
+    expect(report).toContain('• Layer "L0": opacity 2 clamped to 1');
+    expect(report).toContain("…and 1 more");
+  });
+});
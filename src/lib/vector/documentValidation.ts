@@ -0,0 +1,590 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  Fill,
+  GradientStop,
+  GridSettings,
+  PathSegment,
+  RulerGuide,
+  StrokeStyle,
+  Transform2D,
+  VectorLayer,
+  VectorObject,
+  VectorObjectType,
+} from "@/types/vector";
+import { createGridSettings, createLayer, createTransform } from "@/types/vector";
+import { MAX_GRID_SPACING, MAX_GRID_SUBDIVISIONS, MIN_GRID_SPACING } from "./grid";
+import { MAX_SKEW } from "./matrix";
+
+/** One problem found (and fixed) while validating a loaded document */
+export interface ValidationIssue {
+  /** Readable location, e.g. `Layer "Sky" › Rectangle "Sun"` */
+  path: string;
+  message: string;
+  /** `repaired` = value replaced with a default; `removed` = dropped */
+  action: "repaired" | "removed";
+}
+
+export interface ValidatedLayers {
+  layers: VectorLayer[];
+  activeLayerId: string;
+  issues: ValidationIssue[];
+}
+
+export interface ValidatedGuides {
+  guides: RulerGuide[];
+  issues: ValidationIssue[];
+}
+
+type Raw = Record<string, unknown>;
+
+const OBJECT_TYPES: ReadonlySet<VectorObjectType> = new Set([
+  "rectangle",
+  "ellipse",
+  "path",
+  "line",
+  "polygon",
+  "text",
+  "group",
+  "image",
+]);
+
+const LINE_CAPS: ReadonlySet<string> = new Set(["butt", "round", "square"]);
+const LINE_JOINS: ReadonlySet<string> = new Set(["bevel", "miter", "round"]);
+const FILL_RULES: ReadonlySet<string> = new Set(["nonzero", "evenodd"]);
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const TEXT_ALIGNS: ReadonlySet<string> = new Set([
+  "left",
+  "right",
+  "center",
+  "start",
+  "end",
+]);
+
+/** Coordinates each path segment type needs */
+const SEGMENT_FIELDS: Record<PathSegment["type"], string[]> = {
+  M: ["x", "y"],
+  L: ["x", "y"],
+  C: ["cp1x", "cp1y", "cp2x", "cp2y", "x", "y"],
+  Q: ["cpx", "cpy", "x", "y"],
+  Z: [],
+};
+
+/**
+ * Check a loaded layer tree and repair what can be repaired: missing or
+ * non-finite numbers get defaults, opacities are clamped, invalid path
+ * segments and unknown objects are dropped, duplicate ids are replaced.
+ * Never throws — the returned layers are always safe to render.
+ */
+export function validateLayers(
+  rawLayers: unknown,
+  rawActiveLayerId?: unknown,
+): ValidatedLayers {
+  const ctx = new ValidationContext();
+
+  if (!Array.isArray(rawLayers)) {
+    ctx.remove("Document", "layers is not a list");
+  }
+
+  const layers: VectorLayer[] = [];
+  (Array.isArray(rawLayers) ? rawLayers : []).forEach((raw, index) => {
+    const layer = validateLayer(ctx, raw, index);
+    if (layer) layers.push(layer);
+  });
+
+  if (layers.length === 0) {
+    layers.push(createLayer(uuidv4(), "Layer 1"));
+    ctx.repair("Document", "no usable layers; added an empty layer");
+  }
+
+  let activeLayerId =
+    typeof rawActiveLayerId === "string" ? rawActiveLayerId : layers[0].id;
+  if (!layers.some((l) => l.id === activeLayerId)) {
+    if (rawActiveLayerId !== undefined) {
+      ctx.repair("Document", "active layer not found; using the first layer");
+    }
+    activeLayerId = layers[0].id;
+  }
+
+  return { layers, activeLayerId, issues: ctx.issues };
+}
+
+/**
+ * Grid settings from a loaded document. Documents saved before grids were
+ * stored get the defaults; bad values are replaced or clamped. Never
+ * throws.
+ */
+export function validateGrid(raw: unknown): GridSettings {
+  const defaults = createGridSettings();
+  if (!isRecord(raw)) return defaults;
+
+  const ctx = new ValidationContext();
+  const path = "Grid";
+  const color = ctx.string(path, raw, "color", defaults.color);
+  return {
+    visible: ctx.boolean(path, raw, "visible", defaults.visible),
+    snap: ctx.boolean(path, raw, "snap", defaults.snap),
+    spacing: ctx.number(path, raw, "spacing", defaults.spacing, MIN_GRID_SPACING, MAX_GRID_SPACING),
+    subdivisions: Math.round(
+      ctx.number(path, raw, "subdivisions", defaults.subdivisions, 1, MAX_GRID_SUBDIVISIONS),
+    ),
+    color: HEX_COLOR.test(color) ? color : defaults.color,
+  };
+}
+
+/**
+ * Ruler guides from a loaded document; missing before guides were saved.
+ * Guides without an axis or a finite position are dropped, and missing or
+ * duplicate ids replaced. Never throws.
+ */
+export function validateGuides(raw: unknown): ValidatedGuides {
+  const ctx = new ValidationContext();
+  if (raw !== undefined && !Array.isArray(raw)) {
+    ctx.remove("Guides", "guides is not a list");
+  }
+
+  const guides: RulerGuide[] = [];
+  (Array.isArray(raw) ? raw : []).forEach((item, index) => {
+    const path = `Guide ${index + 1}`;
+    if (!isRecord(item)) {
+      ctx.remove(path, "not a guide");
+      return;
+    }
+    const { axis, position } = item;
+    if (axis !== "x" && axis !== "y") {
+      ctx.remove(path, `unknown axis ${describe(axis)}`);
+      return;
+    }
+    if (typeof position !== "number" || !Number.isFinite(position)) {
+      ctx.remove(path, `invalid position ${describe(position)}`);
+      return;
+    }
+    guides.push({
+      id: ctx.uniqueId(path, item.id),
+      axis,
+      position,
+      locked: ctx.boolean(path, item, "locked", false),
+    });
+  });
+  return { guides, issues: ctx.issues };
+}
+
+/**
+ * Summary of validation issues for a confirm dialog or load notice.
+ * Lists at most `limit` issues.
+ */
+export function formatValidationReport(
+  issues: ValidationIssue[],
+  limit = 10,
+): string {
+  if (issues.length === 0) return "No problems found.";
+
+  const removed = issues.filter((i) => i.action === "removed").length;
+  const repaired = issues.length - removed;
+  const lines = issues
+    .slice(0, limit)
+    .map((i) => `• ${i.path}: ${i.message}`);
+  if (issues.length > limit) {
+    lines.push(`…and ${issues.length - limit} more`);
+  }
+
+  return [
+    `Found ${issues.length} problem${issues.length === 1 ? "" : "s"} ` +
+      `(${repaired} repaired, ${removed} removed):`,
+    ...lines,
+  ].join("\n");
+}
+
+class ValidationContext {
+  issues: ValidationIssue[] = [];
+  private ids = new Set<string>();
+
+  repair(path: string, message: string) {
+    this.issues.push({ path, message, action: "repaired" });
+  }
+
+  remove(path: string, message: string) {
+    this.issues.push({ path, message, action: "removed" });
+  }
+
+  /** Keep `id` unless missing or already used, otherwise mint a new one */
+  uniqueId(path: string, id: unknown): string {
+    if (typeof id === "string" && id && !this.ids.has(id)) {
+      this.ids.add(id);
+      return id;
+    }
+    this.repair(path, id ? "duplicate id replaced" : "missing id added");
+    const fresh = uuidv4();
+    this.ids.add(fresh);
+    return fresh;
+  }
+
+  number(
+    path: string,
+    raw: Raw,
+    key: string,
+    fallback: number,
+    min = -Infinity,
+    max = Infinity,
+  ): number {
+    const value = raw[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      if (value !== undefined || fallback !== 0) {
+        this.repair(path, `${key} ${describe(value)} replaced with ${fallback}`);
+      }
+      return fallback;
+    }
+    if (value < min || value > max) {
+      const clamped = Math.min(max, Math.max(min, value));
+      this.repair(path, `${key} ${value} clamped to ${clamped}`);
+      return clamped;
+    }
+    return value;
+  }
+
+  boolean(path: string, raw: Raw, key: string, fallback: boolean): boolean {
+    const value = raw[key];
+    if (typeof value === "boolean") return value;
+    if (value !== undefined) {
+      this.repair(path, `${key} ${describe(value)} replaced with ${fallback}`);
+    }
+    return fallback;
+  }
+
+  string(path: string, raw: Raw, key: string, fallback: string): string {
+    const value = raw[key];
+    if (typeof value === "string") return value;
+    if (value !== undefined) {
+      this.repair(path, `${key} ${describe(value)} replaced`);
+    }
+    return fallback;
+  }
+
+  oneOf<T extends string>(
+    path: string,
+    raw: Raw,
+    key: string,
+    allowed: ReadonlySet<string>,
+    fallback: T,
+  ): T {
+    const value = raw[key];
+    if (typeof value === "string" && allowed.has(value)) return value as T;
+    this.repair(path, `${key} ${describe(value)} replaced with "${fallback}"`);
+    return fallback;
+  }
+}
+
+function validateLayer(
+  ctx: ValidationContext,
+  raw: unknown,
+  index: number,
+): VectorLayer | null {
+  if (!isRecord(raw)) {
+    ctx.remove(`Layer ${index + 1}`, "not a layer");
+    return null;
+  }
+
+  const name =
+    typeof raw.name === "string" ? raw.name : `Layer ${index + 1}`;
+  const path = `Layer "${name}"`;
+  if (typeof raw.name !== "string") ctx.repair(path, "missing name added");
+
+  if (!Array.isArray(raw.objects) && raw.objects !== undefined) {
+    ctx.remove(path, "objects is not a list");
+  }
+
+  return {
+    id: ctx.uniqueId(path, raw.id),
+    name,
+    visible: ctx.boolean(path, raw, "visible", true),
+    locked: ctx.boolean(path, raw, "locked", false),
+    opacity: ctx.number(path, raw, "opacity", 1, 0, 1),
+    objects: validateObjects(ctx, raw.objects, path),
+  };
+}
+
+function validateObjects(
+  ctx: ValidationContext,
+  raw: unknown,
+  parentPath: string,
+): VectorObject[] {
+  if (!Array.isArray(raw)) return [];
+  const objects: VectorObject[] = [];
+  raw.forEach((item, index) => {
+    const obj = validateObject(ctx, item, parentPath, index);
+    if (obj) objects.push(obj);
+  });
+  return objects;
+}
+
+function validateObject(
+  ctx: ValidationContext,
+  raw: unknown,
+  parentPath: string,
+  index: number,
+): VectorObject | null {
+  const fallbackPath = `${parentPath} › object ${index + 1}`;
+  if (!isRecord(raw)) {
+    ctx.remove(fallbackPath, "not an object");
+    return null;
+  }
+  if (!OBJECT_TYPES.has(raw.type as VectorObjectType)) {
+    ctx.remove(fallbackPath, `unknown type ${describe(raw.type)}`);
+    return null;
+  }
+
+  const type = raw.type as VectorObjectType;
+  const name = typeof raw.name === "string" ? raw.name : "";
+  const path = name
+    ? `${parentPath} › ${type} "${name}"`
+    : `${parentPath} › ${type} ${index + 1}`;
+
+  if (type === "image" && (typeof raw.src !== "string" || !raw.src)) {
+    ctx.remove(path, "image has no source");
+    return null;
+  }
+
+  // Unknown keys are kept so newer optional properties survive a round-trip
+  const base = {
+    ...raw,
+    id: ctx.uniqueId(path, raw.id),
+    name,
+    transform: validateTransform(ctx, raw.transform, path),
+    fill: validateFill(ctx, raw.fill, path),
+    stroke: validateStroke(ctx, raw.stroke, path),
+    opacity: ctx.number(path, raw, "opacity", 1, 0, 1),
+    visible: ctx.boolean(path, raw, "visible", true),
+    locked: ctx.boolean(path, raw, "locked", false),
+  };
+
+  switch (type) {
+    case "rectangle":
+      return {
+        ...base,
+        type,
+        width: ctx.number(path, raw, "width", 0, 0),
+        height: ctx.number(path, raw, "height", 0, 0),
+        cornerRadius: validateCornerRadius(ctx, raw.cornerRadius, path),
+      };
+    case "ellipse":
+      return {
+        ...base,
+        type,
+        radiusX: ctx.number(path, raw, "radiusX", 0, 0),
+        radiusY: ctx.number(path, raw, "radiusY", 0, 0),
+      };
+    case "path":
+      return {
+        ...base,
+        type,
+        segments: validateSegments(ctx, raw.segments, path),
+        closed: ctx.boolean(path, raw, "closed", false),
+        fillRule: ctx.oneOf(path, raw, "fillRule", FILL_RULES, "nonzero"),
+      };
+    case "line":
+      return {
+        ...base,
+        type,
+        endX: ctx.number(path, raw, "endX", 0),
+        endY: ctx.number(path, raw, "endY", 0),
+      };
+    case "polygon":
+      return {
+        ...base,
+        type,
+        sides: Math.round(ctx.number(path, raw, "sides", 6, 3, 100)),
+        radius: ctx.number(path, raw, "radius", 0, 0),
+      };
+    case "text":
+      return {
+        ...base,
+        type,
+        content: ctx.string(path, raw, "content", ""),
+        fontFamily: ctx.string(path, raw, "fontFamily", "sans-serif"),
+        fontSize: ctx.number(path, raw, "fontSize", 16, 1),
+        fontWeight: raw.fontWeight === "bold" ? "bold" : "normal",
+        fontStyle: raw.fontStyle === "italic" ? "italic" : "normal",
+        textAlign: ctx.oneOf(path, raw, "textAlign", TEXT_ALIGNS, "left"),
+        lineHeight: ctx.number(path, raw, "lineHeight", 1.2, 0.1),
+      };
+    case "group":
+      if (!Array.isArray(raw.children)) {
+        ctx.repair(path, "children is not a list");
+      }
+      return {
+        ...base,
+        type,
+        children: validateObjects(ctx, raw.children, path),
+      };
+    case "image":
+      return {
+        ...base,
+        type,
+        width: ctx.number(path, raw, "width", 0, 0),
+        height: ctx.number(path, raw, "height", 0, 0),
+        src: raw.src as string,
+      };
+  }
+}
+
+function validateTransform(
+  ctx: ValidationContext,
+  raw: unknown,
+  path: string,
+): Transform2D {
+  if (!isRecord(raw)) {
+    ctx.repair(path, "missing transform reset");
+    return createTransform();
+  }
+  const t = raw;
+  return {
+    x: ctx.number(path, t, "x", 0),
+    y: ctx.number(path, t, "y", 0),
+    rotation: ctx.number(path, t, "rotation", 0),
+    skewX: ctx.number(path, t, "skewX", 0, -MAX_SKEW, MAX_SKEW),
+    skewY: ctx.number(path, t, "skewY", 0, -MAX_SKEW, MAX_SKEW),
+    scaleX: ctx.number(path, t, "scaleX", 1),
+    scaleY: ctx.number(path, t, "scaleY", 1),
+  };
+}
+
+function validateFill(
+  ctx: ValidationContext,
+  raw: unknown,
+  path: string,
+): Fill | null {
+  if (raw === null || raw === undefined) return null;
+  if (!isRecord(raw)) {
+    ctx.remove(path, "invalid fill");
+    return null;
+  }
+
+  switch (raw.type) {
+    case "solid":
+      return {
+        type: "solid",
+        color: ctx.string(path, raw, "color", "#000000"),
+        opacity: ctx.number(path, raw, "opacity", 1, 0, 1),
+      };
+    case "linear-gradient":
+      return {
+        type: "linear-gradient",
+        stops: validateStops(ctx, raw.stops, path),
+        startX: ctx.number(path, raw, "startX", 0),
+        startY: ctx.number(path, raw, "startY", 0),
+        endX: ctx.number(path, raw, "endX", 0),
+        endY: ctx.number(path, raw, "endY", 0),
+      };
+    case "radial-gradient":
+      return {
+        type: "radial-gradient",
+        stops: validateStops(ctx, raw.stops, path),
+        centerX: ctx.number(path, raw, "centerX", 0),
+        centerY: ctx.number(path, raw, "centerY", 0),
+        radius: ctx.number(path, raw, "radius", 0, 0),
+      };
+    default:
+      ctx.remove(path, `unknown fill type ${describe(raw.type)}`);
+      return null;
+  }
+}
+
+function validateStops(
+  ctx: ValidationContext,
+  raw: unknown,
+  path: string,
+): GradientStop[] {
+  if (!Array.isArray(raw)) {
+    ctx.repair(path, "gradient stops reset");
+    return [];
+  }
+  return raw.filter(isRecord).map((stop) => ({
+    offset: ctx.number(path, stop, "offset", 0, 0, 1),
+    color: ctx.string(path, stop, "color", "#000000"),
+    opacity: ctx.number(path, stop, "opacity", 1, 0, 1),
+  }));
+}
+
+function validateStroke(
+  ctx: ValidationContext,
+  raw: unknown,
+  path: string,
+): StrokeStyle | null {
+  if (raw === null || raw === undefined) return null;
+  if (!isRecord(raw)) {
+    ctx.remove(path, "invalid stroke");
+    return null;
+  }
+
+  const dashArray = Array.isArray(raw.dashArray)
+    ? raw.dashArray.filter(
+        (d): d is number => typeof d === "number" && Number.isFinite(d) && d >= 0,
+      )
+    : [];
+  if (Array.isArray(raw.dashArray) && dashArray.length !== raw.dashArray.length) {
+    ctx.repair(path, "invalid dash lengths dropped");
+  }
+
+  return {
+    color: ctx.string(path, raw, "color", "#000000"),
+    opacity: ctx.number(path, raw, "opacity", 1, 0, 1),
+    width: ctx.number(path, raw, "width", 1, 0),
+    lineCap: ctx.oneOf(path, raw, "lineCap", LINE_CAPS, "round"),
+    lineJoin: ctx.oneOf(path, raw, "lineJoin", LINE_JOINS, "round"),
+    dashArray,
+  };
+}
+
+function validateCornerRadius(
+  ctx: ValidationContext,
+  raw: unknown,
+  path: string,
+): [number, number, number, number] {
+  const values = Array.isArray(raw) ? raw : [];
+  const radii = [0, 1, 2, 3].map((i) => {
+    const r = values[i];
+    return typeof r === "number" && Number.isFinite(r) && r >= 0 ? r : 0;
+  }) as [number, number, number, number];
+  if (raw !== undefined && radii.some((r, i) => r !== values[i])) {
+    ctx.repair(path, "corner radius reset");
+  }
+  return radii;
+}
+
+function validateSegments(
+  ctx: ValidationContext,
+  raw: unknown,
+  path: string,
+): PathSegment[] {
+  if (!Array.isArray(raw)) {
+    ctx.repair(path, "missing segments");
+    return [];
+  }
+
+  const segments = raw.filter((seg): seg is PathSegment => {
+    if (!isRecord(seg)) return false;
+    const fields = SEGMENT_FIELDS[seg.type as PathSegment["type"]];
+    return (
+      fields !== undefined &&
+      fields.every((f) => typeof seg[f] === "number" && Number.isFinite(seg[f]))
+    );
+  });
+
+  const dropped = raw.length - segments.length;
+  if (dropped > 0) {
+    ctx.remove(path, `${dropped} invalid path segment${dropped === 1 ? "" : "s"}`);
+  }
+  return segments;
+}
+
+function isRecord(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return "(missing)";
+  if (typeof value === "number") return String(value);
+  if (typeof value === "string") return `"${value}"`;
+  return JSON.stringify(value) ?? String(value);
+}
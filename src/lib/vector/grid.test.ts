@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { createGridSettings } from "@/types/vector";
+import { gridStep, nextGridLine, snapToGrid } from "./grid";
+
+describe("grid", () => {
+  it("snaps to the finest subdivision", () => {
+    const grid = { ...createGridSettings(), spacing: 40, subdivisions: 4 };
+    expect(gridStep(grid)).toBe(10);
+    expect(gridStep({ ...grid, subdivisions: 0 })).toBe(40);
+    expect(snapToGrid(14, 10)).toBe(10);
+    expect(snapToGrid(-16, 10)).toBe(-20);
+  });
+
+  it("nudges to the next grid line in either direction", () => {
+    expect(nextGridLine(20, 1, 10)).toBe(30);
+    expect(nextGridLine(23, 1, 10)).toBe(30);
+    expect(nextGridLine(20, -1, 10)).toBe(10);
+    expect(nextGridLine(23, -1, 10)).toBe(20);
+    expect(nextGridLine(0.1 + 0.2, -1, 0.1)).toBeCloseTo(0.2);
+  });
+});
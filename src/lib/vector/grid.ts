@@ -0,0 +1,34 @@
+import type { GridSettings } from "@/types/vector";
+
+/**
+ * Document grid geometry: the snapping step and grid-aligned positions.
+ */
+
+export const MIN_GRID_SPACING = 2;
+export const MAX_GRID_SPACING = 1000;
+export const MAX_GRID_SUBDIVISIONS = 20;
+
+/** Below this many screen pixels apart, grid lines are not drawn */
+export const MIN_GRID_LINE_GAP = 4;
+
+/** Distance between the finest grid lines, which snapping uses */
+export function gridStep(grid: GridSettings): number {
+  return grid.spacing / Math.max(1, Math.round(grid.subdivisions));
+}
+
+/** Nearest grid line to `value` */
+export function snapToGrid(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+/**
+ * First grid line past `value` in `direction` — a keyboard nudge from a
+ * position that is on the grid, or off it, lands on the next line.
+ */
+export function nextGridLine(value: number, direction: -1 | 1, step: number): number {
+  // Positions within rounding noise of a line count as on it
+  const cells = value / step;
+  const nearest = Math.round(cells);
+  const current = Math.abs(cells - nearest) < 1e-6 ? nearest : cells;
+  return (direction > 0 ? Math.floor(current) + 1 : Math.ceil(current) - 1) * step;
+}
@@ -13,6 +13,14 @@ export interface HitTestResult {
   layerId: string;
 }
 
+export interface HitTestOptions {
+  /**
+   * Return the innermost object inside groups instead of the top-level
+   * group that contains it.
+   */
+  deep?: boolean;
+}
+
 /**
  * Hit-test all layers top-to-bottom (reverse render order)
  * to find the topmost object under a given canvas point.
@@ -24,13 +32,20 @@ export function hitTestLayers(
   ctx: CanvasRenderingContext2D,
   point: Point2D,
   layers: VectorLayer[],
+  options: HitTestOptions = {},
 ): HitTestResult | null {
   // Walk layers top-to-bottom
   for (let i = layers.length - 1; i >= 0; i--) {
     const layer = layers[i];
     if (!layer.visible || layer.locked) continue;
 
-    const result = hitTestObjects(ctx, point, layer.objects, layer.id);
+    const result = hitTestObjects(
+      ctx,
+      point,
+      layer.objects,
+      layer.id,
+      options.deep ?? false,
+    );
     if (result) return result;
   }
 
@@ -45,12 +60,21 @@ function hitTestObjects(
   point: Point2D,
   objects: VectorObject[],
   layerId: string,
+  deep: boolean,
 ): HitTestResult | null {
   // Walk objects top-to-bottom (last rendered = on top)
   for (let i = objects.length - 1; i >= 0; i--) {
     const obj = objects[i];
     if (!obj.visible || obj.locked) continue;
 
+    if (deep && obj.type === "group") {
+      // Children are hit-tested in the group's local space
+      const local = worldToLocal(point, obj.transform);
+      const inner = hitTestObjects(ctx, local, obj.children, layerId, true);
+      if (inner) return inner;
+      continue;
+    }
+
     if (hitTestObject(ctx, point, obj)) {
       return { object: obj, layerId };
     }
@@ -93,7 +117,9 @@ function hitTestObject(
     case "group": {
       // Test children in reverse (topmost first)
       for (let i = obj.children.length - 1; i >= 0; i--) {
-        if (hitTestObject(ctx, local, obj.children[i])) {
+        const child = obj.children[i];
+        if (!child.visible) continue;
+        if (hitTestObject(ctx, local, child)) {
           return true;
         }
       }
@@ -174,7 +200,9 @@ function hitTestPath(
   ctx.beginPath();
   buildPath(ctx, obj);
 
-  const inFill = obj.fill ? ctx.isPointInPath(local.x, local.y) : false;
+  const inFill = obj.fill
+    ? ctx.isPointInPath(local.x, local.y, obj.fillRule)
+    : false;
   const inStroke = obj.stroke
     ? (() => {
         ctx.lineWidth = Math.max(obj.stroke.width, 5); // minimum hit area
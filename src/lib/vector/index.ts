@@ -1,11 +1,16 @@
-export { renderScene, renderSelectionOverlay, buildPath } from "./renderer";
+export { renderScene, renderSelectionOverlay, renderSnapGuides, buildPath } from "./renderer";
 export {
   exportDocumentToSvg,
+  exportObjectsToSvg,
   downloadSvgFile,
   escapeXml,
   pathSegmentsToD,
 } from "./svgExport";
-export { hitTestLayers, type HitTestResult } from "./hitTest";
+export {
+  hitTestLayers,
+  type HitTestResult,
+  type HitTestOptions,
+} from "./hitTest";
 export {
   getLocalBounds,
   getWorldBounds,
@@ -16,3 +21,98 @@ export {
   pointInBounds,
   boundsIntersect,
 } from "./bounds";
+export {
+  findObjectInList,
+  findObjectLocation,
+  buildGroup,
+  releaseGroupChildren,
+  cloneWithNewIds,
+  collectObjectsInWorldSpace,
+  getWorldTransform,
+  getWorldMatrix,
+  worldToParentTransform,
+  composeTransforms,
+  type ObjectLocation,
+} from "./sceneGraph";
+export {
+  importSvg,
+  arrangeImportedObjects,
+  looksLikeSvg,
+  summarizeImportWarnings,
+  type SvgImportResult,
+} from "./svgImport";
+export { parsePathData, arcToCubics, transformSegments } from "./pathData";
+export {
+  combineRegions,
+  buildBooleanPath,
+  isBooleanOperand,
+  type BooleanOperation,
+  type PlacedShape,
+} from "./pathBoolean";
+export {
+  objectOutlineSegments,
+  canConvertToPath,
+  shapeToPath,
+} from "./shapeGeometry";
+export {
+  splitSubpaths,
+  isCompoundPath,
+  buildCompoundPath,
+  releaseCompoundPath,
+} from "./compoundPath";
+export { brushSweepSegments, eraseObject } from "./pathErase";
+export { buildRegionFill, type RegionFill } from "./regionFill";
+export {
+  samplePressures,
+  variableWidthOutline,
+  type StrokeSample,
+} from "./variableStroke";
+export { fitCurve, simplifySegments, countAnchors } from "./pathSimplify";
+export {
+  rotateTransform,
+  rotationHandlePosition,
+  inRotateZone,
+  snapAngle,
+} from "./rotation";
+export {
+  resizeHandlePositions,
+  resizeScale,
+  fitBoundsScale,
+  scaleObject,
+  flipTransform,
+  type FlipAxis,
+  type ResizeHandle,
+  type ResizeOptions,
+  type SelectionScale,
+} from "./selectionTransform";
+export {
+  alignOffsets,
+  distributeOffsets,
+  alignTargetBounds,
+  type AlignEdge,
+  type DistributeAxis,
+  type PlacedBounds,
+} from "./align";
+export {
+  addGuideLines,
+  collectSnapTargets,
+  snapBox,
+  snapPoint,
+  snapThreshold,
+  snapOptions,
+  SNAP_DISTANCE,
+  type SnapGuide,
+  type SnapOptions,
+  type SnapTargets,
+} from "./snapping";
+export { gridStep, snapToGrid, nextGridLine } from "./grid";
+export {
+  documentToView,
+  viewToDocument,
+  rulerStep,
+  rulerTicks,
+  RULER_SIZE,
+  type RulerAxis,
+  type RulerTick,
+  type ViewTransform,
+} from "./rulers";
@@ -0,0 +1,50 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Point2D } from "@/types/vector";
+import { useDocumentStore } from "@/store/documentStore";
+import {
+  arrangeImportedObjects,
+  importSvg,
+  summarizeImportWarnings,
+} from "./svgImport";
+
+/**
+ * Import SVG markup onto the active layer as one undoable step and select
+ * it. Used by file open, drag-drop and paste. Failures and anything the
+ * importer could not represent are reported with an alert. Returns the new
+ * object ids (empty when nothing was added).
+ */
+export function insertSvgMarkup(markup: string, center?: Point2D): string[] {
+  let result;
+  try {
+    result = importSvg(markup, uuidv4);
+  } catch (error) {
+    alert(
+      `Could not import SVG: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return [];
+  }
+
+  if (result.objects.length === 0) {
+    alert("The SVG has no shapes that can be imported.");
+    return [];
+  }
+
+  const docStore = useDocumentStore.getState();
+  if (docStore.getActiveLayer()?.locked) {
+    alert("The active layer is locked. Unlock it to import SVG.");
+    return [];
+  }
+
+  const ids = docStore.pasteObjects(
+    arrangeImportedObjects(result.objects, uuidv4, center),
+    undefined,
+    "Import SVG",
+  );
+
+  if (ids.length > 0 && result.warnings.length > 0) {
+    alert(
+      `Imported with some changes:\n${summarizeImportWarnings(result.warnings)}`,
+    );
+  }
+  return ids;
+}
@@ -34,7 +34,7 @@ describe("legacyProjectImport", () => {
         id: "o1",
         type: "rectangle",
         name: "Box",
-        transform: { x: 0, y: 0, rotation: 0, scaleX: 1, scaleY: 1 },
+        transform: { x: 0, y: 0, rotation: 0, skewX: 0, skewY: 0, scaleX: 1, scaleY: 1 },
         fill: null,
         stroke: null,
         opacity: 1,
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { createTransform } from "@/types/vector";
+import { localToWorld, worldToLocal } from "./bounds";
+import {
+  applyMatrix,
+  decomposeMatrix,
+  invertMatrix,
+  matrixFromTransform,
+  multiplyMatrix,
+  translationMatrix,
+} from "./matrix";
+
+describe("matrix", () => {
+  it("matches localToWorld for a Transform2D", () => {
+    const transform = { x: 5, y: 7, rotation: 30, skewX: 0, skewY: 0, scaleX: 2, scaleY: 0.5 };
+    const point = { x: 3, y: -4 };
+    const expected = localToWorld(point, transform);
+    const actual = applyMatrix(matrixFromTransform(transform), point);
+    expect(actual.x).toBeCloseTo(expected.x);
+    expect(actual.y).toBeCloseTo(expected.y);
+  });
+
+  it("skews in SVG order, matching localToWorld and worldToLocal", () => {
+    const transform = { x: 5, y: 7, rotation: 30, skewX: 25, skewY: -15, scaleX: -2, scaleY: 0.5 };
+    const point = { x: 3, y: -4 };
+    const world = applyMatrix(matrixFromTransform(transform), point);
+    expect(localToWorld(point, transform).x).toBeCloseTo(world.x);
+    expect(localToWorld(point, transform).y).toBeCloseTo(world.y);
+
+    const local = worldToLocal(world, transform);
+    expect(local.x).toBeCloseTo(3);
+    expect(local.y).toBeCloseTo(-4);
+
+    // skewX(45) shifts x by y
+    const sheared = matrixFromTransform({ ...createTransform(), skewX: 45 });
+    expect(applyMatrix(sheared, { x: 0, y: 10 }).x).toBeCloseTo(10);
+  });
+
+  it("round-trips a transform through decompose", () => {
+    const transform = { x: 1, y: 2, rotation: -45, skewX: 0, skewY: 0, scaleX: 3, scaleY: 1.5 };
+    const result = decomposeMatrix(matrixFromTransform(transform))!;
+    expect(result.x).toBeCloseTo(1);
+    expect(result.rotation).toBeCloseTo(-45);
+    expect(result.scaleX).toBeCloseTo(3);
+    expect(result.scaleY).toBeCloseTo(1.5);
+  });
+
+  it("decomposes skew and reflection into skewX and scale", () => {
+    const transform = { x: 3, y: 4, rotation: 120, skewX: 20, skewY: -10, scaleX: 2, scaleY: -1 };
+    const m = matrixFromTransform(transform);
+    const result = decomposeMatrix(m)!;
+    expect(result.skewY).toBe(0);
+    const rebuilt = matrixFromTransform(result);
+    m.forEach((v, i) => expect(rebuilt[i]).toBeCloseTo(v));
+
+    expect(decomposeMatrix([1, 0, 0.5, 1, 0, 0])!.skewX).toBeCloseTo(26.565);
+    expect(decomposeMatrix([1, 0, 1000, 1, 0, 0])).toBeNull();
+    expect(decomposeMatrix([1, 0, 1, 0, 0, 0])).toBeNull();
+  });
+
+  it("applies the right-hand matrix first", () => {
+    const m = multiplyMatrix(translationMatrix(10, 0), [2, 0, 0, 2, 0, 0]);
+    expect(applyMatrix(m, { x: 1, y: 1 })).toEqual({ x: 12, y: 2 });
+  });
+
+  it("inverts matrices and rejects singular ones", () => {
+    const m = matrixFromTransform({
+      x: 5,
+      y: -3,
+      rotation: 40,
+      skewX: 0,
+      skewY: 0,
+      scaleX: 2,
+      scaleY: 3,
+    });
+    const point = applyMatrix(invertMatrix(m)!, applyMatrix(m, { x: 7, y: 2 }));
+    expect(point.x).toBeCloseTo(7);
+    expect(point.y).toBeCloseTo(2);
+    expect(invertMatrix([1, 2, 2, 4, 0, 0])).toBeNull();
+  });
+});
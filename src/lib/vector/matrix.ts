@@ -0,0 +1,108 @@
+import type { Point2D, Transform2D } from "@/types/vector";
+
+/**
+ * 2D affine matrix in SVG/canvas order `[a, b, c, d, e, f]`:
+ * x' = a·x + c·y + e, y' = b·x + d·y + f.
+ */
+export type Matrix2D = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix2D = [1, 0, 0, 1, 0, 0];
+
+const EPSILON = 1e-9;
+
+/** Largest skew angle (degrees) kept in a `Transform2D`; 90° is degenerate */
+export const MAX_SKEW = 89;
+
+/** `m · n` — apply `n` first, then `m` */
+export function multiplyMatrix(m: Matrix2D, n: Matrix2D): Matrix2D {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+export function applyMatrix(m: Matrix2D, point: Point2D): Point2D {
+  return {
+    x: m[0] * point.x + m[2] * point.y + m[4],
+    y: m[1] * point.x + m[3] * point.y + m[5],
+  };
+}
+
+export function translationMatrix(x: number, y: number): Matrix2D {
+  return [1, 0, 0, 1, x, y];
+}
+
+/** Matrix for a `Transform2D` (translate, rotate, skewX, skewY, scale) */
+export function matrixFromTransform(t: Transform2D): Matrix2D {
+  const rad = (t.rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const rotate: Matrix2D = [cos, sin, -sin, cos, t.x, t.y];
+  const scale: Matrix2D = [t.scaleX, 0, 0, t.scaleY, 0, 0];
+  return multiplyMatrix(rotate, multiplyMatrix(skewMatrix(t.skewX, t.skewY), scale));
+}
+
+/** `skewX(ax) skewY(ay)` in degrees */
+export function skewMatrix(skewX: number, skewY: number): Matrix2D {
+  const tx = Math.tan((skewX * Math.PI) / 180);
+  const ty = Math.tan((skewY * Math.PI) / 180);
+  return [1 + tx * ty, ty, tx, 1, 0, 0];
+}
+
+/**
+ * Split a matrix into translate · rotate · skewX · scale (`skewY` is always
+ * 0). Reflections come out as a negative `scaleY`. Null when the matrix is
+ * singular or skewed past MAX_SKEW; callers bake that into geometry instead.
+ */
+export function decomposeMatrix(m: Matrix2D): Transform2D | null {
+  const [a, b, c, d, e, f] = m;
+  const scaleX = Math.hypot(a, b);
+  if (scaleX < EPSILON) return null;
+
+  // Second column in the rotated frame is (scaleY · tan(skewX), scaleY)
+  const cos = a / scaleX;
+  const sin = b / scaleX;
+  const shear = c * cos + d * sin;
+  const scaleY = d * cos - c * sin;
+
+  let skewX = 0;
+  if (Math.abs(shear) > EPSILON * Math.max(1, Math.hypot(c, d))) {
+    if (Math.abs(scaleY) < EPSILON) return null;
+    skewX = (Math.atan(shear / scaleY) * 180) / Math.PI;
+    if (Math.abs(skewX) > MAX_SKEW) return null;
+  }
+
+  return {
+    x: e,
+    y: f,
+    rotation: (Math.atan2(b, a) * 180) / Math.PI,
+    skewX,
+    skewY: 0,
+    scaleX,
+    scaleY,
+  };
+}
+
+/** Average linear scale of a matrix — for stroke widths and radii */
+export function matrixScale(m: Matrix2D): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+/** Inverse of a matrix, or null when it is singular */
+export function invertMatrix(m: Matrix2D): Matrix2D | null {
+  const [a, b, c, d, e, f] = m;
+  const det = a * d - b * c;
+  if (Math.abs(det) < EPSILON) return null;
+  return [
+    d / det,
+    -b / det,
+    -c / det,
+    a / det,
+    (c * f - d * e) / det,
+    (b * e - a * f) / det,
+  ];
+}
@@ -0,0 +1,11 @@
+import { describe, expect, it } from "vitest";
+import { MIXED, sharedValue } from "./mixedValues";
+
+describe("sharedValue", () => {
+  it("returns the common value, MIXED, or undefined for nothing", () => {
+    const items = [{ w: 2, c: "#000" }, { w: 2, c: "#fff" }];
+    expect(sharedValue(items, (i) => i.w)).toBe(2);
+    expect(sharedValue(items, (i) => i.c)).toBe(MIXED);
+    expect(sharedValue([], (i: { w: number }) => i.w)).toBeUndefined();
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Shared property values across a selection, for panels that edit several
+ * objects at once and show "Mixed" where they disagree.
+ */
+
+/** Marks a property whose value differs between the objects */
+export const MIXED = Symbol("mixed");
+
+export type Mixed<T> = T | typeof MIXED;
+
+/**
+ * `pick` of every item when they all agree (compared with `===`), MIXED
+ * when they don't, undefined when there are no items
+ */
+export function sharedValue<T, V>(
+  items: readonly T[],
+  pick: (item: T) => V,
+): Mixed<V> | undefined {
+  if (items.length === 0) return undefined;
+  const first = pick(items[0]);
+  for (let i = 1; i < items.length; i++) {
+    if (pick(items[i]) !== first) return MIXED;
+  }
+  return first;
+}
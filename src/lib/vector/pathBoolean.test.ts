@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import type { PathSegment } from "@/types/vector";
+import { IDENTITY_MATRIX, translationMatrix } from "./matrix";
+import {
+  booleanRegions,
+  combineRegions,
+  enclosedRegion,
+  regionToSegments,
+  segmentsToRegion,
+  segmentsToRuns,
+  type Region,
+} from "./pathBoolean";
+import { ellipseSegments } from "./shapeGeometry";
+
+function rect(x: number, y: number, w: number, h: number): Region {
+  return segmentsToRegion(
+    [
+      { type: "M", x, y },
+      { type: "L", x: x + w, y },
+      { type: "L", x: x + w, y: y + h },
+      { type: "L", x, y: y + h },
+      { type: "Z" },
+    ],
+    IDENTITY_MATRIX,
+  );
+}
+
+function circle(cx: number, cy: number, r: number): Region {
+  return segmentsToRegion(ellipseSegments(r, r), translationMatrix(cx, cy));
+}
+
+/** Signed area of path segments, integrating cubics exactly */
+function signedArea(segments: PathSegment[]): number {
+  const cubicArea = (
+    x0: number, y0: number, x1: number, y1: number,
+    x2: number, y2: number, x3: number, y3: number,
+  ) =>
+    (3 *
+      ((y3 - y0) * (x1 + x2) -
+        (x3 - x0) * (y1 + y2) +
+        y1 * (x0 - x2) -
+        x1 * (y0 - y2) +
+        y3 * (x2 + x0 / 3) -
+        x3 * (y2 + y0 / 3))) /
+    20;
+  const lineArea = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+    cubicArea(
+      a.x, a.y,
+      a.x + (b.x - a.x) / 3, a.y + (b.y - a.y) / 3,
+      a.x + (2 * (b.x - a.x)) / 3, a.y + (2 * (b.y - a.y)) / 3,
+      b.x, b.y,
+    );
+
+  let total = 0;
+  let start = { x: 0, y: 0 };
+  let cur = start;
+  for (const seg of segments) {
+    if (seg.type === "M") {
+      start = cur = seg;
+    } else if (seg.type === "L") {
+      total += lineArea(cur, seg);
+      cur = seg;
+    } else if (seg.type === "Z") {
+      total += lineArea(cur, start);
+      cur = start;
+    } else if (seg.type === "C") {
+      total += cubicArea(cur.x, cur.y, seg.cp1x, seg.cp1y, seg.cp2x, seg.cp2y, seg.x, seg.y);
+      cur = seg;
+    }
+  }
+  return total;
+}
+
+const area = (segments: PathSegment[]) => Math.abs(signedArea(segments));
+
+const countType = (segments: PathSegment[], type: PathSegment["type"]) =>
+  segments.filter((s) => s.type === type).length;
+
+describe("pathBoolean", () => {
+  it("unites overlapping rectangles into one outline", () => {
+    const result = regionToSegments(
+      combineRegions([rect(0, 0, 10, 10), rect(5, 5, 10, 10)], "union"),
+    );
+    expect(countType(result, "M")).toBe(1);
+    expect(countType(result, "C")).toBe(0);
+    expect(area(result)).toBeCloseTo(175, 3);
+  });
+
+  it("subtracts front shapes from the bottom one", () => {
+    const notch = regionToSegments(
+      combineRegions([rect(0, 0, 10, 10), rect(5, 5, 10, 10)], "subtract"),
+    );
+    expect(area(notch)).toBeCloseTo(75, 3);
+
+    // A shape fully inside the bottom one leaves a hole
+    const hole = combineRegions(
+      [rect(0, 0, 10, 10), rect(2, 2, 2, 2), rect(6, 6, 2, 2)],
+      "subtract",
+    );
+    expect(hole).toHaveLength(3);
+  });
+
+  it("keeps curves when intersecting circles", () => {
+    const result = regionToSegments(
+      combineRegions([circle(0, 0, 10), circle(10, 0, 10)], "intersect"),
+    );
+    expect(countType(result, "M")).toBe(1);
+    expect(countType(result, "C")).toBeGreaterThanOrEqual(2);
+    expect(countType(result, "C")).toBeLessThanOrEqual(6);
+    // Lens area: 2r²·acos(d/2r) − (d/2)·√(4r² − d²)
+    const lens = 2 * 100 * Math.acos(0.5) - 5 * Math.sqrt(300);
+    expect(area(result)).toBeCloseTo(lens, 0);
+  });
+
+  it("excludes the overlap", () => {
+    const result = regionToSegments(
+      combineRegions([rect(0, 0, 10, 10), rect(5, 5, 10, 10)], "exclude"),
+    );
+    expect(area(result)).toBeCloseTo(150, 3);
+  });
+
+  it("merges shared edges and identical shapes", () => {
+    const sideBySide = regionToSegments(
+      combineRegions([rect(0, 0, 10, 10), rect(10, 0, 10, 10)], "union"),
+    );
+    expect(countType(sideBySide, "M")).toBe(1);
+    expect(area(sideBySide)).toBeCloseTo(200, 3);
+    // Edges running on across the seam become one
+    expect(sideBySide.map((seg) => seg.type).join("")).toBe("MLLLZ");
+
+    const same = regionToSegments(
+      combineRegions([circle(0, 0, 10), circle(0, 0, 10)], "union"),
+    );
+    expect(countType(same, "M")).toBe(1);
+    expect(countType(same, "C")).toBe(4);
+  });
+
+  it("works the same at any scale", () => {
+    const tiny = regionToSegments(
+      combineRegions([circle(0, 0, 0.01), circle(0.01, 0, 0.01)], "union"),
+    );
+    expect(countType(tiny, "M")).toBe(1);
+    // Two discs minus their lens (see "keeps curves when intersecting circles")
+    const r2 = 0.01 ** 2;
+    const lens = 2 * r2 * Math.acos(0.5) - 0.005 * Math.sqrt(3 * r2);
+    expect(area(tiny) / (2 * Math.PI * r2 - lens)).toBeCloseTo(1, 2);
+
+    const huge = regionToSegments(
+      combineRegions([rect(0, 0, 1e5, 1e5), rect(5e4, 5e4, 1e5, 1e5)], "union"),
+    );
+    expect(area(huge) / 1.75e10).toBeCloseTo(1, 6);
+  });
+
+  it("honours the even-odd rule of the bottom region", () => {
+    const nested = [...rect(0, 0, 10, 10), ...rect(2, 2, 6, 6)];
+    const resolved = booleanRegions(nested, [], "union", "evenodd");
+    expect(resolved).toHaveLength(2);
+    expect(area(regionToSegments(resolved))).toBeCloseTo(64, 3);
+    // Same direction in the input, opposite once resolved
+    const [outer, inner] = resolved.map((c) => regionToSegments([c]));
+    expect(signedArea(outer) * signedArea(inner)).toBeLessThan(0);
+  });
+
+  it("returns nothing when shapes do not overlap", () => {
+    expect(
+      combineRegions([rect(0, 0, 5, 5), rect(10, 10, 5, 5)], "intersect"),
+    ).toEqual([]);
+  });
+
+  describe("enclosedRegion", () => {
+    const line = (x0: number, y0: number, x1: number, y1: number) =>
+      segmentsToRuns(
+        [
+          { type: "M", x: x0, y: y0 },
+          { type: "L", x: x1, y: y1 },
+        ],
+        IDENTITY_MATRIX,
+      )[0];
+    const closed = (region: Region) => region.map((curves) => ({ curves, closed: true }));
+    const hash = [
+      line(-5, 0, 25, 0),
+      line(-5, 20, 25, 20),
+      line(0, -5, 0, 25),
+      line(20, -5, 20, 25),
+    ];
+
+    it("finds the cell between crossing strokes", () => {
+      const found = enclosedRegion(hash, { x: 10, y: 10 }, 0)!;
+      expect(found.runs).toEqual([0, 1, 2, 3]);
+      expect(found.region).toHaveLength(1);
+      expect(area(regionToSegments(found.region))).toBeCloseTo(400, 3);
+
+      expect(enclosedRegion(hash, { x: 30, y: 10 }, 0)).toBeNull();
+      expect(enclosedRegion(hash, { x: 10, y: -3 }, 0)).toBeNull();
+    });
+
+    it("bridges gaps within the tolerance", () => {
+      const open = [line(0, 0, 20, 0), line(20, 0, 20, 20), line(20, 20, 0, 20), line(0, 20, 0, 3)];
+      expect(enclosedRegion(open, { x: 10, y: 10 }, 2)).toBeNull();
+      const found = enclosedRegion(open, { x: 10, y: 10 }, 4)!;
+      expect(area(regionToSegments(found.region))).toBeCloseTo(400, 3);
+    });
+
+    it("leaves islands out as holes", () => {
+      const runs = [...closed(rect(0, 0, 40, 40)), ...closed(circle(20, 20, 5)), line(100, 0, 100, 10)];
+      const found = enclosedRegion(runs, { x: 5, y: 5 }, 0)!;
+      expect(found.region).toHaveLength(2);
+      expect(found.runs).toEqual([0, 1]);
+      expect(signedArea(regionToSegments(found.region))).toBeCloseTo(1600 - Math.PI * 25, 0);
+
+      const inner = enclosedRegion(runs, { x: 20, y: 20 }, 0)!;
+      expect(inner.runs).toEqual([1]);
+    });
+  });
+});
@@ -0,0 +1,1104 @@
+import type {
+  FillRule,
+  PathObject,
+  PathSegment,
+  Point2D,
+  VectorObject,
+} from "@/types/vector";
+import { createTransform } from "@/types/vector";
+import { getPathBounds } from "./bounds";
+import {
+  applyMatrix,
+  matrixScale,
+  translationMatrix,
+  type Matrix2D,
+} from "./matrix";
+import { transformSegments } from "./pathData";
+import { objectOutlineSegments } from "./shapeGeometry";
+
+/**
+ * Boolean operations on closed Bézier outlines (pathfinder).
+ *
+ * Outlines are split where they cross, each piece is kept or dropped by
+ * sampling the combined shape on both sides of it, and the kept pieces are
+ * traced back into closed contours. Curves stay cubic Béziers throughout —
+ * pieces of one original curve that end up adjacent are merged back into a
+ * single segment — so the result has about as many segments as the inputs.
+ * Insideness uses the nonzero rule, like the renderer.
+ *
+ * The tolerances below are tuned for shapes about WORKING_SIZE across;
+ * `booleanRegions` scales its operands to that size while it works.
+ */
+
+export type BooleanOperation = "union" | "subtract" | "intersect" | "exclude";
+
+/** A cubic Bézier; straight edges keep `line` so they come back out as `L` */
+export interface Curve {
+  p0: Point2D;
+  p1: Point2D;
+  p2: Point2D;
+  p3: Point2D;
+  line: boolean;
+}
+
+/** Closed loop of curves, each starting where the previous one ends */
+export type Contour = Curve[];
+
+/** A filled area: any number of contours combined with the nonzero rule */
+export type Region = Contour[];
+
+/** Curves flatter than this (control point distance from the chord) count as lines */
+const FLATNESS = 1e-3;
+/** Points closer than this are the same node */
+const JOIN_TOLERANCE = 5e-3;
+/** Distance from a piece at which its two sides are sampled */
+const SIDE_OFFSET = 2e-2;
+/** How far gap bridges reach past their target */
+const BRIDGE_OVERSHOOT = 5e-2;
+/** Samples per curve when searching for its nearest point */
+const CLOSEST_SAMPLES = 16;
+const PARAM_EPSILON = 1e-9;
+const MAX_DEPTH = 48;
+/** Extent the operands of a boolean operation are scaled to while combining */
+const WORKING_SIZE = 256;
+
+/**
+ * Combine regions listed bottom to top. `subtract` removes every region
+ * above the bottom one from it ("minus front"); the others fold left to
+ * right.
+ */
+export function combineRegions(
+  regions: Region[],
+  operation: BooleanOperation,
+): Region {
+  if (regions.length === 0) return [];
+  if (operation === "subtract") {
+    if (regions.length === 1) return regions[0];
+    return booleanRegions(
+      regions[0],
+      combineRegions(regions.slice(1), "union"),
+      "subtract",
+    );
+  }
+  return regions
+    .slice(1)
+    .reduce((acc, region) => booleanRegions(acc, region, operation), regions[0]);
+}
+
+/**
+ * Apply one boolean operation to two regions. `fillRuleA` says how `a`'s
+ * own overlaps fill; `b` and the result are always nonzero.
+ */
+export function booleanRegions(
+  a: Region,
+  b: Region,
+  operation: BooleanOperation,
+  fillRuleA: FillRule = "nonzero",
+): Region {
+  const k = workingScale([a, b]);
+  if (k !== 1) {
+    const result = booleanRegions(scaleRegion(a, k), scaleRegion(b, k), operation, fillRuleA);
+    return scaleRegion(result, 1 / k);
+  }
+
+  // 1–2. Split both outlines wherever they cross
+  const pieces = splitAtCrossings([...a, ...b].flat());
+
+  // 3. Keep pieces that separate inside from outside, interior on the left
+  const polygonsA = flattenRegion(a);
+  const polygonsB = flattenRegion(b);
+  const insideA = (p: Point2D) => {
+    const winding = windingNumber(polygonsA, p);
+    return fillRuleA === "evenodd" ? winding % 2 !== 0 : winding !== 0;
+  };
+  const insideResult = (p: Point2D) =>
+    applyOperation(operation, insideA(p), windingNumber(polygonsB, p) !== 0);
+
+  const kept: Piece[] = [];
+  for (const piece of pieces) {
+    const mid = evaluate(piece.curve, 0.5);
+    const tangent = normalized(derivative(piece.curve, 0.5)) ??
+      normalized(sub(piece.curve.p3, piece.curve.p0));
+    if (!tangent) continue;
+    const normal = { x: -tangent.y, y: tangent.x };
+    const left = insideResult(add(mid, scale(normal, SIDE_OFFSET)));
+    const right = insideResult(add(mid, scale(normal, -SIDE_OFFSET)));
+    if (left === right) continue;
+
+    const oriented = left ? piece : reversePiece(piece);
+    // Coincident edges from both operands: keep one
+    if (kept.some((k) => sameGeometry(k.curve, oriented.curve))) continue;
+    kept.push(oriented);
+  }
+
+  return traceContours(kept);
+}
+
+/**
+ * Closed contours of path segments mapped through `m`. Open subpaths are
+ * closed, as for filling; quadratics become cubics.
+ */
+export function segmentsToRegion(
+  segments: PathSegment[],
+  m: Matrix2D,
+): Region {
+  const region: Region = [];
+  for (const { curves } of segmentsToRuns(segments, m)) {
+    const first = curves[0];
+    const last = curves[curves.length - 1];
+    region.push(near(last.p3, first.p0) ? curves : [...curves, lineCurve(last.p3, first.p0)]);
+  }
+  return region;
+}
+
+/** Path segments (absolute, closed subpaths) for a region */
+export function regionToSegments(region: Region): PathSegment[] {
+  return region.flatMap((curves) => runToSegments({ curves, closed: true }));
+}
+
+// ============================================
+// Open runs
+// ============================================
+
+/** Curves linked end to start; `closed` runs end where they began (`Z`) */
+export interface CurveRun {
+  curves: Curve[];
+  closed: boolean;
+}
+
+/**
+ * One run per subpath of path segments mapped through `m`, keeping open
+ * subpaths open. `Z` adds the closing edge when it has length.
+ */
+export function segmentsToRuns(
+  segments: PathSegment[],
+  m: Matrix2D,
+): CurveRun[] {
+  const runs: CurveRun[] = [];
+  let curves: Curve[] = [];
+  let start: Point2D | null = null;
+  let current: Point2D | null = null;
+
+  const endRun = (closed: boolean) => {
+    if (closed && start && current && !near(start, current)) {
+      curves.push(lineCurve(current, start));
+    }
+    if (curves.length > 0) runs.push({ curves, closed });
+    curves = [];
+    current = start;
+  };
+
+  for (const seg of segments) {
+    if (seg.type === "M") {
+      endRun(false);
+      start = applyMatrix(m, seg);
+      current = start;
+      continue;
+    }
+    if (seg.type === "Z") {
+      endRun(true);
+      continue;
+    }
+    if (!current) continue;
+
+    const end = applyMatrix(m, seg);
+    let curve: Curve;
+    if (seg.type === "L") {
+      curve = lineCurve(current, end);
+    } else if (seg.type === "C") {
+      curve = {
+        p0: current,
+        p1: applyMatrix(m, { x: seg.cp1x, y: seg.cp1y }),
+        p2: applyMatrix(m, { x: seg.cp2x, y: seg.cp2y }),
+        p3: end,
+        line: false,
+      };
+    } else {
+      const cp = applyMatrix(m, { x: seg.cpx, y: seg.cpy });
+      curve = {
+        p0: current,
+        p1: lerp(current, cp, 2 / 3),
+        p2: lerp(end, cp, 2 / 3),
+        p3: end,
+        line: false,
+      };
+    }
+    if (!isDegenerate(curve)) curves.push(curve);
+    current = end;
+  }
+  endRun(false);
+
+  return runs;
+}
+
+/** Path segments (absolute) for one run */
+export function runToSegments({ curves, closed }: CurveRun): PathSegment[] {
+  if (curves.length === 0) return [];
+  const segments: PathSegment[] = [
+    { type: "M", x: curves[0].p0.x, y: curves[0].p0.y },
+  ];
+  curves.forEach((curve, i) => {
+    // The closing edge is implied by Z when it is straight
+    if (closed && i === curves.length - 1 && curve.line) return;
+    segments.push(
+      curve.line
+        ? { type: "L", x: curve.p3.x, y: curve.p3.y }
+        : {
+            type: "C",
+            cp1x: curve.p1.x,
+            cp1y: curve.p1.y,
+            cp2x: curve.p2.x,
+            cp2y: curve.p2.y,
+            x: curve.p3.x,
+            y: curve.p3.y,
+          },
+    );
+  });
+  if (closed) segments.push({ type: "Z" });
+  return segments;
+}
+
+/**
+ * Cut runs where they pass through `region`, keeping the parts outside
+ * it. A closed run that gets cut comes back as open runs. Returns null
+ * when the region misses every run.
+ */
+export function clipRuns(runs: CurveRun[], region: Region): CurveRun[] | null {
+  const regionCurves = region.flat();
+  const polygons = flattenRegion(region);
+  const clipped: CurveRun[] = [];
+  let cut = false;
+
+  for (const run of runs) {
+    const pieces = run.curves.flatMap((curve) => {
+      const params = regionCurves.flatMap((other) =>
+        intersectCurves(curve, other).map((hit) => hit.ta),
+      );
+      return splitAt(curve, params).filter((p) => !isDegenerate(p.curve));
+    });
+    const outside = pieces.map(
+      (p) => windingNumber(polygons, evaluate(p.curve, 0.5)) === 0,
+    );
+    if (outside.every(Boolean)) {
+      clipped.push(run);
+      continue;
+    }
+    cut = true;
+
+    const chains: Piece[][] = [];
+    let chain: Piece[] | null = null;
+    for (let i = 0; i < pieces.length; i++) {
+      if (!outside[i]) {
+        chain = null;
+      } else if (chain) {
+        chain.push(pieces[i]);
+      } else {
+        chain = [pieces[i]];
+        chains.push(chain);
+      }
+    }
+    // A cut closed run continues through its start point
+    if (run.closed && chains.length > 1 && outside[0] && outside[pieces.length - 1]) {
+      chains[0] = [...chains.pop()!, ...chains[0]];
+    }
+    for (const c of chains) {
+      clipped.push({ curves: mergeChain(c).map((p) => p.curve), closed: false });
+    }
+  }
+
+  return cut ? clipped : null;
+}
+
+/** Whether two regions' outlines cross or one lies inside the other */
+export function regionsTouch(a: Region, b: Region): boolean {
+  const curvesA = a.flat();
+  const curvesB = b.flat();
+  if (curvesA.length === 0 || curvesB.length === 0) return false;
+  if (curvesA.some((ca) => curvesB.some((cb) => intersectCurves(ca, cb).length > 0))) {
+    return true;
+  }
+  return (
+    windingNumber(flattenRegion(b), curvesA[0].p0) !== 0 ||
+    windingNumber(flattenRegion(a), curvesB[0].p0) !== 0
+  );
+}
+
+// ============================================
+// Enclosed areas
+// ============================================
+
+/** The area around a point bounded by runs, and the runs that bound it */
+export interface EnclosedRegion {
+  region: Region;
+  /** Indices into the input runs, ascending */
+  runs: number[];
+}
+
+/**
+ * Smallest area enclosed by `runs` around `point`, as a paint bucket
+ * finds it. Open ends within `gapTolerance` of another run or of their
+ * own run's other end are bridged, loose ends that bound nothing are
+ * ignored, and islands inside the area become holes. Returns null when
+ * the point is not enclosed.
+ */
+export function enclosedRegion(
+  runs: CurveRun[],
+  point: Point2D,
+  gapTolerance: number,
+): EnclosedRegion | null {
+  // 1. All curves plus bridges across small gaps, split where they cross
+  const owners = new Map<Curve, number>();
+  runs.forEach((run, i) => run.curves.forEach((c) => owners.set(c, i)));
+  const bridges = runs.flatMap((run, i) =>
+    run.closed ? [] : gapBridges(runs, i, Math.max(gapTolerance, JOIN_TOLERANCE)),
+  );
+  const pieces = splitAtCrossings([...runs.flatMap((r) => r.curves), ...bridges]);
+
+  // 2. Planar graph: shared end points become vertices
+  const vertices: Point2D[] = [];
+  const vertexAt = (p: Point2D) => {
+    const found = vertices.findIndex((v) => near(v, p));
+    if (found >= 0) return found;
+    vertices.push(p);
+    return vertices.length - 1;
+  };
+  let edges: { piece: Piece; from: number; to: number }[] = [];
+  for (const piece of pieces) {
+    const duplicate = edges.some(
+      (e) =>
+        sameGeometry(e.piece.curve, piece.curve) ||
+        sameGeometry(reversePiece(e.piece).curve, piece.curve),
+    );
+    if (duplicate) continue;
+    edges.push({ piece, from: vertexAt(piece.curve.p0), to: vertexAt(piece.curve.p3) });
+  }
+
+  // Loose ends bound no area
+  for (;;) {
+    const degree = new Array<number>(vertices.length).fill(0);
+    for (const e of edges) {
+      degree[e.from]++;
+      degree[e.to]++;
+    }
+    const kept = edges.filter((e) => degree[e.from] > 1 && degree[e.to] > 1);
+    if (kept.length === edges.length) break;
+    edges = kept;
+  }
+
+  // 3. Faces: at each vertex, turn onto the next edge clockwise from the
+  // one arriving, which traces bounded faces counterclockwise (positive
+  // area) and the outside of each connected group clockwise
+  const halfEdges = edges.flatMap((e) => [
+    { piece: e.piece, from: e.from, to: e.to },
+    { piece: reversePiece(e.piece), from: e.to, to: e.from },
+  ]);
+  const angles = halfEdges.map(({ piece }) => {
+    const d = startDirection(piece.curve);
+    return Math.atan2(d.y, d.x);
+  });
+  const outgoing: number[][] = vertices.map(() => []);
+  halfEdges.forEach((h, i) => outgoing[h.from].push(i));
+  for (const list of outgoing) list.sort((x, y) => angles[x] - angles[y]);
+
+  const faces: { half: number[]; contour: Contour; area: number }[] = [];
+  const visited = new Array<boolean>(halfEdges.length).fill(false);
+  for (let i = 0; i < halfEdges.length; i++) {
+    if (visited[i]) continue;
+    const half: number[] = [];
+    for (let h = i; !visited[h]; ) {
+      visited[h] = true;
+      half.push(h);
+      const around = outgoing[halfEdges[h].to];
+      const twin = around.indexOf(h ^ 1);
+      h = around[(twin - 1 + around.length) % around.length];
+    }
+    const contour = mergeChain(half.map((h) => halfEdges[h].piece)).map((p) => p.curve);
+    faces.push({ half, contour, area: contourArea(contour) });
+  }
+
+  // 4. The smallest bounded face around the point, minus islands inside it
+  const inside = (contour: Contour, p: Point2D) =>
+    windingNumber(flattenRegion([contour]), p) !== 0;
+  const [face] = faces
+    .filter((f) => f.area > FLATNESS && inside(f.contour, point))
+    .sort((x, y) => x.area - y.area);
+  if (!face) return null;
+
+  const faceEdges = new Set(face.half.map((h) => h >> 1));
+  const sample = (contour: Contour) => evaluate(contour[0], 0.5);
+  const islands = faces.filter(
+    (f) =>
+      f.area < -FLATNESS &&
+      !f.half.some((h) => faceEdges.has(h >> 1)) &&
+      inside(face.contour, sample(f.contour)) &&
+      !inside(f.contour, point),
+  );
+  const holes = islands.filter(
+    (f) => !islands.some((g) => g !== f && inside(g.contour, sample(f.contour))),
+  );
+
+  const bounding = new Set<number>();
+  for (const f of [face, ...holes]) {
+    for (const h of f.half) {
+      const owner = owners.get(halfEdges[h].piece.source);
+      if (owner !== undefined) bounding.add(owner);
+    }
+  }
+
+  return {
+    region: [face.contour, ...holes.map((f) => f.contour)],
+    runs: [...bounding].sort((x, y) => x - y),
+  };
+}
+
+/**
+ * Straight bridges from run `i`'s open ends to the nearest point on
+ * another run, or to its own other end, when within `tolerance`. Each
+ * overshoots slightly so it crosses what it reaches; the stub is a loose
+ * end and drops out.
+ */
+function gapBridges(runs: CurveRun[], i: number, tolerance: number): Curve[] {
+  const { curves } = runs[i];
+  const first = curves[0];
+  const last = curves[curves.length - 1];
+  const ends = [
+    { at: first.p0, other: last.p3, outward: scale(startDirection(first), -1) },
+    { at: last.p3, other: first.p0, outward: startDirection(reverseCurve(last)) },
+  ];
+
+  const bridges: Curve[] = [];
+  for (const { at, other, outward } of ends) {
+    let target: Point2D | null = null;
+    let best = tolerance;
+    const consider = (p: Point2D) => {
+      const d = Math.hypot(p.x - at.x, p.y - at.y);
+      if (d <= best) {
+        best = d;
+        target = p;
+      }
+    };
+    if (!near(at, other)) consider(other);
+    runs.forEach((run, j) => {
+      if (j !== i) for (const c of run.curves) consider(closestPoint(c, at));
+    });
+    if (!target) continue;
+
+    const direction = normalized(sub(target, at)) ?? outward;
+    bridges.push(lineCurve(at, add(target, scale(direction, BRIDGE_OVERSHOOT))));
+  }
+  return bridges;
+}
+
+/** Unit tangent at a curve's start, falling back to its control points */
+function startDirection(c: Curve): Point2D {
+  return (
+    normalized(derivative(c, 0)) ??
+    normalized(sub(c.p2, c.p0)) ??
+    normalized(sub(c.p3, c.p0)) ?? { x: 1, y: 0 }
+  );
+}
+
+/** Point on a curve nearest to `p`, by sampling then narrowing in */
+function closestPoint(c: Curve, p: Point2D): Point2D {
+  const dist = (t: number) => {
+    const q = evaluate(c, t);
+    return Math.hypot(q.x - p.x, q.y - p.y);
+  };
+  let best = 0;
+  for (let k = 1; k <= CLOSEST_SAMPLES; k++) {
+    if (dist(k / CLOSEST_SAMPLES) < dist(best)) best = k / CLOSEST_SAMPLES;
+  }
+  for (let step = 1 / CLOSEST_SAMPLES; step > PARAM_EPSILON; step /= 2) {
+    for (const t of [best - step, best + step]) {
+      if (t >= 0 && t <= 1 && dist(t) < dist(best)) best = t;
+    }
+  }
+  return evaluate(c, best);
+}
+
+// ============================================
+// Objects
+// ============================================
+
+/** An object and the matrix from its local space into the result's space */
+export interface PlacedShape {
+  object: VectorObject;
+  matrix: Matrix2D;
+}
+
+/** Whether an object has a closed area the pathfinder can combine */
+export function isBooleanOperand(obj: VectorObject): boolean {
+  return (
+    obj.type === "rectangle" ||
+    obj.type === "ellipse" ||
+    obj.type === "polygon" ||
+    obj.type === "path"
+  );
+}
+
+/**
+ * Combine operands (bottom first) into one closed path. The result takes
+ * its style from the bottom operand for `subtract` and from the top one
+ * otherwise, and is positioned at its top-left. Returns null when nothing
+ * is left.
+ */
+export function buildBooleanPath(
+  operands: PlacedShape[],
+  operation: BooleanOperation,
+  id: string,
+): PathObject | null {
+  const regions = operands.map(({ object, matrix }) => {
+    const region = segmentsToRegion(objectOutlineSegments(object) ?? [], matrix);
+    // Re-trace even-odd paths so holes wind the other way
+    return object.type === "path" && object.fillRule === "evenodd"
+      ? booleanRegions(region, [], "union", "evenodd")
+      : region;
+  });
+  const region = combineRegions(regions, operation);
+  if (region.length === 0) return null;
+
+  const segments = regionToSegments(region);
+  const origin = getPathBounds(segments);
+
+  const source =
+    operation === "subtract" ? operands[0] : operands[operands.length - 1];
+  const { object } = source;
+  return {
+    id,
+    type: "path",
+    name: "Path",
+    transform: createTransform(origin.x, origin.y),
+    fill: object.fill,
+    stroke: object.stroke && {
+      ...object.stroke,
+      width: object.stroke.width * matrixScale(source.matrix),
+    },
+    opacity: object.opacity,
+    visible: true,
+    locked: false,
+    segments: transformSegments(segments, translationMatrix(-origin.x, -origin.y)),
+    closed: true,
+    fillRule: "nonzero",
+  };
+}
+
+// ============================================
+// Pieces and tracing
+// ============================================
+
+interface Piece {
+  curve: Curve;
+  /** Original curve and parameter range, for merging neighbours back */
+  source: Curve;
+  t0: number;
+  t1: number;
+  reversed: boolean;
+}
+
+function splitAt(curve: Curve, params: number[]): Piece[] {
+  const ts = params
+    .filter((t) => t > PARAM_EPSILON && t < 1 - PARAM_EPSILON)
+    .sort((x, y) => x - y);
+
+  const pieces: Piece[] = [];
+  let rest = curve;
+  let prev = 0;
+  for (const t of ts) {
+    if (t - prev < PARAM_EPSILON) continue;
+    const [left, right] = splitCurve(rest, (t - prev) / (1 - prev));
+    pieces.push({ curve: left, source: curve, t0: prev, t1: t, reversed: false });
+    rest = right;
+    prev = t;
+  }
+  pieces.push({ curve: { ...rest }, source: curve, t0: prev, t1: 1, reversed: false });
+  return pieces;
+}
+
+/**
+ * Split curves at every crossing with each other, snapping the cut ends
+ * onto shared nodes so pieces meeting there link up exactly.
+ */
+function splitAtCrossings(curves: Curve[]): Piece[] {
+  const splits: number[][] = curves.map(() => []);
+  const nodes: Point2D[] = [];
+  for (let i = 0; i < curves.length; i++) {
+    for (let j = i + 1; j < curves.length; j++) {
+      for (const hit of intersectCurves(curves[i], curves[j])) {
+        splits[i].push(hit.ta);
+        splits[j].push(hit.tb);
+        addNode(nodes, hit.point);
+      }
+    }
+  }
+
+  const snap = (p: Point2D) => nodes.find((n) => near(n, p)) ?? p;
+  const pieces: Piece[] = [];
+  curves.forEach((curve, i) => {
+    for (const piece of splitAt(curve, splits[i])) {
+      piece.curve.p0 = snap(piece.curve.p0);
+      piece.curve.p3 = snap(piece.curve.p3);
+      if (!isDegenerate(piece.curve)) pieces.push(piece);
+    }
+  });
+  return pieces;
+}
+
+function reversePiece(piece: Piece): Piece {
+  return { ...piece, curve: reverseCurve(piece.curve), reversed: !piece.reversed };
+}
+
+/** Link pieces end to start into closed contours */
+function traceContours(pieces: Piece[]): Region {
+  const used = new Array<boolean>(pieces.length).fill(false);
+  const region: Region = [];
+
+  for (let i = 0; i < pieces.length; i++) {
+    if (used[i]) continue;
+    used[i] = true;
+    const chain: Piece[] = [pieces[i]];
+    const start = pieces[i].curve.p0;
+
+    for (;;) {
+      const end = chain[chain.length - 1].curve.p3;
+      if (near(end, start)) break;
+      const next = pieces.findIndex((p, k) => !used[k] && near(p.curve.p0, end));
+      if (next < 0) break;
+      used[next] = true;
+      chain.push(pieces[next]);
+    }
+
+    let contour = mergeChain(chain).map((p) => p.curve);
+    const last = contour[contour.length - 1];
+    if (near(last.p3, contour[0].p0)) {
+      last.p3 = contour[0].p0;
+    } else {
+      contour.push(lineCurve(last.p3, contour[0].p0));
+    }
+    contour = mergeCollinear(contour);
+    if (Math.abs(contourArea(contour)) > FLATNESS) region.push(contour);
+  }
+
+  return region;
+}
+
+/** Rejoin consecutive pieces cut from the same original curve */
+function mergeChain(chain: Piece[]): Piece[] {
+  const merged: Piece[] = [];
+  const canMerge = (a: Piece, b: Piece) =>
+    a.source === b.source &&
+    a.reversed === b.reversed &&
+    (a.reversed
+      ? Math.abs(a.t0 - b.t1) < PARAM_EPSILON
+      : Math.abs(a.t1 - b.t0) < PARAM_EPSILON);
+
+  const join = (a: Piece, b: Piece): Piece => {
+    const t0 = Math.min(a.t0, b.t0);
+    const t1 = Math.max(a.t1, b.t1);
+    let curve = subCurve(a.source, t0, t1);
+    if (a.reversed) curve = reversePiece({ ...a, curve }).curve;
+    curve.p0 = a.curve.p0;
+    curve.p3 = b.curve.p3;
+    return { ...a, curve, t0, t1 };
+  };
+
+  for (const piece of chain) {
+    const prev = merged[merged.length - 1];
+    if (prev && canMerge(prev, piece)) {
+      merged[merged.length - 1] = join(prev, piece);
+    } else {
+      merged.push(piece);
+    }
+  }
+  // The contour may start in the middle of an original curve
+  if (merged.length > 1 && canMerge(merged[merged.length - 1], merged[0])) {
+    merged[0] = join(merged.pop()!, merged[0]);
+  }
+  return merged;
+}
+
+/**
+ * Join straight edges of a closed contour that carry on in the same
+ * direction, e.g. where the edges of two adjacent operands met
+ */
+function mergeCollinear(contour: Contour): Contour {
+  const continues = (a: Curve, b: Curve) =>
+    a.line &&
+    b.line &&
+    dot(sub(a.p3, a.p0), sub(b.p3, b.p0)) > 0 &&
+    distanceToSegment(a.p3, a.p0, b.p3) < FLATNESS;
+
+  const merged: Curve[] = [];
+  for (const curve of contour) {
+    const prev = merged[merged.length - 1];
+    if (prev && continues(prev, curve)) {
+      merged[merged.length - 1] = lineCurve(prev.p0, curve.p3);
+    } else {
+      merged.push(curve);
+    }
+  }
+  // The contour may start in the middle of a straight edge
+  while (merged.length > 2 && continues(merged[merged.length - 1], merged[0])) {
+    merged[0] = lineCurve(merged.pop()!.p0, merged[0].p3);
+  }
+  return merged;
+}
+
+// ============================================
+// Intersections
+// ============================================
+
+interface CurveHit {
+  ta: number;
+  tb: number;
+  point: Point2D;
+}
+
+/**
+ * Intersections of two curves by recursive subdivision until both parts
+ * are flat, then exact line intersection (which also catches collinear
+ * overlaps — shared edges).
+ */
+function intersectCurves(a: Curve, b: Curve): CurveHit[] {
+  const hits: CurveHit[] = [];
+
+  const recurse = (
+    ca: Curve,
+    a0: number,
+    a1: number,
+    cb: Curve,
+    b0: number,
+    b1: number,
+    depth: number,
+  ) => {
+    if (!boxesOverlap(curveBox(ca), curveBox(cb))) return;
+
+    const flatA = ca.line || isFlat(ca);
+    const flatB = cb.line || isFlat(cb);
+    if ((flatA && flatB) || depth >= MAX_DEPTH) {
+      for (const [s, u] of segmentIntersections(ca.p0, ca.p3, cb.p0, cb.p3)) {
+        const ta = a0 + s * (a1 - a0);
+        const tb = b0 + u * (b1 - b0);
+        if (hits.some((h) => Math.abs(h.ta - ta) < 1e-7 && Math.abs(h.tb - tb) < 1e-7)) {
+          continue;
+        }
+        hits.push({ ta, tb, point: lerp(ca.p0, ca.p3, s) });
+      }
+      return;
+    }
+
+    const am = (a0 + a1) / 2;
+    const bm = (b0 + b1) / 2;
+    if (!flatA && !flatB) {
+      const [a1c, a2c] = splitCurve(ca, 0.5);
+      const [b1c, b2c] = splitCurve(cb, 0.5);
+      recurse(a1c, a0, am, b1c, b0, bm, depth + 1);
+      recurse(a1c, a0, am, b2c, bm, b1, depth + 1);
+      recurse(a2c, am, a1, b1c, b0, bm, depth + 1);
+      recurse(a2c, am, a1, b2c, bm, b1, depth + 1);
+    } else if (!flatA) {
+      const [a1c, a2c] = splitCurve(ca, 0.5);
+      recurse(a1c, a0, am, cb, b0, b1, depth + 1);
+      recurse(a2c, am, a1, cb, b0, b1, depth + 1);
+    } else {
+      const [b1c, b2c] = splitCurve(cb, 0.5);
+      recurse(ca, a0, a1, b1c, b0, bm, depth + 1);
+      recurse(ca, a0, a1, b2c, bm, b1, depth + 1);
+    }
+  };
+
+  recurse(a, 0, 1, b, 0, 1, 0);
+  return hits;
+}
+
+/** Parameter pairs where segment p1p2 meets q1q2 (both ends of an overlap) */
+function segmentIntersections(
+  p1: Point2D,
+  p2: Point2D,
+  q1: Point2D,
+  q2: Point2D,
+): Array<[number, number]> {
+  const r = sub(p2, p1);
+  const s = sub(q2, q1);
+  const denom = cross(r, s);
+  const qp = sub(q1, p1);
+  const lenR = Math.hypot(r.x, r.y);
+  const lenS = Math.hypot(s.x, s.y);
+  if (lenR < PARAM_EPSILON || lenS < PARAM_EPSILON) return [];
+
+  if (Math.abs(denom) > 1e-12 * lenR * lenS) {
+    const t = cross(qp, s) / denom;
+    const u = cross(qp, r) / denom;
+    const slackT = JOIN_TOLERANCE / lenR;
+    const slackU = JOIN_TOLERANCE / lenS;
+    if (t < -slackT || t > 1 + slackT || u < -slackU || u > 1 + slackU) return [];
+    return [[clamp01(t), clamp01(u)]];
+  }
+
+  // Parallel: only collinear overlaps matter
+  if (Math.abs(cross(qp, r)) / lenR > JOIN_TOLERANCE) return [];
+  const onP = (pt: Point2D) => dot(sub(pt, p1), r) / (lenR * lenR);
+  const onQ = (pt: Point2D) => dot(sub(pt, q1), s) / (lenS * lenS);
+  const out: Array<[number, number]> = [];
+  const push = (t: number, u: number) => {
+    if (t < -PARAM_EPSILON || t > 1 + PARAM_EPSILON) return;
+    if (u < -PARAM_EPSILON || u > 1 + PARAM_EPSILON) return;
+    if (out.some(([a, b]) => Math.abs(a - t) < 1e-9 && Math.abs(b - u) < 1e-9)) return;
+    out.push([clamp01(t), clamp01(u)]);
+  };
+  push(onP(q1), 0);
+  push(onP(q2), 1);
+  push(0, onQ(p1));
+  push(1, onQ(p2));
+  return out;
+}
+
+// ============================================
+// Insideness
+// ============================================
+
+/** Each contour as a closed polyline accurate to `FLATNESS` */
+function flattenRegion(region: Region): Point2D[][] {
+  return region.map((contour) => {
+    const points: Point2D[] = [];
+    for (const curve of contour) flattenCurve(curve, points, 0);
+    return points;
+  });
+}
+
+function flattenCurve(curve: Curve, out: Point2D[], depth: number) {
+  if (curve.line || isFlat(curve) || depth >= 16) {
+    out.push(curve.p3);
+    return;
+  }
+  const [left, right] = splitCurve(curve, 0.5);
+  flattenCurve(left, out, depth + 1);
+  flattenCurve(right, out, depth + 1);
+}
+
+/** Nonzero winding number of `point` against closed polylines */
+function windingNumber(polygons: Point2D[][], point: Point2D): number {
+  let winding = 0;
+  for (const poly of polygons) {
+    for (let i = 0; i < poly.length; i++) {
+      const a = poly[i];
+      const b = poly[(i + 1) % poly.length];
+      if (a.y <= point.y) {
+        if (b.y > point.y && cross(sub(b, a), sub(point, a)) > 0) winding++;
+      } else if (b.y <= point.y && cross(sub(b, a), sub(point, a)) < 0) {
+        winding--;
+      }
+    }
+  }
+  return winding;
+}
+
+function applyOperation(
+  operation: BooleanOperation,
+  inA: boolean,
+  inB: boolean,
+): boolean {
+  switch (operation) {
+    case "union":
+      return inA || inB;
+    case "intersect":
+      return inA && inB;
+    case "subtract":
+      return inA && !inB;
+    case "exclude":
+      return inA !== inB;
+  }
+}
+
+function contourArea(contour: Contour): number {
+  const points: Point2D[] = [];
+  for (const curve of contour) flattenCurve(curve, points, 0);
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    area += cross(points[i], points[(i + 1) % points.length]);
+  }
+  return area / 2;
+}
+
+// ============================================
+// Working scale
+// ============================================
+
+/**
+ * Power of two taking the regions' extent close to WORKING_SIZE. Scaling
+ * by a power of two is exact, so coordinates come back unchanged.
+ */
+function workingScale(regions: Region[]): number {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const curve of regions.flat(2)) {
+    const box = curveBox(curve);
+    minX = Math.min(minX, box.minX);
+    minY = Math.min(minY, box.minY);
+    maxX = Math.max(maxX, box.maxX);
+    maxY = Math.max(maxY, box.maxY);
+  }
+  const extent = Math.max(maxX - minX, maxY - minY);
+  if (!(extent > 0) || !Number.isFinite(extent)) return 1;
+  return 2 ** Math.round(Math.log2(WORKING_SIZE / extent));
+}
+
+function scaleRegion(region: Region, k: number): Region {
+  return region.map((contour) =>
+    contour.map(({ p0, p1, p2, p3, line }) => ({
+      p0: scale(p0, k),
+      p1: scale(p1, k),
+      p2: scale(p2, k),
+      p3: scale(p3, k),
+      line,
+    })),
+  );
+}
+
+// ============================================
+// Bézier helpers
+// ============================================
+
+function lineCurve(from: Point2D, to: Point2D): Curve {
+  return {
+    p0: from,
+    p1: lerp(from, to, 1 / 3),
+    p2: lerp(from, to, 2 / 3),
+    p3: to,
+    line: true,
+  };
+}
+
+function evaluate(c: Curve, t: number): Point2D {
+  const u = 1 - t;
+  return {
+    x: u * u * u * c.p0.x + 3 * u * u * t * c.p1.x + 3 * u * t * t * c.p2.x + t * t * t * c.p3.x,
+    y: u * u * u * c.p0.y + 3 * u * u * t * c.p1.y + 3 * u * t * t * c.p2.y + t * t * t * c.p3.y,
+  };
+}
+
+function derivative(c: Curve, t: number): Point2D {
+  const u = 1 - t;
+  return {
+    x: 3 * u * u * (c.p1.x - c.p0.x) + 6 * u * t * (c.p2.x - c.p1.x) + 3 * t * t * (c.p3.x - c.p2.x),
+    y: 3 * u * u * (c.p1.y - c.p0.y) + 6 * u * t * (c.p2.y - c.p1.y) + 3 * t * t * (c.p3.y - c.p2.y),
+  };
+}
+
+function splitCurve(c: Curve, t: number): [Curve, Curve] {
+  const a = lerp(c.p0, c.p1, t);
+  const b = lerp(c.p1, c.p2, t);
+  const d = lerp(c.p2, c.p3, t);
+  const e = lerp(a, b, t);
+  const f = lerp(b, d, t);
+  const mid = lerp(e, f, t);
+  return [
+    { p0: c.p0, p1: a, p2: e, p3: mid, line: c.line },
+    { p0: mid, p1: f, p2: d, p3: c.p3, line: c.line },
+  ];
+}
+
+function reverseCurve({ p0, p1, p2, p3, line }: Curve): Curve {
+  return { p0: p3, p1: p2, p2: p1, p3: p0, line };
+}
+
+function subCurve(c: Curve, t0: number, t1: number): Curve {
+  const head = t1 < 1 ? splitCurve(c, t1)[0] : c;
+  return t0 > 0 ? splitCurve(head, t0 / t1)[1] : head;
+}
+
+function isFlat(c: Curve): boolean {
+  return (
+    distanceToSegment(c.p1, c.p0, c.p3) < FLATNESS &&
+    distanceToSegment(c.p2, c.p0, c.p3) < FLATNESS
+  );
+}
+
+function isDegenerate(c: Curve): boolean {
+  return (
+    near(c.p0, c.p3) &&
+    Math.hypot(c.p1.x - c.p0.x, c.p1.y - c.p0.y) < JOIN_TOLERANCE &&
+    Math.hypot(c.p2.x - c.p0.x, c.p2.y - c.p0.y) < JOIN_TOLERANCE
+  );
+}
+
+function sameGeometry(a: Curve, b: Curve): boolean {
+  return (
+    near(a.p0, b.p0) &&
+    near(a.p3, b.p3) &&
+    near(evaluate(a, 0.5), evaluate(b, 0.5))
+  );
+}
+
+function curveBox(c: Curve) {
+  const xs = [c.p0.x, c.p1.x, c.p2.x, c.p3.x];
+  const ys = [c.p0.y, c.p1.y, c.p2.y, c.p3.y];
+  return {
+    minX: Math.min(...xs),
+    minY: Math.min(...ys),
+    maxX: Math.max(...xs),
+    maxY: Math.max(...ys),
+  };
+}
+
+function boxesOverlap(
+  a: ReturnType<typeof curveBox>,
+  b: ReturnType<typeof curveBox>,
+): boolean {
+  return (
+    a.minX <= b.maxX + JOIN_TOLERANCE &&
+    b.minX <= a.maxX + JOIN_TOLERANCE &&
+    a.minY <= b.maxY + JOIN_TOLERANCE &&
+    b.minY <= a.maxY + JOIN_TOLERANCE
+  );
+}
+
+function addNode(nodes: Point2D[], point: Point2D) {
+  if (!nodes.some((n) => near(n, point))) nodes.push(point);
+}
+
+function distanceToSegment(p: Point2D, a: Point2D, b: Point2D): number {
+  const ab = sub(b, a);
+  const len2 = dot(ab, ab);
+  if (len2 < 1e-18) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = clamp01(dot(sub(p, a), ab) / len2);
+  return Math.hypot(p.x - (a.x + ab.x * t), p.y - (a.y + ab.y * t));
+}
+
+function near(a: Point2D, b: Point2D): boolean {
+  return Math.abs(a.x - b.x) < JOIN_TOLERANCE && Math.abs(a.y - b.y) < JOIN_TOLERANCE;
+}
+
+function normalized(v: Point2D): Point2D | null {
+  const len = Math.hypot(v.x, v.y);
+  return len < 1e-12 ? null : { x: v.x / len, y: v.y / len };
+}
+
+function lerp(a: Point2D, b: Point2D, t: number): Point2D {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+function add(a: Point2D, b: Point2D): Point2D {
+  return { x: a.x + b.x, y: a.y + b.y };
+}
+
+function sub(a: Point2D, b: Point2D): Point2D {
+  return { x: a.x - b.x, y: a.y - b.y };
+}
+
+function scale(v: Point2D, k: number): Point2D {
+  return { x: v.x * k, y: v.y * k };
+}
+
+function dot(a: Point2D, b: Point2D): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function cross(a: Point2D, b: Point2D): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+function clamp01(t: number): number {
+  return Math.min(1, Math.max(0, t));
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { CubicBezierSegment } from "@/types/vector";
+import { arcToCubics, parsePathData, transformSegments } from "./pathData";
+
+describe("parsePathData", () => {
+  it("parses absolute and relative commands into absolute segments", () => {
+    const { segments, error } = parsePathData("M10 10 l5 0 h5 V20 H10 z");
+    expect(error).toBeUndefined();
+    expect(segments).toEqual([
+      { type: "M", x: 10, y: 10 },
+      { type: "L", x: 15, y: 10 },
+      { type: "L", x: 20, y: 10 },
+      { type: "L", x: 20, y: 20 },
+      { type: "L", x: 10, y: 20 },
+      { type: "Z" },
+    ]);
+  });
+
+  it("treats extra moveto pairs as linetos and reads packed numbers", () => {
+    const { segments } = parsePathData("m1-1 2.5.5-1e1,0");
+    expect(segments).toEqual([
+      { type: "M", x: 1, y: -1 },
+      { type: "L", x: 3.5, y: -0.5 },
+      { type: "L", x: -6.5, y: -0.5 },
+    ]);
+  });
+
+  it("reflects control points for S and T", () => {
+    const { segments } = parsePathData("M0 0 C0 10 10 10 10 0 S20 -10 20 0 Q25 5 30 0 T40 0");
+    expect(segments[2]).toMatchObject({ type: "C", cp1x: 10, cp1y: -10 });
+    expect(segments[4]).toMatchObject({ type: "Q", cpx: 35, cpy: -5, x: 40 });
+  });
+
+  it("converts arcs, including packed flags, to cubics ending on the target", () => {
+    const { segments, error } = parsePathData("M0 0 a10 10 0 0110 10");
+    expect(error).toBeUndefined();
+    const last = segments[segments.length - 1] as CubicBezierSegment;
+    expect(last.type).toBe("C");
+    expect(last.x).toBeCloseTo(10);
+    expect(last.y).toBeCloseTo(10);
+  });
+
+  it("keeps segments parsed before an error", () => {
+    const { segments, error } = parsePathData("M0 0 L10 10 L oops");
+    expect(segments).toHaveLength(2);
+    expect(error).toMatch(/argument for "L"/);
+  });
+});
+
+describe("arcToCubics", () => {
+  it("splits a half circle into two quarter curves on the circle", () => {
+    const curves = arcToCubics(
+      { x: -10, y: 0 },
+      { x: 10, y: 0 },
+      10,
+      10,
+      0,
+      false,
+      true,
+    ) as CubicBezierSegment[];
+    expect(curves).toHaveLength(2);
+    // Sweep flag 1 runs clockwise on screen — through the top of the circle
+    expect(curves[0].x).toBeCloseTo(0);
+    expect(curves[0].y).toBeCloseTo(-10);
+  });
+
+  it("falls back to a line for zero radii", () => {
+    expect(arcToCubics({ x: 0, y: 0 }, { x: 5, y: 5 }, 0, 10, 0, false, false)).toEqual([
+      { type: "L", x: 5, y: 5 },
+    ]);
+  });
+});
+
+describe("transformSegments", () => {
+  it("maps anchors and control points", () => {
+    const result = transformSegments(
+      [
+        { type: "M", x: 1, y: 2 },
+        { type: "Q", cpx: 3, cpy: 4, x: 5, y: 6 },
+        { type: "Z" },
+      ],
+      [2, 0, 0, 2, 10, 0],
+    );
+    expect(result).toEqual([
+      { type: "M", x: 12, y: 4 },
+      { type: "Q", cpx: 16, cpy: 8, x: 20, y: 12 },
+      { type: "Z" },
+    ]);
+  });
+});
@@ -0,0 +1,356 @@
+import type {
+  CubicBezierSegment,
+  PathSegment,
+  Point2D,
+  QuadraticBezierSegment,
+} from "@/types/vector";
+import { applyMatrix, type Matrix2D } from "./matrix";
+
+export interface ParsedPathData {
+  /** Absolute M/L/C/Q/Z segments */
+  segments: PathSegment[];
+  /** Set when parsing stopped early; `segments` holds everything before it */
+  error?: string;
+}
+
+/** Arguments per SVG path command */
+const ARG_COUNTS: Record<string, number> = {
+  m: 2,
+  l: 2,
+  h: 1,
+  v: 1,
+  c: 6,
+  s: 4,
+  q: 4,
+  t: 2,
+  a: 7,
+  z: 0,
+};
+
+const NUMBER_RE = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+
+/**
+ * Parse SVG path data (every command, absolute and relative) into our
+ * absolute segment types. H/V become L, S/T are expanded with their
+ * reflected control points, and arcs become cubic Béziers. Like browsers,
+ * stops at the first error and keeps what was parsed before it.
+ */
+export function parsePathData(d: string): ParsedPathData {
+  const segments: PathSegment[] = [];
+  const scanner = new PathScanner(d);
+
+  let current: Point2D = { x: 0, y: 0 };
+  let subpathStart: Point2D = { x: 0, y: 0 };
+  // Last control point, for S/T reflection
+  let lastCubic: Point2D | null = null;
+  let lastQuad: Point2D | null = null;
+  let command: string | null = null;
+
+  while (scanner.skipSeparators()) {
+    const next = scanner.peekCommand();
+    if (next) {
+      command = next;
+      scanner.advance();
+    } else if (!command || command.toLowerCase() === "z") {
+      return { segments, error: `Expected a command at ${scanner.position}` };
+    }
+
+    const cmd: string = command!;
+    const lower = cmd.toLowerCase();
+    const relative: boolean = cmd === lower;
+    const args: number[] = [];
+
+    for (let i = 0; i < ARG_COUNTS[lower]; i++) {
+      // Arc flags may be packed without separators ("a1 1 0 01 5 5")
+      const isFlag = lower === "a" && (i === 3 || i === 4);
+      const value = isFlag ? scanner.readFlag() : scanner.readNumber();
+      if (value === null) {
+        return {
+          segments,
+          error: `Bad or missing argument for "${cmd}" at ${scanner.position}`,
+        };
+      }
+      args.push(value);
+    }
+
+    const ox = relative ? current.x : 0;
+    const oy = relative ? current.y : 0;
+    let cubic: Point2D | null = null;
+    let quad: Point2D | null = null;
+
+    switch (lower) {
+      case "m": {
+        current = { x: ox + args[0], y: oy + args[1] };
+        subpathStart = current;
+        segments.push({ type: "M", ...current });
+        // Extra coordinate pairs after a moveto are implicit linetos
+        command = relative ? "l" : "L";
+        break;
+      }
+      case "l":
+        current = { x: ox + args[0], y: oy + args[1] };
+        segments.push({ type: "L", ...current });
+        break;
+      case "h":
+        current = { x: ox + args[0], y: current.y };
+        segments.push({ type: "L", ...current });
+        break;
+      case "v":
+        current = { x: current.x, y: oy + args[0] };
+        segments.push({ type: "L", ...current });
+        break;
+      case "c": {
+        const seg: CubicBezierSegment = {
+          type: "C",
+          cp1x: ox + args[0],
+          cp1y: oy + args[1],
+          cp2x: ox + args[2],
+          cp2y: oy + args[3],
+          x: ox + args[4],
+          y: oy + args[5],
+        };
+        segments.push(seg);
+        cubic = { x: seg.cp2x, y: seg.cp2y };
+        current = { x: seg.x, y: seg.y };
+        break;
+      }
+      case "s": {
+        const cp1: Point2D = lastCubic ? reflect(lastCubic, current) : current;
+        const seg: CubicBezierSegment = {
+          type: "C",
+          cp1x: cp1.x,
+          cp1y: cp1.y,
+          cp2x: ox + args[0],
+          cp2y: oy + args[1],
+          x: ox + args[2],
+          y: oy + args[3],
+        };
+        segments.push(seg);
+        cubic = { x: seg.cp2x, y: seg.cp2y };
+        current = { x: seg.x, y: seg.y };
+        break;
+      }
+      case "q": {
+        const seg: QuadraticBezierSegment = {
+          type: "Q",
+          cpx: ox + args[0],
+          cpy: oy + args[1],
+          x: ox + args[2],
+          y: oy + args[3],
+        };
+        segments.push(seg);
+        quad = { x: seg.cpx, y: seg.cpy };
+        current = { x: seg.x, y: seg.y };
+        break;
+      }
+      case "t": {
+        const cp: Point2D = lastQuad ? reflect(lastQuad, current) : current;
+        const seg: QuadraticBezierSegment = {
+          type: "Q",
+          cpx: cp.x,
+          cpy: cp.y,
+          x: ox + args[0],
+          y: oy + args[1],
+        };
+        segments.push(seg);
+        quad = cp;
+        current = { x: seg.x, y: seg.y };
+        break;
+      }
+      case "a": {
+        const end = { x: ox + args[5], y: oy + args[6] };
+        segments.push(
+          ...arcToCubics(
+            current,
+            end,
+            args[0],
+            args[1],
+            args[2],
+            args[3] !== 0,
+            args[4] !== 0,
+          ),
+        );
+        current = end;
+        break;
+      }
+      case "z":
+        segments.push({ type: "Z" });
+        current = subpathStart;
+        break;
+    }
+
+    lastCubic = cubic;
+    lastQuad = quad;
+  }
+
+  return { segments };
+}
+
+/**
+ * Convert an SVG elliptical arc (endpoint form) to cubic Béziers, one per
+ * quarter turn or less. Degenerate radii give a straight line.
+ */
+export function arcToCubics(
+  from: Point2D,
+  to: Point2D,
+  rx: number,
+  ry: number,
+  xAxisRotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+): PathSegment[] {
+  if (from.x === to.x && from.y === to.y) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [{ type: "L", x: to.x, y: to.y }];
+
+  // SVG 1.1 implementation notes F.6.5 — endpoint to center parameterization
+  const phi = (xAxisRotation * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cosPhi * dx + sinPhi * dy;
+  const y1 = -sinPhi * dx + cosPhi * dy;
+
+  // Scale up radii that are too small to span the endpoints
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    const s = Math.sqrt(lambda);
+    rx *= s;
+    ry *= s;
+  }
+
+  const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const coef =
+    (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+  const cx1 = (coef * rx * y1) / ry;
+  const cy1 = (-coef * ry * x1) / rx;
+  const cx = cosPhi * cx1 - sinPhi * cy1 + (from.x + to.x) / 2;
+  const cy = sinPhi * cx1 + cosPhi * cy1 + (from.y + to.y) / 2;
+
+  const theta1 = angleBetween(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angleBetween(
+    (x1 - cx1) / rx,
+    (y1 - cy1) / ry,
+    (-x1 - cx1) / rx,
+    (-y1 - cy1) / ry,
+  );
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+
+  const count = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+  const step = delta / count;
+  const k = (4 / 3) * Math.tan(step / 4);
+
+  const pointAt = (angle: number) => ({
+    x: cx + rx * Math.cos(angle) * cosPhi - ry * Math.sin(angle) * sinPhi,
+    y: cy + rx * Math.cos(angle) * sinPhi + ry * Math.sin(angle) * cosPhi,
+  });
+  const derivativeAt = (angle: number) => ({
+    x: -rx * Math.sin(angle) * cosPhi - ry * Math.cos(angle) * sinPhi,
+    y: -rx * Math.sin(angle) * sinPhi + ry * Math.cos(angle) * cosPhi,
+  });
+
+  const segments: PathSegment[] = [];
+  for (let i = 0; i < count; i++) {
+    const a1 = theta1 + i * step;
+    const a2 = a1 + step;
+    const p1 = pointAt(a1);
+    const p2 = i === count - 1 ? to : pointAt(a2);
+    const d1 = derivativeAt(a1);
+    const d2 = derivativeAt(a2);
+    segments.push({
+      type: "C",
+      cp1x: p1.x + k * d1.x,
+      cp1y: p1.y + k * d1.y,
+      cp2x: p2.x - k * d2.x,
+      cp2y: p2.y - k * d2.y,
+      x: p2.x,
+      y: p2.y,
+    });
+  }
+  return segments;
+}
+
+/** Map every point of `segments` through `m` (exact for Béziers) */
+export function transformSegments(
+  segments: PathSegment[],
+  m: Matrix2D,
+): PathSegment[] {
+  return segments.map((seg) => {
+    switch (seg.type) {
+      case "M":
+      case "L":
+        return { ...seg, ...applyMatrix(m, seg) };
+      case "C": {
+        const cp1 = applyMatrix(m, { x: seg.cp1x, y: seg.cp1y });
+        const cp2 = applyMatrix(m, { x: seg.cp2x, y: seg.cp2y });
+        return {
+          ...seg,
+          cp1x: cp1.x,
+          cp1y: cp1.y,
+          cp2x: cp2.x,
+          cp2y: cp2.y,
+          ...applyMatrix(m, seg),
+        };
+      }
+      case "Q": {
+        const cp = applyMatrix(m, { x: seg.cpx, y: seg.cpy });
+        return { ...seg, cpx: cp.x, cpy: cp.y, ...applyMatrix(m, seg) };
+      }
+      case "Z":
+        return seg;
+    }
+  });
+}
+
+function reflect(control: Point2D, about: Point2D): Point2D {
+  return { x: 2 * about.x - control.x, y: 2 * about.y - control.y };
+}
+
+function angleBetween(ux: number, uy: number, vx: number, vy: number): number {
+  const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+  const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+  return sign * Math.acos(Math.min(1, Math.max(-1, dot)));
+}
+
+class PathScanner {
+  position = 0;
+
+  constructor(private readonly text: string) {}
+
+  /** Skip whitespace and commas; false at end of input */
+  skipSeparators(): boolean {
+    while (this.position < this.text.length && /[\s,]/.test(this.text[this.position])) {
+      this.position++;
+    }
+    return this.position < this.text.length;
+  }
+
+  peekCommand(): string | null {
+    const ch = this.text[this.position];
+    return ch !== undefined && /[MmLlHhVvCcSsQqTtAaZz]/.test(ch) ? ch : null;
+  }
+
+  advance() {
+    this.position++;
+  }
+
+  readNumber(): number | null {
+    this.skipSeparators();
+    const match = NUMBER_RE.exec(this.text.slice(this.position));
+    if (!match) return null;
+    this.position += match[0].length;
+    return Number(match[0]);
+  }
+
+  readFlag(): number | null {
+    this.skipSeparators();
+    const ch = this.text[this.position];
+    if (ch !== "0" && ch !== "1") return null;
+    this.position++;
+    return Number(ch);
+  }
+}
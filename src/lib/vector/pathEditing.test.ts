@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type { PathSegment } from "@/types/vector";
+import {
+  deleteAnchors,
+  elevateQuadratics,
+  getPathAnchors,
+  insertAnchor,
+  moveAnchors,
+  moveHandle,
+  nearestSegmentPoint,
+  toggleSmooth,
+} from "./pathEditing";
+
+const polyline: PathSegment[] = [
+  { type: "M", x: 0, y: 0 },
+  { type: "L", x: 10, y: 0 },
+  { type: "L", x: 20, y: 0 },
+];
+
+const curve: PathSegment[] = [
+  { type: "M", x: 0, y: 0 },
+  { type: "C", cp1x: 0, cp1y: -10, cp2x: 10, cp2y: -10, x: 10, y: 0 },
+  { type: "C", cp1x: 10, cp1y: 10, cp2x: 20, cp2y: 10, x: 20, y: 0 },
+];
+
+describe("pathEditing", () => {
+  it("lists anchors with their handles", () => {
+    const anchors = getPathAnchors(curve);
+    expect(anchors.map((a) => a.index)).toEqual([0, 1, 2]);
+    expect(anchors[1]).toMatchObject({
+      inHandle: { x: 10, y: -10 },
+      outHandle: { x: 10, y: 10 },
+      smooth: true,
+    });
+    expect(anchors[0].smooth).toBe(false);
+  });
+
+  it("folds an explicit closing point into the start anchor", () => {
+    const closed: PathSegment[] = [
+      { type: "M", x: 0, y: 0 },
+      { type: "L", x: 10, y: 0 },
+      { type: "L", x: 0, y: 0 },
+      { type: "Z" },
+    ];
+    expect(getPathAnchors(closed).map((a) => a.index)).toEqual([0, 1]);
+
+    const moved = moveAnchors(closed, [0], 5, 5);
+    expect(moved[0]).toEqual({ type: "M", x: 5, y: 5 });
+    expect(moved[2]).toEqual({ type: "L", x: 5, y: 5 });
+  });
+
+  it("moves anchors together with their handles", () => {
+    const moved = moveAnchors(curve, [1], 0, 5);
+    expect(moved[1]).toMatchObject({ cp2x: 10, cp2y: -5, x: 10, y: 5 });
+    expect(moved[2]).toMatchObject({ cp1x: 10, cp1y: 15, x: 20, y: 0 });
+    expect(curve[1]).toMatchObject({ y: 0 });
+  });
+
+  it("mirrors the opposite handle of a smooth point", () => {
+    const dragged = moveHandle(curve, 1, "out", { x: 20, y: 10 }, true);
+    const anchor = getPathAnchors(dragged)[1];
+    expect(anchor.outHandle).toEqual({ x: 20, y: 10 });
+    expect(anchor.inHandle?.x).toBeCloseTo(10 - 10 / Math.SQRT2);
+    expect(anchor.inHandle?.y).toBeCloseTo(-10 / Math.SQRT2);
+    expect(anchor.smooth).toBe(true);
+
+    const broken = moveHandle(curve, 1, "out", { x: 20, y: 10 }, false);
+    expect(getPathAnchors(broken)[1].inHandle).toEqual({ x: 10, y: -10 });
+  });
+
+  it("inserts an anchor without changing a curve's shape", () => {
+    const { segments, index } = insertAnchor(curve, 1, 0.5);
+    expect(index).toBe(1);
+    expect(segments).toHaveLength(4);
+    expect(segments[1]).toMatchObject({ x: 5, y: -7.5 });
+    expect(segments[2]).toMatchObject({ x: 10, y: 0 });
+
+    const line = insertAnchor(polyline, 2, 0.5);
+    expect(line.segments[2]).toEqual({ type: "L", x: 15, y: 0 });
+  });
+
+  it("splits the implicit closing line", () => {
+    const triangle: PathSegment[] = [
+      { type: "M", x: 0, y: 0 },
+      { type: "L", x: 10, y: 0 },
+      { type: "L", x: 10, y: 10 },
+      { type: "Z" },
+    ];
+    const hit = nearestSegmentPoint(triangle, { x: 4, y: 6 });
+    expect(hit?.index).toBe(3);
+    const { segments } = insertAnchor(triangle, hit!.index, hit!.t);
+    expect(segments[3].type).toBe("L");
+    expect(segments[3]).toMatchObject({
+      x: expect.closeTo(5, 4),
+      y: expect.closeTo(5, 4),
+    });
+    expect(segments[4]).toEqual({ type: "Z" });
+  });
+
+  it("joins neighbours when deleting anchors", () => {
+    expect(deleteAnchors(polyline, [1])).toEqual([
+      { type: "M", x: 0, y: 0 },
+      { type: "L", x: 20, y: 0 },
+    ]);
+    expect(deleteAnchors(curve, [1])).toEqual([
+      { type: "M", x: 0, y: 0 },
+      { type: "C", cp1x: 0, cp1y: -10, cp2x: 20, cp2y: 10, x: 20, y: 0 },
+    ]);
+    expect(deleteAnchors(polyline, [0])).toEqual([
+      { type: "M", x: 10, y: 0 },
+      { type: "L", x: 20, y: 0 },
+    ]);
+    expect(deleteAnchors(polyline, [0, 1])).toEqual([]);
+  });
+
+  it("toggles between corner and smooth points", () => {
+    const smooth = toggleSmooth(polyline, 1);
+    const anchor = getPathAnchors(smooth)[1];
+    expect(anchor.smooth).toBe(true);
+    expect(anchor.inHandle?.x).toBeCloseTo(10 - 10 / 3);
+    expect(anchor.outHandle?.x).toBeCloseTo(10 + 10 / 3);
+
+    expect(toggleSmooth(smooth, 1)).toEqual(polyline);
+  });
+
+  it("converts quadratics to cubics", () => {
+    const [, seg] = elevateQuadratics([
+      { type: "M", x: 0, y: 0 },
+      { type: "Q", cpx: 15, cpy: 15, x: 30, y: 0 },
+    ]);
+    expect(seg).toEqual({
+      type: "C",
+      cp1x: 10,
+      cp1y: 10,
+      cp2x: 20,
+      cp2y: 10,
+      x: 30,
+      y: 0,
+    });
+  });
+});
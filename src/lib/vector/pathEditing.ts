@@ -0,0 +1,602 @@
+import type {
+  CubicBezierSegment,
+  PathSegment,
+  Point2D,
+} from "@/types/vector";
+
+/**
+ * Anchor-level editing of path segments (direct selection tool).
+ *
+ * An anchor is identified by the index of the segment that ends at it (the
+ * `M` for a subpath's first point). All points are in the path's local
+ * space. Functions return new segment arrays and never mutate their input.
+ */
+
+/** One editable point of a path */
+export interface PathAnchor {
+  /** Index of the segment ending at this anchor */
+  index: number;
+  x: number;
+  y: number;
+  /** Incoming control point — the cp2 of the segment ending here */
+  inHandle: Point2D | null;
+  /** Outgoing control point — the cp1 of the segment leaving here */
+  outHandle: Point2D | null;
+  /** Both handles present and pointing in opposite directions */
+  smooth: boolean;
+}
+
+export type HandleSide = "in" | "out";
+
+/** Nearest point on a path outline, for inserting anchors */
+export interface SegmentHit {
+  /** Segment index (a `Z` index means the implicit closing line) */
+  index: number;
+  t: number;
+  point: Point2D;
+  distance: number;
+}
+
+const EPSILON = 1e-6;
+const SMOOTH_TOLERANCE = 1e-3;
+const NEAREST_SAMPLES = 48;
+
+/**
+ * Convert quadratic segments to equivalent cubics so every curve has
+ * independent handles. Indices are unchanged.
+ */
+export function elevateQuadratics(segments: PathSegment[]): PathSegment[] {
+  const { starts } = analyzeSegments(segments);
+  return segments.map((seg, i) => {
+    if (seg.type !== "Q") return seg;
+    const p0 = starts[i];
+    return {
+      type: "C",
+      cp1x: p0.x + (2 / 3) * (seg.cpx - p0.x),
+      cp1y: p0.y + (2 / 3) * (seg.cpy - p0.y),
+      cp2x: seg.x + (2 / 3) * (seg.cpx - seg.x),
+      cp2y: seg.y + (2 / 3) * (seg.cpy - seg.y),
+      x: seg.x,
+      y: seg.y,
+    };
+  });
+}
+
+/**
+ * Editable anchors of a path. A closing point that coincides with its
+ * subpath start (`… L x0 y0 Z`) is folded into the start anchor so the two
+ * move together.
+ */
+export function getPathAnchors(segments: PathSegment[]): PathAnchor[] {
+  const twins = closingTwins(segments);
+  const hidden = new Set(twins.values());
+  const anchors: PathAnchor[] = [];
+
+  segments.forEach((seg, i) => {
+    if (seg.type === "Z" || hidden.has(i)) return;
+
+    const inSegment = seg.type === "M" ? segments[twins.get(i) ?? -1] : seg;
+    const next = segments[i + 1];
+    const inHandle = controlIn(inSegment);
+    const outHandle =
+      next?.type === "C" ? { x: next.cp1x, y: next.cp1y } : null;
+
+    anchors.push({
+      index: i,
+      x: seg.x,
+      y: seg.y,
+      inHandle,
+      outHandle,
+      smooth: isSmooth(seg, inHandle, outHandle),
+    });
+  });
+
+  return anchors;
+}
+
+/** Move anchors (with their handles) by a local-space offset */
+export function moveAnchors(
+  segments: PathSegment[],
+  indices: Iterable<number>,
+  dx: number,
+  dy: number,
+): PathSegment[] {
+  const twins = closingTwins(segments);
+  const moved = new Set<number>();
+  for (const i of indices) {
+    moved.add(i);
+    const twin = twins.get(i);
+    if (twin !== undefined) moved.add(twin);
+  }
+
+  const out = segments.map((seg) => ({ ...seg }));
+  for (const i of moved) {
+    const seg = out[i];
+    if (!seg || seg.type === "Z") continue;
+    seg.x += dx;
+    seg.y += dy;
+    if (seg.type === "C") {
+      seg.cp2x += dx;
+      seg.cp2y += dy;
+    } else if (seg.type === "Q") {
+      seg.cpx += dx;
+      seg.cpy += dy;
+    }
+    const next = out[i + 1];
+    if (next?.type === "C") {
+      next.cp1x += dx;
+      next.cp1y += dy;
+    }
+  }
+  return out;
+}
+
+/**
+ * Move one handle of an anchor. With `keepSmooth` the opposite handle is
+ * rotated to stay collinear (keeping its length), like dragging a smooth
+ * point's handle in other editors.
+ */
+export function moveHandle(
+  segments: PathSegment[],
+  index: number,
+  side: HandleSide,
+  to: Point2D,
+  keepSmooth: boolean,
+): PathSegment[] {
+  const anchor = segments[index];
+  if (!anchor || anchor.type === "Z") return segments;
+
+  const twin = closingTwins(segments).get(index);
+  const inIndex = anchor.type === "M" ? twin : index;
+  const outIndex = index + 1;
+  const out = segments.map((seg) => ({ ...seg }));
+  const inSeg = inIndex !== undefined ? out[inIndex] : undefined;
+  const outSeg = out[outIndex];
+
+  const setIn = (p: Point2D) => {
+    if (inSeg?.type === "C") {
+      inSeg.cp2x = p.x;
+      inSeg.cp2y = p.y;
+    }
+  };
+  const setOut = (p: Point2D) => {
+    if (outSeg?.type === "C") {
+      outSeg.cp1x = p.x;
+      outSeg.cp1y = p.y;
+    }
+  };
+
+  const opposite = side === "in" ? controlOut(outSeg) : controlIn(inSeg);
+  const setOpposite = side === "in" ? setOut : setIn;
+
+  if (side === "in") setIn(to);
+  else setOut(to);
+  if (keepSmooth && opposite) {
+    const length = Math.hypot(opposite.x - anchor.x, opposite.y - anchor.y);
+    const dx = anchor.x - to.x;
+    const dy = anchor.y - to.y;
+    const dragged = Math.hypot(dx, dy);
+    if (dragged > EPSILON) {
+      setOpposite({
+        x: anchor.x + (dx / dragged) * length,
+        y: anchor.y + (dy / dragged) * length,
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Remove anchors, joining their neighbours with one segment that keeps the
+ * outer handles. Subpaths left with a single point are dropped.
+ */
+export function deleteAnchors(
+  segments: PathSegment[],
+  indices: Iterable<number>,
+): PathSegment[] {
+  let out = segments.map((seg) => ({ ...seg }));
+  const sorted = Array.from(new Set(indices)).sort((a, b) => b - a);
+
+  for (const i of sorted) {
+    const seg = out[i];
+    if (!seg || seg.type === "Z") continue;
+    const { starts } = analyzeSegments(out);
+    const next = out[i + 1];
+    const nextIsDrawable = next !== undefined && next.type !== "M" && next.type !== "Z";
+
+    if (seg.type !== "M") {
+      if (nextIsDrawable) {
+        out.splice(i, 2, joinSegments(starts[i], seg, starts[i + 1], next));
+      } else {
+        out.splice(i, 1);
+      }
+      continue;
+    }
+
+    // First point of a subpath: the next anchor becomes the start
+    if (!nextIsDrawable) {
+      out.splice(i, next?.type === "Z" ? 2 : 1);
+      continue;
+    }
+    const twin = closingTwins(out).get(i);
+    if (twin !== undefined) {
+      out[twin] = joinSegments(starts[twin], out[twin], seg, next);
+    }
+    out.splice(i, 2, { type: "M", x: next.x, y: next.y });
+  }
+
+  out = dropEmptySubpaths(out);
+  return out;
+}
+
+/**
+ * Split segment `index` at parameter `t`, adding an anchor without
+ * changing the outline. A `Z` index splits the implicit closing line.
+ * Returns the new segments and the inserted anchor's index.
+ */
+export function insertAnchor(
+  segments: PathSegment[],
+  index: number,
+  t: number,
+): { segments: PathSegment[]; index: number } {
+  const elevated = elevateQuadratics(segments);
+  const seg = elevated[index];
+  const { starts, moveIndex } = analyzeSegments(elevated);
+  const out = [...elevated];
+  if (!seg || seg.type === "M") return { segments, index: -1 };
+
+  const p0 = starts[index];
+  if (seg.type === "Z") {
+    const move = elevated[moveIndex[index]];
+    if (!move || move.type !== "M") return { segments, index: -1 };
+    out.splice(index, 0, { type: "L", ...lerp(p0, move, t) });
+    return { segments: out, index };
+  }
+
+  if (seg.type === "L") {
+    out.splice(index, 0, { type: "L", ...lerp(p0, seg, t) });
+    return { segments: out, index };
+  }
+
+  // de Casteljau
+  if (seg.type !== "C") return { segments, index: -1 };
+  const p1 = { x: seg.cp1x, y: seg.cp1y };
+  const p2 = { x: seg.cp2x, y: seg.cp2y };
+  const a = lerp(p0, p1, t);
+  const b = lerp(p1, p2, t);
+  const c = lerp(p2, seg, t);
+  const d = lerp(a, b, t);
+  const e = lerp(b, c, t);
+  const mid = lerp(d, e, t);
+  out.splice(
+    index,
+    1,
+    cubic(a, d, mid),
+    cubic(e, c, { x: seg.x, y: seg.y }),
+  );
+  return { segments: out, index };
+}
+
+/**
+ * Toggle an anchor between smooth and corner. Smooth → corner retracts
+ * both handles; corner → smooth pulls out collinear handles along the
+ * neighbours' direction (a third of each neighbour's distance), turning
+ * adjacent lines into curves.
+ */
+export function toggleSmooth(
+  segments: PathSegment[],
+  index: number,
+): PathSegment[] {
+  const anchor = getPathAnchors(segments).find((a) => a.index === index);
+  if (!anchor) return segments;
+  const here = { x: anchor.x, y: anchor.y };
+
+  if (anchor.smooth) {
+    let out = moveHandle(segments, index, "in", here, false);
+    out = moveHandle(out, index, "out", here, false);
+    return straightenDegenerateCurves(out);
+  }
+
+  // Make sure the segments on both sides are cubics we can put handles on
+  let out = elevateQuadratics(segments);
+  const seg = out[index] as Exclude<PathSegment, { type: "Z" }>;
+  let inIndex = seg.type === "M" ? closingTwins(out).get(index) : index;
+  const outIndex = index + 1;
+
+  // A closed subpath whose start has no explicit closing point: make one
+  if (seg.type === "M" && inIndex === undefined) {
+    const close = findClose(out, index);
+    if (close !== undefined) {
+      out = [...out];
+      out.splice(close, 0, { type: "L", x: seg.x, y: seg.y });
+      inIndex = close;
+    }
+  }
+  // A closing line leaving this anchor: make it explicit too
+  if (out[outIndex]?.type === "Z" && seg.type !== "M") {
+    const { moveIndex } = analyzeSegments(out);
+    const move = out[moveIndex[index]];
+    if (move?.type === "M") {
+      out = [...out];
+      out.splice(outIndex, 0, { type: "L", x: move.x, y: move.y });
+    }
+  }
+
+  const { starts } = analyzeSegments(out);
+  const prev = inIndex !== undefined ? starts[inIndex] : null;
+  const nextSeg = out[outIndex];
+  const next =
+    nextSeg && nextSeg.type !== "M" && nextSeg.type !== "Z" ? nextSeg : null;
+
+  out = out.map((s, i) =>
+    s.type === "L" && (i === inIndex || (next && i === outIndex))
+      ? cubic(starts[i], { x: s.x, y: s.y }, { x: s.x, y: s.y })
+      : { ...s },
+  );
+
+  const direction = prev && next
+    ? normalize({ x: next.x - prev.x, y: next.y - prev.y })
+    : prev
+      ? normalize({ x: here.x - prev.x, y: here.y - prev.y })
+      : next
+        ? normalize({ x: next.x - here.x, y: next.y - here.y })
+        : null;
+  if (!direction) return out;
+
+  if (prev && inIndex !== undefined) {
+    const length = Math.hypot(here.x - prev.x, here.y - prev.y) / 3;
+    out = moveHandle(
+      out,
+      index,
+      "in",
+      { x: here.x - direction.x * length, y: here.y - direction.y * length },
+      false,
+    );
+  }
+  if (next) {
+    const length = Math.hypot(next.x - here.x, next.y - here.y) / 3;
+    out = moveHandle(
+      out,
+      index,
+      "out",
+      { x: here.x + direction.x * length, y: here.y + direction.y * length },
+      false,
+    );
+  }
+  return out;
+}
+
+/** Closest point on the outline (including closing lines) to `point` */
+export function nearestSegmentPoint(
+  segments: PathSegment[],
+  point: Point2D,
+): SegmentHit | null {
+  const { starts, moveIndex } = analyzeSegments(segments);
+  let best: SegmentHit | null = null;
+
+  segments.forEach((seg, i) => {
+    if (seg.type === "M") return;
+    const evaluate = segmentEvaluator(segments, i, starts[i], moveIndex[i]);
+    if (!evaluate) return;
+
+    const distanceAt = (t: number) => {
+      const p = evaluate(t);
+      return Math.hypot(p.x - point.x, p.y - point.y);
+    };
+
+    // Coarse sampling, then ternary refinement around the best sample
+    let bestT = 0;
+    let bestD = Infinity;
+    for (let k = 0; k <= NEAREST_SAMPLES; k++) {
+      const t = k / NEAREST_SAMPLES;
+      const d = distanceAt(t);
+      if (d < bestD) {
+        bestD = d;
+        bestT = t;
+      }
+    }
+    let lo = Math.max(0, bestT - 1 / NEAREST_SAMPLES);
+    let hi = Math.min(1, bestT + 1 / NEAREST_SAMPLES);
+    for (let k = 0; k < 24; k++) {
+      const m1 = lo + (hi - lo) / 3;
+      const m2 = hi - (hi - lo) / 3;
+      if (distanceAt(m1) < distanceAt(m2)) hi = m2;
+      else lo = m1;
+    }
+    const t = (lo + hi) / 2;
+    const d = distanceAt(t);
+    if (!best || d < best.distance) {
+      best = { index: i, t, point: evaluate(t), distance: d };
+    }
+  });
+
+  return best;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** Current point before each segment, and the `M` index of its subpath */
+function analyzeSegments(segments: PathSegment[]): {
+  starts: Point2D[];
+  moveIndex: number[];
+} {
+  const starts: Point2D[] = [];
+  const moveIndex: number[] = [];
+  let current: Point2D = { x: 0, y: 0 };
+  let subpathStart: Point2D = { x: 0, y: 0 };
+  let move = -1;
+
+  segments.forEach((seg, i) => {
+    starts.push(current);
+    if (seg.type === "M") {
+      move = i;
+      subpathStart = { x: seg.x, y: seg.y };
+    }
+    moveIndex.push(move);
+    current = seg.type === "Z" ? subpathStart : { x: seg.x, y: seg.y };
+  });
+
+  return { starts, moveIndex };
+}
+
+/** Index of the `Z` closing the subpath that starts at `moveAt` */
+function findClose(segments: PathSegment[], moveAt: number): number | undefined {
+  for (let i = moveAt + 1; i < segments.length; i++) {
+    if (segments[i].type === "M") return undefined;
+    if (segments[i].type === "Z") return i;
+  }
+  return undefined;
+}
+
+/** `M` index → index of a closing segment ending exactly on that `M` */
+function closingTwins(segments: PathSegment[]): Map<number, number> {
+  const twins = new Map<number, number>();
+  segments.forEach((seg, i) => {
+    if (seg.type !== "M") return;
+    const close = findClose(segments, i);
+    if (close === undefined || close - 1 <= i) return;
+    const last = segments[close - 1];
+    if (
+      last.type !== "M" &&
+      last.type !== "Z" &&
+      Math.abs(last.x - seg.x) < EPSILON &&
+      Math.abs(last.y - seg.y) < EPSILON
+    ) {
+      twins.set(i, close - 1);
+    }
+  });
+  return twins;
+}
+
+function controlIn(seg: PathSegment | undefined): Point2D | null {
+  if (seg?.type === "C") return { x: seg.cp2x, y: seg.cp2y };
+  if (seg?.type === "Q") return { x: seg.cpx, y: seg.cpy };
+  return null;
+}
+
+function controlOut(seg: PathSegment | undefined): Point2D | null {
+  return seg?.type === "C" ? { x: seg.cp1x, y: seg.cp1y } : null;
+}
+
+function isSmooth(
+  anchor: Point2D,
+  inHandle: Point2D | null,
+  outHandle: Point2D | null,
+): boolean {
+  if (!inHandle || !outHandle) return false;
+  const a = normalize({ x: anchor.x - inHandle.x, y: anchor.y - inHandle.y });
+  const b = normalize({ x: outHandle.x - anchor.x, y: outHandle.y - anchor.y });
+  if (!a || !b) return false;
+  return Math.abs(a.x * b.y - a.y * b.x) < SMOOTH_TOLERANCE && a.x * b.x + a.y * b.y > 0;
+}
+
+/**
+ * One segment from `startA` through the removed anchor's neighbours:
+ * keeps the first segment's cp1 and the second's cp2.
+ */
+function joinSegments(
+  startA: Point2D,
+  a: PathSegment,
+  startB: Point2D,
+  b: PathSegment,
+): PathSegment {
+  if (b.type === "M" || b.type === "Z") return b;
+  const [ca, cb] = elevateQuadratics([
+    { type: "M", ...startA },
+    a,
+    { type: "M", ...startB },
+    b,
+  ]).filter((_, i) => i % 2 === 1);
+  const end = { x: b.x, y: b.y };
+  if (ca.type !== "C" && cb.type !== "C") return { type: "L", ...end };
+  return cubic(
+    ca.type === "C" ? { x: ca.cp1x, y: ca.cp1y } : startA,
+    cb.type === "C" ? { x: cb.cp2x, y: cb.cp2y } : end,
+    end,
+  );
+}
+
+/** Turn cubics whose handles sit on their endpoints back into lines */
+function straightenDegenerateCurves(segments: PathSegment[]): PathSegment[] {
+  const { starts } = analyzeSegments(segments);
+  return segments.map((seg, i) => {
+    if (seg.type !== "C") return seg;
+    const p0 = starts[i];
+    const flat =
+      Math.hypot(seg.cp1x - p0.x, seg.cp1y - p0.y) < EPSILON &&
+      Math.hypot(seg.cp2x - seg.x, seg.cp2y - seg.y) < EPSILON;
+    return flat ? { type: "L", x: seg.x, y: seg.y } : seg;
+  });
+}
+
+function dropEmptySubpaths(segments: PathSegment[]): PathSegment[] {
+  return segments.filter((seg, i) => {
+    if (seg.type === "M") {
+      const next = segments[i + 1];
+      return next !== undefined && next.type !== "M" && next.type !== "Z";
+    }
+    if (seg.type === "Z") {
+      const prev = segments[i - 1];
+      return prev !== undefined && prev.type !== "M" && prev.type !== "Z";
+    }
+    return true;
+  });
+}
+
+function segmentEvaluator(
+  segments: PathSegment[],
+  index: number,
+  p0: Point2D,
+  moveAt: number,
+): ((t: number) => Point2D) | null {
+  const seg = segments[index];
+  switch (seg.type) {
+    case "L":
+      return (t) => lerp(p0, seg, t);
+    case "Z": {
+      const move = segments[moveAt];
+      return move?.type === "M" ? (t) => lerp(p0, move, t) : null;
+    }
+    case "Q":
+      return (t) => {
+        const u = 1 - t;
+        return {
+          x: u * u * p0.x + 2 * u * t * seg.cpx + t * t * seg.x,
+          y: u * u * p0.y + 2 * u * t * seg.cpy + t * t * seg.y,
+        };
+      };
+    case "C":
+      return (t) => {
+        const u = 1 - t;
+        return {
+          x: u * u * u * p0.x + 3 * u * u * t * seg.cp1x + 3 * u * t * t * seg.cp2x + t * t * t * seg.x,
+          y: u * u * u * p0.y + 3 * u * u * t * seg.cp1y + 3 * u * t * t * seg.cp2y + t * t * t * seg.y,
+        };
+      };
+    default:
+      return null;
+  }
+}
+
+function cubic(cp1: Point2D, cp2: Point2D, end: Point2D): CubicBezierSegment {
+  return {
+    type: "C",
+    cp1x: cp1.x,
+    cp1y: cp1.y,
+    cp2x: cp2.x,
+    cp2y: cp2.y,
+    x: end.x,
+    y: end.y,
+  };
+}
+
+function lerp(a: Point2D, b: Point2D, t: number): Point2D {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+function normalize(v: Point2D): Point2D | null {
+  const length = Math.hypot(v.x, v.y);
+  return length < EPSILON ? null : { x: v.x / length, y: v.y / length };
+}
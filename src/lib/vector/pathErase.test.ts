@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { createSolidFill, createStroke, createTransform } from "@/types/vector";
+import type { LineObject, RectangleObject } from "@/types/vector";
+import { splitSubpaths } from "./compoundPath";
+import { IDENTITY_MATRIX } from "./matrix";
+import { segmentsToRegion } from "./pathBoolean";
+import { brushSweepSegments, eraseObject } from "./pathErase";
+
+const base = {
+  name: "Shape",
+  transform: createTransform(),
+  opacity: 1,
+  visible: true,
+  locked: false,
+};
+
+const line: LineObject = {
+  ...base,
+  id: "line",
+  type: "line",
+  fill: null,
+  stroke: createStroke("#000000", 2),
+  endX: 100,
+  endY: 0,
+};
+
+function square(id: string, fill: boolean): RectangleObject {
+  return {
+    ...base,
+    id,
+    type: "rectangle",
+    fill: fill ? createSolidFill("#ff0000") : null,
+    stroke: createStroke(),
+    width: 100,
+    height: 100,
+    cornerRadius: [0, 0, 0, 0],
+  };
+}
+
+function brush(x0: number, y0: number, x1: number, y1: number, radius: number) {
+  return segmentsToRegion(
+    brushSweepSegments({ x: x0, y: y0 }, { x: x1, y: y1 }, radius),
+    IDENTITY_MATRIX,
+  );
+}
+
+let n = 0;
+const createId = () => `new${++n}`;
+
+describe("pathErase", () => {
+  it("builds a capsule along the sweep and a circle for a dab", () => {
+    const capsule = brushSweepSegments({ x: 0, y: 0 }, { x: 10, y: 0 }, 5);
+    expect(capsule[0]).toEqual({ type: "M", x: expect.closeTo(0), y: 5 });
+    expect(capsule.filter((s) => s.type === "C")).toHaveLength(4);
+    expect(capsule[4]).toMatchObject({ type: "L", x: 0, y: -5 });
+
+    const dab = brushSweepSegments({ x: 20, y: 30 }, { x: 20, y: 30 }, 5);
+    expect(dab[0]).toEqual({ type: "M", x: 25, y: 30 });
+  });
+
+  it("splits a stroke where the brush crosses it", () => {
+    const parts = eraseObject(line, brush(50, -20, 50, 20, 10), createId)!;
+    expect(parts).toHaveLength(2);
+    expect(parts[0]).toMatchObject({ id: "line", type: "path", fill: null, closed: false });
+    expect(parts[0].segments).toEqual([
+      { type: "M", x: 0, y: 0 },
+      { type: "L", x: expect.closeTo(40), y: 0 },
+    ]);
+    expect(parts[1].id).toBe("new1");
+    expect(parts[1].segments[0]).toEqual({ type: "M", x: expect.closeTo(60), y: 0 });
+  });
+
+  it("trims a stroke end and ignores brushes that miss", () => {
+    const parts = eraseObject(line, brush(100, 0, 100, 0, 10), createId)!;
+    expect(parts).toHaveLength(1);
+    expect(parts[0].segments[1]).toMatchObject({ x: expect.closeTo(90) });
+
+    expect(eraseObject(line, brush(50, 20, 60, 20, 5), createId)).toBeNull();
+    expect(eraseObject(line, brush(0, 0, 100, 0, 5), createId)).toEqual([]);
+  });
+
+  it("opens a closed outline at the cut", () => {
+    const parts = eraseObject(square("outline", false), brush(50, 0, 50, 0, 10), createId)!;
+    expect(parts).toHaveLength(1);
+    expect(parts[0].closed).toBe(false);
+    expect(parts[0].segments[0]).toEqual({ type: "M", x: expect.closeTo(60), y: 0 });
+    expect(parts[0].segments[parts[0].segments.length - 1]).toEqual({
+      type: "L",
+      x: expect.closeTo(40),
+      y: 0,
+    });
+  });
+
+  it("punches a hole in a filled shape", () => {
+    const parts = eraseObject(square("filled", true), brush(40, 50, 60, 50, 10), createId)!;
+    expect(parts).toHaveLength(1);
+    expect(parts[0]).toMatchObject({
+      id: "filled",
+      type: "path",
+      closed: true,
+      fillRule: "nonzero",
+      fill: { color: "#ff0000" },
+    });
+    expect(splitSubpaths(parts[0].segments)).toHaveLength(2);
+  });
+
+  it("cuts through a filled shape and erases it entirely", () => {
+    const halves = eraseObject(square("filled", true), brush(50, -20, 50, 120, 10), createId)!;
+    expect(splitSubpaths(halves[0].segments)).toHaveLength(2);
+
+    expect(eraseObject(square("filled", true), brush(50, 50, 50, 50, 100), createId)).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import type { PathObject, PathSegment, Point2D, VectorObject } from "@/types/vector";
+import { IDENTITY_MATRIX, translationMatrix } from "./matrix";
+import {
+  booleanRegions,
+  clipRuns,
+  isBooleanOperand,
+  regionToSegments,
+  regionsTouch,
+  runToSegments,
+  segmentsToRegion,
+  segmentsToRuns,
+  type Region,
+} from "./pathBoolean";
+import { transformSegments } from "./pathData";
+import {
+  ellipseSegments,
+  objectOutlineSegments,
+  quarterArc,
+  shapeToPath,
+} from "./shapeGeometry";
+
+/**
+ * Vector eraser: a round brush swept across objects cuts their strokes
+ * and punches holes in their fills, leaving editable paths behind.
+ */
+
+/**
+ * Outline of a round brush of `radius` swept from `from` to `to` — a
+ * capsule, or a circle when the points coincide.
+ */
+export function brushSweepSegments(
+  from: Point2D,
+  to: Point2D,
+  radius: number,
+): PathSegment[] {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  if (length < 1e-6) {
+    return transformSegments(
+      ellipseSegments(radius, radius),
+      translationMatrix(from.x, from.y),
+    );
+  }
+
+  const d = { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+  const n = { x: -d.y, y: d.x };
+  const back = { x: -d.x, y: -d.y };
+  const down = { x: -n.x, y: -n.y };
+  const at = (c: Point2D, u: Point2D) => ({ x: c.x + u.x * radius, y: c.y + u.y * radius });
+
+  const start = at(from, n);
+  return [
+    { type: "M", ...start },
+    { type: "L", ...at(to, n) },
+    quarterArc(to, n, d, radius),
+    quarterArc(to, d, down, radius),
+    { type: "L", ...at(from, down) },
+    quarterArc(from, down, back, radius),
+    quarterArc(from, back, n, radius),
+    { type: "Z" },
+  ];
+}
+
+/**
+ * What is left of an object once `brush` (in the object's local space) is
+ * erased from it. Filled shapes lose the area under the brush and become
+ * a path, compound when the brush leaves a hole. Anything else with a
+ * stroke is cut along its outline, each remaining piece becoming its own
+ * path; the first keeps the object's id. Returns null when the brush
+ * misses the object and an empty array when nothing is left.
+ */
+export function eraseObject(
+  object: VectorObject,
+  brush: Region,
+  createId: () => string,
+): PathObject[] | null {
+  const outline = objectOutlineSegments(object);
+  const path = object.type === "path" ? object : shapeToPath(object, object.id);
+  if (!outline || !path) return null;
+
+  if (object.fill && isBooleanOperand(object)) {
+    const region = segmentsToRegion(outline, IDENTITY_MATRIX);
+    if (!regionsTouch(region, brush)) return null;
+    const rest = booleanRegions(region, brush, "subtract", path.fillRule);
+    if (rest.length === 0) return [];
+    return [
+      {
+        ...path,
+        segments: regionToSegments(rest),
+        closed: true,
+        fillRule: "nonzero",
+      },
+    ];
+  }
+
+  if (!object.stroke) return null;
+  const runs = clipRuns(segmentsToRuns(outline, IDENTITY_MATRIX), brush);
+  if (!runs) return null;
+  return runs.map((run, i) => ({
+    ...path,
+    id: i === 0 ? object.id : createId(),
+    transform: { ...path.transform },
+    segments: runToSegments(run),
+    closed: run.closed,
+  }));
+}
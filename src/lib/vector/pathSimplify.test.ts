@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { PathSegment, Point2D } from "@/types/vector";
+import { countAnchors, fitCurve, simplifySegments } from "./pathSimplify";
+
+/** Points along each segment's curve, for measuring fit error */
+function sampleSegments(segments: PathSegment[]): Point2D[] {
+  const points: Point2D[] = [];
+  let current: Point2D = { x: 0, y: 0 };
+  for (const seg of segments) {
+    if (seg.type === "M") {
+      current = seg;
+      points.push(seg);
+    } else if (seg.type === "L") {
+      current = seg;
+      points.push(seg);
+    } else if (seg.type === "C") {
+      for (let k = 1; k <= 20; k++) {
+        const t = k / 20;
+        const s = 1 - t;
+        points.push({
+          x: s * s * s * current.x + 3 * s * s * t * seg.cp1x + 3 * s * t * t * seg.cp2x + t * t * t * seg.x,
+          y: s * s * s * current.y + 3 * s * s * t * seg.cp1y + 3 * s * t * t * seg.cp2y + t * t * t * seg.y,
+        });
+      }
+      current = seg;
+    }
+  }
+  return points;
+}
+
+const wave = Array.from({ length: 200 }, (_, i) => ({
+  x: i,
+  y: 20 * Math.sin(i / 15),
+}));
+
+describe("pathSimplify", () => {
+  it("fits a dense run with a few cubics within the tolerance", () => {
+    const segments = fitCurve(wave, 0.5);
+    expect(segments.length).toBeLessThan(12);
+    expect(segments[segments.length - 1]).toMatchObject({ x: 199 });
+    for (const p of sampleSegments([{ type: "M", x: 0, y: 0 }, ...segments])) {
+      expect(Math.abs(p.y - 20 * Math.sin(p.x / 15))).toBeLessThan(1);
+    }
+  });
+
+  it("fits straight runs as one line", () => {
+    const line = Array.from({ length: 50 }, (_, i) => ({ x: i * 2, y: i }));
+    expect(fitCurve(line, 0.5)).toEqual([{ type: "L", x: 98, y: 49 }]);
+  });
+
+  it("simplifies a path keeping its corners and closure", () => {
+    const square: PathSegment[] = [{ type: "M", x: 0, y: 0 }];
+    const corners = [
+      [100, 0],
+      [100, 100],
+      [0, 100],
+      [0, 0],
+    ];
+    let from = { x: 0, y: 0 };
+    for (const [x, y] of corners) {
+      for (let k = 1; k <= 20; k++) {
+        square.push({
+          type: "L",
+          x: from.x + ((x - from.x) * k) / 20,
+          y: from.y + ((y - from.y) * k) / 20,
+        });
+      }
+      from = { x, y };
+    }
+    square.push({ type: "Z" });
+
+    expect(simplifySegments(square, 0.5)).toEqual([
+      { type: "M", x: 0, y: 0 },
+      { type: "L", x: 100, y: 0 },
+      { type: "L", x: 100, y: 100 },
+      { type: "L", x: 0, y: 100 },
+      { type: "Z" },
+    ]);
+  });
+
+  it("refits curves and leaves already-minimal paths alone", () => {
+    const dense: PathSegment[] = [
+      { type: "M", x: wave[0].x, y: wave[0].y },
+      ...wave.slice(1).map((p) => ({ type: "L" as const, ...p })),
+    ];
+    const simplified = simplifySegments(dense, 0.5);
+    expect(countAnchors(dense)).toBe(200);
+    expect(countAnchors(simplified)).toBeLessThan(15);
+    expect(simplified[0]).toEqual({ type: "M", x: 0, y: 0 });
+
+    const minimal: PathSegment[] = [
+      { type: "M", x: 0, y: 0 },
+      { type: "C", cp1x: 10, cp1y: 20, cp2x: 30, cp2y: 20, x: 40, y: 0 },
+    ];
+    expect(simplifySegments(minimal, 0.5)).toBe(minimal);
+  });
+});
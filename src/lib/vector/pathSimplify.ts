@@ -0,0 +1,381 @@
+import type { PathSegment, Point2D } from "@/types/vector";
+import { splitSubpaths } from "./compoundPath";
+
+/**
+ * Path simplification by curve fitting (Schneider, "An Algorithm for
+ * Automatically Fitting Digitized Curves", Graphics Gems 1990). Points are
+ * fitted with as few cubic Béziers as keep every point within a distance
+ * tolerance; spans that fit a straight line come out as `L`.
+ */
+
+/** Turns sharper than this (radians) at an anchor are kept as corners */
+const CORNER_ANGLE = Math.PI / 4;
+/** Points sampled along each curve of a path being simplified */
+const CURVE_SAMPLES = 16;
+/** Newton reparameterization passes before splitting a span */
+const MAX_ITERATIONS = 4;
+
+/**
+ * Fit a smooth run of cubics (and lines where straight) through
+ * `points`, continuing from the first point. Closed runs end where they
+ * start and join it smoothly.
+ */
+export function fitCurve(
+  points: Point2D[],
+  tolerance: number,
+  closed = false,
+): PathSegment[] {
+  const pts = dedupe(closed ? [...points, points[0]] : points);
+  if (pts.length < 2) return [];
+
+  const last = pts.length - 1;
+  let startTangent = normalized(sub(pts[1], pts[0]));
+  let endTangent = normalized(sub(pts[last - 1], pts[last]));
+  if (closed && pts.length > 3) {
+    // Same tangent on both sides of the seam
+    startTangent = normalized(sub(pts[1], pts[last - 1]));
+    endTangent = scale(startTangent, -1);
+  }
+
+  const segments: PathSegment[] = [];
+  fitSpan(pts, 0, last, startTangent, endTangent, tolerance, segments);
+  return segments;
+}
+
+/**
+ * Refit every subpath of a path within `tolerance`. Sharp anchors stay
+ * corners; open and closed subpaths keep their form. Returns the input
+ * when fitting would not reduce the anchor count.
+ */
+export function simplifySegments(
+  segments: PathSegment[],
+  tolerance: number,
+): PathSegment[] {
+  const simplified = splitSubpaths(segments).flatMap((subpath) =>
+    simplifySubpath(subpath, tolerance),
+  );
+  return countAnchors(simplified) < countAnchors(segments) ? simplified : segments;
+}
+
+/** Anchor points in a path — one per drawing segment end, plus each start */
+export function countAnchors(segments: PathSegment[]): number {
+  return segments.filter((s) => s.type !== "Z").length;
+}
+
+// ============================================
+// Subpaths
+// ============================================
+
+function simplifySubpath(subpath: PathSegment[], tolerance: number): PathSegment[] {
+  const start = subpath[0] as Point2D;
+  const closed = subpath[subpath.length - 1].type === "Z";
+
+  // Dense points along the subpath, remembering which are anchors with
+  // a sharp turn
+  const points: Point2D[] = [{ x: start.x, y: start.y }];
+  const anchors: { index: number; tangentIn: Point2D; tangentOut: Point2D }[] = [];
+  let current = points[0];
+  const draw = (seg: PathSegment) => {
+    if (seg.type === "M" || seg.type === "Z") return;
+    const cubic = toCubic(current, seg);
+    for (let k = 1; k <= (seg.type === "L" ? 1 : CURVE_SAMPLES); k++) {
+      points.push(bezierPoint(cubic, k / (seg.type === "L" ? 1 : CURVE_SAMPLES)));
+    }
+    anchors.push({
+      index: points.length - 1,
+      tangentIn: normalized(sub(cubic[3], nearestDistinct(cubic, 3, -1))),
+      tangentOut: normalized(sub(nearestDistinct(cubic, 0, 1), cubic[0])),
+    });
+    current = cubic[3];
+  };
+  for (const seg of subpath.slice(1)) draw(seg);
+  if (closed && distance(current, start) > 1e-9) {
+    draw({ type: "L", x: start.x, y: start.y });
+  }
+  if (points.length < 2) return subpath;
+
+  // An anchor is a corner when the segment after it turns sharply
+  const isCorner = (a: number, b: number) => {
+    const into = anchors[a].tangentIn;
+    const out = anchors[b].tangentOut;
+    return Math.acos(Math.max(-1, Math.min(1, dot(into, out)))) > CORNER_ANGLE;
+  };
+  const corners: number[] = [];
+  for (let i = 0; i < anchors.length - 1; i++) {
+    if (isCorner(i, i + 1)) corners.push(anchors[i].index);
+  }
+  const seamIsCorner = closed && anchors.length > 1 && isCorner(anchors.length - 1, 0);
+
+  const out: PathSegment[] = [{ type: "M", x: start.x, y: start.y }];
+  if (closed && corners.length === 0 && !seamIsCorner) {
+    out.push(...fitCurve(points.slice(0, -1), tolerance, true));
+  } else {
+    // Fit corner to corner; a closed subpath with corners starts at one
+    let loop = points;
+    let cuts = corners;
+    if (closed && !seamIsCorner) {
+      const shift = corners[0];
+      loop = [...points.slice(shift), ...points.slice(1, shift + 1)];
+      cuts = corners.map((c) => c - shift).slice(1);
+      out[0] = { type: "M", x: loop[0].x, y: loop[0].y };
+    }
+    const bounds = [0, ...cuts, loop.length - 1];
+    for (let i = 0; i < bounds.length - 1; i++) {
+      out.push(...fitCurve(loop.slice(bounds[i], bounds[i + 1] + 1), tolerance));
+    }
+  }
+
+  if (closed) {
+    // A straight closing edge is implied by Z
+    if (out.length > 2 && out[out.length - 1].type === "L") out.pop();
+    out.push({ type: "Z" });
+  }
+  return out;
+}
+
+type Cubic = [Point2D, Point2D, Point2D, Point2D];
+
+function toCubic(from: Point2D, seg: PathSegment): Cubic {
+  switch (seg.type) {
+    case "C":
+      return [from, { x: seg.cp1x, y: seg.cp1y }, { x: seg.cp2x, y: seg.cp2y }, seg];
+    case "Q": {
+      const cp = { x: seg.cpx, y: seg.cpy };
+      return [from, lerp(from, cp, 2 / 3), lerp(seg, cp, 2 / 3), seg];
+    }
+    default: {
+      const to = seg as Point2D;
+      return [from, lerp(from, to, 1 / 3), lerp(from, to, 2 / 3), to];
+    }
+  }
+}
+
+/** First control point from `i` in direction `step` that differs from it */
+function nearestDistinct(c: Cubic, i: number, step: number): Point2D {
+  for (let k = i + step; k >= 0 && k < 4; k += step) {
+    if (distance(c[k], c[i]) > 1e-9) return c[k];
+  }
+  return c[i];
+}
+
+// ============================================
+// Fitting
+// ============================================
+
+function fitSpan(
+  d: Point2D[],
+  first: number,
+  last: number,
+  tHat1: Point2D,
+  tHat2: Point2D,
+  tolerance: number,
+  out: PathSegment[],
+): void {
+  if (isStraight(d, first, last, tolerance)) {
+    out.push({ type: "L", x: d[last].x, y: d[last].y });
+    return;
+  }
+
+  let u = chordLengthParameterize(d, first, last);
+  let bez = generateBezier(d, first, last, u, tHat1, tHat2);
+  let [maxError, split] = computeMaxError(d, first, last, bez, u);
+  if (maxError <= tolerance) {
+    out.push(cubicSegment(bez));
+    return;
+  }
+
+  // Close misses often converge with better parameters
+  if (maxError <= tolerance * 4) {
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+      u = reparameterize(d, first, last, u, bez);
+      bez = generateBezier(d, first, last, u, tHat1, tHat2);
+      [maxError, split] = computeMaxError(d, first, last, bez, u);
+      if (maxError <= tolerance) {
+        out.push(cubicSegment(bez));
+        return;
+      }
+    }
+  }
+
+  const tHatCenter = centerTangent(d, split);
+  fitSpan(d, first, split, tHat1, tHatCenter, tolerance, out);
+  fitSpan(d, split, last, scale(tHatCenter, -1), tHat2, tolerance, out);
+}
+
+function isStraight(d: Point2D[], first: number, last: number, tolerance: number): boolean {
+  for (let i = first + 1; i < last; i++) {
+    if (distanceToSegment(d[i], d[first], d[last]) > tolerance) return false;
+  }
+  return true;
+}
+
+/** Least-squares cubic with fixed end points and end tangent directions */
+function generateBezier(
+  d: Point2D[],
+  first: number,
+  last: number,
+  u: number[],
+  tHat1: Point2D,
+  tHat2: Point2D,
+): Cubic {
+  const p0 = d[first];
+  const p3 = d[last];
+  let c00 = 0;
+  let c01 = 0;
+  let c11 = 0;
+  let x0 = 0;
+  let x1 = 0;
+
+  u.forEach((t, i) => {
+    const b = bernstein(t);
+    const a1 = scale(tHat1, b[1]);
+    const a2 = scale(tHat2, b[2]);
+    c00 += dot(a1, a1);
+    c01 += dot(a1, a2);
+    c11 += dot(a2, a2);
+    const onChord = add(scale(p0, b[0] + b[1]), scale(p3, b[2] + b[3]));
+    const tmp = sub(d[first + i], onChord);
+    x0 += dot(a1, tmp);
+    x1 += dot(a2, tmp);
+  });
+
+  const det = c00 * c11 - c01 * c01;
+  let alpha1 = det === 0 ? 0 : (x0 * c11 - x1 * c01) / det;
+  let alpha2 = det === 0 ? 0 : (c00 * x1 - c01 * x0) / det;
+
+  // Fall back to the Wu/Barsky heuristic when the fit is degenerate
+  const segLength = distance(p0, p3);
+  if (alpha1 < segLength * 1e-6 || alpha2 < segLength * 1e-6) {
+    alpha1 = alpha2 = segLength / 3;
+  }
+  return [p0, add(p0, scale(tHat1, alpha1)), add(p3, scale(tHat2, alpha2)), p3];
+}
+
+/** One Newton step per point towards its closest parameter on `bez` */
+function reparameterize(
+  d: Point2D[],
+  first: number,
+  last: number,
+  u: number[],
+  bez: Cubic,
+): number[] {
+  return u.map((t, i) => {
+    const p = d[first + i];
+    const q = bezierPoint(bez, t);
+    const q1 = bezierDerivative(bez, t);
+    const q2 = bezierSecondDerivative(bez, t);
+    const numerator = dot(sub(q, p), q1);
+    const denominator = dot(q1, q1) + dot(sub(q, p), q2);
+    if (denominator === 0) return t;
+    return Math.max(0, Math.min(1, t - numerator / denominator));
+  });
+}
+
+function computeMaxError(
+  d: Point2D[],
+  first: number,
+  last: number,
+  bez: Cubic,
+  u: number[],
+): [number, number] {
+  let maxError = 0;
+  let split = Math.floor((last - first + 1) / 2) + first;
+  for (let i = first + 1; i < last; i++) {
+    const error = distance(bezierPoint(bez, u[i - first]), d[i]);
+    if (error >= maxError) {
+      maxError = error;
+      split = i;
+    }
+  }
+  return [maxError, split];
+}
+
+function chordLengthParameterize(d: Point2D[], first: number, last: number): number[] {
+  const u = [0];
+  for (let i = first + 1; i <= last; i++) {
+    u.push(u[u.length - 1] + distance(d[i], d[i - 1]));
+  }
+  const total = u[u.length - 1];
+  return u.map((x) => (total > 0 ? x / total : 0));
+}
+
+/** Backward-pointing tangent at an interior point */
+function centerTangent(d: Point2D[], center: number): Point2D {
+  return normalized(sub(d[center - 1], d[center + 1]));
+}
+
+function cubicSegment([, c1, c2, p3]: Cubic): PathSegment {
+  return { type: "C", cp1x: c1.x, cp1y: c1.y, cp2x: c2.x, cp2y: c2.y, x: p3.x, y: p3.y };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function dedupe(points: Point2D[]): Point2D[] {
+  return points.filter((p, i) => i === 0 || distance(p, points[i - 1]) > 1e-9);
+}
+
+function bernstein(t: number): [number, number, number, number] {
+  const s = 1 - t;
+  return [s * s * s, 3 * s * s * t, 3 * s * t * t, t * t * t];
+}
+
+function bezierPoint(c: Cubic, t: number): Point2D {
+  const b = bernstein(t);
+  return {
+    x: b[0] * c[0].x + b[1] * c[1].x + b[2] * c[2].x + b[3] * c[3].x,
+    y: b[0] * c[0].y + b[1] * c[1].y + b[2] * c[2].y + b[3] * c[3].y,
+  };
+}
+
+function bezierDerivative(c: Cubic, t: number): Point2D {
+  const s = 1 - t;
+  return add(
+    add(scale(sub(c[1], c[0]), 3 * s * s), scale(sub(c[2], c[1]), 6 * s * t)),
+    scale(sub(c[3], c[2]), 3 * t * t),
+  );
+}
+
+function bezierSecondDerivative(c: Cubic, t: number): Point2D {
+  const a = sub(add(c[2], c[0]), scale(c[1], 2));
+  const b = sub(add(c[3], c[1]), scale(c[2], 2));
+  return add(scale(a, 6 * (1 - t)), scale(b, 6 * t));
+}
+
+function distanceToSegment(p: Point2D, a: Point2D, b: Point2D): number {
+  const ab = sub(b, a);
+  const len2 = dot(ab, ab);
+  if (len2 === 0) return distance(p, a);
+  const t = Math.max(0, Math.min(1, dot(sub(p, a), ab) / len2));
+  return distance(p, add(a, scale(ab, t)));
+}
+
+function normalized(v: Point2D): Point2D {
+  const len = Math.hypot(v.x, v.y);
+  return len === 0 ? { x: 0, y: 0 } : { x: v.x / len, y: v.y / len };
+}
+
+function distance(a: Point2D, b: Point2D): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function lerp(a: Point2D, b: Point2D, t: number): Point2D {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+function add(a: Point2D, b: Point2D): Point2D {
+  return { x: a.x + b.x, y: a.y + b.y };
+}
+
+function sub(a: Point2D, b: Point2D): Point2D {
+  return { x: a.x - b.x, y: a.y - b.y };
+}
+
+function scale(v: Point2D, k: number): Point2D {
+  return { x: v.x * k, y: v.y * k };
+}
+
+function dot(a: Point2D, b: Point2D): number {
+  return a.x * b.x + a.y * b.y;
+}
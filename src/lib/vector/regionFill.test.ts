@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { createLayer, createSolidFill, createStroke, createTransform } from "@/types/vector";
+import type { GroupObject, LineObject, RectangleObject, VectorLayer } from "@/types/vector";
+import { buildRegionFill } from "./regionFill";
+
+const paint = createSolidFill("#00ff00");
+
+function line(id: string, x: number, y: number, endX: number, endY: number): LineObject {
+  return {
+    id,
+    type: "line",
+    name: id,
+    transform: createTransform(x, y),
+    fill: null,
+    stroke: createStroke(),
+    opacity: 1,
+    visible: true,
+    locked: false,
+    endX,
+    endY,
+  };
+}
+
+function layerWith(...objects: VectorLayer["objects"]): VectorLayer {
+  return { ...createLayer("layer-1", "Layer 1"), objects };
+}
+
+describe("regionFill", () => {
+  it("fills between strokes, beneath the lowest one", () => {
+    const group: GroupObject = {
+      ...line("g", 0, 0, 0, 0),
+      type: "group",
+      stroke: null,
+      transform: createTransform(0, 20),
+      children: [line("bottom", 0, 0, 20, 0)],
+    };
+    const layers = [
+      layerWith(
+        line("other", 100, 100, 10, 0),
+        line("top", 0, 0, 20, 0),
+        line("left", 0, 0, 0, 20),
+        group,
+        line("right", 20, 0, 0, 20),
+      ),
+    ];
+
+    const result = buildRegionFill(layers, { x: 10, y: 10 }, paint, 0, "new")!;
+    expect(result.location).toEqual({ layerId: "layer-1", parentId: null, index: 1 });
+    expect(result.path).toMatchObject({
+      id: "new",
+      name: "Fill",
+      fill: paint,
+      stroke: null,
+      closed: true,
+      transform: { x: 0, y: 0 },
+    });
+  });
+
+  it("skips hidden and locked geometry", () => {
+    const box: RectangleObject = {
+      ...line("box", 0, 0, 0, 0),
+      type: "rectangle",
+      fill: createSolidFill(),
+      width: 10,
+      height: 10,
+      cornerRadius: [0, 0, 0, 0],
+    };
+    const inside = { x: 5, y: 5 };
+    expect(buildRegionFill([layerWith(box)], inside, paint, 0, "f")).not.toBeNull();
+    expect(
+      buildRegionFill([layerWith({ ...box, visible: false })], inside, paint, 0, "f"),
+    ).toBeNull();
+    expect(
+      buildRegionFill([{ ...layerWith(box), locked: true }], inside, paint, 0, "f"),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import type {
+  Fill,
+  PathObject,
+  Point2D,
+  VectorLayer,
+  VectorObject,
+} from "@/types/vector";
+import { createTransform } from "@/types/vector";
+import { getPathBounds } from "./bounds";
+import {
+  IDENTITY_MATRIX,
+  matrixFromTransform,
+  multiplyMatrix,
+  translationMatrix,
+  type Matrix2D,
+} from "./matrix";
+import {
+  enclosedRegion,
+  regionToSegments,
+  segmentsToRegion,
+  segmentsToRuns,
+  type CurveRun,
+} from "./pathBoolean";
+import { transformSegments } from "./pathData";
+import type { ObjectLocation } from "./sceneGraph";
+import { objectOutlineSegments } from "./shapeGeometry";
+
+/**
+ * Paint-bucket fill for vector art: the area that visible outlines enclose
+ * around a point becomes a new filled path.
+ */
+
+export interface RegionFill {
+  path: PathObject;
+  /** Where the path goes — just beneath the lowest object bounding it */
+  location: ObjectLocation;
+}
+
+/**
+ * Fill the area around `point` (world space) that the outlines of objects
+ * on visible, unlocked layers enclose. Strokes count along their
+ * centerline; filled shapes along their closed outline. Gaps up to
+ * `gapTolerance` are bridged. Returns null when the point is not enclosed.
+ */
+export function buildRegionFill(
+  layers: VectorLayer[],
+  point: Point2D,
+  fill: Fill,
+  gapTolerance: number,
+  id: string,
+): RegionFill | null {
+  const runs: CurveRun[] = [];
+  const owners: ObjectLocation[] = [];
+
+  const visit = (obj: VectorObject, parent: Matrix2D, location: ObjectLocation) => {
+    if (!obj.visible) return;
+    const matrix = multiplyMatrix(parent, matrixFromTransform(obj.transform));
+    if (obj.type === "group") {
+      for (const child of obj.children) visit(child, matrix, location);
+      return;
+    }
+    const outline = objectOutlineSegments(obj);
+    if (!outline || (!obj.fill && !obj.stroke)) return;
+
+    // Filling closes open subpaths, so filled outlines bound as closed
+    const objectRuns = obj.fill
+      ? segmentsToRegion(outline, matrix).map((curves) => ({ curves, closed: true }))
+      : segmentsToRuns(outline, matrix);
+    for (const run of objectRuns) {
+      runs.push(run);
+      owners.push(location);
+    }
+  };
+
+  for (const layer of layers) {
+    if (!layer.visible || layer.locked) continue;
+    layer.objects.forEach((obj, index) =>
+      visit(obj, IDENTITY_MATRIX, { layerId: layer.id, parentId: null, index }),
+    );
+  }
+
+  const found = enclosedRegion(runs, point, gapTolerance);
+  if (!found || found.runs.length === 0) return null;
+
+  const segments = regionToSegments(found.region);
+  const origin = getPathBounds(segments);
+  return {
+    path: {
+      id,
+      type: "path",
+      name: "Fill",
+      transform: createTransform(origin.x, origin.y),
+      fill,
+      stroke: null,
+      opacity: 1,
+      visible: true,
+      locked: false,
+      segments: transformSegments(segments, translationMatrix(-origin.x, -origin.y)),
+      closed: true,
+      fillRule: "nonzero",
+    },
+    // Runs are in paint order, so the first bounding run is the lowest
+    location: owners[found.runs[0]],
+  };
+}
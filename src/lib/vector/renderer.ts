@@ -2,6 +2,7 @@ import type {
   VectorObject,
   VectorLayer,
   Fill,
+  FillRule,
   StrokeStyle,
   Transform2D,
   PathObject,
@@ -14,11 +15,24 @@ import type {
   ImageObject,
   BoundingBox,
   Point2D,
+  PathSegment,
 } from "@/types/vector";
+import { getLocalBounds, getWorldBounds, mergeBounds } from "./bounds";
+import { MIN_GRID_LINE_GAP } from "./grid";
+import { skewMatrix } from "./matrix";
+import { collectObjectsInWorldSpace } from "./sceneGraph";
+import {
+  ellipseSegments,
+  polygonSegments,
+  roundedRectSegments,
+} from "./shapeGeometry";
+import type { SnapGuide } from "./snapping";
 
 /** Dispatched when a raster image finishes decoding (legacy imports) */
 export const OPENPAINT_IMAGE_LOADED = "openpaint-image-loaded";
 
+const SNAP_GUIDE_COLOR = "#ff00ff";
+
 const imageCache = new Map<string, HTMLImageElement>();
 
 function getCachedImage(src: string): HTMLImageElement {
@@ -49,6 +63,12 @@ export interface RenderOptions {
   showGrid?: boolean;
   /** Grid spacing in pixels */
   gridSize?: number;
+  /** Minor lines per grid cell, drawn fainter */
+  gridSubdivisions?: number;
+  /** Grid line color */
+  gridColor?: string;
+  /** View zoom: keeps grid lines one screen pixel wide and thins out dense ones */
+  zoom?: number;
 }
 
 /**
@@ -66,7 +86,11 @@ export function renderScene(
 
   // Draw grid if enabled
   if (options.showGrid && options.gridSize) {
-    drawGrid(ctx, canvasWidth, canvasHeight, options.gridSize);
+    drawGrid(ctx, canvasWidth, canvasHeight, options.gridSize, {
+      subdivisions: options.gridSubdivisions ?? 1,
+      color: options.gridColor ?? "#000000",
+      zoom: options.zoom ?? 1,
+    });
   }
 
   // Render layers bottom-to-top
@@ -100,15 +124,86 @@ export function renderSelectionOverlay(
   if (selectedIds.length === 0) return;
 
   const selectedSet = new Set(selectedIds);
+  // Several objects resize as one: handles go on their merged bounds
+  const single = selectedIds.length === 1;
 
   for (const layer of layers) {
     if (!layer.visible) continue;
     for (const obj of layer.objects) {
-      renderSelectionForObject(ctx, obj, selectedSet);
+      renderSelectionForObject(ctx, obj, selectedSet, single);
+    }
+  }
+
+  if (!single) {
+    const selected = collectObjectsInWorldSpace(
+      layers.filter((layer) => layer.visible),
+      selectedSet,
+    );
+    if (selected.length > 0) {
+      drawSelectionFrame(ctx, mergeBounds(selected.map(getWorldBounds)), true);
     }
   }
 }
 
+/**
+ * Render smart guides in magenta: alignment lines, and spacing gaps with
+ * their distance. Sized in screen pixels at `zoom`.
+ */
+export function renderSnapGuides(
+  ctx: CanvasRenderingContext2D,
+  guides: SnapGuide[],
+  zoom: number,
+): void {
+  if (guides.length === 0) return;
+
+  const px = 1 / zoom;
+  ctx.save();
+  ctx.strokeStyle = SNAP_GUIDE_COLOR;
+  ctx.fillStyle = SNAP_GUIDE_COLOR;
+  ctx.lineWidth = px;
+  ctx.setLineDash([]);
+  ctx.font = `${11 * px}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  for (const guide of guides) {
+    ctx.beginPath();
+    if (guide.kind === "line") {
+      if (guide.axis === "x") {
+        ctx.moveTo(guide.value, guide.from);
+        ctx.lineTo(guide.value, guide.to);
+      } else {
+        ctx.moveTo(guide.from, guide.value);
+        ctx.lineTo(guide.to, guide.value);
+      }
+      ctx.stroke();
+      continue;
+    }
+
+    // Gap: measure line with end ticks and a distance label
+    const tick = 4 * px;
+    const along = (t: number, offset: number): [number, number] =>
+      guide.axis === "x" ? [t, guide.at + offset] : [guide.at + offset, t];
+    ctx.moveTo(...along(guide.start, 0));
+    ctx.lineTo(...along(guide.end, 0));
+    for (const t of [guide.start, guide.end]) {
+      ctx.moveTo(...along(t, -tick));
+      ctx.lineTo(...along(t, tick));
+    }
+    ctx.stroke();
+
+    const label = String(Math.round(guide.end - guide.start));
+    const [lx, ly] = along((guide.start + guide.end) / 2, 0);
+    const width = ctx.measureText(label).width + 6 * px;
+    const height = 14 * px;
+    ctx.fillRect(lx - width / 2, ly - height / 2, width, height);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(label, lx, ly);
+    ctx.fillStyle = SNAP_GUIDE_COLOR;
+  }
+  ctx.restore();
+}
+
 /**
  * Render a single vector object
  */
@@ -156,15 +251,7 @@ function renderRectangle(
   obj: RectangleObject,
 ): void {
   ctx.beginPath();
-
-  const [tl, tr, br, bl] = obj.cornerRadius;
-  const hasRadius = tl > 0 || tr > 0 || br > 0 || bl > 0;
-
-  if (hasRadius) {
-    ctx.roundRect(0, 0, obj.width, obj.height, [tl, tr, br, bl]);
-  } else {
-    ctx.rect(0, 0, obj.width, obj.height);
-  }
+  traceSegments(ctx, roundedRectSegments(obj.width, obj.height, obj.cornerRadius));
 
   applyFill(ctx, obj.fill);
   applyStroke(ctx, obj.stroke);
@@ -175,7 +262,7 @@ function renderEllipse(
   obj: EllipseObject,
 ): void {
   ctx.beginPath();
-  ctx.ellipse(0, 0, obj.radiusX, obj.radiusY, 0, 0, Math.PI * 2);
+  traceSegments(ctx, ellipseSegments(obj.radiusX, obj.radiusY));
 
   applyFill(ctx, obj.fill);
   applyStroke(ctx, obj.stroke);
@@ -185,7 +272,7 @@ function renderPath(ctx: CanvasRenderingContext2D, obj: PathObject): void {
   ctx.beginPath();
   buildPath(ctx, obj);
 
-  applyFill(ctx, obj.fill);
+  applyFill(ctx, obj.fill, obj.fillRule);
   applyStroke(ctx, obj.stroke);
 }
 
@@ -203,7 +290,7 @@ function renderPolygon(
   obj: PolygonObject,
 ): void {
   ctx.beginPath();
-  buildPolygonPath(ctx, obj.sides, obj.radius);
+  traceSegments(ctx, polygonSegments(obj.sides, obj.radius));
 
   applyFill(ctx, obj.fill);
   applyStroke(ctx, obj.stroke);
@@ -244,6 +331,7 @@ function renderSelectionForObject(
   ctx: CanvasRenderingContext2D,
   obj: VectorObject,
   selectedSet: Set<string>,
+  withHandles: boolean,
 ): void {
   if (!obj.visible) return;
 
@@ -251,24 +339,36 @@ function renderSelectionForObject(
     ctx.save();
     applyTransform(ctx, obj.transform);
     for (const child of obj.children) {
-      renderSelectionForObject(ctx, child, selectedSet);
+      renderSelectionForObject(ctx, child, selectedSet, withHandles);
     }
     ctx.restore();
   }
 
   if (!selectedSet.has(obj.id)) return;
 
-  const bounds = getLocalBoundsForSelection(obj);
-
   ctx.save();
   applyTransform(ctx, obj.transform);
+  drawSelectionFrame(ctx, getLocalBoundsForSelection(obj), withHandles);
+  ctx.restore();
+}
 
-  // Selection outline
+/** Selection outline, with the 8 resize handles when `withHandles` */
+function drawSelectionFrame(
+  ctx: CanvasRenderingContext2D,
+  bounds: BoundingBox,
+  withHandles: boolean,
+): void {
+  ctx.save();
   ctx.strokeStyle = "#2563eb";
   ctx.lineWidth = 1.5;
   ctx.setLineDash([]);
   ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
 
+  if (!withHandles) {
+    ctx.restore();
+    return;
+  }
+
   // Resize handles (8 points)
   const handleSize = 6;
   const handles = getHandlePositions(bounds);
@@ -301,6 +401,9 @@ function applyTransform(ctx: CanvasRenderingContext2D, t: Transform2D): void {
   if (t.rotation !== 0) {
     ctx.rotate((t.rotation * Math.PI) / 180);
   }
+  if (t.skewX !== 0 || t.skewY !== 0) {
+    ctx.transform(...skewMatrix(t.skewX, t.skewY));
+  }
   if (t.scaleX !== 1 || t.scaleY !== 1) {
     ctx.scale(t.scaleX, t.scaleY);
   }
@@ -367,10 +470,11 @@ function setStrokeStyle(
 function applyFill(
   ctx: CanvasRenderingContext2D,
   fill: Fill | null,
+  fillRule: FillRule = "nonzero",
 ): void {
   if (!fill) return;
   setFillStyle(ctx, fill);
-  ctx.fill();
+  ctx.fill(fillRule);
 }
 
 function applyStroke(
@@ -389,7 +493,14 @@ export function buildPath(
   ctx: CanvasRenderingContext2D,
   obj: PathObject,
 ): void {
-  for (const seg of obj.segments) {
+  traceSegments(ctx, obj.segments);
+}
+
+function traceSegments(
+  ctx: CanvasRenderingContext2D,
+  segments: PathSegment[],
+): void {
+  for (const seg of segments) {
     switch (seg.type) {
       case "M":
         ctx.moveTo(seg.x, seg.y);
@@ -417,31 +528,6 @@ export function buildPath(
   }
 }
 
-/**
- * Build a regular polygon path
- */
-function buildPolygonPath(
-  ctx: CanvasRenderingContext2D,
-  sides: number,
-  radius: number,
-): void {
-  const angleStep = (Math.PI * 2) / sides;
-  // Start from top (−π/2)
-  const startAngle = -Math.PI / 2;
-
-  for (let i = 0; i < sides; i++) {
-    const angle = startAngle + i * angleStep;
-    const x = radius * Math.cos(angle);
-    const y = radius * Math.sin(angle);
-    if (i === 0) {
-      ctx.moveTo(x, y);
-    } else {
-      ctx.lineTo(x, y);
-    }
-  }
-  ctx.closePath();
-}
-
 /**
  * Convert hex color to rgba string with opacity
  */
@@ -502,7 +588,7 @@ function getLocalBoundsForSelection(obj: VectorObject): BoundingBox {
         height: obj.fontSize * obj.lineHeight,
       };
     case "group":
-      return { x: 0, y: 0, width: 0, height: 0 };
+      return getLocalBounds(obj);
     case "image":
       return { x: 0, y: 0, width: obj.width, height: obj.height };
   }
@@ -529,27 +615,58 @@ function getHandlePositions(bounds: BoundingBox): Point2D[] {
 }
 
 /**
- * Draw a grid overlay
+ * Draw a grid overlay: major lines every `gridSize`, fainter minor lines
+ * between them. Lines that would sit closer than MIN_GRID_LINE_GAP screen
+ * pixels are skipped so zoomed-out grids don't turn solid.
  */
 function drawGrid(
   ctx: CanvasRenderingContext2D,
   width: number,
   height: number,
   gridSize: number,
+  { subdivisions, color, zoom }: { subdivisions: number; color: string; zoom: number },
 ): void {
   ctx.save();
-  ctx.strokeStyle = "rgba(0,0,0,0.08)";
-  ctx.lineWidth = 0.5;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1 / zoom;
+
+  const minor = gridSize / Math.max(1, Math.round(subdivisions));
+  if (minor < gridSize && minor * zoom >= MIN_GRID_LINE_GAP) {
+    ctx.globalAlpha = 0.2;
+    strokeGridLines(ctx, width, height, minor, gridSize);
+  }
+  if (gridSize * zoom >= MIN_GRID_LINE_GAP) {
+    ctx.globalAlpha = 0.5;
+    strokeGridLines(ctx, width, height, gridSize, null);
+  }
+  ctx.restore();
+}
 
+/** Strokes lines every `step`, leaving out multiples of `skip` */
+function strokeGridLines(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  step: number,
+  skip: number | null,
+): void {
+  const onSkipped = (v: number) => {
+    if (skip === null) return false;
+    const r = v / skip;
+    return Math.abs(r - Math.round(r)) < 1e-6;
+  };
   ctx.beginPath();
-  for (let x = gridSize; x < width; x += gridSize) {
+  for (let i = 1; i * step < width; i++) {
+    const x = i * step;
+    if (onSkipped(x)) continue;
     ctx.moveTo(x, 0);
     ctx.lineTo(x, height);
   }
-  for (let y = gridSize; y < height; y += gridSize) {
+  for (let i = 1; i * step < height; i++) {
+    const y = i * step;
+    if (onSkipped(y)) continue;
     ctx.moveTo(0, y);
     ctx.lineTo(width, y);
   }
   ctx.stroke();
-  ctx.restore();
 }
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { localToWorld } from "./bounds";
+import {
+  angleAround,
+  inRotateZone,
+  normalizeAngle,
+  rotateTransform,
+  snapAngle,
+} from "./rotation";
+
+describe("rotation", () => {
+  it("rotates a transform around a pivot as a rigid motion", () => {
+    const transform = { x: 10, y: 0, rotation: 170, skewX: 20, skewY: -10, scaleX: 2, scaleY: -1 };
+    const pivot = { x: 20, y: 20 };
+    const rotated = rotateTransform(transform, pivot, 30);
+    expect(rotated.rotation).toBeCloseTo(-160);
+    expect(rotated.scaleY).toBe(-1);
+
+    // Every local point turns 30° around the pivot
+    const point = { x: 3, y: 4 };
+    const before = localToWorld(point, transform);
+    const after = localToWorld(point, rotated);
+    expect(angleAround(pivot, after) - angleAround(pivot, before)).toBeCloseTo(30);
+    expect(Math.hypot(after.x - pivot.x, after.y - pivot.y)).toBeCloseTo(
+      Math.hypot(before.x - pivot.x, before.y - pivot.y),
+    );
+  });
+
+  it("snaps and wraps angles", () => {
+    expect(snapAngle(22)).toBe(15);
+    expect(snapAngle(23)).toBe(30);
+    expect(normalizeAngle(190)).toBe(-170);
+    expect(normalizeAngle(-180)).toBe(180);
+  });
+
+  it("finds the rotate zones just outside the corners", () => {
+    const bounds = { x: 0, y: 0, width: 100, height: 50 };
+    expect(inRotateZone({ x: -8, y: -8 }, bounds)).toBe(true);
+    expect(inRotateZone({ x: 110, y: 45 }, bounds)).toBe(true);
+    expect(inRotateZone({ x: 5, y: 5 }, bounds)).toBe(false);
+    expect(inRotateZone({ x: 50, y: -8 }, bounds)).toBe(false);
+    expect(inRotateZone({ x: -30, y: -8 }, bounds)).toBe(false);
+  });
+});
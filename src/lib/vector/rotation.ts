@@ -0,0 +1,76 @@
+import type { BoundingBox, Point2D, Transform2D } from "@/types/vector";
+
+/**
+ * Rotating selections around a pivot, and where the on-canvas rotation
+ * controls sit around the selection bounds.
+ */
+
+/** Distance (px) above the top edge of the selection to the rotation handle */
+export const ROTATION_HANDLE_OFFSET = 24;
+/** How far (px) the rotate zones reach outside each corner */
+export const ROTATE_ZONE_SIZE = 16;
+/** Angle step (degrees) while Shift is held */
+export const ROTATION_SNAP_STEP = 15;
+
+export function boundsCenter(bounds: BoundingBox): Point2D {
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+}
+
+/** The round handle on a stem above the top-center of the bounds */
+export function rotationHandlePosition(bounds: BoundingBox): Point2D {
+  return { x: bounds.x + bounds.width / 2, y: bounds.y - ROTATION_HANDLE_OFFSET };
+}
+
+/**
+ * Whether `point` lies in one of the square zones just outside the corners
+ * of `bounds`, where dragging rotates rather than resizes or moves.
+ */
+export function inRotateZone(point: Point2D, bounds: BoundingBox): boolean {
+  const right = bounds.x + bounds.width;
+  const bottom = bounds.y + bounds.height;
+  const outsideX = point.x < bounds.x || point.x > right;
+  const outsideY = point.y < bounds.y || point.y > bottom;
+  if (!outsideX && !outsideY) return false;
+
+  const dx = Math.min(Math.abs(point.x - bounds.x), Math.abs(point.x - right));
+  const dy = Math.min(Math.abs(point.y - bounds.y), Math.abs(point.y - bottom));
+  return dx <= ROTATE_ZONE_SIZE && dy <= ROTATE_ZONE_SIZE;
+}
+
+/** Direction (degrees, clockwise on screen) from `pivot` to `point` */
+export function angleAround(pivot: Point2D, point: Point2D): number {
+  return (Math.atan2(point.y - pivot.y, point.x - pivot.x) * 180) / Math.PI;
+}
+
+/** Wrap an angle into (-180, 180] */
+export function normalizeAngle(degrees: number): number {
+  const wrapped = ((degrees % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
+
+export function snapAngle(degrees: number, step = ROTATION_SNAP_STEP): number {
+  return Math.round(degrees / step) * step;
+}
+
+/**
+ * `transform` rotated by `degrees` around `pivot` (both in the space the
+ * transform places the object in): the origin swings around the pivot and
+ * the object's own rotation turns by the same amount.
+ */
+export function rotateTransform(
+  transform: Transform2D,
+  pivot: Point2D,
+  degrees: number,
+): Transform2D {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = transform.x - pivot.x;
+  const dy = transform.y - pivot.y;
+  return {
+    ...transform,
+    x: pivot.x + dx * cos - dy * sin,
+    y: pivot.y + dx * sin + dy * cos,
+    rotation: normalizeAngle(transform.rotation + degrees),
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+  documentToView,
+  rulerStep,
+  rulerTicks,
+  viewToDocument,
+  type ViewTransform,
+} from "./rulers";
+
+const view: ViewTransform = {
+  zoom: 2,
+  pan: { x: 10, y: 0 },
+  canvasSize: { width: 400, height: 300 },
+  viewport: { width: 1000, height: 600 },
+};
+
+describe("rulers", () => {
+  it("maps document coordinates to the viewport and back", () => {
+    // Artboard center sits at the viewport center, shifted by the pan
+    expect(documentToView(200, "x", view)).toBe(520);
+    expect(documentToView(0, "y", view)).toBe(0);
+    expect(viewToDocument(520, "x", view)).toBe(200);
+    expect(viewToDocument(documentToView(37, "y", view), "y", view)).toBe(37);
+  });
+
+  it("labels ticks at 1-2-5 steps at least 50 screen px apart", () => {
+    expect(rulerStep(1)).toBe(50);
+    expect(rulerStep(2)).toBe(50);
+    expect(rulerStep(0.3)).toBe(200);
+    expect(rulerStep(10)).toBe(5);
+  });
+
+  it("lists minor and major ticks across the ruler", () => {
+    const ticks = rulerTicks("y", 100, view);
+    expect(ticks[0]).toEqual({ value: 0, major: true });
+    expect(ticks.filter((t) => t.major).map((t) => t.value)).toEqual([0, 50]);
+    expect(ticks).toHaveLength(6);
+  });
+});
@@ -0,0 +1,79 @@
+import type { Point, Size } from "@/types";
+
+/**
+ * Rulers: mapping between document coordinates and the canvas viewport,
+ * and the tick marks to draw at a zoom level.
+ */
+
+/** Ruler thickness in screen pixels */
+export const RULER_SIZE = 20;
+
+/** Labelled ticks are at least this many screen pixels apart */
+const MIN_LABEL_GAP = 50;
+
+/** Minor ticks between labelled ones */
+const MINOR_TICKS = 5;
+
+export type RulerAxis = "x" | "y";
+
+/**
+ * How the artboard sits in the viewport: centered, then scaled by `zoom`
+ * around its center and shifted by `pan` (document units).
+ */
+export interface ViewTransform {
+  zoom: number;
+  pan: Point;
+  canvasSize: Size;
+  viewport: Size;
+}
+
+export interface RulerTick {
+  /** Document coordinate */
+  value: number;
+  /** Labelled ticks are drawn taller, with `value` beside them */
+  major: boolean;
+}
+
+/** Viewport pixel of document coordinate `value` on `axis` */
+export function documentToView(value: number, axis: RulerAxis, view: ViewTransform): number {
+  const { size, viewport, pan } = along(axis, view);
+  return viewport / 2 + view.zoom * (value - size / 2 + pan);
+}
+
+/** Document coordinate at viewport pixel `value` on `axis` */
+export function viewToDocument(value: number, axis: RulerAxis, view: ViewTransform): number {
+  const { size, viewport, pan } = along(axis, view);
+  return (value - viewport / 2) / view.zoom + size / 2 - pan;
+}
+
+/** Document units between labelled ticks: 1, 2 or 5 × a power of ten */
+export function rulerStep(zoom: number): number {
+  const min = MIN_LABEL_GAP / zoom;
+  let power = 10 ** Math.floor(Math.log10(min));
+  for (;;) {
+    for (const factor of [1, 2, 5]) {
+      if (factor * power >= min) return factor * power;
+    }
+    power *= 10;
+  }
+}
+
+/** Ticks covering viewport pixels 0..`length` on `axis` */
+export function rulerTicks(axis: RulerAxis, length: number, view: ViewTransform): RulerTick[] {
+  const step = rulerStep(view.zoom);
+  const minor = step / MINOR_TICKS;
+  const start = viewToDocument(0, axis, view);
+  const end = viewToDocument(length, axis, view);
+
+  const ticks: RulerTick[] = [];
+  for (let i = Math.ceil(start / minor); i * minor <= end; i++) {
+    ticks.push({ value: i * minor, major: i % MINOR_TICKS === 0 });
+  }
+  return ticks;
+}
+
+function along(axis: RulerAxis, view: ViewTransform) {
+  return axis === "x"
+    ? { size: view.canvasSize.width, viewport: view.viewport.width, pan: view.pan.x }
+    : { size: view.canvasSize.height, viewport: view.viewport.height, pan: view.pan.y };
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildGroup,
+  cloneWithNewIds,
+  collectObjectsInWorldSpace,
+  composeTransforms,
+  findObjectLocation,
+  getWorldMatrix,
+  getWorldTransform,
+  insertObjectInList,
+  mapObjectInList,
+  releaseGroupChildren,
+  removeObjectFromList,
+  worldToParentTransform,
+} from "./sceneGraph";
+import { getWorldBounds } from "./bounds";
+import {
+  createLayer,
+  createTransform,
+  type GroupObject,
+  type RectangleObject,
+  type VectorObject,
+} from "@/types/vector";
+
+function rect(id: string, x = 0, y = 0): RectangleObject {
+  return {
+    id,
+    type: "rectangle",
+    name: id,
+    transform: createTransform(x, y),
+    fill: null,
+    stroke: null,
+    opacity: 1,
+    visible: true,
+    locked: false,
+    width: 10,
+    height: 10,
+    cornerRadius: [0, 0, 0, 0],
+  };
+}
+
+function nested(): VectorObject[] {
+  const inner = buildGroup("inner", [rect("c", 40, 40)]);
+  return [rect("a"), buildGroup("outer", [rect("b", 20, 20), inner])];
+}
+
+describe("sceneGraph", () => {
+  it("locates objects nested at any depth", () => {
+    const layer = createLayer("layer-1", "Layer 1");
+    layer.objects = nested();
+
+    expect(findObjectLocation([layer], "a")).toEqual({
+      layerId: "layer-1",
+      parentId: null,
+      index: 0,
+    });
+    expect(findObjectLocation([layer], "c")).toEqual({
+      layerId: "layer-1",
+      parentId: "inner",
+      index: 0,
+    });
+    expect(findObjectLocation([layer], "missing")).toBeUndefined();
+  });
+
+  it("updates, removes and inserts nested objects without touching siblings", () => {
+    const objects = nested();
+
+    const renamed = mapObjectInList(objects, "c", (o) => ({ ...o, name: "C" }));
+    expect(renamed[0]).toBe(objects[0]);
+    const outer = renamed[1] as GroupObject;
+    expect((outer.children[1] as GroupObject).children[0].name).toBe("C");
+
+    const removed = removeObjectFromList(objects, "b");
+    expect((removed[1] as GroupObject).children.map((o) => o.id)).toEqual(["inner"]);
+
+    const inserted = insertObjectInList(objects, "inner", rect("d"), 0);
+    const innerAfter = (inserted[1] as GroupObject).children[1] as GroupObject;
+    expect(innerAfter.children.map((o) => o.id)).toEqual(["d", "c"]);
+  });
+
+  it("keeps world bounds when grouping and releasing", () => {
+    const group = buildGroup("g", [rect("a", 30, 40), rect("b", 60, 50)]);
+    expect(group.transform).toMatchObject({ x: 30, y: 40 });
+    expect(group.children[0].transform).toMatchObject({ x: 0, y: 0 });
+
+    const moved = { ...group, transform: { ...group.transform, x: 100 } };
+    const released = releaseGroupChildren(moved);
+    expect(getWorldBounds(released[1])).toEqual({
+      x: 130,
+      y: 50,
+      width: 10,
+      height: 10,
+    });
+  });
+
+  it("composes rotation and scale into child transforms", () => {
+    const parent = { ...createTransform(10, 0), rotation: 90, scaleX: 2, scaleY: 2 };
+    const result = composeTransforms(parent, createTransform(5, 0));
+    expect(result.x).toBeCloseTo(10);
+    expect(result.y).toBeCloseTo(10);
+    expect(result.rotation).toBe(90);
+    expect(result.scaleX).toBe(2);
+  });
+
+  it("folds enclosing groups into world transforms", () => {
+    const layer = createLayer("layer-1", "Layer 1");
+    layer.objects = nested();
+
+    expect(getWorldTransform([layer], "c")).toMatchObject({ x: 40, y: 40 });
+    expect(getWorldTransform([layer], "a")).toEqual(createTransform());
+    expect(getWorldTransform([layer], "missing")).toBeUndefined();
+    expect(getWorldMatrix([layer], "c")).toEqual([1, 0, 0, 1, 40, 40]);
+    expect(getWorldMatrix([layer], "missing")).toBeUndefined();
+  });
+
+  it("clones with fresh ids at every depth", () => {
+    let n = 0;
+    const [, outer] = nested();
+    const copy = cloneWithNewIds(outer, () => `id-${++n}`) as GroupObject;
+
+    expect(copy.id).toBe("id-1");
+    expect(copy.children.map((c) => c.id)).toEqual(["id-2", "id-3"]);
+    expect((copy.children[1] as GroupObject).children[0].id).toBe("id-4");
+    expect((outer as GroupObject).children[0].id).toBe("b");
+  });
+
+  it("collects nested objects in world space", () => {
+    const layer = createLayer("l", "L");
+    layer.objects = nested();
+
+    const found = collectObjectsInWorldSpace([layer], new Set(["c", "a"]));
+    expect(found.map((o) => o.id)).toEqual(["a", "c"]);
+    expect(getWorldBounds(found[1])).toEqual({
+      x: 40,
+      y: 40,
+      width: 10,
+      height: 10,
+    });
+  });
+
+  it("puts world-space edits back into the parent group's space", () => {
+    const layer = createLayer("l", "L");
+    const group = buildGroup("g", [rect("child", 10, 0)]);
+    group.transform = { ...group.transform, rotation: 90, scaleX: 2, scaleY: 2 };
+    layer.objects = [rect("a", 5, 5), group];
+
+    const [world] = collectObjectsInWorldSpace([layer], new Set(["child"]));
+    const moved = { ...world.transform, x: world.transform.x + 20 };
+    const local = worldToParentTransform([layer], "child", moved);
+    // 20 world units right is 10 units up the rotated, doubled group's y axis
+    expect(local.x).toBeCloseTo(0);
+    expect(local.y).toBeCloseTo(-10);
+    expect(local.rotation).toBeCloseTo(0);
+    expect(local.scaleX).toBeCloseTo(1);
+
+    const top = { ...createTransform(9, 9), rotation: 30 };
+    expect(worldToParentTransform([layer], "a", top)).toBe(top);
+  });
+});
@@ -0,0 +1,385 @@
+import type {
+  GroupObject,
+  Transform2D,
+  VectorLayer,
+  VectorObject,
+} from "@/types/vector";
+import { createTransform } from "@/types/vector";
+import { getWorldBounds, localToWorld, mergeBounds } from "./bounds";
+import {
+  decomposeMatrix,
+  IDENTITY_MATRIX,
+  invertMatrix,
+  matrixFromTransform,
+  multiplyMatrix,
+  type Matrix2D,
+} from "./matrix";
+
+/** Where an object lives in the scene graph */
+export interface ObjectLocation {
+  layerId: string;
+  /** Id of the containing group, or null for a top-level layer object */
+  parentId: string | null;
+  /** Index within the containing `objects` / `children` array */
+  index: number;
+}
+
+/**
+ * Depth-first search for an object by id, descending into groups.
+ */
+export function findObjectInList(
+  objects: VectorObject[],
+  objectId: string,
+): VectorObject | undefined {
+  for (const obj of objects) {
+    if (obj.id === objectId) return obj;
+    if (obj.type === "group") {
+      const found = findObjectInList(obj.children, objectId);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Locate an object anywhere in the layer tree.
+ */
+export function findObjectLocation(
+  layers: VectorLayer[],
+  objectId: string,
+): ObjectLocation | undefined {
+  for (const layer of layers) {
+    const found = locateInList(layer.objects, objectId, null);
+    if (found) return { layerId: layer.id, ...found };
+  }
+  return undefined;
+}
+
+function locateInList(
+  objects: VectorObject[],
+  objectId: string,
+  parentId: string | null,
+): Omit<ObjectLocation, "layerId"> | undefined {
+  for (let i = 0; i < objects.length; i++) {
+    const obj = objects[i];
+    if (obj.id === objectId) return { parentId, index: i };
+    if (obj.type === "group") {
+      const found = locateInList(obj.children, objectId, obj.id);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collect every object (at any depth) whose id is in `ids`, in render order.
+ */
+export function collectObjects(
+  objects: VectorObject[],
+  ids: ReadonlySet<string>,
+  out: VectorObject[] = [],
+): VectorObject[] {
+  for (const obj of objects) {
+    if (ids.has(obj.id)) out.push(obj);
+    if (obj.type === "group") collectObjects(obj.children, ids, out);
+  }
+  return out;
+}
+
+/**
+ * Return a copy of `objects` with the matching object (at any depth) replaced
+ * by `fn(obj)`. Untouched branches keep their identity.
+ */
+export function mapObjectInList(
+  objects: VectorObject[],
+  objectId: string,
+  fn: (obj: VectorObject) => VectorObject,
+): VectorObject[] {
+  let changed = false;
+  const next = objects.map((obj) => {
+    if (obj.id === objectId) {
+      changed = true;
+      return fn(obj);
+    }
+    if (obj.type === "group") {
+      const children = mapObjectInList(obj.children, objectId, fn);
+      if (children !== obj.children) {
+        changed = true;
+        return { ...obj, children };
+      }
+    }
+    return obj;
+  });
+  return changed ? next : objects;
+}
+
+/**
+ * Return a copy of `objects` without the matching object (at any depth).
+ */
+export function removeObjectFromList(
+  objects: VectorObject[],
+  objectId: string,
+): VectorObject[] {
+  let changed = false;
+  const next: VectorObject[] = [];
+  for (const obj of objects) {
+    if (obj.id === objectId) {
+      changed = true;
+      continue;
+    }
+    if (obj.type === "group") {
+      const children = removeObjectFromList(obj.children, objectId);
+      if (children !== obj.children) {
+        changed = true;
+        next.push({ ...obj, children });
+        continue;
+      }
+    }
+    next.push(obj);
+  }
+  return changed ? next : objects;
+}
+
+/**
+ * Return a copy of `objects` with `object` inserted into the container
+ * identified by `parentId` (null = the list itself). Appends when `index`
+ * is undefined.
+ */
+export function insertObjectInList(
+  objects: VectorObject[],
+  parentId: string | null,
+  object: VectorObject,
+  index?: number,
+): VectorObject[] {
+  if (parentId === null) {
+    const next = [...objects];
+    if (index !== undefined) {
+      next.splice(index, 0, object);
+    } else {
+      next.push(object);
+    }
+    return next;
+  }
+
+  return mapObjectInList(objects, parentId, (parent) => {
+    if (parent.type !== "group") return parent;
+    return {
+      ...parent,
+      children: insertObjectInList(parent.children, null, object, index),
+    };
+  });
+}
+
+/**
+ * Compose a parent transform with a child transform so the child keeps its
+ * world placement once moved out of the parent, as the product of their
+ * matrices. Only a degenerate product (zero scale, or skew past MAX_SKEW)
+ * falls back to stacking the child's rotation, skew and scale on the
+ * parent's.
+ */
+export function composeTransforms(
+  parent: Transform2D,
+  child: Transform2D,
+): Transform2D {
+  const composed = decomposeMatrix(
+    multiplyMatrix(matrixFromTransform(parent), matrixFromTransform(child)),
+  );
+  if (composed) return composed;
+
+  const origin = localToWorld({ x: child.x, y: child.y }, parent);
+  return {
+    x: origin.x,
+    y: origin.y,
+    rotation: parent.rotation + child.rotation,
+    skewX: parent.skewX + child.skewX,
+    skewY: parent.skewY + child.skewY,
+    scaleX: parent.scaleX * child.scaleX,
+    scaleY: parent.scaleY * child.scaleY,
+  };
+}
+
+/**
+ * Transform mapping an object's local space to world space, with every
+ * enclosing group folded in (see `composeTransforms`).
+ */
+export function getWorldTransform(
+  layers: VectorLayer[],
+  objectId: string,
+): Transform2D | undefined {
+  const search = (
+    objects: VectorObject[],
+    parent: Transform2D | null,
+  ): Transform2D | undefined => {
+    for (const obj of objects) {
+      const world = parent
+        ? composeTransforms(parent, obj.transform)
+        : obj.transform;
+      if (obj.id === objectId) return world;
+      if (obj.type === "group") {
+        const found = search(obj.children, world);
+        if (found) return found;
+      }
+    }
+    return undefined;
+  };
+  for (const layer of layers) {
+    const found = search(layer.objects, null);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Exact matrix mapping an object's local space to world space; use it to
+ * map points. `getWorldTransform` is the same split into a `Transform2D`.
+ */
+export function getWorldMatrix(
+  layers: VectorLayer[],
+  objectId: string,
+): Matrix2D | undefined {
+  const search = (
+    objects: VectorObject[],
+    parent: Matrix2D,
+  ): Matrix2D | undefined => {
+    for (const obj of objects) {
+      const world = multiplyMatrix(parent, matrixFromTransform(obj.transform));
+      if (obj.id === objectId) return world;
+      if (obj.type === "group") {
+        const found = search(obj.children, world);
+        if (found) return found;
+      }
+    }
+    return undefined;
+  };
+  for (const layer of layers) {
+    const found = search(layer.objects, IDENTITY_MATRIX);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * `world` put back into the space of the groups enclosing `objectId`: the
+ * inverse of the folding `collectObjectsInWorldSpace` does, for writing a
+ * world-space edit to a nested object. Top-level objects get `world` back
+ * as is, as do objects under a singular or too-skewed parent.
+ */
+export function worldToParentTransform(
+  layers: VectorLayer[],
+  objectId: string,
+  world: Transform2D,
+): Transform2D {
+  const search = (
+    objects: VectorObject[],
+    parent: Matrix2D | null,
+  ): Matrix2D | null | undefined => {
+    for (const obj of objects) {
+      if (obj.id === objectId) return parent;
+      if (obj.type === "group") {
+        const own = matrixFromTransform(obj.transform);
+        const found = search(obj.children, parent ? multiplyMatrix(parent, own) : own);
+        if (found !== undefined) return found;
+      }
+    }
+    return undefined;
+  };
+
+  for (const layer of layers) {
+    const parent = search(layer.objects, null);
+    if (parent === undefined) continue;
+    const inverse = parent && invertMatrix(parent);
+    if (!inverse) return world;
+    return decomposeMatrix(multiplyMatrix(inverse, matrixFromTransform(world))) ?? world;
+  }
+  return world;
+}
+
+/**
+ * Wrap sibling objects (already in z-order, bottom first) into a new group.
+ * The group is positioned at the children's combined top-left so world
+ * positions are unchanged.
+ */
+export function buildGroup(
+  id: string,
+  children: VectorObject[],
+  name = "Group",
+): GroupObject {
+  const bounds =
+    children.length > 0
+      ? mergeBounds(children.map(getWorldBounds))
+      : { x: 0, y: 0, width: 0, height: 0 };
+
+  return {
+    id,
+    type: "group",
+    name,
+    transform: createTransform(bounds.x, bounds.y),
+    fill: null,
+    stroke: null,
+    opacity: 1,
+    visible: true,
+    locked: false,
+    children: children.map((child) => ({
+      ...child,
+      transform: {
+        ...child.transform,
+        x: child.transform.x - bounds.x,
+        y: child.transform.y - bounds.y,
+      },
+    })),
+  };
+}
+
+/**
+ * Children of a group re-expressed in the group's parent space, carrying the
+ * group's transform, opacity and visibility down to each child.
+ */
+export function releaseGroupChildren(group: GroupObject): VectorObject[] {
+  return group.children.map((child) => ({
+    ...child,
+    transform: composeTransforms(group.transform, child.transform),
+    opacity: child.opacity * group.opacity,
+    visible: child.visible && group.visible,
+  }));
+}
+
+/**
+ * Deep copy of an object with a fresh id for it and every descendant.
+ */
+export function cloneWithNewIds(
+  object: VectorObject,
+  createId: () => string,
+): VectorObject {
+  const copy = structuredClone(object);
+  const assignIds = (obj: VectorObject) => {
+    obj.id = createId();
+    if (obj.type === "group") obj.children.forEach(assignIds);
+  };
+  assignIds(copy);
+  return copy;
+}
+
+/**
+ * Objects whose id is in `ids`, in render order, with nested objects
+ * re-expressed in world space (parent group transforms, opacity and
+ * visibility folded in). Descendants of a matched group are not listed
+ * separately.
+ */
+export function collectObjectsInWorldSpace(
+  layers: VectorLayer[],
+  ids: ReadonlySet<string>,
+): VectorObject[] {
+  const out: VectorObject[] = [];
+  const visit = (objects: VectorObject[]) => {
+    for (const obj of objects) {
+      if (ids.has(obj.id)) {
+        out.push(obj);
+      } else if (obj.type === "group") {
+        // Released children sit in this group's parent space
+        visit(releaseGroupChildren(obj));
+      }
+    }
+  };
+  for (const layer of layers) visit(layer.objects);
+  return out;
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { createTransform } from "@/types/vector";
+import type { PathObject, RectangleObject } from "@/types/vector";
+import { getWorldBounds, localToWorld, mergeBounds } from "./bounds";
+import {
+  fitBoundsScale,
+  flipTransform,
+  resizeScale,
+  scaleObject,
+} from "./selectionTransform";
+
+const bounds = { x: 0, y: 0, width: 100, height: 50 };
+const free = { keepAspect: false, fromCenter: false };
+
+function rect(x: number, y: number, width: number, height: number): RectangleObject {
+  return {
+    id: `r${x}`,
+    type: "rectangle",
+    name: "Rectangle",
+    transform: createTransform(x, y),
+    fill: null,
+    stroke: null,
+    opacity: 1,
+    visible: true,
+    locked: false,
+    width,
+    height,
+    cornerRadius: [0, 0, 0, 0],
+  };
+}
+
+describe("selectionTransform", () => {
+  it("scales about the opposite handle", () => {
+    expect(resizeScale(bounds, "br", { x: 200, y: 25 }, free)).toEqual({
+      from: { x: 0, y: 0 },
+      to: { x: 0, y: 0 },
+      sx: 2,
+      sy: 0.5,
+    });
+    expect(resizeScale(bounds, "ml", { x: 50, y: 999 }, free)).toMatchObject({
+      from: { x: 100, y: 25 },
+      sx: 0.5,
+      sy: 1,
+    });
+  });
+
+  it("keeps the aspect with Shift and scales about the center with Alt", () => {
+    expect(resizeScale(bounds, "br", { x: 150, y: 60 }, { ...free, keepAspect: true }))
+      .toMatchObject({ sx: 1.5, sy: 1.5 });
+    expect(resizeScale(bounds, "bc", { x: 0, y: 100 }, { ...free, keepAspect: true }))
+      .toMatchObject({ from: { x: 50, y: 0 }, sx: 2, sy: 2 });
+    expect(resizeScale(bounds, "mr", { x: 75, y: 0 }, { ...free, fromCenter: true }))
+      .toMatchObject({ from: { x: 50, y: 25 }, sx: 0.5, sy: 1 });
+  });
+
+  it("stops at a minimum size instead of flipping", () => {
+    const scale = resizeScale(bounds, "br", { x: -50, y: -50 }, free);
+    expect(scale.sx * bounds.width).toBeCloseTo(2);
+    expect(scale.sy * bounds.height).toBeCloseTo(2);
+  });
+
+  it("moves and sizes every object with the selection bounds", () => {
+    const objects = [rect(10, 10, 20, 20), rect(50, 40, 30, 10)];
+    const before = mergeBounds(objects.map(getWorldBounds));
+    const target = { x: 0, y: 100, width: 140, height: 20 };
+    const scale = fitBoundsScale(before, target);
+
+    const after = objects.map((obj) => ({ ...obj, ...scaleObject(obj, scale) }) as RectangleObject);
+    expect(mergeBounds(after.map(getWorldBounds))).toEqual(target);
+    expect(after[1]).toMatchObject({ transform: { x: 80, y: 115 }, width: 60, height: 5 });
+  });
+
+  it("scales rotated objects along the world axes", () => {
+    // 40×10 turned upright: the handle's width is the rectangle's height
+    const upright = rect(100, 100, 40, 10);
+    upright.transform.rotation = 90;
+    const before = getWorldBounds(upright);
+    expect(before).toMatchObject({ x: 90, y: 100, width: 10, height: 40 });
+
+    const scale = resizeScale(before, "mr", { x: 110, y: 120 }, free);
+    const scaled = { ...upright, ...scaleObject(upright, scale) } as RectangleObject;
+    expect(scaled).toMatchObject({ width: 40, height: 20, transform: { rotation: 90 } });
+    const after = getWorldBounds(scaled);
+    expect(after.x).toBeCloseTo(90);
+    expect(after.width).toBeCloseTo(20);
+    expect(after.height).toBeCloseTo(40);
+
+    // Off-axis rotations take the rest of the scale as skew
+    const tilted = rect(0, 0, 20, 20);
+    tilted.transform.rotation = 30;
+    const tiltedBounds = getWorldBounds(tilted);
+    const target = { ...tiltedBounds, width: tiltedBounds.width * 2 };
+    const stretched = {
+      ...tilted,
+      ...scaleObject(tilted, fitBoundsScale(tiltedBounds, target)),
+    } as RectangleObject;
+    expect(stretched.transform.skewX).not.toBe(0);
+    const stretchedBounds = getWorldBounds(stretched);
+    expect(stretchedBounds.x).toBeCloseTo(target.x);
+    expect(stretchedBounds.y).toBeCloseTo(target.y);
+    expect(stretchedBounds.width).toBeCloseTo(target.width);
+    expect(stretchedBounds.height).toBeCloseTo(target.height);
+  });
+
+  it("mirrors transforms exactly across the center", () => {
+    const transform = { x: 10, y: 5, rotation: 30, skewX: 15, skewY: -5, scaleX: 2, scaleY: 1 };
+    const center = { x: 50, y: 40 };
+    const point = { x: 3, y: 7 };
+    const before = localToWorld(point, transform);
+
+    const h = localToWorld(point, flipTransform(transform, "horizontal", center));
+    expect(h.x).toBeCloseTo(100 - before.x);
+    expect(h.y).toBeCloseTo(before.y);
+
+    const v = localToWorld(point, flipTransform(transform, "vertical", center));
+    expect(v.x).toBeCloseTo(before.x);
+    expect(v.y).toBeCloseTo(80 - before.y);
+  });
+
+  it("scales path points rather than the path transform", () => {
+    const path: PathObject = {
+      ...rect(0, 0, 0, 0),
+      type: "path",
+      segments: [
+        { type: "M", x: 0, y: 0 },
+        { type: "L", x: 10, y: 10 },
+      ],
+      closed: false,
+      fillRule: "nonzero",
+    };
+    const updates = scaleObject(path, { from: { x: 0, y: 0 }, to: { x: 0, y: 0 }, sx: 3, sy: 2 });
+    expect(updates).toMatchObject({
+      transform: { scaleX: 1, scaleY: 1 },
+      segments: [
+        { type: "M", x: 0, y: 0 },
+        { type: "L", x: 30, y: 20 },
+      ],
+    });
+  });
+});
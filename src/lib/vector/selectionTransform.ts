@@ -0,0 +1,199 @@
+import type {
+  BoundingBox,
+  Point2D,
+  Transform2D,
+  VectorObject,
+} from "@/types/vector";
+import {
+  decomposeMatrix,
+  invertMatrix,
+  matrixFromTransform,
+  multiplyMatrix,
+  type Matrix2D,
+} from "./matrix";
+import { transformSegments } from "./pathData";
+
+/**
+ * Scaling and mirroring a selection as one unit: every object's position
+ * and size is mapped through the same scale about an anchor, so the
+ * selection keeps its layout while its merged bounds change.
+ */
+
+export type FlipAxis = "horizontal" | "vertical";
+
+export type ResizeHandle = "tl" | "tc" | "tr" | "mr" | "br" | "bc" | "bl" | "ml";
+
+export interface ResizeOptions {
+  /** Keep the bounds' aspect ratio (Shift) */
+  keepAspect: boolean;
+  /** Scale about the bounds center instead of the opposite handle (Alt) */
+  fromCenter: boolean;
+}
+
+/** Maps `p` to `to + (p - from) · (sx, sy)` */
+export interface SelectionScale {
+  from: Point2D;
+  to: Point2D;
+  sx: number;
+  sy: number;
+}
+
+/** Selections are never scaled below this width or height */
+const MIN_SIZE = 2;
+
+/** Relative size of off-axis terms still treated as an axis-aligned scale */
+const EPSILON = 1e-9;
+
+export function resizeHandlePositions(b: BoundingBox): [ResizeHandle, Point2D][] {
+  const cx = b.x + b.width / 2;
+  const cy = b.y + b.height / 2;
+  return [
+    ["tl", { x: b.x, y: b.y }],
+    ["tc", { x: cx, y: b.y }],
+    ["tr", { x: b.x + b.width, y: b.y }],
+    ["mr", { x: b.x + b.width, y: cy }],
+    ["br", { x: b.x + b.width, y: b.y + b.height }],
+    ["bc", { x: cx, y: b.y + b.height }],
+    ["bl", { x: b.x, y: b.y + b.height }],
+    ["ml", { x: b.x, y: cy }],
+  ];
+}
+
+/**
+ * Scale for dragging `handle` of `bounds` to `point`. The opposite handle
+ * (or the center) stays put; edge handles leave the other axis alone
+ * unless the aspect is kept, when it grows evenly about the middle.
+ * Sizes stop at `MIN_SIZE` — dragging past the anchor does not flip.
+ */
+export function resizeScale(
+  bounds: BoundingBox,
+  handle: ResizeHandle,
+  point: Point2D,
+  options: ResizeOptions,
+): SelectionScale {
+  const positions = new Map(resizeHandlePositions(bounds));
+  const grip = positions.get(handle)!;
+  const anchor = options.fromCenter
+    ? { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }
+    : positions.get(OPPOSITE[handle])!;
+
+  const movesX = handle !== "tc" && handle !== "bc";
+  const movesY = handle !== "ml" && handle !== "mr";
+  const axisScale = (p: number, g: number, a: number) =>
+    Math.abs(g - a) > 0 ? (p - a) / (g - a) : 1;
+  let sx = movesX ? axisScale(point.x, grip.x, anchor.x) : 1;
+  let sy = movesY ? axisScale(point.y, grip.y, anchor.y) : 1;
+
+  if (options.keepAspect) {
+    const s = movesX && movesY ? Math.max(sx, sy) : movesX ? sx : sy;
+    sx = s;
+    sy = s;
+  }
+
+  const minScale = (size: number) => (size > 0 ? MIN_SIZE / size : 0);
+  sx = Math.max(sx, minScale(bounds.width));
+  sy = Math.max(sy, minScale(bounds.height));
+  if (options.keepAspect) sx = sy = Math.max(sx, sy);
+
+  return { from: anchor, to: anchor, sx, sy };
+}
+
+/** Scale taking the selection `from` its current bounds `to` new ones */
+export function fitBoundsScale(from: BoundingBox, to: BoundingBox): SelectionScale {
+  return {
+    from: { x: from.x, y: from.y },
+    to: { x: to.x, y: to.y },
+    sx: from.width > 0 ? Math.max(to.width, MIN_SIZE) / from.width : 1,
+    sy: from.height > 0 ? Math.max(to.height, MIN_SIZE) / from.height : 1,
+  };
+}
+
+/**
+ * Updates that scale `obj` (as it was before the drag) by `scale`, with its
+ * transform taken as world space like the selection bounds. The scale is
+ * carried into the object's own axes: where those line up with the world's
+ * (rotation a multiple of 90°, no skew) it grows in place, with sx and sy
+ * swapped at 90° and 270°; otherwise its transform takes the rest. Paths
+ * and lines move their points instead; text and groups, which have no size
+ * of their own, always scale their transform.
+ */
+export function scaleObject(
+  obj: VectorObject,
+  scale: SelectionScale,
+): Partial<VectorObject> {
+  const { from, to, sx, sy } = scale;
+  const world: Matrix2D = [sx, 0, 0, sy, to.x - from.x * sx, to.y - from.y * sy];
+  const before = matrixFromTransform(obj.transform);
+  const after = multiplyMatrix(world, before);
+  const inverse = invertMatrix(before);
+  const transform = { ...obj.transform, x: after[4], y: after[5] };
+  if (!inverse) return { transform };
+
+  // The same scale in the object's local space
+  const [a, b, c, d] = multiplyMatrix(inverse, after);
+  const local: Matrix2D = [a, b, c, d, 0, 0];
+
+  if (obj.type === "path") {
+    return { transform, segments: transformSegments(obj.segments, local) };
+  }
+  if (obj.type === "line") {
+    return { transform, endX: a * obj.endX + c * obj.endY, endY: b * obj.endX + d * obj.endY };
+  }
+
+  const alongAxes = Math.abs(b) + Math.abs(c) <= EPSILON * (Math.abs(a) + Math.abs(d));
+  if (!alongAxes) {
+    return { transform: decomposeMatrix(after) ?? transform };
+  }
+
+  switch (obj.type) {
+    case "rectangle":
+    case "image":
+      return { transform, width: obj.width * a, height: obj.height * d };
+    case "ellipse":
+      return { transform, radiusX: obj.radiusX * a, radiusY: obj.radiusY * d };
+    case "polygon":
+      return { transform, radius: obj.radius * Math.max(a, d) };
+    case "text":
+    case "group":
+      return {
+        transform: {
+          ...transform,
+          scaleX: obj.transform.scaleX * a,
+          scaleY: obj.transform.scaleY * d,
+        },
+      };
+  }
+}
+
+/**
+ * `transform` mirrored across the vertical line through `center`
+ * (horizontal flip) or the horizontal one (vertical flip). The mirror
+ * folds exactly into a negated rotation and skew and a negative scale.
+ */
+export function flipTransform(
+  transform: Transform2D,
+  axis: FlipAxis,
+  center: Point2D,
+): Transform2D {
+  const horizontal = axis === "horizontal";
+  return {
+    x: horizontal ? 2 * center.x - transform.x : transform.x,
+    y: horizontal ? transform.y : 2 * center.y - transform.y,
+    rotation: transform.rotation === 0 ? 0 : -transform.rotation,
+    skewX: transform.skewX === 0 ? 0 : -transform.skewX,
+    skewY: transform.skewY === 0 ? 0 : -transform.skewY,
+    scaleX: horizontal ? -transform.scaleX : transform.scaleX,
+    scaleY: horizontal ? transform.scaleY : -transform.scaleY,
+  };
+}
+
+const OPPOSITE: Record<ResizeHandle, ResizeHandle> = {
+  tl: "br",
+  tc: "bc",
+  tr: "bl",
+  mr: "ml",
+  br: "tl",
+  bc: "tc",
+  bl: "tr",
+  ml: "mr",
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { createSolidFill, createTransform } from "@/types/vector";
+import type {
+  EllipseObject,
+  LineObject,
+  PolygonObject,
+  RectangleObject,
+  TextObject,
+} from "@/types/vector";
+import {
+  KAPPA,
+  objectOutlineSegments,
+  roundedRectSegments,
+  shapeToPath,
+} from "./shapeGeometry";
+
+const base = {
+  name: "Shape",
+  transform: { ...createTransform(10, 20), rotation: 30 },
+  fill: createSolidFill("#ff0000"),
+  stroke: null,
+  opacity: 0.5,
+  visible: true,
+  locked: false,
+};
+
+describe("shapeGeometry", () => {
+  it("draws square corners as plain lines", () => {
+    expect(roundedRectSegments(10, 5, [0, 0, 0, 0])).toEqual([
+      { type: "M", x: 0, y: 0 },
+      { type: "L", x: 10, y: 0 },
+      { type: "L", x: 10, y: 5 },
+      { type: "L", x: 0, y: 5 },
+      { type: "Z" },
+    ]);
+  });
+
+  it("draws rounded corners as quarter-circle cubics", () => {
+    const segments = roundedRectSegments(20, 10, [4, 0, 0, 0]);
+    expect(segments[0]).toEqual({ type: "M", x: 4, y: 0 });
+    expect(segments.filter((s) => s.type === "C")).toHaveLength(1);
+    expect(segments[segments.length - 2]).toEqual({
+      type: "C",
+      cp1x: 0,
+      cp1y: 4 - 4 * KAPPA,
+      cp2x: 4 - 4 * KAPPA,
+      cp2y: 0,
+      x: 4,
+      y: 0,
+    });
+
+    // Oversized radii shrink to fit, like ctx.roundRect
+    const pill = roundedRectSegments(20, 10, [10, 10, 10, 10]);
+    expect(pill[0]).toEqual({ type: "M", x: 5, y: 0 });
+  });
+
+  it("starts polygons at the top vertex", () => {
+    const polygon: PolygonObject = { ...base, id: "p", type: "polygon", sides: 4, radius: 10 };
+    const segments = objectOutlineSegments(polygon)!;
+    expect(segments).toHaveLength(5);
+    expect(segments[0]).toMatchObject({ type: "M", x: expect.closeTo(0), y: -10 });
+    expect(segments[4]).toEqual({ type: "Z" });
+  });
+
+  it("converts shapes to paths keeping name, transform and paint", () => {
+    const ellipse: EllipseObject = { ...base, id: "e", type: "ellipse", radiusX: 8, radiusY: 4 };
+    const path = shapeToPath(ellipse, "new")!;
+    expect(path).toMatchObject({
+      id: "new",
+      type: "path",
+      name: "Shape",
+      transform: ellipse.transform,
+      fill: ellipse.fill,
+      opacity: 0.5,
+      closed: true,
+    });
+    expect(path.segments.filter((s) => s.type === "C")).toHaveLength(4);
+    expect(path.segments[0]).toEqual({ type: "M", x: 8, y: 0 });
+
+    const rect: RectangleObject = {
+      ...base,
+      id: "r",
+      type: "rectangle",
+      width: 10,
+      height: 10,
+      cornerRadius: [0, 0, 0, 0],
+    };
+    expect(shapeToPath(rect, "r2")?.segments).toHaveLength(5);
+  });
+
+  it("keeps lines open and unfilled", () => {
+    const line: LineObject = { ...base, id: "l", type: "line", endX: 5, endY: 5 };
+    expect(shapeToPath(line, "l2")).toMatchObject({
+      closed: false,
+      fill: null,
+      segments: [
+        { type: "M", x: 0, y: 0 },
+        { type: "L", x: 5, y: 5 },
+      ],
+    });
+  });
+
+  it("ignores objects without an outline", () => {
+    const text = { ...base, id: "t", type: "text" } as TextObject;
+    expect(shapeToPath(text, "t2")).toBeNull();
+  });
+});
@@ -0,0 +1,177 @@
+import type {
+  PathObject,
+  PathSegment,
+  Point2D,
+  VectorObject,
+} from "@/types/vector";
+import { clampCornerRadii } from "./svgExport";
+
+/** Cubic control distance for a quarter circle of radius 1 */
+export const KAPPA = (4 / 3) * (Math.SQRT2 - 1);
+
+/**
+ * Outline of a shape as path segments in its local space. The renderer
+ * draws rectangles, ellipses and polygons from these segments, so a path
+ * built from them looks identical. Returns null for objects without a
+ * geometric outline (text, images, groups).
+ */
+export function objectOutlineSegments(obj: VectorObject): PathSegment[] | null {
+  switch (obj.type) {
+    case "rectangle":
+      return roundedRectSegments(obj.width, obj.height, obj.cornerRadius);
+    case "ellipse":
+      return ellipseSegments(obj.radiusX, obj.radiusY);
+    case "polygon":
+      return polygonSegments(obj.sides, obj.radius);
+    case "line":
+      return [
+        { type: "M", x: 0, y: 0 },
+        { type: "L", x: obj.endX, y: obj.endY },
+      ];
+    case "path":
+      return obj.segments;
+    default:
+      return null;
+  }
+}
+
+/** Whether an object is a parametric shape that can become a path */
+export function canConvertToPath(obj: VectorObject): boolean {
+  return (
+    obj.type === "rectangle" ||
+    obj.type === "ellipse" ||
+    obj.type === "polygon" ||
+    obj.type === "line"
+  );
+}
+
+/**
+ * Equivalent path for a parametric shape, with the same name, transform
+ * and paint. Lines stay open and unfilled, as the renderer draws them.
+ * Returns null for objects that are not shapes.
+ */
+export function shapeToPath(obj: VectorObject, id: string): PathObject | null {
+  if (!canConvertToPath(obj)) return null;
+  const segments = objectOutlineSegments(obj);
+  if (!segments) return null;
+  const isLine = obj.type === "line";
+  return {
+    id,
+    type: "path",
+    name: obj.name,
+    transform: { ...obj.transform },
+    fill: isLine ? null : obj.fill,
+    stroke: obj.stroke,
+    opacity: obj.opacity,
+    visible: obj.visible,
+    locked: obj.locked,
+    segments,
+    closed: !isLine,
+    fillRule: "nonzero",
+  };
+}
+
+/**
+ * Rectangle with per-corner radii (TL, TR, BR, BL), clockwise from the end
+ * of the top-left corner like `ctx.roundRect`. Corners are quarter-circle
+ * cubics; square corners add no extra points.
+ */
+export function roundedRectSegments(
+  width: number,
+  height: number,
+  radii: [number, number, number, number],
+): PathSegment[] {
+  const [tl, tr, br, bl] = clampCornerRadii(width, height, radii);
+  const w = width;
+  const h = height;
+  const segments: PathSegment[] = [{ type: "M", x: tl, y: 0 }];
+  let current: Point2D = { x: tl, y: 0 };
+
+  const lineTo = (x: number, y: number) => {
+    if (x === current.x && y === current.y) return;
+    segments.push({ type: "L", x, y });
+    current = { x, y };
+  };
+  const cornerTo = (
+    cp1x: number,
+    cp1y: number,
+    cp2x: number,
+    cp2y: number,
+    x: number,
+    y: number,
+  ) => {
+    segments.push({ type: "C", cp1x, cp1y, cp2x, cp2y, x, y });
+    current = { x, y };
+  };
+
+  lineTo(w - tr, 0);
+  if (tr > 0) cornerTo(w - tr + tr * KAPPA, 0, w, tr - tr * KAPPA, w, tr);
+  lineTo(w, h - br);
+  if (br > 0) cornerTo(w, h - br + br * KAPPA, w - br + br * KAPPA, h, w - br, h);
+  lineTo(bl, h);
+  if (bl > 0) cornerTo(bl - bl * KAPPA, h, 0, h - bl + bl * KAPPA, 0, h - bl);
+  // The closing edge up the left side is drawn by Z
+  if (tl > 0) {
+    lineTo(0, tl);
+    cornerTo(0, tl - tl * KAPPA, tl - tl * KAPPA, 0, tl, 0);
+  }
+  segments.push({ type: "Z" });
+  return segments;
+}
+
+/** Vertices of a regular polygon, first vertex at the top */
+export function polygonVertices(sides: number, radius: number): Point2D[] {
+  const step = (Math.PI * 2) / sides;
+  const start = -Math.PI / 2;
+  return Array.from({ length: sides }, (_, i) => ({
+    x: radius * Math.cos(start + i * step),
+    y: radius * Math.sin(start + i * step),
+  }));
+}
+
+/** Closed regular polygon, starting at the top vertex */
+export function polygonSegments(sides: number, radius: number): PathSegment[] {
+  return [
+    ...polygonVertices(sides, radius).map(
+      (p, i): PathSegment => ({ type: i === 0 ? "M" : "L", ...p }),
+    ),
+    { type: "Z" },
+  ];
+}
+
+/**
+ * Ellipse centred on the origin as four cubic quarter arcs, starting at
+ * angle 0 and running in the direction of increasing angle like
+ * `ctx.ellipse`.
+ */
+export function ellipseSegments(rx: number, ry: number): PathSegment[] {
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  return [
+    { type: "M", x: rx, y: 0 },
+    { type: "C", cp1x: rx, cp1y: ky, cp2x: kx, cp2y: ry, x: 0, y: ry },
+    { type: "C", cp1x: -kx, cp1y: ry, cp2x: -rx, cp2y: ky, x: -rx, y: 0 },
+    { type: "C", cp1x: -rx, cp1y: -ky, cp2x: -kx, cp2y: -ry, x: 0, y: -ry },
+    { type: "C", cp1x: kx, cp1y: -ry, cp2x: rx, cp2y: -ky, x: rx, y: 0 },
+    { type: "Z" },
+  ];
+}
+
+/** Quarter circle of radius `r` around `c`, from unit direction `u` to the perpendicular `v` */
+export function quarterArc(
+  c: Point2D,
+  u: Point2D,
+  v: Point2D,
+  r: number,
+): PathSegment {
+  const k = r * KAPPA;
+  return {
+    type: "C",
+    cp1x: c.x + u.x * r + v.x * k,
+    cp1y: c.y + u.y * r + v.y * k,
+    cp2x: c.x + v.x * r + u.x * k,
+    cp2y: c.y + v.y * r + u.y * k,
+    x: c.x + v.x * r,
+    y: c.y + v.y * r,
+  };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { createLayer, createTransform } from "@/types/vector";
+import type { PathObject, RectangleObject } from "@/types/vector";
+import {
+  addGuideLines,
+  collectSnapTargets,
+  emptySnapTargets,
+  snapBox,
+  snapPoint,
+  snapThreshold,
+} from "./snapping";
+
+const within5 = { threshold: 5, gridStep: null };
+const within3 = { threshold: 3, gridStep: null };
+
+function rect(id: string, x: number, y: number, width = 20, height = 20): RectangleObject {
+  return {
+    id,
+    type: "rectangle",
+    name: id,
+    transform: createTransform(x, y),
+    fill: null,
+    stroke: null,
+    opacity: 1,
+    visible: true,
+    locked: false,
+    width,
+    height,
+    cornerRadius: [0, 0, 0, 0],
+  };
+}
+
+function layerWith(...objects: (RectangleObject | PathObject)[]) {
+  return { ...createLayer("l", "Layer"), objects };
+}
+
+describe("snapping", () => {
+  it("snaps a moved box's edges and center to other objects", () => {
+    const targets = collectSnapTargets(
+      [layerWith(rect("a", 100, 100), rect("moving", 0, 0))],
+      new Set(["moving"]),
+    );
+    // Left edge 3px right of a's right edge, top 2px above a's top
+    const snap = snapBox({ x: 123, y: 98, width: 10, height: 16 }, targets, within5);
+    expect(snap.offset).toEqual({ x: -3, y: 2 });
+    expect(snap.guides).toEqual([
+      { kind: "line", axis: "x", value: 120, from: 100, to: 120 },
+      { kind: "line", axis: "y", value: 100, from: 100, to: 130 },
+    ]);
+  });
+
+  it("leaves boxes out of range alone", () => {
+    const targets = collectSnapTargets([layerWith(rect("a", 100, 100))], new Set());
+    const snap = snapBox({ x: 300, y: 300, width: 10, height: 10 }, targets, within5);
+    expect(snap).toEqual({ offset: { x: 0, y: 0 }, guides: [] });
+  });
+
+  it("centers a box between neighbours and repeats their spacing", () => {
+    const targets = collectSnapTargets(
+      [layerWith(rect("a", 0, 0), rect("b", 100, 0), rect("far", 0, 500))],
+      new Set(),
+    );
+    // Between a (ends at 20) and b (starts at 100): 30px gaps put it at 50
+    const between = snapBox({ x: 52, y: 3, width: 20, height: 14 }, targets, within5);
+    expect(between.offset.x).toBe(-2);
+    expect(between.guides.filter((g) => g.kind === "gap")).toEqual([
+      { kind: "gap", axis: "x", start: 20, end: 50, at: 10 },
+      { kind: "gap", axis: "x", start: 70, end: 100, at: 10 },
+    ]);
+
+    // Right of b, a's 80px gap to b repeats at 200
+    const repeated = snapBox({ x: 197, y: 3, width: 20, height: 14 }, targets, within5);
+    expect(repeated.offset.x).toBe(3);
+    expect(repeated.guides).toContainEqual({ kind: "gap", axis: "x", start: 120, end: 200, at: 10 });
+  });
+
+  it("snaps points to path anchors and the artboard on the axes asked for", () => {
+    const path: PathObject = {
+      ...rect("p", 10, 10),
+      type: "path",
+      segments: [
+        { type: "M", x: 0, y: 0 },
+        { type: "L", x: 37, y: 55 },
+      ],
+      closed: false,
+      fillRule: "nonzero",
+    };
+    const targets = collectSnapTargets([layerWith(path)], new Set(), { width: 400, height: 300 });
+
+    expect(snapPoint({ x: 49, y: 63 }, targets, within3).point).toEqual({ x: 47, y: 65 });
+    expect(snapPoint({ x: 198, y: 302 }, targets, within3).point).toEqual({ x: 200, y: 300 });
+    expect(snapPoint({ x: 49, y: 63 }, targets, within3, { x: false, y: true }).point).toEqual({ x: 49, y: 65 });
+    expect(snapPoint({ x: 49, y: 63 }, emptySnapTargets(), within3)).toEqual({ point: { x: 49, y: 63 }, guides: [] });
+  });
+
+  it("falls back to the grid on axes without a guide", () => {
+    const targets = collectSnapTargets([layerWith(rect("a", 100, 100))], new Set());
+    const grid = { threshold: 3, gridStep: 8 };
+
+    // x snaps to a's right edge; y has no guide and rounds to the grid
+    expect(snapPoint({ x: 121, y: 45 }, targets, grid).point).toEqual({ x: 120, y: 48 });
+    expect(snapBox({ x: 299, y: 203, width: 10, height: 10 }, targets, grid).offset).toEqual({
+      x: -3,
+      y: -3,
+    });
+  });
+
+  it("snaps to ruler guides, drawing guides only across the snapped geometry", () => {
+    const targets = emptySnapTargets();
+    addGuideLines(targets, [{ id: "g", axis: "x", position: 50, locked: true }]);
+
+    const snap = snapBox({ x: 52, y: 10, width: 20, height: 30 }, targets, within5);
+    expect(snap.offset).toEqual({ x: -2, y: 0 });
+    expect(snap.guides).toEqual([{ kind: "line", axis: "x", value: 50, from: 10, to: 40 }]);
+  });
+
+  it("measures the snap radius in screen pixels", () => {
+    expect(snapThreshold(1)).toBe(6);
+    expect(snapThreshold(2)).toBe(3);
+  });
+});
@@ -0,0 +1,389 @@
+import type { Size } from "@/types";
+import type {
+  BoundingBox,
+  GridSettings,
+  Point2D,
+  RulerGuide,
+  VectorLayer,
+  VectorObject,
+} from "@/types/vector";
+import { getWorldBounds, localToWorld } from "./bounds";
+import { gridStep, snapToGrid } from "./grid";
+
+/**
+ * Smart guides: snapping dragged geometry to the edges, centers and anchor
+ * points of other objects and to equal-spacing positions between them,
+ * with the guides to draw for each match. Ruler guides are snap lines
+ * too. Axes nothing snapped to fall back to the document grid when grid
+ * snapping is on.
+ */
+
+/** Snap radius in screen pixels; divide by the zoom for document units */
+export const SNAP_DISTANCE = 6;
+
+/** Matches closer than this are drawn as guides */
+const GUIDE_EPSILON = 0.5;
+
+export type SnapAxis = "x" | "y";
+
+/**
+ * Line at `value` on `axis` (x: a vertical line) that geometry snaps to;
+ * `from`..`to` is the extent of its source on the other axis.
+ */
+export interface SnapLine {
+  value: number;
+  from: number;
+  to: number;
+}
+
+export interface SnapTargets {
+  x: SnapLine[];
+  y: SnapLine[];
+  /** Bounds of the other objects, for equal spacing */
+  boxes: BoundingBox[];
+}
+
+/**
+ * `line`: an alignment guide at `value` on `axis`, drawn over `from`..`to`.
+ * `gap`: a spacing measured along `axis` from `start` to `end`, drawn at
+ * `at` on the other axis with its distance as a label.
+ */
+export type SnapGuide =
+  | { kind: "line"; axis: SnapAxis; value: number; from: number; to: number }
+  | { kind: "gap"; axis: SnapAxis; start: number; end: number; at: number };
+
+export interface SnapOptions {
+  /** Snap radius in document units (see `snapThreshold`) */
+  threshold: number;
+  /** Grid step for axes without a smart-guide match, or null for no grid */
+  gridStep: number | null;
+}
+
+export interface BoxSnap {
+  offset: Point2D;
+  guides: SnapGuide[];
+}
+
+export interface PointSnap {
+  point: Point2D;
+  guides: SnapGuide[];
+}
+
+/** Snap radius in document units at `zoom` */
+export function snapThreshold(zoom: number): number {
+  return SNAP_DISTANCE / zoom;
+}
+
+/** Options at `zoom`, falling back to `grid` when its snapping is on */
+export function snapOptions(zoom: number, grid: GridSettings): SnapOptions {
+  return {
+    threshold: snapThreshold(zoom),
+    gridStep: grid.snap ? gridStep(grid) : null,
+  };
+}
+
+export function emptySnapTargets(): SnapTargets {
+  return { x: [], y: [], boxes: [] };
+}
+
+/**
+ * Targets from the visible top-level objects not in `excludeIds`: their
+ * bounds edges and centers and their path anchors. With `artboard`, its
+ * edges and center too.
+ */
+export function collectSnapTargets(
+  layers: VectorLayer[],
+  excludeIds: ReadonlySet<string>,
+  artboard?: Size,
+): SnapTargets {
+  const targets = emptySnapTargets();
+
+  for (const layer of layers) {
+    if (!layer.visible) continue;
+    for (const obj of layer.objects) {
+      if (!obj.visible || excludeIds.has(obj.id)) continue;
+      const bounds = getWorldBounds(obj);
+      addBoxLines(targets, bounds);
+      targets.boxes.push(bounds);
+      for (const anchor of objectAnchors(obj)) addPointLines(targets, anchor);
+    }
+  }
+
+  if (artboard) {
+    addBoxLines(targets, { x: 0, y: 0, width: artboard.width, height: artboard.height });
+  }
+  return targets;
+}
+
+/** Adds lines through `point` on both axes */
+export function addPointLines(targets: SnapTargets, point: Point2D): void {
+  targets.x.push({ value: point.x, from: point.y, to: point.y });
+  targets.y.push({ value: point.y, from: point.x, to: point.x });
+}
+
+/**
+ * Adds a line per ruler guide. Guides span the whole view already, so
+ * their lines have no extent of their own to draw.
+ */
+export function addGuideLines(targets: SnapTargets, guides: RulerGuide[]): void {
+  for (const guide of guides) {
+    targets[guide.axis].push({ value: guide.position, from: Infinity, to: -Infinity });
+  }
+}
+
+/**
+ * Offset that snaps a box being moved: its edges or center to a target
+ * line, or its position to one that evens out the gaps to its neighbours.
+ * Each axis snaps on its own; the nearer match within the threshold wins,
+ * else the box's top-left goes to the grid.
+ */
+export function snapBox(
+  box: BoundingBox,
+  targets: SnapTargets,
+  { threshold, gridStep }: SnapOptions,
+): BoxSnap {
+  const offset = { x: 0, y: 0 };
+  for (const axis of ["x", "y"] as const) {
+    const edges = [lo(box, axis), mid(box, axis), hi(box, axis)];
+    let best = nearestLine(edges, targets[axis], threshold);
+    for (const candidate of spacingCandidates(box, targets.boxes, axis)) {
+      const delta = candidate.start - lo(box, axis);
+      if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) {
+        best = delta;
+      }
+    }
+    if (best !== null) {
+      offset[axis] = best;
+    } else if (gridStep !== null) {
+      offset[axis] = snapToGrid(lo(box, axis), gridStep) - lo(box, axis);
+    }
+  }
+
+  // Guides for every match at the snapped position
+  const moved = { ...box, x: box.x + offset.x, y: box.y + offset.y };
+  const guides: SnapGuide[] = [];
+  for (const axis of ["x", "y"] as const) {
+    const perp = other(axis);
+    guides.push(
+      ...lineGuides(
+        [lo(moved, axis), mid(moved, axis), hi(moved, axis)],
+        targets[axis],
+        axis,
+        lo(moved, perp),
+        hi(moved, perp),
+      ),
+    );
+    for (const candidate of spacingCandidates(moved, targets.boxes, axis)) {
+      if (Math.abs(candidate.start - lo(moved, axis)) < GUIDE_EPSILON) {
+        guides.push(...candidate.gaps);
+      }
+    }
+  }
+  return { offset, guides };
+}
+
+/**
+ * `point` snapped to the nearest target line on each of `axes` within the
+ * threshold, else to the grid, for resize handles, shape corners and pen
+ * anchors.
+ */
+export function snapPoint(
+  point: Point2D,
+  targets: SnapTargets,
+  { threshold, gridStep }: SnapOptions,
+  axes: Record<SnapAxis, boolean> = { x: true, y: true },
+): PointSnap {
+  const snapped = { ...point };
+  const guides: SnapGuide[] = [];
+
+  for (const axis of ["x", "y"] as const) {
+    if (!axes[axis]) continue;
+    const delta = nearestLine([point[axis]], targets[axis], threshold);
+    if (delta === null) {
+      if (gridStep !== null) snapped[axis] = snapToGrid(point[axis], gridStep);
+      continue;
+    }
+    snapped[axis] = point[axis] + delta;
+    const perp = other(axis);
+    guides.push(
+      ...lineGuides([snapped[axis]], targets[axis], axis, point[perp], point[perp]),
+    );
+  }
+  return { point: snapped, guides };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** Where `box` would start along `axis` to space it evenly, with the gaps to show */
+interface SpacingCandidate {
+  start: number;
+  gaps: SnapGuide[];
+}
+
+/**
+ * Equal-spacing positions among the boxes in line with `box` on the other
+ * axis: centered between its nearest neighbours, or one neighbour's gap
+ * to the next box repeated on this side.
+ */
+function spacingCandidates(
+  box: BoundingBox,
+  boxes: BoundingBox[],
+  axis: SnapAxis,
+): SpacingCandidate[] {
+  const perp = other(axis);
+  const row = boxes.filter(
+    (b) => lo(b, perp) <= hi(box, perp) && hi(b, perp) >= lo(box, perp),
+  );
+  const center = mid(box, axis);
+  const size = hi(box, axis) - lo(box, axis);
+  const nearestBefore = (limit: number) =>
+    maxBy(row.filter((b) => hi(b, axis) <= limit), (b) => hi(b, axis));
+  const nearestAfter = (limit: number) =>
+    maxBy(row.filter((b) => lo(b, axis) >= limit), (b) => -lo(b, axis));
+  const gap = (a: BoundingBox, b: BoundingBox, start: number, end: number): SnapGuide => ({
+    kind: "gap",
+    axis,
+    start,
+    end,
+    at: (Math.max(lo(a, perp), lo(b, perp)) + Math.min(hi(a, perp), hi(b, perp))) / 2,
+  });
+
+  const candidates: SpacingCandidate[] = [];
+  const before = nearestBefore(center);
+  const after = nearestAfter(center);
+
+  if (before && after) {
+    const start = (hi(before, axis) + lo(after, axis) - size) / 2;
+    if (start >= hi(before, axis)) {
+      const moved = shift(box, axis, start - lo(box, axis));
+      candidates.push({
+        start,
+        gaps: [
+          gap(before, moved, hi(before, axis), start),
+          gap(moved, after, start + size, lo(after, axis)),
+        ],
+      });
+    }
+  }
+
+  if (before) {
+    const second = nearestBefore(lo(before, axis));
+    if (second) {
+      const start = hi(before, axis) + lo(before, axis) - hi(second, axis);
+      const moved = shift(box, axis, start - lo(box, axis));
+      candidates.push({
+        start,
+        gaps: [
+          gap(second, before, hi(second, axis), lo(before, axis)),
+          gap(before, moved, hi(before, axis), start),
+        ],
+      });
+    }
+  }
+
+  if (after) {
+    const second = nearestAfter(hi(after, axis));
+    if (second) {
+      const start = lo(after, axis) - (lo(second, axis) - hi(after, axis)) - size;
+      const moved = shift(box, axis, start - lo(box, axis));
+      candidates.push({
+        start,
+        gaps: [
+          gap(moved, after, start + size, lo(after, axis)),
+          gap(after, second, hi(after, axis), lo(second, axis)),
+        ],
+      });
+    }
+  }
+  return candidates;
+}
+
+/** Smallest move of any of `values` onto a line within `threshold` */
+function nearestLine(
+  values: number[],
+  lines: SnapLine[],
+  threshold: number,
+): number | null {
+  let best: number | null = null;
+  for (const line of lines) {
+    for (const value of values) {
+      const delta = line.value - value;
+      if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) {
+        best = delta;
+      }
+    }
+  }
+  return best;
+}
+
+/** A guide per line through one of `values`, spanning it and `from`..`to` */
+function lineGuides(
+  values: number[],
+  lines: SnapLine[],
+  axis: SnapAxis,
+  from: number,
+  to: number,
+): SnapGuide[] {
+  const guides = new Map<number, SnapGuide & { kind: "line" }>();
+  for (const line of lines) {
+    if (!values.some((v) => Math.abs(line.value - v) < GUIDE_EPSILON)) continue;
+    const existing = guides.get(line.value);
+    guides.set(line.value, {
+      kind: "line",
+      axis,
+      value: line.value,
+      from: Math.min(line.from, from, existing?.from ?? from),
+      to: Math.max(line.to, to, existing?.to ?? to),
+    });
+  }
+  return [...guides.values()];
+}
+
+/** Points an object can snap by beyond its bounds: path anchors */
+function objectAnchors(obj: VectorObject): Point2D[] {
+  if (obj.type !== "path") return [];
+  const anchors: Point2D[] = [];
+  for (const seg of obj.segments) {
+    if (seg.type !== "Z") anchors.push(localToWorld(seg, obj.transform));
+  }
+  return anchors;
+}
+
+function addBoxLines(targets: SnapTargets, b: BoundingBox): void {
+  for (const value of [lo(b, "x"), mid(b, "x"), hi(b, "x")]) {
+    targets.x.push({ value, from: b.y, to: b.y + b.height });
+  }
+  for (const value of [lo(b, "y"), mid(b, "y"), hi(b, "y")]) {
+    targets.y.push({ value, from: b.x, to: b.x + b.width });
+  }
+}
+
+function maxBy<T>(items: T[], key: (item: T) => number): T | null {
+  let best: T | null = null;
+  for (const item of items) {
+    if (best === null || key(item) > key(best)) best = item;
+  }
+  return best;
+}
+
+function shift(b: BoundingBox, axis: SnapAxis, delta: number): BoundingBox {
+  return axis === "x" ? { ...b, x: b.x + delta } : { ...b, y: b.y + delta };
+}
+
+function other(axis: SnapAxis): SnapAxis {
+  return axis === "x" ? "y" : "x";
+}
+
+function lo(b: BoundingBox, axis: SnapAxis): number {
+  return axis === "x" ? b.x : b.y;
+}
+
+function mid(b: BoundingBox, axis: SnapAxis): number {
+  return axis === "x" ? b.x + b.width / 2 : b.y + b.height / 2;
+}
+
+function hi(b: BoundingBox, axis: SnapAxis): number {
+  return axis === "x" ? b.x + b.width : b.y + b.height;
+}
@@ -74,6 +74,27 @@ describe("svgExport", () => {
     expect(svg).toContain("Hi</text>");
   });
 
+  it("writes skew between rotation and scale", () => {
+    const rect: RectangleObject = {
+      id: "r1",
+      type: "rectangle",
+      name: "Box",
+      transform: { ...createTransform(5, 10), rotation: 30, skewX: 10, scaleX: -1 },
+      fill: createSolidFill("#ff0000", 1),
+      stroke: null,
+      opacity: 1,
+      visible: true,
+      locked: false,
+      width: 10,
+      height: 10,
+      cornerRadius: [0, 0, 0, 0],
+    };
+    const layer = { ...createLayer("layer-1", "Layer 1"), objects: [rect] };
+
+    const svg = exportDocumentToSvg([layer], { width: 20, height: 20 });
+    expect(svg).toContain('transform="translate(5,10) rotate(30) skewX(10) scale(-1,1)"');
+  });
+
   it("exports per-corner rounded rectangle as path", () => {
     const d = roundedRectPathD(100, 50, [10, 5, 0, 15]);
     expect(d).toContain("A 10 10");
@@ -14,6 +14,7 @@ import type {
   VectorLayer,
   VectorObject,
 } from "@/types/vector";
+import { getWorldBounds, mergeBounds } from "./bounds";
 
 export interface SvgExportOptions {
   /** Canvas width in user units */
@@ -136,6 +137,12 @@ function transformToSvg(t: Transform2D): string {
   if (t.rotation !== 0) {
     parts.push(`rotate(${t.rotation})`);
   }
+  if (t.skewX !== 0) {
+    parts.push(`skewX(${t.skewX})`);
+  }
+  if (t.skewY !== 0) {
+    parts.push(`skewY(${t.skewY})`);
+  }
   if (t.scaleX !== 1 || t.scaleY !== 1) {
     parts.push(`scale(${t.scaleX},${t.scaleY})`);
   }
@@ -288,7 +295,7 @@ function objectToSvg(ctx: SvgExportContext, obj: VectorObject): string {
     case "path": {
       const pathObj = obj as PathObject;
       const d = pathSegmentsToD(pathObj.segments);
-      const fillRule = pathObj.fill ? ' fill-rule="nonzero"' : "";
+      const fillRule = pathObj.fill ? ` fill-rule="${pathObj.fillRule}"` : "";
       return `<path d="${d}"${transform}${op}${paint}${fillRule} />`;
     }
     case "polygon": {
@@ -373,6 +380,30 @@ export function exportDocumentToSvg(
   );
 }
 
+/**
+ * Serialize objects (in world space) to a standalone SVG cropped to their
+ * bounds — used for clipboard copies that other apps can paste.
+ */
+export function exportObjectsToSvg(objects: VectorObject[]): string {
+  const ctx = new SvgExportContext();
+  const parts = objects
+    .map((obj) => objectToSvg(ctx, obj))
+    .filter((svg) => svg !== "");
+
+  const bounds =
+    objects.length > 0
+      ? mergeBounds(objects.map(getWorldBounds))
+      : { x: 0, y: 0, width: 0, height: 0 };
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${bounds.width}" height="${bounds.height}" ` +
+    `viewBox="${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}">\n` +
+    ctx.defsMarkup() +
+    `${parts.join("\n")}\n` +
+    `</svg>`
+  );
+}
+
 /** Trigger download of an SVG string in the browser */
 export function downloadSvgFile(svg: string, filename: string): void {
   const blob = new Blob([svg], { type: "image/svg+xml;charset=utf-8" });
@@ -0,0 +1,213 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import type {
+  EllipseObject,
+  GroupObject,
+  LinearGradientFill,
+  PathObject,
+  RectangleObject,
+  TextObject,
+} from "@/types/vector";
+import {
+  importSvg,
+  looksLikeSvg,
+  parseColor,
+  parseTransformList,
+} from "./svgImport";
+
+function ids() {
+  let n = 0;
+  return () => `id-${++n}`;
+}
+
+function svg(body: string, attrs = "") {
+  return `<svg xmlns="http://www.w3.org/2000/svg" ${attrs}>${body}</svg>`;
+}
+
+describe("importSvg", () => {
+  it("imports basic shapes with their paint", () => {
+    const { objects, warnings } = importSvg(
+      svg(
+        `<rect id="box" x="10" y="20" width="30" height="40" rx="5" fill="#f00" stroke="blue" stroke-width="2"/>` +
+          `<circle cx="50" cy="50" r="10" style="fill: rgb(0, 128, 0); fill-opacity: 0.5"/>`,
+      ),
+      ids(),
+    );
+
+    expect(warnings).toEqual([]);
+    const rect = objects[0] as RectangleObject;
+    expect(rect).toMatchObject({
+      type: "rectangle",
+      name: "box",
+      width: 30,
+      height: 40,
+      cornerRadius: [5, 5, 5, 5],
+      fill: { type: "solid", color: "#ff0000", opacity: 1 },
+      stroke: { color: "#0000ff", width: 2 },
+    });
+    expect(rect.transform).toMatchObject({ x: 10, y: 20, rotation: 0 });
+
+    const circle = objects[1] as EllipseObject;
+    expect(circle).toMatchObject({ type: "ellipse", radiusX: 10, radiusY: 10 });
+    expect(circle.transform).toMatchObject({ x: 50, y: 50 });
+    expect(circle.fill).toEqual({ type: "solid", color: "#008000", opacity: 0.5 });
+  });
+
+  it("keeps groups and composes their transforms", () => {
+    const { objects } = importSvg(
+      svg(
+        `<g transform="translate(100 0) rotate(90)" fill="green">` +
+          `<polygon points="0,0 10,0 10,10"/></g>`,
+      ),
+      ids(),
+    );
+
+    const group = objects[0] as GroupObject;
+    expect(group.type).toBe("group");
+    expect(group.transform.x).toBeCloseTo(100);
+    expect(group.transform.rotation).toBeCloseTo(90);
+
+    const poly = group.children[0] as PathObject;
+    expect(poly.type).toBe("path");
+    expect(poly.closed).toBe(true);
+    expect(poly.fill).toMatchObject({ color: "#008000" });
+  });
+
+  it("keeps skew on the shape and bakes extreme skew into path points", () => {
+    const { objects } = importSvg(
+      svg(
+        `<rect width="10" height="10" transform="skewX(45)"/>` +
+          `<rect width="10" height="10" transform="matrix(1 0 100 1 0 0)"/>`,
+      ),
+      ids(),
+    );
+    expect(objects[0].type).toBe("rectangle");
+    expect(objects[0].transform.skewX).toBeCloseTo(45);
+
+    const path = objects[1] as PathObject;
+    expect(path.type).toBe("path");
+    expect(path.transform).toMatchObject({ x: 0, y: 0, rotation: 0 });
+    expect(path.segments).toHaveLength(5);
+    // Bottom-left corner (0, 10) is sheared to (1000, 10)
+    const corner = path.segments[3] as { x: number; y: number };
+    expect(corner.x).toBeCloseTo(1000);
+    expect(corner.y).toBeCloseTo(10);
+  });
+
+  it("imports skewed text and images without warnings", () => {
+    const { objects, warnings } = importSvg(
+      svg(
+        `<text transform="skewX(20)">Hi</text>` +
+          `<image href="data:," width="10" height="10" transform="skewY(10)"/>`,
+      ),
+      ids(),
+    );
+    expect(objects.map((o) => o.type)).toEqual(["text", "image"]);
+    expect(objects[0].transform.skewX).toBeCloseTo(20);
+    expect(warnings).toEqual([]);
+  });
+
+  it("maps the viewBox onto width and height", () => {
+    const { objects } = importSvg(
+      svg(`<rect x="12" y="12" width="12" height="12"/>`, `viewBox="0 0 24 24" width="48" height="48"`),
+      ids(),
+    );
+    expect(objects[0].transform).toMatchObject({ x: 24, y: 24, scaleX: 2, scaleY: 2 });
+  });
+
+  it("resolves percentage lengths against the viewport", () => {
+    const { objects, warnings } = importSvg(
+      svg(
+        `<rect x="10%" y="50%" width="50%" height="25%"/><circle cx="0" cy="0" r="10%"/>`,
+        `viewBox="0 0 200 100"`,
+      ),
+      ids(),
+    );
+    expect(objects[0]).toMatchObject({ transform: { x: 20, y: 50 }, width: 100, height: 25 });
+    expect((objects[1] as EllipseObject).radiusX).toBeCloseTo(Math.hypot(200, 100) / Math.SQRT2 / 10);
+    expect(warnings).toEqual([]);
+
+    const unsized = importSvg(svg(`<rect width="50%" height="10"/>`), ids());
+    expect((unsized.objects[0] as RectangleObject).width).toBe(50);
+    expect(unsized.warnings).toEqual([
+      "Percentage lengths were read as pixels; the SVG has no viewBox or size",
+    ]);
+  });
+
+  it("skips and reports paths with nothing to draw", () => {
+    const { objects, warnings } = importSvg(
+      svg(`<path d=""/><path d="M10 10"/><path d="M0 0 L5 5"/>`),
+      ids(),
+    );
+    expect(objects).toHaveLength(1);
+    expect(warnings).toEqual(["Paths with nothing to draw were skipped (×2)"]);
+  });
+
+  it("resolves gradients in object space", () => {
+    const { objects } = importSvg(
+      svg(
+        `<defs><linearGradient id="g"><stop offset="0" stop-color="#000"/>` +
+          `<stop offset="100%" stop-color="white" stop-opacity=".5"/></linearGradient></defs>` +
+          `<rect x="10" y="10" width="100" height="50" fill="url(#g)"/>`,
+      ),
+      ids(),
+    );
+    const fill = objects[0].fill as LinearGradientFill;
+    expect(fill).toMatchObject({ type: "linear-gradient", startX: 0, startY: 0, endX: 100, endY: 0 });
+    expect(fill.stops[1]).toEqual({ offset: 1, color: "#ffffff", opacity: 0.5 });
+  });
+
+  it("imports text at its top edge", () => {
+    const { objects } = importSvg(
+      svg(`<text x="5" y="20" font-size="10" text-anchor="middle" font-weight="700">Hi <tspan>there</tspan></text>`),
+      ids(),
+    );
+    const text = objects[0] as TextObject;
+    expect(text).toMatchObject({
+      content: "Hi there",
+      fontSize: 10,
+      fontWeight: "bold",
+      textAlign: "center",
+    });
+    expect(text.transform.y).toBeCloseTo(12);
+  });
+
+  it("reports what it cannot represent", () => {
+    const { objects, warnings } = importSvg(
+      svg(
+        `<style>.a{fill:red}</style><use href="#x"/><use href="#y"/>` +
+          `<path d="M0 0 L10 10" clip-path="url(#c)" fill-rule="evenodd"/>`,
+      ),
+      ids(),
+    );
+    expect(objects).toHaveLength(1);
+    expect(warnings).toEqual([
+      "<style> rules are ignored; only inline styles are imported",
+      "<use> is not supported and was skipped (×2)",
+      "clip-path is not supported and was ignored",
+    ]);
+  });
+
+  it("rejects markup that is not SVG", () => {
+    expect(() => importSvg("<html></html>", ids())).toThrow("Not a valid SVG");
+    expect(() => importSvg("<svg", ids())).toThrow();
+  });
+});
+
+describe("svgImport helpers", () => {
+  it("detects SVG markup", () => {
+    expect(looksLikeSvg(`<?xml version="1.0"?>\n<svg xmlns="">`)).toBe(true);
+    expect(looksLikeSvg("hello <svg>")).toBe(false);
+  });
+
+  it("parses colors", () => {
+    expect(parseColor("#abc")).toEqual({ hex: "#aabbcc", alpha: 1 });
+    expect(parseColor("rgba(255, 0, 0, 0.25)")).toEqual({ hex: "#ff0000", alpha: 0.25 });
+    expect(parseColor("rebeccapurple")).toBeNull();
+  });
+
+  it("parses transform lists", () => {
+    expect(parseTransformList("translate(5) scale(2)")).toEqual([2, 0, 0, 2, 5, 0]);
+    expect(parseTransformList("wobble(3)")).toBeNull();
+  });
+});
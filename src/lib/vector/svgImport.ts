@@ -0,0 +1,1017 @@
+import type {
+  BoundingBox,
+  EllipseObject,
+  Fill,
+  GradientStop,
+  GroupObject,
+  ImageObject,
+  LineObject,
+  PathObject,
+  PathSegment,
+  Point2D,
+  RectangleObject,
+  StrokeStyle,
+  TextObject,
+  VectorObject,
+} from "@/types/vector";
+import { createTransform } from "@/types/vector";
+import { getLocalBounds, getWorldBounds } from "./bounds";
+import {
+  IDENTITY_MATRIX,
+  applyMatrix,
+  decomposeMatrix,
+  matrixScale,
+  multiplyMatrix,
+  translationMatrix,
+  type Matrix2D,
+} from "./matrix";
+import { parsePathData, transformSegments } from "./pathData";
+import { buildGroup } from "./sceneGraph";
+import { roundedRectPathD } from "./svgExport";
+
+export interface SvgImportResult {
+  /** Top-level objects in the SVG's viewport coordinates */
+  objects: VectorObject[];
+  /** Everything that was dropped or approximated, one line per kind */
+  warnings: string[];
+}
+
+/** Inherited presentation properties we understand */
+const INHERITED_PROPS = [
+  "fill",
+  "fill-opacity",
+  "fill-rule",
+  "stroke",
+  "stroke-width",
+  "stroke-opacity",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "stroke-dasharray",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "font-style",
+  "text-anchor",
+  "visibility",
+  "color",
+] as const;
+
+type StyleProps = Partial<Record<(typeof INHERITED_PROPS)[number], string>>;
+
+/** Elements that carry no drawable content of their own */
+const SILENT_ELEMENTS = new Set([
+  "defs",
+  "title",
+  "desc",
+  "metadata",
+  "linearGradient",
+  "radialGradient",
+  "stop",
+]);
+
+/** Attributes we cannot represent — reported when present */
+const UNSUPPORTED_ATTRIBUTES = ["clip-path", "mask", "filter", "marker-start", "marker-mid", "marker-end"];
+
+const NAMED_COLORS: Record<string, string> = {
+  black: "#000000",
+  silver: "#c0c0c0",
+  gray: "#808080",
+  grey: "#808080",
+  white: "#ffffff",
+  maroon: "#800000",
+  red: "#ff0000",
+  purple: "#800080",
+  fuchsia: "#ff00ff",
+  magenta: "#ff00ff",
+  green: "#008000",
+  lime: "#00ff00",
+  olive: "#808000",
+  yellow: "#ffff00",
+  navy: "#000080",
+  blue: "#0000ff",
+  teal: "#008080",
+  aqua: "#00ffff",
+  cyan: "#00ffff",
+  orange: "#ffa500",
+};
+
+/** Default font size for `em` units and text without `font-size` */
+const DEFAULT_FONT_SIZE = 16;
+
+/** Length attributes whose percentages are of the viewport width / height */
+const HORIZONTAL_LENGTHS = new Set(["x", "cx", "fx", "x1", "x2", "width", "rx"]);
+const VERTICAL_LENGTHS = new Set(["y", "cy", "fy", "y1", "y2", "height", "ry"]);
+
+/** Quick check for SVG markup in pasted text */
+export function looksLikeSvg(text: string | null | undefined): boolean {
+  if (!text) return false;
+  return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE[^>]*>\s*)?<svg[\s>]/i.test(
+    text,
+  );
+}
+
+/**
+ * Parse SVG markup into editable vector objects. Needs `DOMParser`
+ * (browser or jsdom). Throws when the markup is not a well-formed SVG.
+ */
+export function importSvg(
+  markup: string,
+  createId: () => string,
+): SvgImportResult {
+  const doc = new DOMParser().parseFromString(markup, "image/svg+xml");
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName("parsererror").length > 0 || root.localName !== "svg") {
+    throw new Error("Not a valid SVG file.");
+  }
+
+  const importer = new SvgImporter(doc, createId);
+  const objects = importer.convertChildren(root, viewBoxMatrix(root), {});
+  return { objects, warnings: importer.warningList() };
+}
+
+/**
+ * Prepare imported objects for insertion: several top-level objects are
+ * wrapped in one group so the import moves as a unit, and when `center` is
+ * given the result is moved so its bounds are centred there (e.g. a drop
+ * point). Without it the SVG's own coordinates are kept.
+ */
+export function arrangeImportedObjects(
+  objects: VectorObject[],
+  createId: () => string,
+  center?: Point2D,
+): VectorObject[] {
+  if (objects.length === 0) return [];
+  const root =
+    objects.length === 1 ? objects[0] : buildGroup(createId(), objects, "Imported SVG");
+  if (!center) return [root];
+
+  const bounds = getWorldBounds(root);
+  const dx = center.x - (bounds.x + bounds.width / 2);
+  const dy = center.y - (bounds.y + bounds.height / 2);
+  return [
+    {
+      ...root,
+      transform: { ...root.transform, x: root.transform.x + dx, y: root.transform.y + dy },
+    },
+  ];
+}
+
+/** Bulleted list of import warnings for an alert */
+export function summarizeImportWarnings(warnings: string[], limit = 8): string {
+  const lines = warnings.slice(0, limit).map((w) => `• ${w}`);
+  if (warnings.length > limit) lines.push(`…and ${warnings.length - limit} more`);
+  return lines.join("\n");
+}
+
+class SvgImporter {
+  private warnings = new Map<string, number>();
+  private gradients = new Map<string, Element>();
+  /** Root viewport in user units, for percentage lengths; null if unknown */
+  private readonly viewport: { width: number; height: number } | null;
+
+  constructor(
+    doc: Document,
+    private readonly createId: () => string,
+  ) {
+    this.viewport = rootViewport(doc.documentElement);
+    for (const el of Array.from(doc.querySelectorAll("[id]"))) {
+      if (el.localName === "linearGradient" || el.localName === "radialGradient") {
+        this.gradients.set(el.getAttribute("id")!, el);
+      }
+    }
+    if (doc.getElementsByTagName("style").length > 0) {
+      this.warn("<style> rules are ignored; only inline styles are imported");
+    }
+  }
+
+  warn(message: string) {
+    this.warnings.set(message, (this.warnings.get(message) ?? 0) + 1);
+  }
+
+  /**
+   * A length attribute in user units. Percentages are taken of the root
+   * viewport: its width or height for lengths along one axis, its
+   * normalized diagonal for the rest (radii, stroke widths).
+   */
+  private length(value: string | undefined, fallback: number, attr = ""): number {
+    if (!value?.trim().endsWith("%")) return parseLength(value, fallback);
+    if (!this.viewport) {
+      this.warn("Percentage lengths were read as pixels; the SVG has no viewBox or size");
+      return parseLength(value, fallback);
+    }
+    const { width, height } = this.viewport;
+    const base = HORIZONTAL_LENGTHS.has(attr)
+      ? width
+      : VERTICAL_LENGTHS.has(attr)
+        ? height
+        : Math.hypot(width, height) / Math.SQRT2;
+    return parseLength(value, fallback, base);
+  }
+
+  private num(el: Element, attr: string): number {
+    return this.length(el.getAttribute(attr) ?? undefined, 0, attr);
+  }
+
+  warningList(): string[] {
+    return Array.from(this.warnings, ([message, count]) =>
+      count > 1 ? `${message} (×${count})` : message,
+    );
+  }
+
+  convertChildren(
+    parent: Element,
+    inherited: Matrix2D,
+    style: StyleProps,
+  ): VectorObject[] {
+    const objects: VectorObject[] = [];
+    for (const child of Array.from(parent.children)) {
+      const obj = this.convert(child, inherited, style);
+      if (obj) objects.push(obj);
+    }
+    return objects;
+  }
+
+  /**
+   * `inherited` is the part of the ancestors' transform that could not be
+   * expressed on an ancestor group (skew) and must be applied here.
+   */
+  private convert(
+    el: Element,
+    inherited: Matrix2D,
+    parentStyle: StyleProps,
+  ): VectorObject | null {
+    const tag = el.localName;
+    if (SILENT_ELEMENTS.has(tag) || tag === "style") return null;
+
+    const style = resolveStyle(el, parentStyle);
+    if (readProp(el, "display") === "none") return null;
+
+    for (const attr of UNSUPPORTED_ATTRIBUTES) {
+      if (readProp(el, attr)) this.warn(`${attr} is not supported and was ignored`);
+    }
+
+    let local = multiplyMatrix(inherited, this.parseTransform(el));
+    if (tag === "svg") {
+      // Nested viewport: position only
+      if (el.hasAttribute("viewBox")) this.warn("Nested <svg> viewBox was ignored");
+      local = multiplyMatrix(local, translationMatrix(this.num(el, "x"), this.num(el, "y")));
+    }
+
+    switch (tag) {
+      case "g":
+      case "a":
+      case "svg":
+        return this.convertGroup(el, local, style);
+      case "rect":
+        return this.convertRect(el, local, style);
+      case "circle":
+      case "ellipse":
+        return this.convertEllipse(el, local, style);
+      case "line":
+        return this.convertLine(el, local, style);
+      case "polyline":
+      case "polygon":
+        return this.convertPoly(el, local, style);
+      case "path": {
+        const parsed = parsePathData(el.getAttribute("d") ?? "");
+        if (parsed.error) this.warn(`Path data error: ${parsed.error}`);
+        if (!parsed.segments.some((seg) => seg.type !== "M" && seg.type !== "Z")) {
+          this.warn("Paths with nothing to draw were skipped");
+          return null;
+        }
+        return this.buildPath(el, local, style, parsed.segments, false, "Path");
+      }
+      case "text":
+        return this.convertText(el, local, style);
+      case "image":
+        return this.convertImage(el, local, style);
+      default:
+        this.warn(`<${tag}> is not supported and was skipped`);
+        return null;
+    }
+  }
+
+  private convertGroup(
+    el: Element,
+    local: Matrix2D,
+    style: StyleProps,
+  ): GroupObject | null {
+    // A group skewed past MAX_SKEW passes its whole matrix down to the children
+    const transform = decomposeMatrix(local);
+    const children = this.convertChildren(
+      el,
+      transform ? IDENTITY_MATRIX : local,
+      style,
+    );
+    if (children.length === 0) return null;
+
+    return {
+      ...this.base(el, style, "Group"),
+      type: "group",
+      transform: transform ?? createTransform(),
+      fill: null,
+      stroke: null,
+      children,
+    };
+  }
+
+  private convertRect(
+    el: Element,
+    local: Matrix2D,
+    style: StyleProps,
+  ): VectorObject | null {
+    const x = this.num(el, "x");
+    const y = this.num(el, "y");
+    const width = this.num(el, "width");
+    const height = this.num(el, "height");
+    if (width <= 0 || height <= 0) return null;
+
+    let rx = el.hasAttribute("rx") ? this.num(el, "rx") : this.num(el, "ry");
+    const ry = el.hasAttribute("ry") ? this.num(el, "ry") : rx;
+    if (rx !== ry) {
+      this.warn("Elliptical rectangle corners were made circular");
+      rx = Math.min(rx, ry);
+    }
+    const radius = Math.min(rx, width / 2, height / 2);
+
+    const geometry = multiplyMatrix(local, translationMatrix(x, y));
+    const transform = decomposeMatrix(geometry);
+    const bbox = { x, y, width, height };
+
+    if (!transform) {
+      const outline: PathSegment[] =
+        radius > 0
+          ? parsePathData(
+              roundedRectPathD(width, height, [radius, radius, radius, radius]),
+            ).segments
+          : [
+              { type: "M", x: 0, y: 0 },
+              { type: "L", x: width, y: 0 },
+              { type: "L", x: width, y: height },
+              { type: "L", x: 0, y: height },
+              { type: "Z" },
+            ];
+      const segments = transformSegments(outline, translationMatrix(x, y));
+      return this.buildPath(el, local, style, segments, true, "Rectangle");
+    }
+
+    const rect: RectangleObject = {
+      ...this.base(el, style, "Rectangle"),
+      type: "rectangle",
+      transform,
+      width,
+      height,
+      cornerRadius: [radius, radius, radius, radius],
+    };
+    return this.paint(rect, el, style, bbox, translationMatrix(-x, -y), 1);
+  }
+
+  private convertEllipse(
+    el: Element,
+    local: Matrix2D,
+    style: StyleProps,
+  ): VectorObject | null {
+    const cx = this.num(el, "cx");
+    const cy = this.num(el, "cy");
+    const isCircle = el.localName === "circle";
+    const radiusX = isCircle ? this.num(el, "r") : this.num(el, "rx");
+    const radiusY = isCircle ? radiusX : this.num(el, "ry") || radiusX;
+    if (radiusX <= 0 || radiusY <= 0) return null;
+
+    const name = isCircle ? "Circle" : "Ellipse";
+    const geometry = multiplyMatrix(local, translationMatrix(cx, cy));
+    const transform = decomposeMatrix(geometry);
+    const bbox = {
+      x: cx - radiusX,
+      y: cy - radiusY,
+      width: radiusX * 2,
+      height: radiusY * 2,
+    };
+
+    if (!transform) {
+      const d =
+        `M ${cx + radiusX} ${cy} ` +
+        `A ${radiusX} ${radiusY} 0 0 1 ${cx - radiusX} ${cy} ` +
+        `A ${radiusX} ${radiusY} 0 0 1 ${cx + radiusX} ${cy} Z`;
+      return this.buildPath(el, local, style, parsePathData(d).segments, true, name);
+    }
+
+    const ellipse: EllipseObject = {
+      ...this.base(el, style, name),
+      type: "ellipse",
+      transform,
+      radiusX,
+      radiusY,
+    };
+    return this.paint(ellipse, el, style, bbox, translationMatrix(-cx, -cy), 1);
+  }
+
+  private convertLine(
+    el: Element,
+    local: Matrix2D,
+    style: StyleProps,
+  ): VectorObject | null {
+    const x1 = this.num(el, "x1");
+    const y1 = this.num(el, "y1");
+    const x2 = this.num(el, "x2");
+    const y2 = this.num(el, "y2");
+
+    const transform = decomposeMatrix(multiplyMatrix(local, translationMatrix(x1, y1)));
+    if (!transform) {
+      const segments: PathSegment[] = [
+        { type: "M", x: x1, y: y1 },
+        { type: "L", x: x2, y: y2 },
+      ];
+      return this.buildPath(el, local, style, segments, false, "Line");
+    }
+
+    const line: LineObject = {
+      ...this.base(el, style, "Line"),
+      type: "line",
+      transform,
+      endX: x2 - x1,
+      endY: y2 - y1,
+    };
+    const bbox = boundsOf([
+      { x: x1, y: y1 },
+      { x: x2, y: y2 },
+    ]);
+    // Lines have no fill
+    const painted = this.paint(line, el, style, bbox, translationMatrix(-x1, -y1), 1);
+    return { ...painted, fill: null };
+  }
+
+  private convertPoly(
+    el: Element,
+    local: Matrix2D,
+    style: StyleProps,
+  ): VectorObject | null {
+    const values = (el.getAttribute("points") ?? "")
+      .trim()
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map(Number);
+    if (values.some((v) => !Number.isFinite(v))) {
+      this.warn("Invalid polygon points were skipped");
+      return null;
+    }
+
+    const segments: PathSegment[] = [];
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      segments.push({ type: i === 0 ? "M" : "L", x: values[i], y: values[i + 1] });
+    }
+    if (segments.length < 2) return null;
+
+    const closed = el.localName === "polygon";
+    if (closed) segments.push({ type: "Z" });
+    return this.buildPath(el, local, style, segments, closed, closed ? "Polygon" : "Polyline");
+  }
+
+  /**
+   * Path in the element's user space. Keeps `local` as the object transform
+   * when possible, otherwise bakes it into the points.
+   */
+  private buildPath(
+    el: Element,
+    local: Matrix2D,
+    style: StyleProps,
+    segments: PathSegment[],
+    closed: boolean,
+    name: string,
+  ): PathObject {
+    const transform = decomposeMatrix(local);
+    const baked = transform === null;
+
+    const path: PathObject = {
+      ...this.base(el, style, name),
+      type: "path",
+      transform: transform ?? createTransform(),
+      segments: baked ? transformSegments(segments, local) : segments,
+      closed: closed || segments[segments.length - 1]?.type === "Z",
+      fillRule: style["fill-rule"] === "evenodd" ? "evenodd" : "nonzero",
+    };
+
+    const bbox = getLocalBounds({ ...path, segments, transform: createTransform() });
+    return this.paint(
+      path,
+      el,
+      style,
+      bbox,
+      baked ? local : IDENTITY_MATRIX,
+      baked ? matrixScale(local) : 1,
+    );
+  }
+
+  private convertText(
+    el: Element,
+    local: Matrix2D,
+    style: StyleProps,
+  ): TextObject | null {
+    const content = (el.textContent ?? "").replace(/\s+/g, " ").trim();
+    if (!content) return null;
+    if (el.getElementsByTagName("tspan").length > 0) {
+      this.warn("<tspan> positioning was flattened into plain text");
+    }
+
+    const fontSize =
+      parseLength(style["font-size"], DEFAULT_FONT_SIZE, DEFAULT_FONT_SIZE) || DEFAULT_FONT_SIZE;
+    // SVG positions text by its baseline; ours by the top of the line
+    const x = this.num(el, "x");
+    const y = this.num(el, "y") - fontSize * 0.8;
+
+    let transform = decomposeMatrix(multiplyMatrix(local, translationMatrix(x, y)));
+    if (!transform) {
+      this.warn("Text with a flattening transform was imported untransformed");
+      const origin = applyMatrix(local, { x, y });
+      transform = createTransform(origin.x, origin.y);
+    }
+
+    const anchor = style["text-anchor"];
+    const text: TextObject = {
+      ...this.base(el, style, "Text"),
+      type: "text",
+      transform,
+      content,
+      fontFamily: (style["font-family"] ?? "sans-serif").replace(/["']/g, ""),
+      fontSize,
+      fontWeight:
+        style["font-weight"] === "bold" || Number(style["font-weight"]) >= 600
+          ? "bold"
+          : "normal",
+      fontStyle: style["font-style"] === "italic" ? "italic" : "normal",
+      textAlign: anchor === "middle" ? "center" : anchor === "end" ? "right" : "left",
+      lineHeight: 1.2,
+    };
+    const bbox = { x, y, width: content.length * fontSize * 0.6, height: fontSize };
+    return this.paint(text, el, style, bbox, translationMatrix(-x, -y), 1);
+  }
+
+  private convertImage(
+    el: Element,
+    local: Matrix2D,
+    style: StyleProps,
+  ): ImageObject | null {
+    const src =
+      el.getAttribute("href") ??
+      el.getAttributeNS("http://www.w3.org/1999/xlink", "href");
+    const width = this.num(el, "width");
+    const height = this.num(el, "height");
+    if (!src || width <= 0 || height <= 0) {
+      this.warn("<image> without a source or size was skipped");
+      return null;
+    }
+
+    const transform = decomposeMatrix(
+      multiplyMatrix(local, translationMatrix(this.num(el, "x"), this.num(el, "y"))),
+    );
+    if (!transform) {
+      this.warn("<image> with a flattening transform was skipped");
+      return null;
+    }
+
+    return {
+      ...this.base(el, style, "Image"),
+      type: "image",
+      transform,
+      fill: null,
+      stroke: null,
+      width,
+      height,
+      src,
+    };
+  }
+
+  /** Common fields; paint is filled in by `paint()` */
+  private base(el: Element, style: StyleProps, fallbackName: string) {
+    const opacity = parseOpacity(readProp(el, "opacity"));
+    return {
+      id: this.createId(),
+      name: el.getAttribute("id") ?? fallbackName,
+      transform: createTransform(),
+      fill: null as Fill | null,
+      stroke: null as StrokeStyle | null,
+      opacity,
+      visible: style.visibility !== "hidden" && style.visibility !== "collapse",
+      locked: false,
+    };
+  }
+
+  /**
+   * Resolve fill and stroke. `bbox` is the geometry in the element's user
+   * space (for objectBoundingBox gradients); `userToObject` maps that space
+   * into the object's local space; `strokeScale` applies when a transform
+   * was baked into the points.
+   */
+  private paint<T extends VectorObject>(
+    obj: T,
+    el: Element,
+    style: StyleProps,
+    bbox: BoundingBox,
+    userToObject: Matrix2D,
+    strokeScale: number,
+  ): T {
+    const fill = this.resolvePaint(
+      style.fill ?? "black",
+      parseOpacity(style["fill-opacity"]),
+      style,
+      bbox,
+      userToObject,
+    );
+
+    let stroke: StrokeStyle | null = null;
+    const strokeSolid = this.resolvePaint(
+      style.stroke ?? "none",
+      parseOpacity(style["stroke-opacity"]),
+      style,
+      bbox,
+      userToObject,
+    );
+    if (strokeSolid) {
+      if (strokeSolid.type !== "solid") {
+        this.warn("Gradient strokes were replaced with their first stop color");
+      }
+      const solid =
+        strokeSolid.type === "solid"
+          ? strokeSolid
+          : {
+              color: strokeSolid.stops[0]?.color ?? "#000000",
+              opacity: strokeSolid.stops[0]?.opacity ?? 1,
+            };
+      const width = this.length(style["stroke-width"], 1);
+      stroke = {
+        color: solid.color,
+        opacity: solid.opacity,
+        width: width * strokeScale,
+        lineCap: parseKeyword(style["stroke-linecap"], ["butt", "round", "square"], "butt"),
+        lineJoin: parseKeyword(style["stroke-linejoin"], ["bevel", "miter", "round"], "miter"),
+        dashArray:
+          style["stroke-dasharray"] && style["stroke-dasharray"] !== "none"
+            ? style["stroke-dasharray"]
+                .split(/[\s,]+/)
+                .map((v) => this.length(v, 0) * strokeScale)
+                .filter((v) => v >= 0)
+            : [],
+      };
+    }
+
+    return { ...obj, fill, stroke };
+  }
+
+  private resolvePaint(
+    value: string,
+    opacity: number,
+    style: StyleProps,
+    bbox: BoundingBox,
+    userToObject: Matrix2D,
+  ): Fill | null {
+    const trimmed = value.trim();
+    if (trimmed === "none" || trimmed === "transparent") return null;
+
+    const url = /^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)\s*(.*)$/.exec(trimmed);
+    if (url) {
+      const gradient = this.gradients.get(url[1]);
+      if (gradient) return this.resolveGradient(gradient, bbox, userToObject);
+      this.warn(`Paint server #${url[1]} is not supported`);
+      return url[2] ? this.resolvePaint(url[2], opacity, style, bbox, userToObject) : null;
+    }
+
+    const color = parseColor(
+      trimmed === "currentColor" ? (style.color ?? "black") : trimmed,
+    );
+    if (!color) {
+      this.warn(`Unknown color "${trimmed}" was replaced with black`);
+      return { type: "solid", color: "#000000", opacity };
+    }
+    return { type: "solid", color: color.hex, opacity: opacity * color.alpha };
+  }
+
+  private resolveGradient(
+    el: Element,
+    bbox: BoundingBox,
+    userToObject: Matrix2D,
+  ): Fill | null {
+    // Attributes and stops can be inherited through href chains
+    const chain: Element[] = [];
+    for (let cur: Element | undefined = el; cur && !chain.includes(cur); ) {
+      chain.push(cur);
+      const href: string | null =
+        cur.getAttribute("href") ??
+        cur.getAttributeNS("http://www.w3.org/1999/xlink", "href");
+      cur = href?.startsWith("#") ? this.gradients.get(href.slice(1)) : undefined;
+    }
+    const attr = (name: string) =>
+      chain.find((g) => g.hasAttribute(name))?.getAttribute(name) ?? null;
+
+    const stopsOwner = chain.find((g) => g.getElementsByTagName("stop").length > 0);
+    const stops: GradientStop[] = stopsOwner
+      ? Array.from(stopsOwner.getElementsByTagName("stop")).map((stop) => {
+          const color = parseColor(readProp(stop, "stop-color") ?? "black");
+          return {
+            offset: Math.min(1, Math.max(0, parseFraction(stop.getAttribute("offset"), 0))),
+            color: color?.hex ?? "#000000",
+            opacity: parseOpacity(readProp(stop, "stop-opacity")) * (color?.alpha ?? 1),
+          };
+        })
+      : [];
+    if (stops.length === 0) return null;
+
+    const spread = attr("spreadMethod");
+    if (spread && spread !== "pad") {
+      this.warn(`Gradient spreadMethod="${spread}" was replaced with pad`);
+    }
+
+    const userSpace = attr("gradientUnits") === "userSpaceOnUse";
+    // Gradient space → element user space
+    let toUser = userSpace
+      ? IDENTITY_MATRIX
+      : ([bbox.width, 0, 0, bbox.height, bbox.x, bbox.y] as Matrix2D);
+    const gradientTransform = attr("gradientTransform");
+    if (gradientTransform) {
+      toUser = multiplyMatrix(toUser, parseTransformList(gradientTransform) ?? IDENTITY_MATRIX);
+    }
+    const toObject = multiplyMatrix(userToObject, toUser);
+    const coord = (name: string, fallback: number) =>
+      userSpace
+        ? this.length(attr(name) ?? undefined, fallback, name)
+        : parseFraction(attr(name), fallback);
+
+    if (el.localName === "linearGradient") {
+      const start = applyMatrix(toObject, { x: coord("x1", 0), y: coord("y1", 0) });
+      const end = applyMatrix(toObject, {
+        x: coord("x2", userSpace ? 0 : 1),
+        y: coord("y2", 0),
+      });
+      return {
+        type: "linear-gradient",
+        stops,
+        startX: start.x,
+        startY: start.y,
+        endX: end.x,
+        endY: end.y,
+      };
+    }
+
+    const fallback = userSpace ? 0 : 0.5;
+    const cx = coord("cx", fallback);
+    const cy = coord("cy", fallback);
+    if (
+      (attr("fx") !== null && coord("fx", cx) !== cx) ||
+      (attr("fy") !== null && coord("fy", cy) !== cy)
+    ) {
+      this.warn("Radial gradient focal points were centered");
+    }
+    const [a, b, c, d] = toObject;
+    if (Math.abs(Math.hypot(a, b) - Math.hypot(c, d)) > 1e-6) {
+      this.warn("Elliptical radial gradients were made circular");
+    }
+    const center = applyMatrix(toObject, { x: cx, y: cy });
+    return {
+      type: "radial-gradient",
+      stops,
+      centerX: center.x,
+      centerY: center.y,
+      radius: coord("r", fallback) * matrixScale(toObject),
+    };
+  }
+
+  private parseTransform(el: Element): Matrix2D {
+    const value = el.getAttribute("transform");
+    if (!value) return IDENTITY_MATRIX;
+    const matrix = parseTransformList(value);
+    if (!matrix) {
+      this.warn(`Unreadable transform "${value}" was ignored`);
+      return IDENTITY_MATRIX;
+    }
+    return matrix;
+  }
+}
+
+/**
+ * Parse an SVG `transform` list (matrix, translate, scale, rotate, skewX,
+ * skewY). Returns null when it cannot be read.
+ */
+export function parseTransformList(value: string): Matrix2D | null {
+  let result = IDENTITY_MATRIX;
+  const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let consumed = "";
+  let match: RegExpExecArray | null;
+
+  while ((match = re.exec(value))) {
+    consumed += match[0];
+    const args = match[2]
+      .trim()
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map(Number);
+    if (args.some((n) => !Number.isFinite(n))) return null;
+
+    let m: Matrix2D;
+    switch (match[1]) {
+      case "matrix":
+        if (args.length !== 6) return null;
+        m = args as Matrix2D;
+        break;
+      case "translate":
+        m = translationMatrix(args[0] ?? 0, args[1] ?? 0);
+        break;
+      case "scale":
+        m = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case "rotate": {
+        const rad = ((args[0] ?? 0) * Math.PI) / 180;
+        const cos = Math.cos(rad);
+        const sin = Math.sin(rad);
+        const [cx = 0, cy = 0] = args.slice(1);
+        m = multiplyMatrix(
+          multiplyMatrix(translationMatrix(cx, cy), [cos, sin, -sin, cos, 0, 0]),
+          translationMatrix(-cx, -cy),
+        );
+        break;
+      }
+      case "skewX":
+        m = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      default:
+        m = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+    }
+    result = multiplyMatrix(result, m);
+  }
+
+  // Anything besides separators left over means a typo we should not guess at
+  const leftover = value.replace(re, "").replace(/[\s,]/g, "");
+  if (leftover || !consumed) return null;
+  return result;
+}
+
+/** The root `viewBox` as [x, y, width, height], or null when missing or unusable */
+function parseViewBox(root: Element): [number, number, number, number] | null {
+  const viewBox = (root.getAttribute("viewBox") ?? "")
+    .trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  if (viewBox.length !== 4 || viewBox.some((v) => !Number.isFinite(v))) return null;
+  const [vx, vy, vw, vh] = viewBox;
+  return vw > 0 && vh > 0 ? [vx, vy, vw, vh] : null;
+}
+
+/**
+ * Size of the root viewport in user units: the viewBox, else an absolute
+ * width and height. Null when only the embedding page could tell.
+ */
+function rootViewport(root: Element): { width: number; height: number } | null {
+  const viewBox = parseViewBox(root);
+  if (viewBox) return { width: viewBox[2], height: viewBox[3] };
+  const width = root.getAttribute("width") ?? "";
+  const height = root.getAttribute("height") ?? "";
+  if (width.trim().endsWith("%") || height.trim().endsWith("%")) return null;
+  const w = parseLength(width, 0);
+  const h = parseLength(height, 0);
+  return w > 0 && h > 0 ? { width: w, height: h } : null;
+}
+
+/** Map the root viewBox onto its width/height (xMidYMid meet) */
+function viewBoxMatrix(root: Element): Matrix2D {
+  const viewBox = parseViewBox(root);
+  if (!viewBox) return IDENTITY_MATRIX;
+  const [vx, vy, vw, vh] = viewBox;
+
+  // A percentage size depends on the embedding page; 100% keeps the viewBox scale
+  const width = parseLength(root.getAttribute("width") ?? undefined, vw, vw);
+  const height = parseLength(root.getAttribute("height") ?? undefined, vh, vh);
+  const scale = Math.min(width / vw, height / vh);
+  return [
+    scale,
+    0,
+    0,
+    scale,
+    (width - vw * scale) / 2 - vx * scale,
+    (height - vh * scale) / 2 - vy * scale,
+  ];
+}
+
+/** Inherited props from the parent, then presentation attributes, then `style` */
+function resolveStyle(el: Element, parent: StyleProps): StyleProps {
+  const style: StyleProps = { ...parent };
+  const inline = parseInlineStyle(el.getAttribute("style"));
+  for (const prop of INHERITED_PROPS) {
+    const value = inline[prop] ?? el.getAttribute(prop);
+    if (value !== null && value !== undefined && value !== "inherit") {
+      style[prop] = value.trim();
+    }
+  }
+  return style;
+}
+
+/** One property from inline `style` or the presentation attribute */
+function readProp(el: Element, name: string): string | undefined {
+  return parseInlineStyle(el.getAttribute("style"))[name] ?? el.getAttribute(name) ?? undefined;
+}
+
+function parseInlineStyle(value: string | null): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (!value) return out;
+  for (const decl of value.split(";")) {
+    const colon = decl.indexOf(":");
+    if (colon < 0) continue;
+    out[decl.slice(0, colon).trim()] = decl
+      .slice(colon + 1)
+      .replace(/!important/, "")
+      .trim();
+  }
+  return out;
+}
+
+/**
+ * Lengths in px (unitless), pt, em, etc. Percentages are taken of
+ * `percentOf`; without it they are read as px.
+ */
+function parseLength(value: string | undefined, fallback: number, percentOf?: number): number {
+  if (!value) return fallback;
+  const match = /^\s*([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*(px|pt|pc|mm|cm|in|em|%)?\s*$/i.exec(value);
+  if (!match) return fallback;
+  const n = Number(match[1]);
+  switch (match[2]?.toLowerCase()) {
+    case "pt":
+      return (n * 4) / 3;
+    case "pc":
+      return n * 16;
+    case "mm":
+      return (n * 96) / 25.4;
+    case "cm":
+      return (n * 96) / 2.54;
+    case "in":
+      return n * 96;
+    case "em":
+      return n * DEFAULT_FONT_SIZE;
+    case "%":
+      return percentOf === undefined ? n : (n / 100) * percentOf;
+    default:
+      return n;
+  }
+}
+
+/** Number or percentage as a 0–1 fraction */
+function parseFraction(value: string | null, fallback: number): number {
+  if (value === null) return fallback;
+  const trimmed = value.trim();
+  const n = Number.parseFloat(trimmed);
+  if (!Number.isFinite(n)) return fallback;
+  return trimmed.endsWith("%") ? n / 100 : n;
+}
+
+function parseOpacity(value: string | undefined): number {
+  if (value === undefined) return 1;
+  return Math.min(1, Math.max(0, parseFraction(value, 1)));
+}
+
+function parseKeyword<T extends string>(
+  value: string | undefined,
+  allowed: T[],
+  fallback: T,
+): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/** CSS color to `#rrggbb` plus alpha; null when unrecognized */
+export function parseColor(value: string): { hex: string; alpha: number } | null {
+  const v = value.trim().toLowerCase();
+  if (NAMED_COLORS[v]) return { hex: NAMED_COLORS[v], alpha: 1 };
+
+  const hex = /^#([0-9a-f]{3,8})$/.exec(v);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits.replace(/./g, (c) => c + c);
+    }
+    if (digits.length !== 6 && digits.length !== 8) return null;
+    const alpha = digits.length === 8 ? parseInt(digits.slice(6), 16) / 255 : 1;
+    return { hex: `#${digits.slice(0, 6)}`, alpha };
+  }
+
+  const rgb = /^rgba?\(([^)]*)\)$/.exec(v);
+  if (rgb) {
+    const parts = rgb[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 3) return null;
+    const channels = parts.slice(0, 3).map((p) =>
+      Math.round(
+        Math.min(255, Math.max(0, p.endsWith("%") ? (parseFloat(p) * 255) / 100 : parseFloat(p))),
+      ),
+    );
+    if (channels.some((c) => !Number.isFinite(c))) return null;
+    const alpha = parts[3] !== undefined ? parseFraction(parts[3], 1) : 1;
+    return {
+      hex: `#${channels.map((c) => c.toString(16).padStart(2, "0")).join("")}`,
+      alpha: Math.min(1, Math.max(0, alpha)),
+    };
+  }
+
+  return null;
+}
+
+function boundsOf(points: { x: number; y: number }[]): BoundingBox {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { createLayer, createTransform } from "@/types/vector";
+import type { PathObject } from "@/types/vector";
+import { getPathBounds } from "./bounds";
+import { parsePathData } from "./pathData";
+import { exportDocumentToSvg } from "./svgExport";
+import {
+  samplePressures,
+  variableWidthOutline,
+  type StrokeSample,
+} from "./variableStroke";
+
+const even = { minWidth: 10, maxWidth: 10, taperStart: 0, taperEnd: 0, fidelity: 0.5 };
+
+function straight(count: number, step: number, pressure: number | null): StrokeSample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    x: i * step,
+    y: 0,
+    pressure,
+    time: i * 10,
+  }));
+}
+
+describe("variableStroke", () => {
+  it("keeps pen pressure and simulates it from speed for the mouse", () => {
+    expect(samplePressures(straight(3, 5, 0.4))).toEqual([0.4, 0.4, 0.4]);
+
+    const slow = samplePressures(straight(20, 1, null));
+    const fast = samplePressures(straight(20, 50, null));
+    expect(slow[19]).toBeGreaterThan(0.9);
+    expect(fast[19]).toBeLessThan(0.4);
+    expect(fast[19]).toBeLessThan(fast[5]);
+  });
+
+  it("outlines a stroke with round ends at the set width", () => {
+    const outline = variableWidthOutline(straight(5, 10, 1), even);
+    expect(outline[0]).toEqual({ type: "M", x: 0, y: 5 });
+    expect(outline[outline.length - 1]).toEqual({ type: "Z" });
+    const bounds = getPathBounds(outline);
+    expect(bounds.x).toBeCloseTo(-5);
+    expect(bounds.width).toBeCloseTo(50);
+    expect(bounds.height).toBeCloseTo(10);
+  });
+
+  it("fits long strokes with few segments", () => {
+    const outline = variableWidthOutline(straight(200, 2, 1), even);
+    expect(outline.filter((s) => s.type === "L")).toHaveLength(2);
+    expect(outline.length).toBeLessThan(10);
+  });
+
+  it("maps pressure onto the width range and tapers the ends", () => {
+    const range = { ...even, minWidth: 2, maxWidth: 12 };
+    expect(getPathBounds(variableWidthOutline(straight(5, 10, 0.5), range)).height)
+      .toBeCloseTo(7);
+
+    const tapered = variableWidthOutline(straight(11, 10, 1), {
+      ...even,
+      taperStart: 50,
+      taperEnd: 50,
+    });
+    expect((tapered[0] as { y: number }).y).toBeCloseTo(0.1);
+    expect(getPathBounds(tapered).height).toBeCloseTo(10);
+  });
+
+  it("draws a dot for a single sample", () => {
+    const dot = variableWidthOutline([{ x: 3, y: 4, pressure: 1, time: 0 }], even);
+    expect(getPathBounds(dot)).toMatchObject({ x: 3 - 5, y: 4 - 5, width: 10, height: 10 });
+  });
+
+  it("exports as a plain filled path", () => {
+    const path: PathObject = {
+      id: "stroke",
+      type: "path",
+      name: "Freehand Path",
+      transform: createTransform(10, 10),
+      fill: { type: "solid", color: "#112233", opacity: 1 },
+      stroke: null,
+      opacity: 1,
+      visible: true,
+      locked: false,
+      segments: variableWidthOutline(straight(6, 8, null), { ...even, taperEnd: 20 }),
+      closed: true,
+      fillRule: "nonzero",
+    };
+    const layer = { ...createLayer("l", "Layer"), objects: [path] };
+
+    const svg = exportDocumentToSvg([layer], { width: 100, height: 100 });
+    expect(svg).toContain('fill="#112233"');
+    expect(svg).not.toContain("stroke-width");
+
+    const d = svg.match(/ d="([^"]+)"/)![1];
+    const before = getPathBounds(path.segments);
+    const after = getPathBounds(parsePathData(d).segments);
+    expect(after.width).toBeCloseTo(before.width, 3);
+    expect(after.height).toBeCloseTo(before.height, 3);
+  });
+});
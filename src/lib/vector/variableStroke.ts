@@ -0,0 +1,138 @@
+import type { BrushOptions } from "@/types";
+import type { PathSegment, Point2D } from "@/types/vector";
+import { translationMatrix } from "./matrix";
+import { transformSegments } from "./pathData";
+import { fitCurve } from "./pathSimplify";
+import { ellipseSegments, quarterArc } from "./shapeGeometry";
+
+/**
+ * Variable-width brush strokes. A stroke is drawn as a filled outline whose
+ * width follows pen pressure — or, for mouse input, a pressure simulated
+ * from drawing speed — so it renders and exports as an ordinary path.
+ */
+
+/** One recorded brush position */
+export interface StrokeSample extends Point2D {
+  /** Pen pressure 0–1, or null for input without pressure (mouse, touch) */
+  pressure: number | null;
+  /** Event time in ms */
+  time: number;
+}
+
+/** Simulated pressure at rest and at `FAST_SPEED` */
+const SLOW_PRESSURE = 1;
+const FAST_PRESSURE = 0.3;
+/** Drawing speed (px/ms) at which simulated pressure bottoms out */
+const FAST_SPEED = 3;
+/** How far simulated pressure moves towards its target per sample */
+const PRESSURE_SMOOTHING = 0.3;
+/** Half-widths are kept above this so the outline never collapses */
+const MIN_HALF_WIDTH = 0.1;
+
+/**
+ * Pressure per sample. Samples without pen pressure get one simulated
+ * from speed — faster strokes draw thinner, like ink — smoothed so the
+ * width does not jitter with uneven pointer events.
+ */
+export function samplePressures(samples: StrokeSample[]): number[] {
+  if (samples.every((s) => s.pressure !== null)) {
+    return samples.map((s) => s.pressure!);
+  }
+
+  const pressures: number[] = [];
+  let pressure = SLOW_PRESSURE;
+  samples.forEach((s, i) => {
+    if (i > 0) {
+      const prev = samples[i - 1];
+      const speed =
+        Math.hypot(s.x - prev.x, s.y - prev.y) / Math.max(s.time - prev.time, 1);
+      const target =
+        SLOW_PRESSURE - (SLOW_PRESSURE - FAST_PRESSURE) * Math.min(speed / FAST_SPEED, 1);
+      pressure += (target - pressure) * PRESSURE_SMOOTHING;
+    }
+    pressures.push(pressure);
+  });
+  return pressures;
+}
+
+/**
+ * Closed outline around the samples, in their coordinate space. Width
+ * runs from `minWidth` at no pressure to `maxWidth` at full pressure and
+ * narrows to a point over the taper lengths (shared out evenly when the
+ * stroke is shorter than both). Ends are round. Each side is fitted with
+ * as few curves as stay within `fidelity`. A single sample gives a dot.
+ */
+export function variableWidthOutline(
+  samples: StrokeSample[],
+  options: BrushOptions,
+): PathSegment[] {
+  if (samples.length === 0) return [];
+  const pressures = samplePressures(samples);
+  const widthAt = (pressure: number) =>
+    options.minWidth + (options.maxWidth - options.minWidth) * pressure;
+
+  if (samples.length === 1) {
+    const r = Math.max(widthAt(pressures[0]) / 2, MIN_HALF_WIDTH);
+    return transformSegments(
+      ellipseSegments(r, r),
+      translationMatrix(samples[0].x, samples[0].y),
+    );
+  }
+
+  // Distance along the stroke, for tapering
+  const along = [0];
+  for (let i = 1; i < samples.length; i++) {
+    const a = samples[i - 1];
+    const b = samples[i];
+    along.push(along[i - 1] + Math.hypot(b.x - a.x, b.y - a.y));
+  }
+  const length = along[along.length - 1];
+  const taperTotal = options.taperStart + options.taperEnd;
+  const fit = taperTotal > length ? length / taperTotal : 1;
+  const taperStart = options.taperStart * fit;
+  const taperEnd = options.taperEnd * fit;
+
+  const left: Point2D[] = [];
+  const right: Point2D[] = [];
+  const normals: Point2D[] = [];
+  const halfWidths: number[] = [];
+  samples.forEach((s, i) => {
+    const prev = samples[Math.max(0, i - 1)];
+    const next = samples[Math.min(samples.length - 1, i + 1)];
+    const dx = next.x - prev.x;
+    const dy = next.y - prev.y;
+    const len = Math.hypot(dx, dy) || 1;
+    const n = { x: -dy / len, y: dx / len };
+
+    let taper = 1;
+    if (taperStart > 0) taper = Math.min(taper, along[i] / taperStart);
+    if (taperEnd > 0) taper = Math.min(taper, (length - along[i]) / taperEnd);
+    const h = Math.max((widthAt(pressures[i]) / 2) * taper, MIN_HALF_WIDTH);
+
+    normals.push(n);
+    halfWidths.push(h);
+    left.push({ x: s.x + n.x * h, y: s.y + n.y * h });
+    right.push({ x: s.x - n.x * h, y: s.y - n.y * h });
+  });
+
+  const last = samples.length - 1;
+  // Half circle around sample `i` from the side `n` points to, turning
+  // away from the stroke
+  const cap = (i: number, n: Point2D) => {
+    const forward = { x: n.y, y: -n.x };
+    return [
+      quarterArc(samples[i], n, forward, halfWidths[i]),
+      quarterArc(samples[i], forward, { x: -n.x, y: -n.y }, halfWidths[i]),
+    ];
+  };
+  const flip = (v: Point2D) => ({ x: -v.x, y: -v.y });
+
+  return [
+    { type: "M", x: left[0].x, y: left[0].y },
+    ...fitCurve(left, options.fidelity),
+    ...cap(last, normals[last]),
+    ...fitCurve([...right].reverse(), options.fidelity),
+    ...cap(0, flip(normals[0])),
+    { type: "Z" },
+  ];
+}
@@ -1,8 +1,11 @@
 import { create } from "zustand";
 import { v4 as uuidv4 } from "uuid";
 import type {
+  AlignTarget,
   ToolType,
+  BrushOptions,
   BrushShape,
+  FillMode,
   Layer,
   Point,
   Size,
@@ -19,6 +22,7 @@ interface CanvasStore {
   brushSize: number;
   brushOpacity: number;
   brushShape: BrushShape;
+  brushOptions: BrushOptions;
 
   // Shape Tool Options
   shapeOptions: ShapeOptions;
@@ -33,6 +37,16 @@ interface CanvasStore {
   strokeWidth: number;
   strokeEnabled: boolean;
 
+  // Fill Tool Options
+  fillMode: FillMode;
+  fillGapTolerance: number;
+
+  // Arrange Options
+  alignTarget: AlignTarget;
+
+  // Snapping
+  snapToObjects: boolean;
+
   // Canvas State
   canvasSize: Size;
   zoom: number;
@@ -63,6 +77,7 @@ interface CanvasStore {
   setBrushSize: (size: number) => void;
   setBrushOpacity: (opacity: number) => void;
   setBrushShape: (shape: BrushShape) => void;
+  setBrushOptions: (options: Partial<BrushOptions>) => void;
   setShapeOptions: (options: Partial<ShapeOptions>) => void;
   setTextOptions: (options: Partial<TextOptions>) => void;
 
@@ -73,6 +88,10 @@ interface CanvasStore {
   setStrokeWidth: (width: number) => void;
   setStrokeEnabled: (enabled: boolean) => void;
   swapFillStroke: () => void;
+  setFillMode: (mode: FillMode) => void;
+  setFillGapTolerance: (tolerance: number) => void;
+  setAlignTarget: (target: AlignTarget) => void;
+  setSnapToObjects: (enabled: boolean) => void;
 
   // Canvas Actions
   setCanvasSize: (size: Size) => void;
@@ -136,9 +155,16 @@ export const useCanvasStore = create<CanvasStore>((set, get) => {
     // Initial Tool State
     activeTool: "selection",
     brushColor: "#000000",
-    brushSize: 5,
+    brushSize: 20,
     brushOpacity: 1,
     brushShape: "round",
+    brushOptions: {
+      minWidth: 1,
+      maxWidth: 8,
+      taperStart: 20,
+      taperEnd: 30,
+      fidelity: 1,
+    },
 
     // Initial Shape Options
     shapeOptions: {
@@ -163,6 +189,16 @@ export const useCanvasStore = create<CanvasStore>((set, get) => {
     strokeWidth: 2,
     strokeEnabled: true,
 
+    // Initial Fill Tool Options
+    fillMode: "object",
+    fillGapTolerance: 4,
+
+    // Initial Arrange Options
+    alignTarget: "selection",
+
+    // Initial Snapping
+    snapToObjects: true,
+
     // Initial Canvas State
     canvasSize: DEFAULT_CANVAS_SIZE,
     zoom: 1,
@@ -194,6 +230,10 @@ export const useCanvasStore = create<CanvasStore>((set, get) => {
     setBrushOpacity: (opacity) =>
       set({ brushOpacity: Math.max(0, Math.min(1, opacity)) }),
     setBrushShape: (shape) => set({ brushShape: shape }),
+    setBrushOptions: (options) =>
+      set((state) => ({
+        brushOptions: { ...state.brushOptions, ...options },
+      })),
     setShapeOptions: (options) =>
       set((state) => ({
         shapeOptions: { ...state.shapeOptions, ...options },
@@ -214,6 +254,11 @@ export const useCanvasStore = create<CanvasStore>((set, get) => {
         fillColor: state.strokeColor,
         strokeColor: state.fillColor,
       })),
+    setFillMode: (mode) => set({ fillMode: mode }),
+    setFillGapTolerance: (tolerance) =>
+      set({ fillGapTolerance: Math.max(0, Math.min(50, tolerance)) }),
+    setAlignTarget: (target) => set({ alignTarget: target }),
+    setSnapToObjects: (enabled) => set({ snapToObjects: enabled }),
 
     // Canvas Actions
     setCanvasSize: (size) => set({ canvasSize: size }),
@@ -1,15 +1,26 @@
-import { beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { useProjectStore } from "@/store/projectStore";
-import { createLayer, createSolidFill, createTransform } from "@/types/vector";
-import type { RectangleObject, VectorLayer } from "@/types/vector";
-import { useDocumentStore } from "./documentStore";
+import {
+  createLayer,
+  createSolidFill,
+  createStroke,
+  createTransform,
+} from "@/types/vector";
+import type {
+  GroupObject,
+  RectangleObject,
+  VectorLayer,
+  VectorObject,
+} from "@/types/vector";
+import { getWorldBounds } from "@/lib/vector/bounds";
+import { COALESCE_WINDOW_MS, useDocumentStore } from "./documentStore";
 
-function rect(id: string): RectangleObject {
+function rect(id: string, x = 0, y = 0): RectangleObject {
   return {
     id,
     type: "rectangle",
     name: id,
-    transform: createTransform(),
+    transform: createTransform(x, y),
     fill: createSolidFill("#000000"),
     stroke: null,
     opacity: 1,
@@ -21,7 +32,7 @@ function rect(id: string): RectangleObject {
   };
 }
 
-function setLayer(objects: RectangleObject[]): VectorLayer {
+function setLayer(objects: VectorObject[]): VectorLayer {
   const layer = createLayer("layer-1", "Layer 1");
   layer.objects = objects;
 
@@ -31,12 +42,17 @@ function setLayer(objects: RectangleObject[]): VectorLayer {
     selectedObjectIds: [],
     history: [],
     historyIndex: -1,
+    checkpoints: [],
   });
 
   return layer;
 }
 
 describe("documentStore", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   beforeEach(() => {
     useProjectStore.setState({
       currentProjectId: null,
@@ -58,4 +74,617 @@ describe("documentStore", () => {
       "c",
     ]);
   });
+
+  it("groups selected siblings into one undoable entry, preserving z-order", () => {
+    setLayer([rect("a", 10, 10), rect("b", 50, 10), rect("c", 0, 0)]);
+    const store = useDocumentStore.getState();
+
+    const groupId = store.groupObjects(["c", "a"]);
+    expect(groupId).not.toBeNull();
+
+    let state = useDocumentStore.getState();
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual(["b", groupId]);
+    const group = state.layers[0].objects[1] as GroupObject;
+    expect(group.children.map((o) => o.id)).toEqual(["a", "c"]);
+    expect(state.selectedObjectIds).toEqual([groupId]);
+    expect(state.history).toHaveLength(1);
+    expect(state.history[0].operations[0].type).toBe("batch");
+
+    // Nested objects are reachable through lookups and mutations
+    state.updateObject("a", { name: "renamed" });
+    expect(useDocumentStore.getState().getObject("a")?.name).toBe("renamed");
+    expect(useDocumentStore.getState().getObjectLayerId("a")).toBe("layer-1");
+
+    state.undo();
+    state = useDocumentStore.getState();
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual(["a", "b", "c"]);
+    expect(state.layers[0].objects[0].transform).toMatchObject({ x: 10, y: 10 });
+
+    state.redo();
+    expect(
+      useDocumentStore.getState().layers[0].objects.map((o) => o.id),
+    ).toEqual(["b", groupId]);
+  });
+
+  it("ungroups back to world positions and undoes as one step", () => {
+    setLayer([rect("a", 10, 10), rect("b", 50, 20)]);
+    const groupId = useDocumentStore.getState().groupObjects(["a", "b"])!;
+    useDocumentStore.getState().updateObject(groupId, {
+      transform: createTransform(110, 10),
+    });
+
+    const released = useDocumentStore.getState().ungroupObjects([groupId]);
+    let state = useDocumentStore.getState();
+    expect(released).toEqual(["a", "b"]);
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual(["a", "b"]);
+    expect(state.layers[0].objects[1].transform).toMatchObject({ x: 150, y: 20 });
+
+    state.undo();
+    state = useDocumentStore.getState();
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual([groupId]);
+  });
+
+  it("ungroups a flipped group without moving its rotated children", () => {
+    const tilted = { ...rect("a"), width: 20, height: 20 };
+    tilted.transform.rotation = 30;
+    setLayer([tilted]);
+    const before = getWorldBounds(tilted);
+
+    const state = useDocumentStore.getState();
+    const groupId = state.groupObjects(["a"])!;
+    state.flipObjects([groupId], "horizontal");
+    state.ungroupObjects([groupId]);
+
+    const after = getWorldBounds(useDocumentStore.getState().getObject("a")!);
+    expect(after.x).toBeCloseTo(before.x);
+    expect(after.y).toBeCloseTo(before.y);
+    expect(after.width).toBeCloseTo(before.width);
+    expect(after.height).toBeCloseTo(before.height);
+  });
+
+  it("removes nested objects and restores them into their group on undo", () => {
+    setLayer([rect("a"), rect("b", 20, 0)]);
+    const groupId = useDocumentStore.getState().groupObjects(["a", "b"])!;
+    const store = useDocumentStore.getState();
+    const location = store.getObjectLocation("b");
+    expect(location).toEqual({ layerId: "layer-1", parentId: groupId, index: 1 });
+
+    const object = store.getObject("b")!;
+    store.removeObject("b");
+    store.pushHistory("Delete objects", [
+      {
+        type: "remove-object",
+        layerId: "layer-1",
+        object,
+        index: 1,
+        parentId: groupId,
+      },
+    ]);
+    expect(useDocumentStore.getState().getObject("b")).toBeUndefined();
+
+    useDocumentStore.getState().undo();
+    expect(useDocumentStore.getState().getObjectLocation("b")).toEqual(location);
+  });
+
+  it("records mutations inside a transaction as one history entry", () => {
+    setLayer([rect("a")]);
+    const store = useDocumentStore.getState();
+
+    store.transaction("Edit scene", () => {
+      store.addObject("layer-1", rect("b", 20, 0));
+      store.updateObject("a", { transform: createTransform(5, 0) });
+      store.updateObject("a", { transform: createTransform(9, 0), name: "moved" });
+    });
+
+    let state = useDocumentStore.getState();
+    expect(state.history).toHaveLength(1);
+    expect(state.history[0].description).toBe("Edit scene");
+    // Repeated updates to one object fold into a single modify op
+    expect(state.history[0].operations.map((op) => op.type)).toEqual([
+      "add-object",
+      "modify-object",
+    ]);
+
+    state.undo();
+    state = useDocumentStore.getState();
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual(["a"]);
+    expect(state.layers[0].objects[0]).toMatchObject({
+      name: "a",
+      transform: { x: 0, y: 0 },
+    });
+
+    state.redo();
+    state = useDocumentStore.getState();
+    expect(state.getObject("a")).toMatchObject({ name: "moved", transform: { x: 9 } });
+    expect(state.getObject("b")).toBeDefined();
+  });
+
+  it("rolls back a transaction whose callback throws", () => {
+    setLayer([rect("a"), rect("b")]);
+    const store = useDocumentStore.getState();
+
+    expect(() =>
+      store.transaction("Broken", () => {
+        store.removeObject("a");
+        store.updateObject("b", { name: "changed" });
+        throw new Error("boom");
+      }),
+    ).toThrow("boom");
+
+    const state = useDocumentStore.getState();
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual(["a", "b"]);
+    expect(state.getObject("b")?.name).toBe("b");
+    expect(state.history).toHaveLength(0);
+    expect(state.isInTransaction()).toBe(false);
+  });
+
+  it("rolls back only a nested transaction that throws, including folded edits", () => {
+    setLayer([rect("a")]);
+    const store = useDocumentStore.getState();
+
+    store.transaction("Outer", () => {
+      store.updateObject("a", { name: "outer" });
+      expect(() =>
+        store.transaction("Inner", () => {
+          store.updateObject("a", { name: "inner" });
+          throw new Error("boom");
+        }),
+      ).toThrow("boom");
+      expect(useDocumentStore.getState().getObject("a")?.name).toBe("outer");
+    });
+
+    let state = useDocumentStore.getState();
+    expect(state.history).toHaveLength(1);
+    state.undo();
+    state = useDocumentStore.getState();
+    expect(state.getObject("a")?.name).toBe("a");
+  });
+
+  it("folds nested transactions of a drag into one modify op per object", () => {
+    setLayer([{ ...rect("a"), width: 200, height: 100 }, rect("b", 300, 0)]);
+    const state = useDocumentStore.getState();
+    const modifyOps = () =>
+      useDocumentStore
+        .getState()
+        .history.at(-1)!
+        .operations.filter((op) => op.type === "modify-object");
+
+    state.beginTransaction("Erase");
+    for (let x = 20; x < 180; x += 10) {
+      state.eraseAlong({ x, y: 50 }, { x: x + 10, y: 50 }, 4);
+    }
+    state.commitTransaction();
+    expect(modifyOps()).toHaveLength(1);
+
+    state.beginTransaction("Change opacity");
+    for (let i = 1; i <= 10; i++) {
+      state.updateAppearance(["a", "b"], "opacity", "Change opacity", () => ({
+        opacity: i / 10,
+      }));
+    }
+    state.commitTransaction();
+    expect(modifyOps().map((op) => op.type === "modify-object" && op.objectId)).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("coalesces a quick run of same-key transactions into one entry", () => {
+    setLayer([rect("a")]);
+    const store = useDocumentStore.getState();
+    let now = 1000;
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+    const pick = (color: string) =>
+      store.transaction(
+        "Change fill",
+        () => store.updateObject("a", { fill: createSolidFill(color) }),
+        { coalesce: "fill" },
+      );
+
+    pick("#111111");
+    now += 100;
+    pick("#222222");
+    now += 100;
+    pick("#333333");
+    expect(useDocumentStore.getState().history).toHaveLength(1);
+
+    now += COALESCE_WINDOW_MS + 1;
+    pick("#444444");
+    store.transaction("Rename", () => store.updateObject("a", { name: "x" }), {
+      coalesce: "name",
+    });
+    expect(useDocumentStore.getState().history).toHaveLength(3);
+
+    store.undo();
+    store.undo();
+    store.undo();
+    expect(useDocumentStore.getState().getObject("a")?.fill).toEqual(createSolidFill("#000000"));
+  });
+
+  it("folds nested transactions and spanning begin/commit into the outer entry", () => {
+    setLayer([rect("a")]);
+    const store = useDocumentStore.getState();
+
+    store.beginTransaction("Drag");
+    store.updateObject("a", { transform: createTransform(1, 1) });
+    store.transaction("Inner", () => {
+      store.addObject("layer-1", rect("b"));
+    });
+    expect(useDocumentStore.getState().history).toHaveLength(0);
+    store.commitTransaction();
+
+    const state = useDocumentStore.getState();
+    expect(state.history).toHaveLength(1);
+    expect(state.history[0].description).toBe("Drag");
+
+    store.beginTransaction("Cancelled");
+    store.removeObject("b");
+    store.cancelTransaction();
+    expect(useDocumentStore.getState().getObject("b")).toBeDefined();
+    expect(useDocumentStore.getState().history).toHaveLength(1);
+  });
+
+  it("undoes layer deletion with its artwork and previous active layer", () => {
+    setLayer([rect("a")]);
+    const store = useDocumentStore.getState();
+
+    const secondId = store.addLayer("Second");
+    expect(useDocumentStore.getState().activeLayerId).toBe(secondId);
+
+    useDocumentStore.getState().setActiveLayer("layer-1");
+    useDocumentStore.getState().removeLayer("layer-1");
+    let state = useDocumentStore.getState();
+    expect(state.layers.map((l) => l.id)).toEqual([secondId]);
+    expect(state.activeLayerId).toBe(secondId);
+
+    state.undo();
+    state = useDocumentStore.getState();
+    expect(state.layers.map((l) => l.id)).toEqual(["layer-1", secondId]);
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual(["a"]);
+    expect(state.activeLayerId).toBe("layer-1");
+
+    // Undo the add as well — active layer returns to the original one
+    state.undo();
+    state = useDocumentStore.getState();
+    expect(state.layers.map((l) => l.id)).toEqual(["layer-1"]);
+    expect(state.activeLayerId).toBe("layer-1");
+
+    state.redo();
+    expect(useDocumentStore.getState().activeLayerId).toBe(secondId);
+  });
+
+  it("records rename, visibility, lock, opacity and reorder as history", () => {
+    setLayer([]);
+    const store = useDocumentStore.getState();
+    const secondId = store.addLayer("Second");
+
+    store.updateLayer("layer-1", { name: "Background" });
+    store.updateLayer("layer-1", { visible: false });
+    store.updateLayer("layer-1", { locked: true });
+    store.updateLayer("layer-1", { opacity: 0.5 });
+    store.reorderLayer(0, 1);
+
+    let state = useDocumentStore.getState();
+    expect(state.history.map((h) => h.description)).toEqual([
+      "Add layer",
+      "Rename layer",
+      "Hide layer",
+      "Lock layer",
+      "Change layer opacity",
+      "Reorder layer",
+    ]);
+    expect(state.layers.map((l) => l.id)).toEqual([secondId, "layer-1"]);
+
+    for (let i = 0; i < 5; i++) useDocumentStore.getState().undo();
+    state = useDocumentStore.getState();
+    expect(state.layers.map((l) => l.id)).toEqual(["layer-1", secondId]);
+    expect(state.layers[0]).toMatchObject({
+      name: "Layer 1",
+      visible: true,
+      locked: false,
+      opacity: 1,
+    });
+  });
+
+  it("jumps to any history state by replaying undo and redo", () => {
+    setLayer([]);
+    const store = useDocumentStore.getState();
+    for (const id of ["a", "b", "c"]) {
+      store.transaction(`Add ${id}`, () => store.addObject("layer-1", rect(id)));
+    }
+
+    store.jumpToHistory(0);
+    let state = useDocumentStore.getState();
+    expect(state.historyIndex).toBe(0);
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual(["a"]);
+
+    state.jumpToHistory(2);
+    state = useDocumentStore.getState();
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual(["a", "b", "c"]);
+
+    state.jumpToHistory(-1);
+    expect(useDocumentStore.getState().layers[0].objects).toHaveLength(0);
+  });
+
+  it("restores a checkpoint after its entry was trimmed from history", () => {
+    setLayer([rect("a")]);
+    useDocumentStore.setState({ maxHistoryLength: 3 });
+    const store = useDocumentStore.getState();
+
+    store.transaction("Rename", () => store.updateObject("a", { name: "first" }));
+    const checkpointId = store.addCheckpoint("Before restyle");
+    for (let i = 0; i < 4; i++) {
+      store.transaction("Rename", () => store.updateObject("a", { name: `n${i}` }));
+    }
+    expect(useDocumentStore.getState().history).toHaveLength(3);
+
+    useDocumentStore.getState().restoreCheckpoint(checkpointId);
+    let state = useDocumentStore.getState();
+    expect(state.getObject("a")?.name).toBe("first");
+    expect(state.history[state.historyIndex].description).toBe(
+      'Restore "Before restyle"',
+    );
+
+    // The restore itself is undoable
+    state.undo();
+    state = useDocumentStore.getState();
+    expect(state.getObject("a")?.name).toBe("n3");
+    expect(state.activeLayerId).toBe("layer-1");
+
+    useDocumentStore.setState({ maxHistoryLength: 200 });
+  });
+
+  it("pastes copies with fresh ids as one undoable entry", () => {
+    setLayer([rect("a", 5, 5)]);
+    const store = useDocumentStore.getState();
+
+    const ids = store.pasteObjects([rect("a", 5, 5), rect("b")], { x: 10, y: 10 });
+    let state = useDocumentStore.getState();
+    expect(ids).toHaveLength(2);
+    expect(ids).not.toContain("a");
+    expect(state.selectedObjectIds).toEqual(ids);
+    expect(state.getObject(ids[0])?.transform).toMatchObject({ x: 15, y: 15 });
+    expect(state.history).toHaveLength(1);
+
+    state.undo();
+    state = useDocumentStore.getState();
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual(["a"]);
+  });
+
+  it("duplicates objects just above their originals", () => {
+    setLayer([rect("a"), rect("b")]);
+
+    const [copyId] = useDocumentStore
+      .getState()
+      .duplicateObjects(["a"], { x: 10, y: 0 });
+    const state = useDocumentStore.getState();
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual(["a", copyId, "b"]);
+    expect(state.getObject(copyId)?.transform.x).toBe(10);
+    expect(state.history[0].description).toBe("Duplicate");
+  });
+
+  it("combines shapes into one path above the others as one entry", () => {
+    setLayer([rect("a"), rect("b", 5, 5), rect("c", 50, 50), rect("d", 100, 0)]);
+
+    const id = useDocumentStore.getState().combineObjects(["b", "a"], "union")!;
+    let state = useDocumentStore.getState();
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual([id, "c", "d"]);
+    expect(state.selectedObjectIds).toEqual([id]);
+    expect(state.getObject(id)).toMatchObject({
+      type: "path",
+      closed: true,
+      transform: { x: 0, y: 0 },
+    });
+    expect(state.history).toHaveLength(1);
+    expect(state.history[0].description).toBe("Unite shapes");
+
+    expect(state.combineObjects(["c", "d"], "intersect")).toBeNull();
+    expect(useDocumentStore.getState().history).toHaveLength(1);
+
+    state.undo();
+    state = useDocumentStore.getState();
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("converts shapes to paths in place as one entry", () => {
+    const rounded = { ...rect("a", 5, 5), cornerRadius: [2, 0, 0, 0] as RectangleObject["cornerRadius"] };
+    setLayer([rounded, rect("b")]);
+    useDocumentStore.setState({ selectedObjectIds: ["a", "b"] });
+
+    const [id] = useDocumentStore.getState().convertToPath(["a"]);
+    let state = useDocumentStore.getState();
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual([id, "b"]);
+    expect(state.selectedObjectIds).toEqual([id, "b"]);
+    expect(state.getObject(id)).toMatchObject({
+      type: "path",
+      name: "a",
+      closed: true,
+      transform: { x: 5, y: 5 },
+      fill: rounded.fill,
+    });
+    expect(state.history[0].description).toBe("Convert to path");
+
+    state.undo();
+    state = useDocumentStore.getState();
+    expect(state.layers[0].objects[0]).toEqual(rounded);
+  });
+
+  it("makes and releases compound paths as single entries", () => {
+    setLayer([rect("a"), rect("b", 2, 2), rect("c", 50, 50)]);
+
+    const id = useDocumentStore.getState().makeCompoundPath(["a", "b"])!;
+    let state = useDocumentStore.getState();
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual([id, "c"]);
+    expect(state.getObject(id)).toMatchObject({ type: "path", fillRule: "evenodd" });
+
+    const parts = state.releaseCompoundPath([id, "c"]);
+    state = useDocumentStore.getState();
+    expect(parts).toHaveLength(2);
+    expect(state.layers[0].objects.map((o) => o.id)).toEqual([...parts, "c"]);
+    expect(state.history.map((h) => h.description)).toEqual([
+      "Make compound path",
+      "Release compound path",
+    ]);
+
+    state.undo();
+    state.undo();
+    expect(useDocumentStore.getState().layers[0].objects.map((o) => o.id)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("erases a whole drag as one entry", () => {
+    const line: VectorObject = {
+      ...rect("line"),
+      type: "line",
+      fill: null,
+      stroke: createStroke(),
+      endX: 100,
+      endY: 0,
+    };
+    setLayer([line, rect("a", 20, 20)]);
+
+    const state = useDocumentStore.getState();
+    state.beginTransaction("Erase");
+    state.eraseAlong({ x: 50, y: -10 }, { x: 50, y: 0 }, 4);
+    state.eraseAlong({ x: 50, y: 0 }, { x: 25, y: 25 }, 4);
+    state.commitTransaction();
+
+    const { layers, history } = useDocumentStore.getState();
+    const [first, second, hole] = layers[0].objects;
+    expect(layers[0].objects).toHaveLength(3);
+    expect(first).toMatchObject({ id: "line", type: "path", closed: false });
+    expect(second).toMatchObject({ type: "path", closed: false });
+    expect(hole).toMatchObject({ id: "a", type: "path", fillRule: "nonzero" });
+    expect(history.map((h) => h.description)).toEqual(["Erase"]);
+
+    useDocumentStore.getState().undo();
+    expect(useDocumentStore.getState().layers[0].objects).toEqual([line, rect("a", 20, 20)]);
+  });
+
+  it("fills an enclosed area beneath its outline as one entry", () => {
+    const outline = { ...rect("outline"), fill: null, stroke: createStroke() };
+    setLayer([rect("a", 50, 50), outline]);
+
+    const state = useDocumentStore.getState();
+    expect(state.fillRegion({ x: 30, y: 30 }, createSolidFill("#ff0000"), 0)).toBeNull();
+    const id = state.fillRegion({ x: 5, y: 5 }, createSolidFill("#ff0000"), 0)!;
+
+    const { layers, history } = useDocumentStore.getState();
+    expect(layers[0].objects.map((o) => o.id)).toEqual(["a", id, "outline"]);
+    expect(history.map((h) => h.description)).toEqual(["Fill region"]);
+  });
+
+  it("simplifies paths as one entry and reports anchor counts", () => {
+    const dense: VectorObject = {
+      ...rect("dense"),
+      type: "path",
+      fill: null,
+      stroke: createStroke(),
+      segments: [
+        { type: "M", x: 0, y: 0 },
+        ...Array.from({ length: 20 }, (_, i) => ({ type: "L" as const, x: (i + 1) * 5, y: 0 })),
+      ],
+      closed: false,
+      fillRule: "nonzero",
+    };
+    setLayer([dense, rect("a")]);
+
+    const state = useDocumentStore.getState();
+    expect(state.simplifyPaths(["dense", "a"], 1)).toEqual({ before: 21, after: 2 });
+    expect(useDocumentStore.getState().history.map((h) => h.description)).toEqual([
+      "Simplify path",
+    ]);
+
+    useDocumentStore.getState().undo();
+    expect(useDocumentStore.getState().layers[0].objects[0]).toEqual(dense);
+  });
+
+  it("flips a selection across its center as one entry", () => {
+    setLayer([rect("a"), { ...rect("b", 30, 0), locked: true }, rect("c", 20, 10)]);
+
+    const state = useDocumentStore.getState();
+    expect(state.flipObjects(["a", "b", "c"], "horizontal")).toBe(true);
+    let { layers } = useDocumentStore.getState();
+    expect(layers[0].objects[0].transform).toMatchObject({ x: 30, y: 0, scaleX: -1 });
+    expect(layers[0].objects[1].transform).toMatchObject({ x: 30, scaleX: 1 });
+    expect(layers[0].objects[2].transform).toMatchObject({ x: 10, y: 10, scaleX: -1 });
+
+    state.flipObjects(["a", "c"], "vertical");
+    ({ layers } = useDocumentStore.getState());
+    expect(layers[0].objects[0].transform).toMatchObject({ y: 20, scaleY: -1 });
+    expect(useDocumentStore.getState().history.map((h) => h.description)).toEqual([
+      "Flip horizontal",
+      "Flip vertical",
+    ]);
+  });
+
+  it("applies appearance edits to the objects they fit as one entry", () => {
+    const line: VectorObject = {
+      ...rect("line"),
+      type: "line",
+      fill: null,
+      stroke: createStroke("#000000", 1),
+      endX: 100,
+      endY: 0,
+    };
+    const stroked = { ...rect("b"), stroke: createStroke("#000000", 1) };
+    setLayer([rect("a"), stroked, line, { ...rect("c"), locked: true }]);
+    const ids = ["a", "b", "line", "c"];
+
+    const state = useDocumentStore.getState();
+    expect(
+      state.updateAppearance(ids, "fill", "Change fill", () => ({
+        fill: createSolidFill("#ff0000"),
+      })),
+    ).toBe(true);
+    expect(
+      state.updateAppearance(ids, "stroke", "Change stroke", (obj) =>
+        obj.stroke ? { stroke: { ...obj.stroke, width: 4 } } : null,
+      ),
+    ).toBe(true);
+    const radius = () => ({ cornerRadius: [5, 5, 5, 5] as [number, number, number, number] });
+    expect(state.updateAppearance(["line", "c"], "cornerRadius", "Change radius", radius))
+      .toBe(false);
+
+    const get = (id: string) => useDocumentStore.getState().getObject(id)!;
+    expect(get("a").fill).toMatchObject({ color: "#ff0000" });
+    expect(get("b").fill).toMatchObject({ color: "#ff0000" });
+    expect(get("line").fill).toBeNull();
+    expect(get("c").fill).toMatchObject({ color: "#000000" });
+    expect(get("a").stroke).toBeNull();
+    expect(get("b").stroke).toMatchObject({ width: 4 });
+    expect(get("line").stroke).toMatchObject({ width: 4 });
+    expect(get("c").stroke).toBeNull();
+    expect(useDocumentStore.getState().history.map((h) => h.description)).toEqual([
+      "Change fill",
+      "Change stroke",
+    ]);
+
+    state.undo();
+    state.undo();
+    expect(get("a").fill).toMatchObject({ color: "#000000" });
+    expect(get("b").stroke).toMatchObject({ width: 1 });
+  });
+
+  it("aligns and distributes as one entry each, skipping locked objects", () => {
+    setLayer([rect("a"), rect("b", 40, 5), { ...rect("c", 90, 30), locked: true }, rect("d", 60, 0)]);
+
+    const state = useDocumentStore.getState();
+    expect(state.alignObjects(["a", "b", "c"], "top", { x: 0, y: 0, width: 100, height: 100 }))
+      .toBe(true);
+    expect(state.getObject("b")!.transform).toMatchObject({ x: 40, y: 0 });
+    expect(state.getObject("c")!.transform).toMatchObject({ y: 30 });
+    expect(state.alignObjects(["a", "b"], "top", { x: 0, y: 0, width: 100, height: 100 }))
+      .toBe(false);
+
+    expect(state.distributeObjects(["a", "b", "d"], "horizontal")).toBe(true);
+    expect(useDocumentStore.getState().getObject("b")!.transform.x).toBeCloseTo(30);
+    expect(useDocumentStore.getState().history.map((h) => h.description)).toEqual([
+      "Align objects",
+      "Distribute objects",
+    ]);
+  });
 });
@@ -1,13 +1,72 @@
 import { create } from "zustand";
 import { v4 as uuidv4 } from "uuid";
 import type {
+  Fill,
   VectorObject,
   VectorLayer,
   HistoryEntry,
   HistoryOperation,
+  HistoryCheckpoint,
+  PathObject,
+  PathSegment,
+  Point2D,
+  BoundingBox,
+  GridSettings,
+  RulerGuide,
 } from "@/types/vector";
-import { createLayer } from "@/types/vector";
+import { createGridSettings, createLayer } from "@/types/vector";
 import { markDocumentDirty } from "@/lib/sync/documentDirty";
+import {
+  buildBooleanPath,
+  isBooleanOperand,
+  segmentsToRegion,
+  type BooleanOperation,
+  type PlacedShape,
+} from "@/lib/vector/pathBoolean";
+import { brushSweepSegments, eraseObject } from "@/lib/vector/pathErase";
+import { transformSegments } from "@/lib/vector/pathData";
+import { countAnchors, simplifySegments } from "@/lib/vector/pathSimplify";
+import { flipTransform, type FlipAxis } from "@/lib/vector/selectionTransform";
+import {
+  alignOffsets,
+  distributeOffsets,
+  type AlignEdge,
+  type DistributeAxis,
+  type PlacedBounds,
+} from "@/lib/vector/align";
+import { buildRegionFill } from "@/lib/vector/regionFill";
+import { hasAppearance, type AppearanceProperty } from "@/lib/vector/appearance";
+import { shapeToPath } from "@/lib/vector/shapeGeometry";
+import {
+  boundsIntersect,
+  getLocalBounds,
+  getPathBounds,
+  getWorldBounds,
+  mergeBounds,
+} from "@/lib/vector/bounds";
+import {
+  buildCompoundPath,
+  isCompoundPath,
+  releaseCompoundPath,
+} from "@/lib/vector/compoundPath";
+import {
+  IDENTITY_MATRIX,
+  invertMatrix,
+  multiplyMatrix,
+} from "@/lib/vector/matrix";
+import {
+  buildGroup,
+  cloneWithNewIds,
+  collectObjects,
+  findObjectInList,
+  findObjectLocation,
+  getWorldMatrix,
+  insertObjectInList,
+  mapObjectInList,
+  releaseGroupChildren,
+  removeObjectFromList,
+  type ObjectLocation,
+} from "@/lib/vector/sceneGraph";
 
 // ============================================
 // Document Store — Scene Graph + History
@@ -25,6 +84,11 @@ interface DocumentState {
   history: HistoryEntry[];
   historyIndex: number;
   maxHistoryLength: number;
+  checkpoints: HistoryCheckpoint[];
+
+  // Document settings
+  grid: GridSettings;
+  guides: RulerGuide[];
 
   // Layer actions
   addLayer: (name?: string) => string;
@@ -34,11 +98,104 @@ interface DocumentState {
   reorderLayer: (fromIndex: number, toIndex: number) => void;
 
   // Object actions
-  addObject: (layerId: string, object: VectorObject, index?: number) => void;
+  addObject: (
+    layerId: string,
+    object: VectorObject,
+    index?: number,
+    parentId?: string,
+  ) => void;
   removeObject: (objectId: string) => void;
   updateObject: (objectId: string, updates: Record<string, unknown>) => void;
   reorderObject: (layerId: string, fromIndex: number, toIndex: number) => void;
 
+  // Group actions
+  groupObjects: (objectIds: string[]) => string | null;
+  ungroupObjects: (groupIds: string[]) => string[];
+
+  // Path actions
+  /**
+   * Replace shapes with the result of a boolean operation as one path,
+   * placed where the topmost operand was. Returns the new id, or null when
+   * fewer than two shapes qualify or the result is empty.
+   */
+  combineObjects: (
+    objectIds: string[],
+    operation: BooleanOperation,
+  ) => string | null;
+  /**
+   * Replace rectangles, ellipses, polygons and lines with equivalent paths
+   * in the same place in the z-order. Returns the new ids.
+   */
+  convertToPath: (objectIds: string[]) => string[];
+  /**
+   * Merge shapes into one even-odd path (shapes inside others become
+   * holes), placed where the topmost one was. Returns the new id or null.
+   */
+  makeCompoundPath: (objectIds: string[]) => string | null;
+  /** Split compound paths into one path per subpath. Returns the new ids */
+  releaseCompoundPath: (objectIds: string[]) => string[];
+  /**
+   * Sweep a round eraser of `radius` from `from` to `to` (world space):
+   * strokes are cut and filled shapes get holes. Joins the open
+   * transaction, so a whole eraser drag undoes in one step.
+   */
+  eraseAlong: (from: Point2D, to: Point2D, radius: number) => void;
+  /**
+   * Fill the area that visible outlines enclose around `point` with a new
+   * path, just beneath the lowest object bounding it. Gaps up to
+   * `gapTolerance` are closed. Returns the new id, or null when the point
+   * is not enclosed.
+   */
+  fillRegion: (point: Point2D, fill: Fill, gapTolerance: number) => string | null;
+  /**
+   * Line unlocked objects up on `target` (world space) by their world
+   * bounds. Returns whether anything moved.
+   */
+  alignObjects: (objectIds: string[], edge: AlignEdge, target: BoundingBox) => boolean;
+  /**
+   * Space three or more unlocked objects evenly between the outermost
+   * ones. Returns whether anything moved.
+   */
+  distributeObjects: (objectIds: string[], axis: DistributeAxis) => boolean;
+  /**
+   * Mirror unlocked objects across the center of their combined bounds.
+   * Returns whether anything flipped.
+   */
+  flipObjects: (objectIds: string[], axis: FlipAxis) => boolean;
+  /**
+   * Apply `updates` to every unlocked object that has `property`, as one
+   * history entry; `updates` returns null to leave an object as it is.
+   * Returns whether anything changed.
+   */
+  updateAppearance: (
+    objectIds: string[],
+    property: AppearanceProperty,
+    description: string,
+    updates: (obj: VectorObject) => Partial<VectorObject> | null,
+    options?: { coalesce?: string },
+  ) => boolean;
+  /**
+   * Refit unlocked paths with fewer anchors, staying within `tolerance`.
+   * Returns the anchor counts of the affected paths before and after.
+   */
+  simplifyPaths: (
+    objectIds: string[],
+    tolerance: number,
+  ) => { before: number; after: number };
+
+  // Clipboard actions
+  /**
+   * Add copies (fresh ids) of world-space `objects` on top of the active
+   * layer, shifted by `offset`. Selects and returns the new ids.
+   */
+  pasteObjects: (
+    objects: VectorObject[],
+    offset?: Point2D,
+    description?: string,
+  ) => string[];
+  /** Copy objects just above their originals, shifted by `offset` */
+  duplicateObjects: (objectIds: string[], offset?: Point2D) => string[];
+
   // Selection actions
   selectObject: (objectId: string, addToSelection?: boolean) => void;
   deselectObject: (objectId: string) => void;
@@ -48,26 +205,79 @@ interface DocumentState {
 
   // History actions
   pushHistory: (description: string, operations: HistoryOperation[]) => void;
+  /**
+   * Run `fn` and record every object/layer mutation it makes as a single
+   * history entry. Rolls the mutations back and rethrows if `fn` throws.
+   * Nested calls fold into the outermost transaction.
+   *
+   * With `coalesce`, an entry made within COALESCE_WINDOW_MS of the last
+   * one with the same key merges into it, so a run of input events (a
+   * native color picker drag) is one undo step.
+   */
+  transaction: <T>(description: string, fn: () => T, options?: { coalesce?: string }) => T;
+  /** Open a transaction that spans several events (e.g. a pointer drag) */
+  beginTransaction: (description: string) => void;
+  /** Close the open transaction and push its operations as one entry */
+  commitTransaction: () => void;
+  /** Close the open transaction and revert everything it recorded */
+  cancelTransaction: () => void;
+  isInTransaction: () => boolean;
   undo: () => void;
   redo: () => void;
   canUndo: () => boolean;
   canRedo: () => boolean;
   clearHistory: () => void;
+  /** Undo/redo until `historyIndex` equals `index` (-1 = before all entries) */
+  jumpToHistory: (index: number) => void;
+
+  // Checkpoint actions
+  addCheckpoint: (name: string) => string;
+  removeCheckpoint: (checkpointId: string) => void;
+  restoreCheckpoint: (checkpointId: string) => void;
 
   // Helpers
   getObject: (objectId: string) => VectorObject | undefined;
   getObjectLayerId: (objectId: string) => string | undefined;
+  getObjectLocation: (objectId: string) => ObjectLocation | undefined;
   getActiveLayer: () => VectorLayer | undefined;
   getSelectedObjects: () => VectorObject[];
 
   // Document actions
   newDocument: (width?: number, height?: number) => void;
-  loadDocument: (layers: VectorLayer[], activeLayerId: string) => void;
+  /**
+   * Replace the document; `saved` restores an undo stack from a previous
+   * session and `settings` the saved grid and guides (defaults otherwise)
+   */
+  loadDocument: (
+    layers: VectorLayer[],
+    activeLayerId: string,
+    saved?: { history: HistoryEntry[]; historyIndex: number },
+    settings?: { grid?: GridSettings; guides?: RulerGuide[] },
+  ) => void;
+  /** Change grid settings; saved with the document but not undoable */
+  setGrid: (updates: Partial<GridSettings>) => void;
+  /** Add a ruler guide, returning its ID; guide edits are saved but not undoable */
+  addGuide: (axis: RulerGuide["axis"], position: number) => string;
+  updateGuide: (id: string, updates: Partial<Omit<RulerGuide, "id" | "axis">>) => void;
+  removeGuide: (id: string) => void;
+  /** Lock or unlock every guide */
+  lockGuides: (locked: boolean) => void;
+  clearGuides: () => void;
   clearActiveLayer: () => void;
 }
 
 const DEFAULT_LAYER_NAME = "Layer 1";
 
+/** Align/distribute moves smaller than this (px) are rounding noise */
+const MOVE_EPSILON = 1e-6;
+
+const BOOLEAN_DESCRIPTIONS: Record<BooleanOperation, string> = {
+  union: "Unite shapes",
+  subtract: "Subtract front shapes",
+  intersect: "Intersect shapes",
+  exclude: "Exclude overlap",
+};
+
 function createDefaultLayers(): { layers: VectorLayer[]; activeLayerId: string } {
   const id = uuidv4();
   return {
@@ -76,9 +286,59 @@ function createDefaultLayers(): { layers: VectorLayer[]; activeLayerId: string }
   };
 }
 
+/** Operations recorded by an open transaction, not yet in `history` */
+interface PendingTransaction {
+  description: string;
+  operations: HistoryOperation[];
+  depth: number;
+  /**
+   * Operations before this index belong to an enclosing `transaction()` and
+   * must not absorb later ones while it runs, so a nested rollback can
+   * splice them off
+   */
+  foldFrom: number;
+}
+
+/** Coalesced transactions this close together share one history entry */
+export const COALESCE_WINDOW_MS = 1000;
+
 export const useDocumentStore = create<DocumentState>((set, get) => {
   const defaults = createDefaultLayers();
 
+  // Kept outside zustand state — nothing renders from it
+  let pending: PendingTransaction | null = null;
+  // Latest entry a coalesced transaction made, and its key
+  let coalesced: { key: string; entryId: string } | null = null;
+
+  /** Merge the newest entry into the one before when both carry `key` */
+  const coalesceLastEntry = (key: string) => {
+    const { history, historyIndex } = get();
+    const entry = history[historyIndex];
+    const prev = history[historyIndex - 1];
+    if (!entry) return;
+    if (
+      prev &&
+      coalesced?.key === key &&
+      coalesced.entryId === prev.id &&
+      entry.timestamp - prev.timestamp <= COALESCE_WINDOW_MS
+    ) {
+      const operations = structuredClone(prev.operations);
+      for (const op of entry.operations) recordOperation(operations, op);
+      const merged: HistoryEntry = { ...prev, operations, timestamp: entry.timestamp };
+      set({
+        history: [...history.slice(0, historyIndex - 1), merged],
+        historyIndex: historyIndex - 1,
+      });
+      coalesced = { key, entryId: merged.id };
+      return;
+    }
+    coalesced = { key, entryId: entry.id };
+  };
+
+  const record = (op: HistoryOperation) => {
+    if (pending) recordOperation(pending.operations, op, pending.foldFrom);
+  };
+
   return {
     // Initial state
     layers: defaults.layers,
@@ -87,86 +347,139 @@ export const useDocumentStore = create<DocumentState>((set, get) => {
     history: [],
     historyIndex: -1,
     maxHistoryLength: 200,
+    checkpoints: [],
+    grid: createGridSettings(),
+    guides: [],
 
     // ---- Layer actions ----
 
-    addLayer: (name) => {
-      const id = uuidv4();
-      const layerName = name ?? `Layer ${get().layers.length + 1}`;
-      const layer = createLayer(id, layerName);
-
-      set((state) => ({
-        layers: [...state.layers, layer],
-        activeLayerId: id,
-      }));
-      markDocumentDirty();
-
-      return id;
-    },
+    addLayer: (name) =>
+      get().transaction("Add layer", () => {
+        const { layers, activeLayerId } = get();
+        const id = uuidv4();
+        const layerName = name ?? `Layer ${layers.length + 1}`;
+        const layer = createLayer(id, layerName);
+
+        record({
+          type: "add-layer",
+          layer,
+          index: layers.length,
+          activeLayerBefore: activeLayerId,
+          activeLayerAfter: id,
+        });
+        set((state) => ({
+          layers: [...state.layers, layer],
+          activeLayerId: id,
+        }));
+        markDocumentDirty();
+
+        return id;
+      }),
 
     removeLayer: (layerId) => {
       const { layers, activeLayerId } = get();
       if (layers.length <= 1) return;
 
+      const index = layers.findIndex((l) => l.id === layerId);
+      if (index < 0) return;
+
       const newLayers = layers.filter((l) => l.id !== layerId);
       const newActiveId =
         activeLayerId === layerId
           ? newLayers[newLayers.length - 1].id
           : activeLayerId;
 
-      set({
-        layers: newLayers,
-        activeLayerId: newActiveId,
-        selectedObjectIds: [],
+      get().transaction("Delete layer", () => {
+        record({
+          type: "remove-layer",
+          layer: layers[index],
+          index,
+          activeLayerBefore: activeLayerId,
+          activeLayerAfter: newActiveId,
+        });
+        set({
+          layers: newLayers,
+          activeLayerId: newActiveId,
+          selectedObjectIds: [],
+        });
+        markDocumentDirty();
       });
-      markDocumentDirty();
     },
 
     setActiveLayer: (layerId) => set({ activeLayerId: layerId }),
 
     updateLayer: (layerId, updates) => {
-      set((state) => ({
-        layers: state.layers.map((l) =>
-          l.id === layerId ? { ...l, ...updates } : l,
-        ),
-      }));
-      markDocumentDirty();
+      const layer = get().layers.find((l) => l.id === layerId);
+      if (!layer) return;
+
+      get().transaction(describeLayerUpdate(updates), () => {
+        record({
+          type: "modify-layer",
+          layerId,
+          before: pickKeys(layer, Object.keys(updates)),
+          after: { ...updates },
+        });
+        set((state) => ({
+          layers: state.layers.map((l) =>
+            l.id === layerId ? { ...l, ...updates } : l,
+          ),
+        }));
+        markDocumentDirty();
+      });
     },
 
     reorderLayer: (fromIndex, toIndex) => {
-      set((state) => {
-        const newLayers = [...state.layers];
-        const [removed] = newLayers.splice(fromIndex, 1);
-        newLayers.splice(toIndex, 0, removed);
-        return { layers: newLayers };
+      const { layers } = get();
+      if (fromIndex === toIndex) return;
+      if (fromIndex < 0 || fromIndex >= layers.length) return;
+      if (toIndex < 0 || toIndex >= layers.length) return;
+
+      get().transaction("Reorder layer", () => {
+        record({ type: "reorder-layer", fromIndex, toIndex });
+        set((state) => {
+          const newLayers = [...state.layers];
+          const [removed] = newLayers.splice(fromIndex, 1);
+          newLayers.splice(toIndex, 0, removed);
+          return { layers: newLayers };
+        });
+        markDocumentDirty();
       });
-      markDocumentDirty();
     },
 
     // ---- Object actions ----
 
-    addObject: (layerId, object, index) => {
+    addObject: (layerId, object, index, parentId) => {
       set((state) => ({
-        layers: state.layers.map((layer) => {
-          if (layer.id !== layerId) return layer;
-          const objects = [...layer.objects];
-          if (index !== undefined) {
-            objects.splice(index, 0, object);
-          } else {
-            objects.push(object);
-          }
-          return { ...layer, objects };
-        }),
+        layers: insertIntoLayers(state.layers, layerId, parentId, object, index),
       }));
+      const loc = findObjectLocation(get().layers, object.id);
+      if (loc) {
+        record({
+          type: "add-object",
+          layerId,
+          object,
+          index: loc.index,
+          parentId: loc.parentId ?? undefined,
+        });
+      }
       markDocumentDirty();
     },
 
     removeObject: (objectId) => {
+      const loc = findObjectLocation(get().layers, objectId);
+      const object = get().getObject(objectId);
+      if (loc && object) {
+        record({
+          type: "remove-object",
+          layerId: loc.layerId,
+          object,
+          index: loc.index,
+          parentId: loc.parentId ?? undefined,
+        });
+      }
+
       set((state) => ({
-        layers: state.layers.map((layer) => ({
-          ...layer,
-          objects: layer.objects.filter((o) => o.id !== objectId),
-        })),
+        layers: removeFromLayers(state.layers, objectId),
         selectedObjectIds: state.selectedObjectIds.filter(
           (id) => id !== objectId,
         ),
@@ -175,18 +488,26 @@ export const useDocumentStore = create<DocumentState>((set, get) => {
     },
 
     updateObject: (objectId, updates) => {
+      const object = get().getObject(objectId);
+      const layerId = get().getObjectLayerId(objectId);
+      if (object && layerId) {
+        record({
+          type: "modify-object",
+          objectId,
+          layerId,
+          before: pickKeys(object, Object.keys(updates)),
+          after: { ...updates },
+        });
+      }
+
       set((state) => ({
-        layers: state.layers.map((layer) => ({
-          ...layer,
-          objects: layer.objects.map((obj) =>
-            obj.id === objectId ? ({ ...obj, ...updates } as VectorObject) : obj,
-          ),
-        })),
+        layers: patchInLayers(state.layers, objectId, updates),
       }));
       markDocumentDirty();
     },
 
     reorderObject: (layerId, fromIndex, toIndex) => {
+      record({ type: "reorder-object", layerId, fromIndex, toIndex });
       set((state) => ({
         layers: state.layers.map((layer) => {
           if (layer.id !== layerId) return layer;
@@ -199,6 +520,356 @@ export const useDocumentStore = create<DocumentState>((set, get) => {
       markDocumentDirty();
     },
 
+    // ---- Group actions ----
+
+    groupObjects: (objectIds) => {
+      const { layers } = get();
+
+      // Only siblings can share a group — use the container of the first id
+      const anchor = objectIds
+        .map((id) => findObjectLocation(layers, id))
+        .find((loc): loc is ObjectLocation => loc !== undefined);
+      if (!anchor) return null;
+
+      const members: Array<{ object: VectorObject; index: number }> = [];
+      for (const id of objectIds) {
+        const loc = findObjectLocation(layers, id);
+        const object = get().getObject(id);
+        if (!loc || !object || object.locked) continue;
+        if (loc.layerId !== anchor.layerId || loc.parentId !== anchor.parentId) {
+          continue;
+        }
+        if (members.some((m) => m.object.id === id)) continue;
+        members.push({ object, index: loc.index });
+      }
+      if (members.length === 0) return null;
+
+      // Preserve z-order: children bottom-first, group takes the top slot
+      members.sort((a, b) => a.index - b.index);
+      const group = buildGroup(
+        uuidv4(),
+        members.map((m) => m.object),
+      );
+      const parentId = anchor.parentId ?? undefined;
+
+      const operations: HistoryOperation[] = [...members]
+        .reverse()
+        .map((m) => ({
+          type: "remove-object" as const,
+          layerId: anchor.layerId,
+          object: m.object,
+          index: m.index,
+          parentId,
+        }));
+      operations.push({
+        type: "add-object",
+        layerId: anchor.layerId,
+        object: group,
+        index: members[members.length - 1].index - (members.length - 1),
+        parentId,
+      });
+
+      applyOperationsForward(get, set, operations);
+      set({ selectedObjectIds: [group.id] });
+      get().pushHistory("Group objects", [{ type: "batch", operations }]);
+
+      return group.id;
+    },
+
+    ungroupObjects: (groupIds) => {
+      const operations: HistoryOperation[] = [];
+      const releasedIds: string[] = [];
+
+      for (const groupId of groupIds) {
+        const group = get().getObject(groupId);
+        const loc = findObjectLocation(get().layers, groupId);
+        if (!group || group.type !== "group" || group.locked || !loc) continue;
+
+        const parentId = loc.parentId ?? undefined;
+        const children = releaseGroupChildren(group);
+        const groupOps: HistoryOperation[] = [
+          {
+            type: "remove-object",
+            layerId: loc.layerId,
+            object: group,
+            index: loc.index,
+            parentId,
+          },
+          ...children.map((child, i) => ({
+            type: "add-object" as const,
+            layerId: loc.layerId,
+            object: child,
+            index: loc.index + i,
+            parentId,
+          })),
+        ];
+
+        // Apply per group so the next group's location reflects this one
+        applyOperationsForward(get, set, groupOps);
+        operations.push(...groupOps);
+        releasedIds.push(...children.map((c) => c.id));
+      }
+
+      if (operations.length === 0) return [];
+
+      set({ selectedObjectIds: releasedIds });
+      get().pushHistory("Ungroup objects", [{ type: "batch", operations }]);
+
+      return releasedIds;
+    },
+
+    // ---- Path actions ----
+
+    combineObjects: (objectIds, operation) => {
+      const operands = placeShapeOperands(get().layers, objectIds);
+      if (!operands) return null;
+
+      const path = buildBooleanPath(operands.shapes, operation, uuidv4());
+      if (!path) return null;
+
+      replaceWithPath(get, BOOLEAN_DESCRIPTIONS[operation], operands, path);
+      set({ selectedObjectIds: [path.id] });
+
+      return path.id;
+    },
+
+    makeCompoundPath: (objectIds) => {
+      const operands = placeShapeOperands(get().layers, objectIds);
+      if (!operands) return null;
+
+      const path = buildCompoundPath(operands.shapes, uuidv4());
+      if (!path) return null;
+
+      replaceWithPath(get, "Make compound path", operands, path);
+      set({ selectedObjectIds: [path.id] });
+
+      return path.id;
+    },
+
+    releaseCompoundPath: (objectIds) => {
+      const releasedIds: string[] = [];
+
+      get().transaction("Release compound path", () => {
+        for (const id of objectIds) {
+          const object = get().getObject(id);
+          const loc = findObjectLocation(get().layers, id);
+          if (!object || object.locked || !loc || !isCompoundPath(object)) {
+            continue;
+          }
+
+          const parts = releaseCompoundPath(object, uuidv4);
+          get().removeObject(id);
+          parts.forEach((part, i) =>
+            get().addObject(loc.layerId, part, loc.index + i, loc.parentId ?? undefined),
+          );
+          releasedIds.push(...parts.map((part) => part.id));
+        }
+      });
+      if (releasedIds.length > 0) set({ selectedObjectIds: releasedIds });
+
+      return releasedIds;
+    },
+
+    eraseAlong: (from, to, radius) => {
+      const { layers } = get();
+      const sweep = brushSweepSegments(from, to, radius);
+      const changes: { object: VectorObject; rest: PathObject[] }[] = [];
+
+      for (const object of layers.flatMap(erasableObjects)) {
+        const worldMatrix = getWorldMatrix(layers, object.id);
+        const toLocal = worldMatrix && invertMatrix(worldMatrix);
+        if (!toLocal) continue;
+
+        const local = transformSegments(sweep, toLocal);
+        if (!boundsIntersect(getPathBounds(local), getLocalBounds(object))) continue;
+        const rest = eraseObject(object, segmentsToRegion(local, IDENTITY_MATRIX), uuidv4);
+        if (rest) changes.push({ object, rest });
+      }
+      if (changes.length === 0) return;
+
+      get().transaction("Erase", () => {
+        for (const { object, rest } of changes) {
+          // Paths erased to a single path keep their place and selection
+          if (object.type === "path" && rest.length === 1) {
+            const { segments, closed, fillRule } = rest[0];
+            get().updateObject(object.id, { segments, closed, fillRule });
+            continue;
+          }
+          const loc = findObjectLocation(get().layers, object.id);
+          if (!loc) continue;
+          get().removeObject(object.id);
+          rest.forEach((path, i) =>
+            get().addObject(loc.layerId, path, loc.index + i, loc.parentId ?? undefined),
+          );
+        }
+      });
+    },
+
+    fillRegion: (point, fill, gapTolerance) => {
+      const result = buildRegionFill(get().layers, point, fill, gapTolerance, uuidv4());
+      if (!result) return null;
+
+      const { path, location } = result;
+      get().transaction("Fill region", () => {
+        get().addObject(
+          location.layerId,
+          path,
+          location.index,
+          location.parentId ?? undefined,
+        );
+      });
+
+      return path.id;
+    },
+
+    alignObjects: (objectIds, edge, target) => {
+      const items = placedBounds(get, objectIds);
+      return moveBy(get, "Align objects", alignOffsets(items, edge, target));
+    },
+
+    distributeObjects: (objectIds, axis) => {
+      const items = placedBounds(get, objectIds);
+      return moveBy(get, "Distribute objects", distributeOffsets(items, axis));
+    },
+
+    flipObjects: (objectIds, axis) => {
+      const objects = objectIds
+        .map((id) => get().getObject(id))
+        .filter((obj): obj is VectorObject => obj !== undefined && !obj.locked);
+      if (objects.length === 0) return false;
+
+      const bounds = mergeBounds(objects.map(getWorldBounds));
+      const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+      const description = axis === "horizontal" ? "Flip horizontal" : "Flip vertical";
+      get().transaction(description, () => {
+        for (const obj of objects) {
+          get().updateObject(obj.id, { transform: flipTransform(obj.transform, axis, center) });
+        }
+      });
+
+      return true;
+    },
+
+    updateAppearance: (objectIds, property, description, updates, options) => {
+      const changes = objectIds
+        .map((id) => get().getObject(id))
+        .filter((obj): obj is VectorObject =>
+          obj !== undefined && !obj.locked && hasAppearance(obj, property),
+        )
+        .map((obj) => ({ id: obj.id, updates: updates(obj) }))
+        .filter((change) => change.updates !== null);
+      if (changes.length === 0) return false;
+
+      get().transaction(
+        description,
+        () => {
+          for (const change of changes) get().updateObject(change.id, change.updates!);
+        },
+        options,
+      );
+
+      return true;
+    },
+
+    simplifyPaths: (objectIds, tolerance) => {
+      const counts = { before: 0, after: 0 };
+      const changes = new Map<string, PathSegment[]>();
+      for (const id of objectIds) {
+        const object = get().getObject(id);
+        if (!object || object.locked || object.type !== "path") continue;
+        const segments = simplifySegments(object.segments, tolerance);
+        counts.before += countAnchors(object.segments);
+        counts.after += countAnchors(segments);
+        if (segments !== object.segments) changes.set(id, segments);
+      }
+      if (changes.size === 0) return counts;
+
+      get().transaction("Simplify path", () => {
+        for (const [id, segments] of changes) get().updateObject(id, { segments });
+      });
+
+      return counts;
+    },
+
+    convertToPath: (objectIds) => {
+      const replacements = new Map<string, VectorObject>();
+      for (const id of objectIds) {
+        const object = get().getObject(id);
+        if (!object || object.locked) continue;
+        const path = shapeToPath(object, uuidv4());
+        if (path) replacements.set(id, path);
+      }
+      if (replacements.size === 0) return [];
+
+      const selection = get().selectedObjectIds.map(
+        (id) => replacements.get(id)?.id ?? id,
+      );
+      get().transaction("Convert to path", () => {
+        for (const [id, path] of replacements) {
+          const loc = findObjectLocation(get().layers, id);
+          if (!loc) continue;
+          get().removeObject(id);
+          get().addObject(loc.layerId, path, loc.index, loc.parentId ?? undefined);
+        }
+      });
+      set({ selectedObjectIds: selection });
+
+      return [...replacements.values()].map((path) => path.id);
+    },
+
+    // ---- Clipboard actions ----
+
+    pasteObjects: (objects, offset = { x: 0, y: 0 }, description = "Paste") => {
+      const layer = get().getActiveLayer();
+      if (!layer || layer.locked || objects.length === 0) return [];
+
+      const pasted = objects.map((obj) => {
+        const copy = cloneWithNewIds(obj, uuidv4);
+        copy.transform = {
+          ...copy.transform,
+          x: copy.transform.x + offset.x,
+          y: copy.transform.y + offset.y,
+        };
+        return copy;
+      });
+
+      get().transaction(description, () => {
+        for (const obj of pasted) get().addObject(layer.id, obj);
+      });
+      set({ selectedObjectIds: pasted.map((obj) => obj.id) });
+
+      return pasted.map((obj) => obj.id);
+    },
+
+    duplicateObjects: (objectIds, offset = { x: 0, y: 0 }) => {
+      const ids: string[] = [];
+
+      get().transaction("Duplicate", () => {
+        for (const id of objectIds) {
+          const object = get().getObject(id);
+          const loc = get().getObjectLocation(id);
+          if (!object || !loc) continue;
+
+          const copy = cloneWithNewIds(object, uuidv4);
+          copy.transform = {
+            ...copy.transform,
+            x: copy.transform.x + offset.x,
+            y: copy.transform.y + offset.y,
+          };
+          get().addObject(
+            loc.layerId,
+            copy,
+            loc.index + 1,
+            loc.parentId ?? undefined,
+          );
+          ids.push(copy.id);
+        }
+      });
+      if (ids.length > 0) set({ selectedObjectIds: ids });
+
+      return ids;
+    },
+
     // ---- Selection actions ----
 
     selectObject: (objectId, addToSelection = false) => {
@@ -248,6 +919,12 @@ export const useDocumentStore = create<DocumentState>((set, get) => {
     pushHistory: (description, operations) => {
       if (operations.length === 0) return;
 
+      // Inside a transaction, hand-built operations join the open entry
+      if (pending) {
+        for (const op of operations) recordOperation(pending.operations, op, pending.foldFrom);
+        return;
+      }
+
       const entry: HistoryEntry = {
         id: uuidv4(),
         operations,
@@ -277,7 +954,71 @@ export const useDocumentStore = create<DocumentState>((set, get) => {
       markDocumentDirty();
     },
 
+    transaction: (description, fn, options) => {
+      const outermost = pending === null;
+      const lastEntryId = get().history[get().historyIndex]?.id;
+      get().beginTransaction(description);
+      const mark = pending!.operations.length;
+      const outerFoldFrom = pending!.foldFrom;
+      pending!.foldFrom = mark;
+      let result: ReturnType<typeof fn>;
+      try {
+        result = fn();
+      } catch (error) {
+        const rolledBack = pending!.operations.splice(mark);
+        applyOperationsReverse(get, set, rolledBack);
+        if (pending!.depth === 1) {
+          pending = null;
+        } else {
+          pending!.depth--;
+          pending!.foldFrom = outerFoldFrom;
+        }
+        throw error;
+      }
+      // Succeeded: its operations fold into the enclosing ones as usual
+      const nested = pending!.operations.splice(mark);
+      pending!.foldFrom = outerFoldFrom;
+      for (const op of nested) recordOperation(pending!.operations, op, outerFoldFrom);
+      get().commitTransaction();
+      const newEntry = get().history[get().historyIndex];
+      if (outermost && options?.coalesce && newEntry && newEntry.id !== lastEntryId) {
+        coalesceLastEntry(options.coalesce);
+      }
+      return result;
+    },
+
+    beginTransaction: (description) => {
+      if (pending) {
+        pending.depth++;
+        return;
+      }
+      pending = { description, operations: [], depth: 1, foldFrom: 0 };
+    },
+
+    commitTransaction: () => {
+      if (!pending) return;
+      if (pending.depth > 1) {
+        pending.depth--;
+        return;
+      }
+      const { description, operations } = pending;
+      pending = null;
+      get().pushHistory(description, operations);
+    },
+
+    cancelTransaction: () => {
+      if (!pending) return;
+      const { operations } = pending;
+      pending = null;
+      applyOperationsReverse(get, set, operations);
+      markDocumentDirty();
+    },
+
+    isInTransaction: () => pending !== null,
+
     undo: () => {
+      // Finish an in-flight drag before stepping back
+      get().commitTransaction();
       const { history, historyIndex } = get();
       if (historyIndex < 0) return;
 
@@ -288,6 +1029,7 @@ export const useDocumentStore = create<DocumentState>((set, get) => {
     },
 
     redo: () => {
+      get().commitTransaction();
       const { history, historyIndex } = get();
       if (historyIndex >= history.length - 1) return;
 
@@ -302,7 +1044,80 @@ export const useDocumentStore = create<DocumentState>((set, get) => {
       const { history, historyIndex } = get();
       return historyIndex < history.length - 1;
     },
-    clearHistory: () => set({ history: [], historyIndex: -1 }),
+    clearHistory: () => set({ history: [], historyIndex: -1, checkpoints: [] }),
+
+    jumpToHistory: (index) => {
+      get().commitTransaction();
+      const target = Math.max(-1, Math.min(index, get().history.length - 1));
+      while (get().historyIndex > target) get().undo();
+      while (get().historyIndex < target) get().redo();
+    },
+
+    // ---- Checkpoint actions ----
+
+    addCheckpoint: (name) => {
+      get().commitTransaction();
+      const { history, historyIndex, layers, activeLayerId } = get();
+      const checkpoint: HistoryCheckpoint = {
+        id: uuidv4(),
+        name: name.trim() || `Checkpoint ${get().checkpoints.length + 1}`,
+        timestamp: Date.now(),
+        historyEntryId: history[historyIndex]?.id ?? null,
+        layers,
+        activeLayerId,
+      };
+      set((state) => ({ checkpoints: [...state.checkpoints, checkpoint] }));
+      return checkpoint.id;
+    },
+
+    removeCheckpoint: (checkpointId) => {
+      set((state) => ({
+        checkpoints: state.checkpoints.filter((c) => c.id !== checkpointId),
+      }));
+    },
+
+    restoreCheckpoint: (checkpointId) => {
+      const checkpoint = get().checkpoints.find((c) => c.id === checkpointId);
+      if (!checkpoint) return;
+
+      // Prefer walking history so redo stays available
+      const entryIndex = get().history.findIndex(
+        (entry) => entry.id === checkpoint.historyEntryId,
+      );
+      if (entryIndex >= 0) {
+        get().jumpToHistory(entryIndex);
+        return;
+      }
+
+      // Entry was trimmed (or predates history) — swap in the snapshot
+      get().commitTransaction();
+      const { layers, activeLayerId } = get();
+      const operations: HistoryOperation[] = [];
+      for (let i = layers.length - 1; i >= 0; i--) {
+        operations.push({
+          type: "remove-layer",
+          layer: layers[i],
+          index: i,
+          activeLayerBefore: activeLayerId,
+          activeLayerAfter: checkpoint.activeLayerId,
+        });
+      }
+      checkpoint.layers.forEach((layer, index) => {
+        operations.push({
+          type: "add-layer",
+          layer,
+          index,
+          activeLayerBefore: activeLayerId,
+          activeLayerAfter: checkpoint.activeLayerId,
+        });
+      });
+
+      applyOperationsForward(get, set, operations);
+      set({ selectedObjectIds: [] });
+      get().pushHistory(`Restore "${checkpoint.name}"`, [
+        { type: "batch", operations },
+      ]);
+    },
 
     // ---- Helpers ----
 
@@ -322,6 +1137,8 @@ export const useDocumentStore = create<DocumentState>((set, get) => {
       return undefined;
     },
 
+    getObjectLocation: (objectId) => findObjectLocation(get().layers, objectId),
+
     getActiveLayer: () => {
       const { layers, activeLayerId } = get();
       return layers.find((l) => l.id === activeLayerId);
@@ -335,11 +1152,7 @@ export const useDocumentStore = create<DocumentState>((set, get) => {
       const result: VectorObject[] = [];
 
       for (const layer of layers) {
-        for (const obj of layer.objects) {
-          if (selectedSet.has(obj.id)) {
-            result.push(obj);
-          }
-        }
+        collectObjects(layer.objects, selectedSet, result);
       }
 
       return result;
@@ -355,6 +1168,9 @@ export const useDocumentStore = create<DocumentState>((set, get) => {
         selectedObjectIds: [],
         history: [],
         historyIndex: -1,
+        checkpoints: [],
+        grid: createGridSettings(),
+        guides: [],
       });
 
       // Also update canvas size in canvasStore (if it exists)
@@ -363,16 +1179,53 @@ export const useDocumentStore = create<DocumentState>((set, get) => {
       void height;
     },
 
-    loadDocument: (layers, activeLayerId) => {
+    loadDocument: (layers, activeLayerId, saved, settings) => {
       set({
         layers,
         activeLayerId,
         selectedObjectIds: [],
-        history: [],
-        historyIndex: -1,
+        history: saved?.history ?? [],
+        historyIndex: saved?.historyIndex ?? -1,
+        checkpoints: [],
+        grid: settings?.grid ?? createGridSettings(),
+        guides: settings?.guides ?? [],
       });
     },
 
+    setGrid: (updates) => {
+      set((state) => ({ grid: { ...state.grid, ...updates } }));
+      markDocumentDirty();
+    },
+
+    addGuide: (axis, position) => {
+      const id = uuidv4();
+      set((state) => ({ guides: [...state.guides, { id, axis, position, locked: false }] }));
+      markDocumentDirty();
+      return id;
+    },
+
+    updateGuide: (id, updates) => {
+      set((state) => ({
+        guides: state.guides.map((g) => (g.id === id ? { ...g, ...updates } : g)),
+      }));
+      markDocumentDirty();
+    },
+
+    removeGuide: (id) => {
+      set((state) => ({ guides: state.guides.filter((g) => g.id !== id) }));
+      markDocumentDirty();
+    },
+
+    lockGuides: (locked) => {
+      set((state) => ({ guides: state.guides.map((g) => ({ ...g, locked })) }));
+      markDocumentDirty();
+    },
+
+    clearGuides: () => {
+      set({ guides: [] });
+      markDocumentDirty();
+    },
+
     clearActiveLayer: () => {
       const { layers, activeLayerId } = get();
       const layer = layers.find((l) => l.id === activeLayerId);
@@ -444,41 +1297,27 @@ function applyOperationReverse(
     case "add-object":
       // Undo add = remove
       setState((state) => ({
-        layers: state.layers.map((layer) =>
-          layer.id === op.layerId
-            ? { ...layer, objects: layer.objects.filter((o) => o.id !== op.object.id) }
-            : layer,
-        ),
+        layers: removeFromLayers(state.layers, op.object.id),
       }));
       break;
 
     case "remove-object":
       // Undo remove = re-insert at original index
       setState((state) => ({
-        layers: state.layers.map((layer) => {
-          if (layer.id !== op.layerId) return layer;
-          const objects = [...layer.objects];
-          objects.splice(op.index, 0, op.object);
-          return { ...layer, objects };
-        }),
+        layers: insertIntoLayers(
+          state.layers,
+          op.layerId,
+          op.parentId,
+          op.object,
+          op.index,
+        ),
       }));
       break;
 
     case "modify-object":
       // Undo modify = restore "before" properties
       setState((state) => ({
-        layers: state.layers.map((layer) =>
-          layer.id === op.layerId
-            ? {
-                ...layer,
-                objects: layer.objects.map((obj) =>
-                  obj.id === op.objectId
-                    ? ({ ...obj, ...op.before } as VectorObject)
-                    : obj,
-                ),
-              }
-            : layer,
-        ),
+        layers: patchInLayers(state.layers, op.objectId, op.before),
       }));
       break;
 
@@ -495,11 +1334,27 @@ function applyOperationReverse(
       }));
       break;
 
+    case "reorder-layer":
+      setState((state) => {
+        const layers = [...state.layers];
+        const [removed] = layers.splice(op.toIndex, 1);
+        layers.splice(op.fromIndex, 0, removed);
+        return { layers };
+      });
+      break;
+
     case "add-layer":
       // Undo add layer = remove it
-      setState((state) => ({
-        layers: state.layers.filter((l) => l.id !== op.layer.id),
-      }));
+      setState((state) => {
+        const layers = state.layers.filter((l) => l.id !== op.layer.id);
+        return {
+          layers,
+          activeLayerId: resolveActiveLayer(
+            layers,
+            op.activeLayerBefore ?? state.activeLayerId,
+          ),
+        };
+      });
       break;
 
     case "remove-layer":
@@ -507,7 +1362,13 @@ function applyOperationReverse(
       setState((state) => {
         const layers = [...state.layers];
         layers.splice(op.index, 0, op.layer);
-        return { layers };
+        return {
+          layers,
+          activeLayerId: resolveActiveLayer(
+            layers,
+            op.activeLayerBefore ?? state.activeLayerId,
+          ),
+        };
       });
       break;
 
@@ -535,41 +1396,27 @@ function applyOperationForward(
     case "add-object":
       // Redo add = re-insert
       setState((state) => ({
-        layers: state.layers.map((layer) => {
-          if (layer.id !== op.layerId) return layer;
-          const objects = [...layer.objects];
-          objects.splice(op.index, 0, op.object);
-          return { ...layer, objects };
-        }),
+        layers: insertIntoLayers(
+          state.layers,
+          op.layerId,
+          op.parentId,
+          op.object,
+          op.index,
+        ),
       }));
       break;
 
     case "remove-object":
       // Redo remove = remove again
       setState((state) => ({
-        layers: state.layers.map((layer) =>
-          layer.id === op.layerId
-            ? { ...layer, objects: layer.objects.filter((o) => o.id !== op.object.id) }
-            : layer,
-        ),
+        layers: removeFromLayers(state.layers, op.object.id),
       }));
       break;
 
     case "modify-object":
       // Redo modify = apply "after" properties
       setState((state) => ({
-        layers: state.layers.map((layer) =>
-          layer.id === op.layerId
-            ? {
-                ...layer,
-                objects: layer.objects.map((obj) =>
-                  obj.id === op.objectId
-                    ? ({ ...obj, ...op.after } as VectorObject)
-                    : obj,
-                ),
-              }
-            : layer,
-        ),
+        layers: patchInLayers(state.layers, op.objectId, op.after),
       }));
       break;
 
@@ -586,18 +1433,40 @@ function applyOperationForward(
       }));
       break;
 
+    case "reorder-layer":
+      setState((state) => {
+        const layers = [...state.layers];
+        const [removed] = layers.splice(op.fromIndex, 1);
+        layers.splice(op.toIndex, 0, removed);
+        return { layers };
+      });
+      break;
+
     case "add-layer":
       setState((state) => {
         const layers = [...state.layers];
         layers.splice(op.index, 0, op.layer);
-        return { layers };
+        return {
+          layers,
+          activeLayerId: resolveActiveLayer(
+            layers,
+            op.activeLayerAfter ?? state.activeLayerId,
+          ),
+        };
       });
       break;
 
     case "remove-layer":
-      setState((state) => ({
-        layers: state.layers.filter((l) => l.id !== op.layer.id),
-      }));
+      setState((state) => {
+        const layers = state.layers.filter((l) => l.id !== op.layer.id);
+        return {
+          layers,
+          activeLayerId: resolveActiveLayer(
+            layers,
+            op.activeLayerAfter ?? state.activeLayerId,
+          ),
+        };
+      });
       break;
 
     case "modify-layer":
@@ -615,19 +1484,233 @@ function applyOperationForward(
 }
 
 // ============================================
-// Scene graph traversal helpers
+// Transaction recording helpers
 // ============================================
 
-function findObjectInList(
-  objects: VectorObject[],
-  objectId: string,
-): VectorObject | undefined {
-  for (const obj of objects) {
-    if (obj.id === objectId) return obj;
-    if (obj.type === "group") {
-      const found = findObjectInList(obj.children, objectId);
-      if (found) return found;
+/**
+ * Append an operation to a transaction, folding repeated modifications of the
+ * same object or layer into one op so a drag records a single before/after.
+ * Only ops from `foldFrom` on are folded into.
+ */
+function recordOperation(
+  operations: HistoryOperation[],
+  op: HistoryOperation,
+  foldFrom = 0,
+): void {
+  if (op.type === "modify-object" || op.type === "modify-layer") {
+    const targetId = op.type === "modify-object" ? op.objectId : op.layerId;
+    for (let i = operations.length - 1; i >= foldFrom; i--) {
+      const prev = operations[i];
+      if (touchesStructure(prev, targetId)) break;
+      const prevId =
+        prev.type === "modify-object"
+          ? prev.objectId
+          : prev.type === "modify-layer"
+            ? prev.layerId
+            : null;
+      if (prev.type === op.type && prevId === targetId) {
+        for (const key of Object.keys(op.before)) {
+          if (!(key in prev.before)) prev.before[key] = op.before[key];
+        }
+        Object.assign(prev.after, op.after);
+        return;
+      }
     }
   }
-  return undefined;
+  operations.push(op);
+}
+
+/** Whether `op` adds, removes or moves the object/layer with `id` */
+function touchesStructure(op: HistoryOperation, id: string): boolean {
+  switch (op.type) {
+    case "add-object":
+    case "remove-object":
+      return op.object.id === id;
+    case "add-layer":
+    case "remove-layer":
+      return op.layer.id === id;
+    case "batch":
+      return op.operations.some((inner) => touchesStructure(inner, id));
+    default:
+      return false;
+  }
+}
+
+/** Keep `preferred` active if it still exists, else fall back to the top layer */
+function resolveActiveLayer(layers: VectorLayer[], preferred: string): string {
+  if (layers.some((l) => l.id === preferred)) return preferred;
+  return layers[layers.length - 1]?.id ?? preferred;
+}
+
+function describeLayerUpdate(
+  updates: Partial<Omit<VectorLayer, "id" | "objects">>,
+): string {
+  const keys = Object.keys(updates);
+  if (keys.length !== 1) return "Change layer";
+  switch (keys[0]) {
+    case "name":
+      return "Rename layer";
+    case "visible":
+      return updates.visible ? "Show layer" : "Hide layer";
+    case "locked":
+      return updates.locked ? "Lock layer" : "Unlock layer";
+    case "opacity":
+      return "Change layer opacity";
+    default:
+      return "Change layer";
+  }
+}
+
+function pickKeys(
+  source: object,
+  keys: string[],
+): Record<string, unknown> {
+  const values = source as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const key of keys) result[key] = values[key];
+  return result;
+}
+
+// ============================================
+// Path operation helpers
+// ============================================
+
+interface ShapeOperands {
+  /** Unlocked shapes in render order, mapped into the result's container */
+  shapes: PlacedShape[];
+  /** Location of the topmost shape — the result takes its place */
+  location: ObjectLocation;
+}
+
+/** Operands for a path operation, or null when fewer than two qualify */
+function placeShapeOperands(
+  layers: VectorLayer[],
+  objectIds: string[],
+): ShapeOperands | null {
+  const ids = new Set(objectIds);
+  const objects = layers
+    .flatMap((layer) => collectObjects(layer.objects, ids))
+    .filter((obj) => isBooleanOperand(obj) && !obj.locked);
+  if (objects.length < 2) return null;
+
+  const location = findObjectLocation(layers, objects[objects.length - 1].id);
+  if (!location) return null;
+  const parentMatrix = location.parentId
+    ? getWorldMatrix(layers, location.parentId)
+    : IDENTITY_MATRIX;
+  const toContainer = parentMatrix && invertMatrix(parentMatrix);
+  if (!toContainer) return null;
+
+  return {
+    location,
+    shapes: objects.map((object) => ({
+      object,
+      matrix: multiplyMatrix(toContainer, getWorldMatrix(layers, object.id)!),
+    })),
+  };
+}
+
+/** Visible, unlocked shapes of a layer the eraser can cut, inside groups too */
+function erasableObjects(layer: VectorLayer): VectorObject[] {
+  if (!layer.visible || layer.locked) return [];
+  const visit = (objects: VectorObject[]): VectorObject[] =>
+    objects.flatMap((obj) => {
+      if (!obj.visible || obj.locked) return [];
+      return obj.type === "group" ? visit(obj.children) : [obj];
+    });
+  return visit(layer.objects);
+}
+
+/** Swap operands for their combined path as one history entry */
+function replaceWithPath(
+  get: () => DocumentState,
+  description: string,
+  { shapes, location }: ShapeOperands,
+  path: PathObject,
+): void {
+  get().transaction(description, () => {
+    get().addObject(
+      location.layerId,
+      path,
+      location.index + 1,
+      location.parentId ?? undefined,
+    );
+    for (const { object } of shapes) get().removeObject(object.id);
+  });
+}
+
+/** World bounds of the unlocked objects among `objectIds` */
+function placedBounds(get: () => DocumentState, objectIds: string[]): PlacedBounds[] {
+  return objectIds.flatMap((id) => {
+    const obj = get().getObject(id);
+    return obj && !obj.locked ? [{ id, bounds: getWorldBounds(obj) }] : [];
+  });
+}
+
+/** Shift objects by their offsets as one history entry; false when none move */
+function moveBy(
+  get: () => DocumentState,
+  description: string,
+  offsets: Map<string, Point2D>,
+): boolean {
+  const moves = [...offsets].filter(
+    ([, d]) => Math.abs(d.x) > MOVE_EPSILON || Math.abs(d.y) > MOVE_EPSILON,
+  );
+  if (moves.length === 0) return false;
+
+  get().transaction(description, () => {
+    for (const [id, d] of moves) {
+      const { transform } = get().getObject(id)!;
+      get().updateObject(id, {
+        transform: { ...transform, x: transform.x + d.x, y: transform.y + d.y },
+      });
+    }
+  });
+  return true;
+}
+
+// ============================================
+// Scene graph mutation helpers
+// ============================================
+
+function insertIntoLayers(
+  layers: VectorLayer[],
+  layerId: string,
+  parentId: string | undefined,
+  object: VectorObject,
+  index?: number,
+): VectorLayer[] {
+  return layers.map((layer) =>
+    layer.id === layerId
+      ? {
+          ...layer,
+          objects: insertObjectInList(layer.objects, parentId ?? null, object, index),
+        }
+      : layer,
+  );
+}
+
+function removeFromLayers(
+  layers: VectorLayer[],
+  objectId: string,
+): VectorLayer[] {
+  return layers.map((layer) => {
+    const objects = removeObjectFromList(layer.objects, objectId);
+    return objects === layer.objects ? layer : { ...layer, objects };
+  });
+}
+
+function patchInLayers(
+  layers: VectorLayer[],
+  objectId: string,
+  updates: Record<string, unknown>,
+): VectorLayer[] {
+  return layers.map((layer) => {
+    const objects = mapObjectInList(
+      layer.objects,
+      objectId,
+      (obj) => ({ ...obj, ...updates }) as VectorObject,
+    );
+    return objects === layer.objects ? layer : { ...layer, objects };
+  });
 }
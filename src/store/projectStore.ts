@@ -8,6 +8,8 @@ interface ProjectState {
   projects: ProjectDocument[];
   loading: boolean;
   error: string | null;
+  /** Non-blocking message for the user, e.g. repairs made while loading */
+  notice: string | null;
 
   // Current project
   currentProjectId: string | null;
@@ -30,6 +32,7 @@ interface ProjectState {
   setCurrentProject: (projectId: string | null, name: string | null) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
+  setNotice: (notice: string | null) => void;
 
   setSyncStatus: (status: SyncStatus) => void;
   setLastSyncTime: (time: number | null) => void;
@@ -44,6 +47,7 @@ const initialState = {
   projects: [],
   loading: false,
   error: null,
+  notice: null,
   currentProjectId: null,
   currentProjectName: null,
   syncStatus: "synced" as SyncStatus,
@@ -90,6 +94,7 @@ export const useProjectStore = create<ProjectState>((set) => ({
 
   setLoading: (loading) => set({ loading }),
   setError: (error) => set({ error, loading: false }),
+  setNotice: (notice) => set({ notice }),
 
   // Sync status actions
   setSyncStatus: (syncStatus) => set({ syncStatus }),
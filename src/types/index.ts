@@ -9,7 +9,8 @@ export type ToolType =
   | "fill"
   | "eyedropper"
   | "text"
-  | "selection";
+  | "selection"
+  | "direct-selection";
 
 export type BlendMode =
   | "source-over"
@@ -21,6 +22,12 @@ export type BlendMode =
 
 export type BrushShape = "round" | "square";
 
+/** Fill tool: recolor the object under the cursor, or fill the enclosed area */
+export type FillMode = "object" | "region";
+
+/** What Align lines objects up on: their combined bounds, the first selected, or the artboard */
+export type AlignTarget = "selection" | "key" | "artboard";
+
 export interface Point {
   x: number;
   y: number;
@@ -77,6 +84,17 @@ export interface ShapeOptions {
   strokeWidth: number;
 }
 
+/** Variable-width brush: width follows pen pressure between min and max */
+export interface BrushOptions {
+  minWidth: number;
+  maxWidth: number;
+  /** Length (px) over which the stroke narrows to a point at each end */
+  taperStart: number;
+  taperEnd: number;
+  /** Curve-fitting tolerance (px): low follows the input closely, high smooths */
+  fidelity: number;
+}
+
 export interface TextOptions {
   fontFamily: string;
   fontSize: number;
@@ -8,11 +8,16 @@ export interface Point2D {
   y: number;
 }
 
-/** Object transform in local coordinate space */
+/**
+ * Object transform in local coordinate space. Applied as translate, rotate,
+ * skewX, skewY, scale — the order of the SVG transform list.
+ */
 export interface Transform2D {
   x: number;
   y: number;
   rotation: number; // degrees
+  skewX: number; // degrees
+  skewY: number; // degrees
   scaleX: number;
   scaleY: number;
 }
@@ -58,6 +63,9 @@ export interface RadialGradientFill {
 
 export type Fill = SolidFill | LinearGradientFill | RadialGradientFill;
 
+/** How a path's overlapping subpaths are filled (as in SVG and Canvas2D) */
+export type FillRule = "nonzero" | "evenodd";
+
 // ---- Stroke type ----
 
 export interface StrokeStyle {
@@ -152,8 +160,10 @@ export interface EllipseObject extends BaseVectorObject {
 
 export interface PathObject extends BaseVectorObject {
   type: "path";
+  /** One or more subpaths, each starting with `M` (compound when several) */
   segments: PathSegment[];
   closed: boolean;
+  fillRule: FillRule;
 }
 
 export interface LineObject extends BaseVectorObject {
@@ -214,11 +224,53 @@ export interface VectorLayer {
   objects: VectorObject[];
 }
 
+// ---- Document settings ----
+
+/** Per-document grid; snapping uses the minor step (spacing / subdivisions) */
+export interface GridSettings {
+  visible: boolean;
+  snap: boolean;
+  /** Distance between major lines in px */
+  spacing: number;
+  /** Minor cells per major cell; 1 draws major lines only */
+  subdivisions: number;
+  /** Major line color (`#rrggbb`); minor lines are drawn fainter */
+  color: string;
+}
+
+/**
+ * Ruler guide: an infinite line objects snap to. `axis` "x" is a vertical
+ * line at x = `position`, "y" a horizontal one.
+ */
+export interface RulerGuide {
+  id: string;
+  axis: "x" | "y";
+  position: number;
+  /** Locked guides can't be dragged or deleted from the canvas */
+  locked: boolean;
+}
+
 // ---- History ----
 
+/**
+ * `parentId` on add/remove targets a group's `children` instead of the layer's
+ * top-level `objects`; `index` is relative to that container.
+ */
 export type HistoryOperation =
-  | { type: "add-object"; layerId: string; object: VectorObject; index: number }
-  | { type: "remove-object"; layerId: string; object: VectorObject; index: number }
+  | {
+      type: "add-object";
+      layerId: string;
+      object: VectorObject;
+      index: number;
+      parentId?: string;
+    }
+  | {
+      type: "remove-object";
+      layerId: string;
+      object: VectorObject;
+      index: number;
+      parentId?: string;
+    }
   | {
       type: "modify-object";
       objectId: string;
@@ -227,8 +279,22 @@ export type HistoryOperation =
       after: Record<string, unknown>;
     }
   | { type: "reorder-object"; layerId: string; fromIndex: number; toIndex: number }
-  | { type: "add-layer"; layer: VectorLayer; index: number }
-  | { type: "remove-layer"; layer: VectorLayer; index: number }
+  | {
+      type: "add-layer";
+      layer: VectorLayer;
+      index: number;
+      /** Active layer to restore on undo / redo */
+      activeLayerBefore?: string;
+      activeLayerAfter?: string;
+    }
+  | { type: "reorder-layer"; fromIndex: number; toIndex: number }
+  | {
+      type: "remove-layer";
+      layer: VectorLayer;
+      index: number;
+      activeLayerBefore?: string;
+      activeLayerAfter?: string;
+    }
   | {
       type: "modify-layer";
       layerId: string;
@@ -244,10 +310,24 @@ export interface HistoryEntry {
   description: string;
 }
 
+/**
+ * User-pinned document state. Keeps its own layer snapshot so it can be
+ * restored after the entry it points at has been trimmed from history.
+ */
+export interface HistoryCheckpoint {
+  id: string;
+  name: string;
+  timestamp: number;
+  /** History entry that was current when pinned (null = before any entry) */
+  historyEntryId: string | null;
+  layers: VectorLayer[];
+  activeLayerId: string;
+}
+
 // ---- Factory helpers ----
 
 export function createTransform(x = 0, y = 0): Transform2D {
-  return { x, y, rotation: 0, scaleX: 1, scaleY: 1 };
+  return { x, y, rotation: 0, skewX: 0, skewY: 0, scaleX: 1, scaleY: 1 };
 }
 
 export function createSolidFill(color = "#000000", opacity = 1): SolidFill {
@@ -279,3 +359,13 @@ export function createLayer(id: string, name: string): VectorLayer {
     objects: [],
   };
 }
+
+export function createGridSettings(): GridSettings {
+  return {
+    visible: false,
+    snap: false,
+    spacing: 40,
+    subdivisions: 4,
+    color: "#94a3b8",
+  };
+}